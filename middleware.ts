@@ -1,9 +1,18 @@
 ﻿import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
+import { refreshSession } from "./src/lib/session";
 
 const PUBLIC_PATHS = new Set(["/", "/definir-senha", "/solicitar-acesso"]);
 const AUTH_PATH_PREFIXES = ["/admin", "/dashboard"];
-const API_PROTECTED_PREFIXES = ["/api/clients", "/api/importar-extrato"];
+const API_PROTECTED_PREFIXES = [
+  "/api/cash-entries",
+  "/api/clients",
+  "/api/importar-extrato",
+  "/api/importar-notas",
+  "/api/import-profiles",
+  "/api/ledger-categories",
+  "/api/users",
+];
 const SESSION_COOKIE_NAME = "dbcont_session";
 
 function isProtectedPath(pathname: string) {
@@ -91,7 +100,18 @@ export async function middleware(request: NextRequest) {
   }
 
   const token = request.cookies.get(SESSION_COOKIE_NAME)?.value ?? "";
-  const session = token ? await decodeSession(token) : null;
+  let session = token ? await decodeSession(token) : null;
+
+  // Páginas relêem o usuário do banco antes de decidir o destino; as rotas da
+  // API já fazem isso na autorização. Sessão encerrada volta ao login sem o cookie.
+  if (session && !pathname.startsWith("/api")) {
+    session = await refreshSession(session);
+    if (!session) {
+      const response = pathname === "/" ? NextResponse.next() : NextResponse.redirect(new URL("/", request.url));
+      response.cookies.delete(SESSION_COOKIE_NAME);
+      return response;
+    }
+  }
 
   if (session) {
     if (pathname === "/") {
@@ -99,7 +119,10 @@ export async function middleware(request: NextRequest) {
       return NextResponse.redirect(new URL(destination, request.url));
     }
   } else {
-    if (!PUBLIC_PATHS.has(pathname) && (isProtectedPath(pathname) || isProtectedApi(pathname))) {
+    if (isProtectedApi(pathname)) {
+      return NextResponse.json({ error: "Não autorizado." }, { status: 401 });
+    }
+    if (!PUBLIC_PATHS.has(pathname) && isProtectedPath(pathname)) {
       const loginUrl = new URL("/", request.url);
       return NextResponse.redirect(loginUrl);
     }
@@ -117,5 +140,7 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
+  // A releitura da sessão usa o Prisma, que não roda no runtime edge.
+  runtime: "nodejs",
   matcher: ["/((?!.*\\.).*)"],
 };
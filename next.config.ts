@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // O unpdf carrega o PDF.js sob demanda; empacotá-lo quebra esse import.
+  serverExternalPackages: ["unpdf"],
 };
 
 export default nextConfig;
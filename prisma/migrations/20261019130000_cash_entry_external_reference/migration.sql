@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "CashEntry" ADD COLUMN     "externalReference" TEXT,
+ADD COLUMN     "sourceAccount" TEXT NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CashEntry_companyId_sourceAccount_externalReference_key" ON "CashEntry"("companyId", "sourceAccount", "externalReference");
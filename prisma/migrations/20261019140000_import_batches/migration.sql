@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "CashEntry" ADD COLUMN     "importBatchId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ImportBatch" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "userId" INTEGER,
+    "filename" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "bankId" TEXT,
+    "branchId" TEXT,
+    "accountId" TEXT,
+    "accountType" TEXT,
+    "rowCount" INTEGER NOT NULL,
+    "totalIncome" DECIMAL(14,2) NOT NULL,
+    "totalExpense" DECIMAL(14,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImportBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_companyId_createdAt_idx" ON "ImportBatch"("companyId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CashEntry_importBatchId_idx" ON "CashEntry"("importBatchId");
+
+-- AddForeignKey
+ALTER TABLE "CashEntry" ADD CONSTRAINT "CashEntry_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImportBatch" ADD CONSTRAINT "ImportBatch_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImportBatch" ADD CONSTRAINT "ImportBatch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ImportProfile" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "bank" TEXT,
+    "delimiter" TEXT NOT NULL,
+    "encoding" TEXT NOT NULL,
+    "dateFormat" TEXT NOT NULL,
+    "headerRow" INTEGER NOT NULL DEFAULT 0,
+    "signConvention" TEXT NOT NULL,
+    "debitIndicators" TEXT[],
+    "columns" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportProfile_name_key" ON "ImportProfile"("name");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "CategorizationRule" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "descriptionPattern" TEXT,
+    "descriptionIsRegex" BOOLEAN NOT NULL DEFAULT false,
+    "counterpartPattern" TEXT,
+    "minAmount" DECIMAL(14,2),
+    "maxAmount" DECIMAL(14,2),
+    "paymentMethod" TEXT,
+    "setMovement" "MovementCategory",
+    "setType" "ActivityType",
+    "setProductService" TEXT,
+    "setCounterpart" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategorizationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategorizationRule_companyId_priority_idx" ON "CategorizationRule"("companyId", "priority");
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "MovementCategory" ADD VALUE 'TRANSFERENCIA';
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "BankAccountType" AS ENUM ('CORRENTE', 'POUPANCA', 'CARTAO_CREDITO', 'INVESTIMENTO', 'CAIXA');
+
+-- AlterTable
+ALTER TABLE "CashEntry" ADD COLUMN     "bankAccountId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "BankAccount" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "BankAccountType" NOT NULL DEFAULT 'CORRENTE',
+    "bankId" TEXT,
+    "branchId" TEXT,
+    "accountId" TEXT,
+    "openingBalance" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "openingDate" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BankAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BankAccount_companyId_idx" ON "BankAccount"("companyId");
+
+-- CreateIndex
+CREATE INDEX "CashEntry_bankAccountId_idx" ON "CashEntry"("bankAccountId");
+
+-- AddForeignKey
+ALTER TABLE "CashEntry" ADD CONSTRAINT "CashEntry_bankAccountId_fkey" FOREIGN KEY ("bankAccountId") REFERENCES "BankAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankAccount" ADD CONSTRAINT "BankAccount_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
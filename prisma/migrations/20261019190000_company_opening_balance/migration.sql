@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "openingBalance" DECIMAL(14,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "openingDate" TIMESTAMP(3);
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationMatchSource" AS ENUM ('AUTO', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "StatementLine" (
+    "id" SERIAL NOT NULL,
+    "bankAccountId" INTEGER NOT NULL,
+    "importBatchId" INTEGER,
+    "date" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(14,2) NOT NULL,
+    "description" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "cashEntryId" INTEGER,
+    "matchSource" "ReconciliationMatchSource",
+    "matchedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StatementLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BankReconciliation" (
+    "id" SERIAL NOT NULL,
+    "bankAccountId" INTEGER NOT NULL,
+    "month" TIMESTAMP(3) NOT NULL,
+    "statementBalance" DECIMAL(14,2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BankReconciliation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatementLine_cashEntryId_key" ON "StatementLine"("cashEntryId");
+
+-- CreateIndex
+CREATE INDEX "StatementLine_bankAccountId_date_idx" ON "StatementLine"("bankAccountId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatementLine_bankAccountId_reference_key" ON "StatementLine"("bankAccountId", "reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankReconciliation_bankAccountId_month_key" ON "BankReconciliation"("bankAccountId", "month");
+
+-- AddForeignKey
+ALTER TABLE "StatementLine" ADD CONSTRAINT "StatementLine_bankAccountId_fkey" FOREIGN KEY ("bankAccountId") REFERENCES "BankAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StatementLine" ADD CONSTRAINT "StatementLine_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StatementLine" ADD CONSTRAINT "StatementLine_cashEntryId_fkey" FOREIGN KEY ("cashEntryId") REFERENCES "CashEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankReconciliation" ADD CONSTRAINT "BankReconciliation_bankAccountId_fkey" FOREIGN KEY ("bankAccountId") REFERENCES "BankAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+
+-- unaccent() não é IMMUTABLE e por isso não pode ser usada em coluna gerada;
+-- com o dicionário explícito o resultado é estável.
+CREATE OR REPLACE FUNCTION immutable_unaccent(text) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+  AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, $1) $$;
+
+-- AlterTable
+ALTER TABLE "CashEntry" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('portuguese', immutable_unaccent(coalesce("counterpart", ''))), 'A') ||
+  setweight(to_tsvector('portuguese', immutable_unaccent(coalesce("productService", ''))), 'B') ||
+  setweight(to_tsvector('portuguese', immutable_unaccent(coalesce("notes", '') || ' ' || coalesce("externalReference", ''))), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "CashEntry_searchVector_idx" ON "CashEntry" USING GIN ("searchVector");
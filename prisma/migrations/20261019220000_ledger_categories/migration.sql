@@ -0,0 +1,82 @@
+-- CreateTable
+CREATE TABLE "LedgerCategory" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER,
+    "parentId" INTEGER,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "movement" "MovementCategory",
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LedgerCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "CashEntry" ADD COLUMN     "categoryId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "CategorizationRule" ADD COLUMN     "setCategoryId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "LedgerCategory_parentId_idx" ON "LedgerCategory"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerCategory_companyId_code_key" ON "LedgerCategory"("companyId", "code");
+
+-- CreateIndex
+CREATE INDEX "CashEntry_categoryId_idx" ON "CashEntry"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "LedgerCategory" ADD CONSTRAINT "LedgerCategory_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerCategory" ADD CONSTRAINT "LedgerCategory_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "LedgerCategory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashEntry" ADD CONSTRAINT "CashEntry_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "LedgerCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_setCategoryId_fkey" FOREIGN KEY ("setCategoryId") REFERENCES "LedgerCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Modelo padrão do plano de contas (sem empresa), copiado para cada empresa
+-- no primeiro acesso.
+INSERT INTO "LedgerCategory" ("code", "name", "movement", "updatedAt") VALUES
+  ('1', 'Receitas', 'RECEITA'::"MovementCategory", CURRENT_TIMESTAMP),
+  ('2', 'Custos', 'COMPRA'::"MovementCategory", CURRENT_TIMESTAMP),
+  ('3', 'Despesas operacionais', 'DESPESA'::"MovementCategory", CURRENT_TIMESTAMP),
+  ('4', 'Despesas financeiras', 'DESPESA'::"MovementCategory", CURRENT_TIMESTAMP),
+  ('5', 'Impostos e taxas', 'DESPESA'::"MovementCategory", CURRENT_TIMESTAMP),
+  ('6', 'Retiradas', 'RETIRADA'::"MovementCategory", CURRENT_TIMESTAMP),
+  ('7', 'Transferências', 'TRANSFERENCIA'::"MovementCategory", CURRENT_TIMESTAMP);
+
+INSERT INTO "LedgerCategory" ("code", "name", "movement", "parentId", "updatedAt")
+SELECT child."code", child."name", child."movement"::"MovementCategory", parent."id", CURRENT_TIMESTAMP
+FROM (VALUES
+  ('1.01', 'Vendas de mercadorias', 'RECEITA', '1'),
+  ('1.02', 'Prestação de serviços', 'RECEITA', '1'),
+  ('1.03', 'Receitas financeiras', 'RECEITA', '1'),
+  ('1.04', 'Outras receitas', 'RECEITA', '1'),
+  ('2.01', 'Compra de mercadorias', 'COMPRA', '2'),
+  ('2.02', 'Matéria-prima e insumos', 'COMPRA', '2'),
+  ('2.03', 'Fretes sobre compras', 'COMPRA', '2'),
+  ('3.01', 'Salários e encargos', 'DESPESA', '3'),
+  ('3.02', 'Pró-labore', 'DESPESA', '3'),
+  ('3.03', 'Aluguel e condomínio', 'DESPESA', '3'),
+  ('3.04', 'Água, energia e telefone', 'DESPESA', '3'),
+  ('3.05', 'Serviços de terceiros', 'DESPESA', '3'),
+  ('3.06', 'Marketing e publicidade', 'DESPESA', '3'),
+  ('3.07', 'Material de escritório', 'DESPESA', '3'),
+  ('3.08', 'Manutenção', 'DESPESA', '3'),
+  ('4.01', 'Tarifas bancárias', 'DESPESA', '4'),
+  ('4.02', 'Juros e multas', 'DESPESA', '4'),
+  ('4.03', 'IOF', 'DESPESA', '4'),
+  ('5.01', 'Simples Nacional (DAS)', 'DESPESA', '5'),
+  ('5.02', 'Taxas e licenças', 'DESPESA', '5'),
+  ('6.01', 'Distribuição de lucros', 'RETIRADA', '6'),
+  ('6.02', 'Retiradas dos sócios', 'RETIRADA', '6'),
+  ('7.01', 'Transferências entre contas', 'TRANSFERENCIA', '7'),
+  ('7.02', 'Aplicações e resgates', 'TRANSFERENCIA', '7')
+) AS child("code", "name", "movement", "parentCode")
+JOIN "LedgerCategory" parent ON parent."companyId" IS NULL AND parent."code" = child."parentCode";
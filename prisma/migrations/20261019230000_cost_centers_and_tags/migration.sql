@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "CostCenter" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CostCenter_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "CashEntry" ADD COLUMN     "costCenterId" INTEGER,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CostCenter_companyId_name_key" ON "CostCenter"("companyId", "name");
+
+-- CreateIndex
+CREATE INDEX "CashEntry_costCenterId_idx" ON "CashEntry"("costCenterId");
+
+-- CreateIndex
+CREATE INDEX "CashEntry_tags_idx" ON "CashEntry" USING GIN ("tags");
+
+-- AddForeignKey
+ALTER TABLE "CostCenter" ADD CONSTRAINT "CostCenter_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashEntry" ADD CONSTRAINT "CashEntry_costCenterId_fkey" FOREIGN KEY ("costCenterId") REFERENCES "CostCenter"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "CashEntrySplit" (
+    "id" SERIAL NOT NULL,
+    "cashEntryId" INTEGER NOT NULL,
+    "categoryId" INTEGER,
+    "type" "ActivityType" NOT NULL,
+    "amount" DECIMAL(14,2) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CashEntrySplit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CashEntrySplit_cashEntryId_idx" ON "CashEntrySplit"("cashEntryId");
+
+-- CreateIndex
+CREATE INDEX "CashEntrySplit_categoryId_idx" ON "CashEntrySplit"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "CashEntrySplit" ADD CONSTRAINT "CashEntrySplit_cashEntryId_fkey" FOREIGN KEY ("cashEntryId") REFERENCES "CashEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashEntrySplit" ADD CONSTRAINT "CashEntrySplit_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "LedgerCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('MENSAL', 'BIMESTRAL', 'TRIMESTRAL', 'SEMESTRAL', 'ANUAL');
+
+-- CreateEnum
+CREATE TYPE "RecurringOccurrenceStatus" AS ENUM ('PENDENTE', 'GERADA', 'PULADA');
+
+-- CreateTable
+CREATE TABLE "RecurringEntry" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "counterpart" TEXT NOT NULL,
+    "productService" TEXT NOT NULL,
+    "movement" "MovementCategory" NOT NULL,
+    "type" "ActivityType" NOT NULL,
+    "paymentMethod" TEXT NOT NULL,
+    "amount" DECIMAL(14,2) NOT NULL,
+    "notes" TEXT,
+    "bankAccountId" INTEGER,
+    "categoryId" INTEGER,
+    "costCenterId" INTEGER,
+    "frequency" "RecurrenceFrequency" NOT NULL DEFAULT 'MENSAL',
+    "dayOfMonth" INTEGER NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringOccurrence" (
+    "id" SERIAL NOT NULL,
+    "recurringEntryId" INTEGER NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "status" "RecurringOccurrenceStatus" NOT NULL DEFAULT 'PENDENTE',
+    "date" TIMESTAMP(3),
+    "amount" DECIMAL(14,2),
+    "notes" TEXT,
+    "cashEntryId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringOccurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringEntry_companyId_idx" ON "RecurringEntry"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringOccurrence_cashEntryId_key" ON "RecurringOccurrence"("cashEntryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringOccurrence_recurringEntryId_dueDate_key" ON "RecurringOccurrence"("recurringEntryId", "dueDate");
+
+-- AddForeignKey
+ALTER TABLE "RecurringEntry" ADD CONSTRAINT "RecurringEntry_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringEntry" ADD CONSTRAINT "RecurringEntry_bankAccountId_fkey" FOREIGN KEY ("bankAccountId") REFERENCES "BankAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringEntry" ADD CONSTRAINT "RecurringEntry_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "LedgerCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringEntry" ADD CONSTRAINT "RecurringEntry_costCenterId_fkey" FOREIGN KEY ("costCenterId") REFERENCES "CostCenter"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringOccurrence" ADD CONSTRAINT "RecurringOccurrence_recurringEntryId_fkey" FOREIGN KEY ("recurringEntryId") REFERENCES "RecurringEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringOccurrence" ADD CONSTRAINT "RecurringOccurrence_cashEntryId_fkey" FOREIGN KEY ("cashEntryId") REFERENCES "CashEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Marcadores passam a ser gravados em minúsculas, para que o filtro (que
+-- compara exatamente) encontre "Obra" e "obra". Repetidos que só diferiam nas
+-- maiúsculas viram um só, na posição do primeiro.
+UPDATE "CashEntry"
+SET "tags" = ARRAY(
+    SELECT lower("tag")
+    FROM unnest("tags") WITH ORDINALITY AS "t"("tag", "position")
+    GROUP BY lower("tag")
+    ORDER BY min("position")
+)
+WHERE EXISTS (SELECT 1 FROM unnest("tags") AS "t"("tag") WHERE "tag" <> lower("tag"));
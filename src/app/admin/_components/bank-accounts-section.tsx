@@ -0,0 +1,524 @@
+'use client';
+
+import { useState, useTransition, type FormEvent } from "react";
+
+export type BankAccountTypeOption = "CORRENTE" | "POUPANCA" | "CARTAO_CREDITO" | "INVESTIMENTO" | "CAIXA";
+
+export type BankAccountSummary = {
+  id: number;
+  companyId: number;
+  name: string;
+  type: BankAccountTypeOption;
+  bankId: string | null;
+  branchId: string | null;
+  accountId: string | null;
+  openingBalance: number;
+  openingDate: string | null;
+  active: boolean;
+};
+
+/** Saldo inicial da empresa, aplicado aos lançamentos sem conta. */
+export type CompanyOpeningBalance = {
+  openingBalance: number;
+  openingDate: string | null;
+};
+
+type BankAccountsSectionProps = {
+  companyId: number;
+  accounts: BankAccountSummary[];
+  /** Saldo atual por conta; a chave "none" reúne os lançamentos sem conta. */
+  balances: Record<string, number>;
+  onAccountsChange: (accounts: BankAccountSummary[]) => void;
+  companyOpening: CompanyOpeningBalance;
+  onCompanyOpeningChange: (opening: CompanyOpeningBalance) => void;
+};
+
+type AccountFormState = {
+  name: string;
+  type: BankAccountTypeOption;
+  bankId: string;
+  branchId: string;
+  accountId: string;
+  openingBalance: string;
+  openingDate: string;
+};
+
+type OpeningFormState = Pick<AccountFormState, "openingBalance" | "openingDate">;
+
+export const ACCOUNT_TYPE_OPTIONS: { value: BankAccountTypeOption; label: string }[] = [
+  { value: "CORRENTE", label: "Conta corrente" },
+  { value: "POUPANCA", label: "Poupança" },
+  { value: "CARTAO_CREDITO", label: "Cartão de crédito" },
+  { value: "INVESTIMENTO", label: "Investimento" },
+  { value: "CAIXA", label: "Caixa (dinheiro)" },
+];
+
+const inputClassName =
+  "w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20";
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+// Datas de saldo inicial são gravadas à meia-noite UTC.
+const openingDateFormatter = new Intl.DateTimeFormat("pt-BR", { timeZone: "UTC" });
+
+function createInitialForm(): AccountFormState {
+  return {
+    name: "",
+    type: "CORRENTE",
+    bankId: "",
+    branchId: "",
+    accountId: "",
+    openingBalance: "",
+    openingDate: "",
+  };
+}
+
+function toOpeningForm(opening: CompanyOpeningBalance): OpeningFormState {
+  return {
+    openingBalance: opening.openingBalance ? opening.openingBalance.toFixed(2).replace(".", ",") : "",
+    openingDate: opening.openingDate?.slice(0, 10) ?? "",
+  };
+}
+
+function toForm(account: BankAccountSummary): AccountFormState {
+  return {
+    name: account.name,
+    type: account.type,
+    bankId: account.bankId ?? "",
+    branchId: account.branchId ?? "",
+    accountId: account.accountId ?? "",
+    openingBalance: account.openingBalance ? account.openingBalance.toFixed(2).replace(".", ",") : "",
+    openingDate: account.openingDate?.slice(0, 10) ?? "",
+  };
+}
+
+export function describeBankAccount(account: BankAccountSummary) {
+  const details = [
+    account.bankId ? `Banco ${account.bankId}` : null,
+    account.branchId ? `Ag. ${account.branchId}` : null,
+    account.accountId ? `Conta ${account.accountId}` : null,
+  ].filter(Boolean);
+  return details.length > 0
+    ? details.join(" · ")
+    : (ACCOUNT_TYPE_OPTIONS.find((option) => option.value === account.type)?.label ?? account.type);
+}
+
+export default function BankAccountsSection({
+  companyId,
+  accounts,
+  balances,
+  onAccountsChange,
+  companyOpening,
+  onCompanyOpeningChange,
+}: BankAccountsSectionProps) {
+  const [form, setForm] = useState<AccountFormState>(() => createInitialForm());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [openingForm, setOpeningForm] = useState<OpeningFormState | null>(null);
+  const [openingError, setOpeningError] = useState<string | null>(null);
+  const [isSavingOpening, startOpeningTransition] = useTransition();
+
+  function updateForm<K extends keyof AccountFormState>(key: K, value: AccountFormState[K]) {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function closeForm() {
+    setForm(createInitialForm());
+    setEditingId(null);
+    setFormOpen(false);
+    setError(null);
+  }
+
+  async function saveAccount(payload: Record<string, unknown>, accountId: number | null) {
+    const response = await fetch(
+      accountId === null
+        ? `/api/clients/${companyId}/bank-accounts`
+        : `/api/clients/${companyId}/bank-accounts/${accountId}`,
+      {
+        method: accountId === null ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      },
+    );
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({ error: "Falha ao salvar a conta." }));
+      throw new Error(body.error ?? "Não foi possível salvar a conta.");
+    }
+    const saved = (await response.json()) as BankAccountSummary;
+    onAccountsChange([...accounts.filter((existing) => existing.id !== saved.id), saved]);
+    return saved;
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+
+    startSaveTransition(async () => {
+      try {
+        const current = accounts.find((account) => account.id === editingId);
+        await saveAccount({ ...form, active: current?.active ?? true }, editingId);
+        closeForm();
+      } catch (saveError) {
+        console.error("Erro ao salvar conta", saveError);
+        setError(saveError instanceof Error ? saveError.message : "Não foi possível salvar a conta.");
+      }
+    });
+  }
+
+  async function handleToggle(account: BankAccountSummary) {
+    setBusyId(account.id);
+    try {
+      await saveAccount({ ...account, active: !account.active }, account.id);
+    } catch (toggleError) {
+      console.error("Erro ao alterar conta", toggleError);
+      alert(toggleError instanceof Error ? toggleError.message : "Não foi possível alterar a conta.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(account: BankAccountSummary) {
+    if (!window.confirm(`Excluir a conta "${account.name}"?`)) {
+      return;
+    }
+
+    setBusyId(account.id);
+    try {
+      const response = await fetch(`/api/clients/${companyId}/bank-accounts/${account.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao excluir conta." }));
+        alert(body.error ?? "Não foi possível excluir a conta.");
+        return;
+      }
+      onAccountsChange(accounts.filter((existing) => existing.id !== account.id));
+      if (editingId === account.id) {
+        closeForm();
+      }
+    } catch (deleteError) {
+      console.error("Erro ao excluir conta", deleteError);
+      alert("Não foi possível excluir a conta. Tente novamente.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function handleOpeningSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!openingForm) {
+      return;
+    }
+    setOpeningError(null);
+
+    startOpeningTransition(async () => {
+      try {
+        const response = await fetch(`/api/clients/${companyId}/opening-balance`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(openingForm),
+        });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha ao salvar o saldo inicial." }));
+          throw new Error(body.error ?? "Não foi possível salvar o saldo inicial.");
+        }
+        onCompanyOpeningChange((await response.json()) as CompanyOpeningBalance);
+        setOpeningForm(null);
+      } catch (saveError) {
+        console.error("Erro ao salvar saldo inicial", saveError);
+        setOpeningError(saveError instanceof Error ? saveError.message : "Não foi possível salvar o saldo inicial.");
+      }
+    });
+  }
+
+  const sortedAccounts = [...accounts].sort(
+    (a, b) => Number(b.active) - Number(a.active) || a.name.localeCompare(b.name),
+  );
+
+  return (
+    <section className="space-y-4">
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-white">Contas e caixas</h3>
+          <p className="text-sm text-slate-300/80">
+            Saldo atual de cada conta: saldo inicial mais os lançamentos a partir da data do saldo inicial.
+          </p>
+        </div>
+        {!formOpen ? (
+          <button
+            className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300"
+            type="button"
+            onClick={() => {
+              setForm(createInitialForm());
+              setEditingId(null);
+              setFormOpen(true);
+            }}
+          >
+            Nova conta
+          </button>
+        ) : null}
+      </header>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {sortedAccounts.map((account) => {
+          const balance = balances[account.id] ?? account.openingBalance;
+          return (
+            <div
+              key={account.id}
+              className={`space-y-2 rounded-2xl border border-white/10 bg-slate-950/60 px-4 py-3 text-sm text-slate-200 ${
+                account.active ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-semibold text-white">{account.name}</p>
+                  <p className="text-xs text-slate-400">{describeBankAccount(account)}</p>
+                </div>
+                {!account.active ? <span className="text-xs text-slate-400">Inativa</span> : null}
+              </div>
+              <p className={`text-base font-semibold ${balance >= 0 ? "text-sky-300" : "text-red-300"}`}>
+                {currencyFormatter.format(balance)}
+              </p>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <button
+                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                  type="button"
+                  onClick={() => {
+                    setForm(toForm(account));
+                    setEditingId(account.id);
+                    setFormOpen(true);
+                    setError(null);
+                  }}
+                  disabled={busyId === account.id}
+                >
+                  Editar
+                </button>
+                <button
+                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                  type="button"
+                  onClick={() => handleToggle(account)}
+                  disabled={busyId === account.id}
+                >
+                  {account.active ? "Desativar" : "Ativar"}
+                </button>
+                <button
+                  className="rounded-lg border border-red-500/40 px-3 py-1 font-semibold text-red-200 transition hover:bg-red-500/10 disabled:opacity-40"
+                  type="button"
+                  onClick={() => handleDelete(account)}
+                  disabled={busyId === account.id}
+                >
+                  Excluir
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {balances.none !== undefined ? (
+          <div className="space-y-2 rounded-2xl border border-dashed border-white/10 bg-slate-950/40 px-4 py-3 text-sm text-slate-200">
+            <p className="font-semibold text-white">Sem conta</p>
+            <p className="text-xs text-slate-400">Lançamentos não vinculados a nenhuma conta</p>
+            <p className={`text-base font-semibold ${balances.none >= 0 ? "text-sky-300" : "text-red-300"}`}>
+              {currencyFormatter.format(balances.none)}
+            </p>
+            {openingForm ? (
+              <form className="space-y-2" onSubmit={handleOpeningSubmit}>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <input
+                    aria-label="Saldo inicial"
+                    className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-xs text-slate-100 focus:border-sky-500 focus:outline-none"
+                    inputMode="decimal"
+                    placeholder="0,00"
+                    value={openingForm.openingBalance}
+                    onChange={(event) =>
+                      setOpeningForm((prev) => (prev ? { ...prev, openingBalance: event.target.value } : prev))
+                    }
+                  />
+                  <input
+                    aria-label="Data do saldo inicial"
+                    className="w-full rounded-lg border border-white/10 bg-slate-950/70 px-3 py-2 text-xs text-slate-100 focus:border-sky-500 focus:outline-none"
+                    type="date"
+                    value={openingForm.openingDate}
+                    onChange={(event) =>
+                      setOpeningForm((prev) => (prev ? { ...prev, openingDate: event.target.value } : prev))
+                    }
+                  />
+                </div>
+                {openingError ? <p className="text-xs text-red-300">{openingError}</p> : null}
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <button
+                    className="rounded-lg border border-sky-500/60 px-3 py-1 font-semibold text-sky-200 transition hover:bg-sky-500/10 disabled:opacity-40"
+                    type="submit"
+                    disabled={isSavingOpening}
+                  >
+                    {isSavingOpening ? "Salvando..." : "Salvar"}
+                  </button>
+                  <button
+                    className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                    type="button"
+                    onClick={() => {
+                      setOpeningForm(null);
+                      setOpeningError(null);
+                    }}
+                    disabled={isSavingOpening}
+                  >
+                    Cancelar
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-slate-400">
+                  Saldo inicial {currencyFormatter.format(companyOpening.openingBalance)}
+                  {companyOpening.openingDate
+                    ? ` em ${openingDateFormatter.format(new Date(companyOpening.openingDate))}`
+                    : ""}
+                </span>
+                <button
+                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+                  type="button"
+                  onClick={() => setOpeningForm(toOpeningForm(companyOpening))}
+                >
+                  Editar saldo inicial
+                </button>
+              </div>
+            )}
+          </div>
+        ) : null}
+        {accounts.length === 0 && balances.none === undefined ? (
+          <p className="text-sm text-slate-400">Nenhuma conta cadastrada para esta empresa.</p>
+        ) : null}
+      </div>
+
+      {formOpen ? (
+        <form className="space-y-5 rounded-2xl border border-white/10 bg-slate-950/60 p-6" onSubmit={handleSubmit}>
+          <h4 className="text-base font-semibold text-white">{editingId === null ? "Nova conta" : "Editar conta"}</h4>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2 md:col-span-2">
+              <label className="text-sm font-medium text-slate-200" htmlFor="account-name">
+                Nome
+              </label>
+              <input
+                id="account-name"
+                className={inputClassName}
+                value={form.name}
+                onChange={(event) => updateForm("name", event.target.value)}
+                placeholder="Ex.: Itaú conta movimento"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-200" htmlFor="account-type">
+                Tipo
+              </label>
+              <select
+                id="account-type"
+                className={inputClassName}
+                value={form.type}
+                onChange={(event) => updateForm("type", event.target.value as BankAccountTypeOption)}
+              >
+                {ACCOUNT_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {form.type !== "CAIXA" ? (
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-200" htmlFor="account-bank">
+                  Banco (código)
+                </label>
+                <input
+                  id="account-bank"
+                  className={inputClassName}
+                  value={form.bankId}
+                  onChange={(event) => updateForm("bankId", event.target.value)}
+                  placeholder="Ex.: 341"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-200" htmlFor="account-branch">
+                  Agência
+                </label>
+                <input
+                  id="account-branch"
+                  className={inputClassName}
+                  value={form.branchId}
+                  onChange={(event) => updateForm("branchId", event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-200" htmlFor="account-number">
+                  Conta
+                </label>
+                <input
+                  id="account-number"
+                  className={inputClassName}
+                  value={form.accountId}
+                  onChange={(event) => updateForm("accountId", event.target.value)}
+                  placeholder="Como aparece no extrato"
+                />
+              </div>
+            </div>
+          ) : null}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-200" htmlFor="account-opening-balance">
+                Saldo inicial
+              </label>
+              <input
+                id="account-opening-balance"
+                className={inputClassName}
+                inputMode="decimal"
+                value={form.openingBalance}
+                onChange={(event) => updateForm("openingBalance", event.target.value.replace(/[^\d.,-]/g, ""))}
+                placeholder="0,00"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-200" htmlFor="account-opening-date">
+                Data do saldo inicial
+              </label>
+              <input
+                id="account-opening-date"
+                className={inputClassName}
+                type="date"
+                value={form.openingDate}
+                onChange={(event) => updateForm("openingDate", event.target.value)}
+              />
+            </div>
+          </div>
+
+          {error ? (
+            <p className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</p>
+          ) : null}
+
+          <div className="flex items-center justify-end gap-3">
+            <button
+              className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+              type="button"
+              onClick={closeForm}
+            >
+              Cancelar
+            </button>
+            <button
+              className="rounded-xl bg-sky-600 px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-sky-600/30 transition hover:bg-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40 disabled:cursor-not-allowed disabled:opacity-60"
+              disabled={isSaving}
+              type="submit"
+            >
+              {isSaving ? "Salvando..." : editingId === null ? "Cadastrar conta" : "Atualizar conta"}
+            </button>
+          </div>
+        </form>
+      ) : null}
+    </section>
+  );
+}
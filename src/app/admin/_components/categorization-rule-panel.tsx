@@ -0,0 +1,649 @@
+'use client';
+
+import { useEffect, useState, useTransition, type FormEvent } from "react";
+import { describeLedgerCategory, type LedgerCategorySummary } from "./chart-of-accounts-panel";
+
+type MovementOption = "RECEITA" | "COMPRA" | "DESPESA" | "RETIRADA" | "TRANSFERENCIA";
+type ActivityOption = "COMERCIO" | "INDUSTRIA" | "SERVICO" | "TRANSPORTE";
+type PaymentOption =
+  | "PIX"
+  | "DINHEIRO"
+  | "BOLETO"
+  | "CARTAO_CREDITO"
+  | "CARTAO_DEBITO"
+  | "CHEQUE"
+  | "TRANSFERENCIA"
+  | "OUTROS";
+
+type CompanySummary = {
+  id: number;
+  name: string;
+};
+
+type CategorizationRuleSummary = {
+  id: number;
+  name: string;
+  priority: number;
+  active: boolean;
+  descriptionPattern: string | null;
+  descriptionIsRegex: boolean;
+  counterpartPattern: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  paymentMethod: PaymentOption | null;
+  setMovement: MovementOption | null;
+  setType: ActivityOption | null;
+  setProductService: string | null;
+  setCounterpart: string | null;
+  setCategoryId: number | null;
+};
+
+type CategorizationRulePanelProps = {
+  companies: CompanySummary[];
+};
+
+type RuleFormState = {
+  name: string;
+  priority: string;
+  descriptionPattern: string;
+  descriptionIsRegex: boolean;
+  counterpartPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  paymentMethod: string;
+  setMovement: string;
+  setType: string;
+  setProductService: string;
+  setCounterpart: string;
+  setCategoryId: string;
+};
+
+const MOVEMENT_OPTIONS: { value: MovementOption; label: string }[] = [
+  { value: "RECEITA", label: "Receita" },
+  { value: "COMPRA", label: "Compra" },
+  { value: "DESPESA", label: "Despesa" },
+  { value: "RETIRADA", label: "Retirada" },
+  { value: "TRANSFERENCIA", label: "Transferência" },
+];
+
+const ACTIVITY_OPTIONS: { value: ActivityOption; label: string }[] = [
+  { value: "COMERCIO", label: "Comércio" },
+  { value: "INDUSTRIA", label: "Indústria" },
+  { value: "SERVICO", label: "Serviço" },
+  { value: "TRANSPORTE", label: "Transporte" },
+];
+
+const PAYMENT_OPTIONS: { value: PaymentOption; label: string }[] = [
+  { value: "PIX", label: "PIX" },
+  { value: "DINHEIRO", label: "Dinheiro" },
+  { value: "BOLETO", label: "Boleto" },
+  { value: "CARTAO_CREDITO", label: "Cartão de crédito" },
+  { value: "CARTAO_DEBITO", label: "Cartão de débito" },
+  { value: "CHEQUE", label: "Cheque" },
+  { value: "TRANSFERENCIA", label: "Transferência (TED/DOC)" },
+  { value: "OUTROS", label: "Outros" },
+];
+
+const inputClassName =
+  "w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20";
+
+function createInitialForm(): RuleFormState {
+  return {
+    name: "",
+    priority: "100",
+    descriptionPattern: "",
+    descriptionIsRegex: false,
+    counterpartPattern: "",
+    minAmount: "",
+    maxAmount: "",
+    paymentMethod: "",
+    setMovement: "",
+    setType: "",
+    setProductService: "",
+    setCounterpart: "",
+    setCategoryId: "",
+  };
+}
+
+function toForm(rule: CategorizationRuleSummary): RuleFormState {
+  return {
+    name: rule.name,
+    priority: String(rule.priority),
+    descriptionPattern: rule.descriptionPattern ?? "",
+    descriptionIsRegex: rule.descriptionIsRegex,
+    counterpartPattern: rule.counterpartPattern ?? "",
+    minAmount: rule.minAmount === null ? "" : String(rule.minAmount),
+    maxAmount: rule.maxAmount === null ? "" : String(rule.maxAmount),
+    paymentMethod: rule.paymentMethod ?? "",
+    setMovement: rule.setMovement ?? "",
+    setType: rule.setType ?? "",
+    setProductService: rule.setProductService ?? "",
+    setCounterpart: rule.setCounterpart ?? "",
+    setCategoryId: rule.setCategoryId === null ? "" : String(rule.setCategoryId),
+  };
+}
+
+function describeCriteria(rule: CategorizationRuleSummary) {
+  const parts: string[] = [];
+  if (rule.descriptionPattern) {
+    parts.push(rule.descriptionIsRegex ? `descrição /${rule.descriptionPattern}/` : `descrição contém "${rule.descriptionPattern}"`);
+  }
+  if (rule.counterpartPattern) {
+    parts.push(`contraparte contém "${rule.counterpartPattern}"`);
+  }
+  if (rule.minAmount !== null || rule.maxAmount !== null) {
+    parts.push(`valor entre ${rule.minAmount ?? "-∞"} e ${rule.maxAmount ?? "+∞"}`);
+  }
+  if (rule.paymentMethod) {
+    parts.push(PAYMENT_OPTIONS.find((option) => option.value === rule.paymentMethod)?.label ?? rule.paymentMethod);
+  }
+  return parts.join(" e ");
+}
+
+function describeActions(rule: CategorizationRuleSummary, categories: LedgerCategorySummary[]) {
+  const category = categories.find((option) => option.id === rule.setCategoryId);
+  return [
+    category ? describeLedgerCategory(category) : null,
+    rule.setMovement ? MOVEMENT_OPTIONS.find((option) => option.value === rule.setMovement)?.label : null,
+    rule.setType ? ACTIVITY_OPTIONS.find((option) => option.value === rule.setType)?.label : null,
+    rule.setProductService,
+    rule.setCounterpart ? `contraparte "${rule.setCounterpart}"` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export default function CategorizationRulePanel({ companies }: CategorizationRulePanelProps) {
+  const [companyId, setCompanyId] = useState<number | null>(companies[0]?.id ?? null);
+  const [rules, setRules] = useState<CategorizationRuleSummary[]>([]);
+  const [categories, setCategories] = useState<LedgerCategorySummary[]>([]);
+  const [form, setForm] = useState<RuleFormState>(() => createInitialForm());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<{ error?: string; success?: string }>({});
+  const [isLoading, startLoadTransition] = useTransition();
+  const [isSaving, startSaveTransition] = useTransition();
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (companyId === null) {
+      setRules([]);
+      return;
+    }
+    setFeedback({});
+    setEditingId(null);
+    setForm(createInitialForm());
+    startLoadTransition(async () => {
+      try {
+        const response = await fetch(`/api/clients/${companyId}/categorization-rules`);
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha ao carregar as regras." }));
+          setFeedback({ error: body.error ?? "Não foi possível carregar as regras." });
+          setRules([]);
+          return;
+        }
+        setRules((await response.json()) as CategorizationRuleSummary[]);
+      } catch (error) {
+        console.error("Erro ao carregar regras de categorização", error);
+        setFeedback({ error: "Não foi possível carregar as regras." });
+        setRules([]);
+      }
+    });
+  }, [companyId]);
+
+  useEffect(() => {
+    if (companyId === null) {
+      setCategories([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/clients/${companyId}/ledger-categories`);
+        if (!response.ok) {
+          throw new Error("Falha ao carregar o plano de contas.");
+        }
+        const data = (await response.json()) as LedgerCategorySummary[];
+        if (!cancelled) {
+          setCategories(data);
+        }
+      } catch (error) {
+        console.error("Erro ao carregar plano de contas", error);
+        if (!cancelled) {
+          setCategories([]);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId]);
+
+  function updateForm<K extends keyof RuleFormState>(key: K, value: RuleFormState[K]) {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function sortRules(list: CategorizationRuleSummary[]) {
+    return [...list].sort((a, b) => a.priority - b.priority || a.id - b.id);
+  }
+
+  async function saveRule(payload: Record<string, unknown>, ruleId: number | null) {
+    const response = await fetch(
+      ruleId === null
+        ? `/api/clients/${companyId}/categorization-rules`
+        : `/api/clients/${companyId}/categorization-rules/${ruleId}`,
+      {
+        method: ruleId === null ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      },
+    );
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({ error: "Falha ao salvar a regra." }));
+      throw new Error(body.error ?? "Não foi possível salvar a regra.");
+    }
+    const saved = (await response.json()) as CategorizationRuleSummary;
+    setRules((prev) => sortRules([...prev.filter((existing) => existing.id !== saved.id), saved]));
+    return saved;
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (companyId === null) {
+      return;
+    }
+    setFeedback({});
+
+    startSaveTransition(async () => {
+      try {
+        const current = rules.find((rule) => rule.id === editingId);
+        const saved = await saveRule({ ...form, active: current?.active ?? true }, editingId);
+        setForm(createInitialForm());
+        setEditingId(null);
+        setFeedback({ success: `Regra "${saved.name}" ${current ? "atualizada" : "cadastrada"}.` });
+      } catch (error) {
+        console.error("Erro ao salvar regra de categorização", error);
+        setFeedback({ error: error instanceof Error ? error.message : "Não foi possível salvar a regra." });
+      }
+    });
+  }
+
+  async function handleToggle(rule: CategorizationRuleSummary) {
+    setBusyId(rule.id);
+    try {
+      await saveRule({ ...rule, active: !rule.active }, rule.id);
+    } catch (error) {
+      console.error("Erro ao alterar regra de categorização", error);
+      alert(error instanceof Error ? error.message : "Não foi possível alterar a regra.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(rule: CategorizationRuleSummary) {
+    if (!window.confirm(`Excluir a regra "${rule.name}"?`)) {
+      return;
+    }
+
+    setBusyId(rule.id);
+    try {
+      const response = await fetch(`/api/clients/${companyId}/categorization-rules/${rule.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao excluir regra." }));
+        alert(body.error ?? "Não foi possível excluir a regra.");
+        return;
+      }
+      setRules((prev) => prev.filter((existing) => existing.id !== rule.id));
+      if (editingId === rule.id) {
+        setEditingId(null);
+        setForm(createInitialForm());
+      }
+    } catch (error) {
+      console.error("Erro ao excluir regra de categorização", error);
+      alert("Não foi possível excluir a regra. Tente novamente.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (companies.length === 0) {
+    return (
+      <section className="rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300/80">
+        Cadastre uma empresa no livro-caixa antes de criar regras de categorização.
+      </section>
+    );
+  }
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-white/5 p-6 shadow-inner shadow-white/5 space-y-10">
+      <header className="space-y-4">
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold text-white">Empresa</h2>
+          <p className="text-sm text-slate-300/80">
+            As regras são avaliadas em ordem de prioridade (menor primeiro) e a primeira que casar com a transação
+            preenche os campos definidos. Critérios em branco não restringem.
+          </p>
+        </div>
+        <select
+          aria-label="Empresa"
+          className={inputClassName}
+          value={companyId ?? ""}
+          onChange={(event) => setCompanyId(event.target.value ? Number(event.target.value) : null)}
+        >
+          {companies.map((company) => (
+            <option key={company.id} value={company.id}>
+              {company.name}
+            </option>
+          ))}
+        </select>
+      </header>
+
+      <form className="space-y-5" onSubmit={handleSubmit}>
+        <h3 className="text-base font-semibold text-white">{editingId === null ? "Nova regra" : "Editar regra"}</h3>
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2 md:col-span-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-name">
+              Nome da regra
+            </label>
+            <input
+              id="rule-name"
+              className={inputClassName}
+              value={form.name}
+              onChange={(event) => updateForm("name", event.target.value)}
+              placeholder="Ex.: Tarifas bancárias"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-priority">
+              Prioridade
+            </label>
+            <input
+              id="rule-priority"
+              className={inputClassName}
+              type="number"
+              min={0}
+              max={9999}
+              value={form.priority}
+              onChange={(event) => updateForm("priority", event.target.value)}
+            />
+          </div>
+        </div>
+
+        <p className="text-sm font-medium text-slate-300">Quando</p>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-description">
+              Descrição contém
+            </label>
+            <input
+              id="rule-description"
+              className={inputClassName}
+              value={form.descriptionPattern}
+              onChange={(event) => updateForm("descriptionPattern", event.target.value)}
+              placeholder={form.descriptionIsRegex ? "Ex.: ^TAR(IFA)?\\b" : "Ex.: tarifa"}
+            />
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input
+                className="h-4 w-4 rounded border border-white/30 bg-slate-950/80 text-sky-500 focus:ring-2 focus:ring-sky-500"
+                type="checkbox"
+                checked={form.descriptionIsRegex}
+                onChange={(event) => updateForm("descriptionIsRegex", event.target.checked)}
+              />
+              Usar expressão regular
+            </label>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-counterpart">
+              Empresa / fornecedor contém
+            </label>
+            <input
+              id="rule-counterpart"
+              className={inputClassName}
+              value={form.counterpartPattern}
+              onChange={(event) => updateForm("counterpartPattern", event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-min-amount">
+              Valor mínimo
+            </label>
+            <input
+              id="rule-min-amount"
+              className={inputClassName}
+              value={form.minAmount}
+              onChange={(event) => updateForm("minAmount", event.target.value)}
+              placeholder="Ex.: -500,00"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-max-amount">
+              Valor máximo
+            </label>
+            <input
+              id="rule-max-amount"
+              className={inputClassName}
+              value={form.maxAmount}
+              onChange={(event) => updateForm("maxAmount", event.target.value)}
+              placeholder="Ex.: 0"
+            />
+            <p className="text-xs text-slate-500">Saídas têm valor negativo.</p>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-payment">
+              Forma de pagamento
+            </label>
+            <select
+              id="rule-payment"
+              className={inputClassName}
+              value={form.paymentMethod}
+              onChange={(event) => updateForm("paymentMethod", event.target.value)}
+            >
+              <option value="">Qualquer</option>
+              {PAYMENT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <p className="text-sm font-medium text-slate-300">Então preencher</p>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-set-movement">
+              Movimentação
+            </label>
+            <select
+              id="rule-set-movement"
+              className={inputClassName}
+              value={form.setMovement}
+              onChange={(event) => updateForm("setMovement", event.target.value)}
+            >
+              <option value="">Manter (pelo sinal do valor)</option>
+              {MOVEMENT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-set-type">
+              Tipo de atividade
+            </label>
+            <select
+              id="rule-set-type"
+              className={inputClassName}
+              value={form.setType}
+              onChange={(event) => updateForm("setType", event.target.value)}
+            >
+              <option value="">Manter (Serviço)</option>
+              {ACTIVITY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-set-product">
+              Produto / serviço
+            </label>
+            <input
+              id="rule-set-product"
+              className={inputClassName}
+              value={form.setProductService}
+              onChange={(event) => updateForm("setProductService", event.target.value)}
+              placeholder="Ex.: Tarifa bancária"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-set-counterpart">
+              Empresa / fornecedor
+            </label>
+            <input
+              id="rule-set-counterpart"
+              className={inputClassName}
+              value={form.setCounterpart}
+              onChange={(event) => updateForm("setCounterpart", event.target.value)}
+              placeholder="Ex.: Banco do Brasil"
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="rule-set-category">
+              Categoria (plano de contas)
+            </label>
+            <select
+              id="rule-set-category"
+              className={inputClassName}
+              value={form.setCategoryId}
+              onChange={(event) => updateForm("setCategoryId", event.target.value)}
+            >
+              <option value="">Manter (sem categoria)</option>
+              {categories
+                .filter((category) => category.active || String(category.id) === form.setCategoryId)
+                .map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {describeLedgerCategory(category)}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+
+        {feedback.error ? (
+          <p className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{feedback.error}</p>
+        ) : null}
+        {feedback.success ? (
+          <p className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {feedback.success}
+          </p>
+        ) : null}
+
+        <div className="flex items-center justify-end gap-3">
+          {editingId !== null ? (
+            <button
+              className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                setForm(createInitialForm());
+              }}
+            >
+              Cancelar edição
+            </button>
+          ) : null}
+          <button
+            className="rounded-xl bg-sky-600 px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-sky-600/30 transition hover:bg-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40 disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={isSaving || companyId === null}
+            type="submit"
+          >
+            {isSaving ? "Salvando..." : editingId === null ? "Salvar regra" : "Atualizar regra"}
+          </button>
+        </div>
+      </form>
+
+      <section className="space-y-4">
+        <header className="space-y-1">
+          <h3 className="text-base font-semibold text-white">Regras da empresa</h3>
+          <p className="text-xs text-slate-400">
+            Aplicadas na importação de extratos, antes da pré-visualização. Os campos continuam editáveis depois.
+          </p>
+        </header>
+        <div className="rounded-2xl border border-white/10 bg-slate-950/60">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10 text-sm text-slate-200">
+              <thead className="text-xs font-semibold uppercase tracking-wide text-slate-300/80">
+                <tr>
+                  <th className="px-4 py-3 text-left">Prioridade</th>
+                  <th className="px-4 py-3 text-left">Regra</th>
+                  <th className="px-4 py-3 text-left">Preenche</th>
+                  <th className="px-4 py-3 text-left">Ações</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {isLoading ? (
+                  <tr>
+                    <td className="px-4 py-6 text-center text-slate-400" colSpan={4}>
+                      Carregando regras...
+                    </td>
+                  </tr>
+                ) : rules.length === 0 ? (
+                  <tr>
+                    <td className="px-4 py-6 text-center text-slate-400" colSpan={4}>
+                      Nenhuma regra cadastrada para esta empresa.
+                    </td>
+                  </tr>
+                ) : (
+                  rules.map((rule) => (
+                    <tr key={rule.id} className={rule.active ? "hover:bg-slate-900/60" : "opacity-60 hover:bg-slate-900/60"}>
+                      <td className="px-4 py-3">{rule.priority}</td>
+                      <td className="px-4 py-3">
+                        <p className="font-semibold text-white">{rule.name}</p>
+                        <p className="text-xs text-slate-400">{describeCriteria(rule)}</p>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-slate-300">{describeActions(rule, categories)}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            className="rounded-lg border border-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:cursor-not-allowed disabled:opacity-60"
+                            type="button"
+                            onClick={() => {
+                              setEditingId(rule.id);
+                              setForm(toForm(rule));
+                              setFeedback({});
+                            }}
+                            disabled={busyId === rule.id}
+                          >
+                            Editar
+                          </button>
+                          <button
+                            className="rounded-lg border border-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:cursor-not-allowed disabled:opacity-60"
+                            type="button"
+                            onClick={() => handleToggle(rule)}
+                            disabled={busyId === rule.id}
+                          >
+                            {rule.active ? "Desativar" : "Ativar"}
+                          </button>
+                          <button
+                            className="rounded-lg border border-red-500/40 px-3 py-1 text-xs font-semibold text-red-200 transition hover:border-red-400 hover:text-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+                            type="button"
+                            onClick={() => handleDelete(rule)}
+                            disabled={busyId === rule.id}
+                          >
+                            Excluir
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+    </section>
+  );
+}
@@ -0,0 +1,366 @@
+'use client';
+
+import { useEffect, useState, useTransition, type FormEvent } from "react";
+
+type MovementOption = "RECEITA" | "COMPRA" | "DESPESA" | "RETIRADA" | "TRANSFERENCIA";
+
+type CompanySummary = {
+  id: number;
+  name: string;
+};
+
+export type LedgerCategorySummary = {
+  id: number;
+  companyId: number | null;
+  parentId: number | null;
+  code: string;
+  name: string;
+  movement: MovementOption | null;
+  active: boolean;
+};
+
+type ChartOfAccountsPanelProps = {
+  companies: CompanySummary[];
+};
+
+type CategoryFormState = {
+  code: string;
+  name: string;
+  movement: string;
+};
+
+const MOVEMENT_OPTIONS: { value: MovementOption; label: string }[] = [
+  { value: "RECEITA", label: "Receita" },
+  { value: "COMPRA", label: "Compra" },
+  { value: "DESPESA", label: "Despesa" },
+  { value: "RETIRADA", label: "Retirada" },
+  { value: "TRANSFERENCIA", label: "Transferência" },
+];
+
+const inputClassName =
+  "w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20";
+
+const initialForm: CategoryFormState = { code: "", name: "", movement: "" };
+
+export function describeLedgerCategory(category: Pick<LedgerCategorySummary, "code" | "name">) {
+  return `${category.code} ${category.name}`;
+}
+
+function categoryLevel(code: string) {
+  return code.split(".").length - 1;
+}
+
+export default function ChartOfAccountsPanel({ companies }: ChartOfAccountsPanelProps) {
+  // String vazia é o modelo padrão.
+  const [scope, setScope] = useState("");
+  const [categories, setCategories] = useState<LedgerCategorySummary[]>([]);
+  const [form, setForm] = useState<CategoryFormState>(initialForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<{ error?: string; success?: string }>({});
+  const [isLoading, startLoadTransition] = useTransition();
+  const [isSaving, startSaveTransition] = useTransition();
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const baseUrl = scope ? `/api/clients/${scope}/ledger-categories` : "/api/ledger-categories";
+
+  useEffect(() => {
+    setFeedback({});
+    setEditingId(null);
+    setForm(initialForm);
+    startLoadTransition(async () => {
+      try {
+        const response = await fetch(baseUrl);
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha ao carregar o plano de contas." }));
+          setFeedback({ error: body.error ?? "Não foi possível carregar o plano de contas." });
+          setCategories([]);
+          return;
+        }
+        setCategories((await response.json()) as LedgerCategorySummary[]);
+      } catch (error) {
+        console.error("Erro ao carregar plano de contas", error);
+        setFeedback({ error: "Não foi possível carregar o plano de contas." });
+        setCategories([]);
+      }
+    });
+  }, [baseUrl]);
+
+  async function reloadCategories() {
+    const response = await fetch(baseUrl);
+    if (response.ok) {
+      setCategories((await response.json()) as LedgerCategorySummary[]);
+    }
+  }
+
+  async function saveCategory(payload: Record<string, unknown>, categoryId: number | null) {
+    const response = await fetch(categoryId === null ? baseUrl : `${baseUrl}/${categoryId}`, {
+      method: categoryId === null ? "POST" : "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({ error: "Falha ao salvar a categoria." }));
+      throw new Error(body.error ?? "Não foi possível salvar a categoria.");
+    }
+    const saved = (await response.json()) as LedgerCategorySummary;
+    // A lista volta do servidor para manter a ordem dos códigos.
+    await reloadCategories();
+    return saved;
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setFeedback({});
+
+    startSaveTransition(async () => {
+      try {
+        const current = categories.find((category) => category.id === editingId);
+        const saved = await saveCategory({ ...form, active: current?.active ?? true }, editingId);
+        setForm(initialForm);
+        setEditingId(null);
+        setFeedback({
+          success: `Categoria "${describeLedgerCategory(saved)}" ${current ? "atualizada" : "cadastrada"}.`,
+        });
+      } catch (error) {
+        console.error("Erro ao salvar categoria", error);
+        setFeedback({ error: error instanceof Error ? error.message : "Não foi possível salvar a categoria." });
+      }
+    });
+  }
+
+  async function handleToggle(category: LedgerCategorySummary) {
+    setBusyId(category.id);
+    try {
+      await saveCategory({ ...category, active: !category.active }, category.id);
+    } catch (error) {
+      console.error("Erro ao alterar categoria", error);
+      alert(error instanceof Error ? error.message : "Não foi possível alterar a categoria.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(category: LedgerCategorySummary) {
+    if (!window.confirm(`Excluir a categoria "${describeLedgerCategory(category)}"?`)) {
+      return;
+    }
+
+    setBusyId(category.id);
+    try {
+      const response = await fetch(`${baseUrl}/${category.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao excluir categoria." }));
+        alert(body.error ?? "Não foi possível excluir a categoria.");
+        return;
+      }
+      setCategories((prev) => prev.filter((existing) => existing.id !== category.id));
+      if (editingId === category.id) {
+        setEditingId(null);
+        setForm(initialForm);
+      }
+    } catch (error) {
+      console.error("Erro ao excluir categoria", error);
+      alert("Não foi possível excluir a categoria. Tente novamente.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-white/5 p-6 shadow-inner shadow-white/5 space-y-10">
+      <header className="space-y-4">
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold text-white">Plano</h2>
+          <p className="text-sm text-slate-300/80">
+            Cada empresa recebe uma cópia do modelo padrão no primeiro acesso; alterações no modelo valem para as
+            empresas que ainda não têm plano. A hierarquia segue o código: 3.01 fica sob 3.
+          </p>
+        </div>
+        <select
+          aria-label="Plano de contas"
+          className={inputClassName}
+          value={scope}
+          onChange={(event) => setScope(event.target.value)}
+        >
+          <option value="">Modelo padrão</option>
+          {companies.map((company) => (
+            <option key={company.id} value={company.id}>
+              {company.name}
+            </option>
+          ))}
+        </select>
+      </header>
+
+      <form className="space-y-5" onSubmit={handleSubmit}>
+        <h3 className="text-base font-semibold text-white">{editingId === null ? "Nova categoria" : "Editar categoria"}</h3>
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="category-code">
+              Código
+            </label>
+            <input
+              id="category-code"
+              className={inputClassName}
+              value={form.code}
+              onChange={(event) => setForm((prev) => ({ ...prev, code: event.target.value }))}
+              placeholder="Ex.: 3.09"
+              required
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="category-name">
+              Nome
+            </label>
+            <input
+              id="category-name"
+              className={inputClassName}
+              value={form.name}
+              onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+              placeholder="Ex.: Seguros"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="category-movement">
+              Movimentação
+            </label>
+            <select
+              id="category-movement"
+              className={inputClassName}
+              value={form.movement}
+              onChange={(event) => setForm((prev) => ({ ...prev, movement: event.target.value }))}
+            >
+              <option value="">Qualquer</option>
+              {MOVEMENT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {feedback.error ? (
+          <p className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{feedback.error}</p>
+        ) : null}
+        {feedback.success ? (
+          <p className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {feedback.success}
+          </p>
+        ) : null}
+
+        <div className="flex items-center justify-end gap-3">
+          {editingId !== null ? (
+            <button
+              className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                setForm(initialForm);
+              }}
+            >
+              Cancelar edição
+            </button>
+          ) : null}
+          <button
+            className="rounded-xl bg-sky-600 px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-sky-600/30 transition hover:bg-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40 disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={isSaving}
+            type="submit"
+          >
+            {isSaving ? "Salvando..." : editingId === null ? "Salvar categoria" : "Atualizar categoria"}
+          </button>
+        </div>
+      </form>
+
+      <section className="space-y-4">
+        <header className="space-y-1">
+          <h3 className="text-base font-semibold text-white">Categorias</h3>
+          <p className="text-xs text-slate-400">
+            Categorias em uso não podem ser excluídas; desative-as para que deixem de aparecer nos formulários.
+          </p>
+        </header>
+        <div className="rounded-2xl border border-white/10 bg-slate-950/60">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10 text-sm text-slate-200">
+              <thead className="text-xs font-semibold uppercase tracking-wide text-slate-300/80">
+                <tr>
+                  <th className="px-4 py-3 text-left">Código</th>
+                  <th className="px-4 py-3 text-left">Categoria</th>
+                  <th className="px-4 py-3 text-left">Movimentação</th>
+                  <th className="px-4 py-3 text-left">Ações</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {isLoading ? (
+                  <tr>
+                    <td className="px-4 py-6 text-center text-slate-400" colSpan={4}>
+                      Carregando plano de contas...
+                    </td>
+                  </tr>
+                ) : categories.length === 0 ? (
+                  <tr>
+                    <td className="px-4 py-6 text-center text-slate-400" colSpan={4}>
+                      Nenhuma categoria cadastrada.
+                    </td>
+                  </tr>
+                ) : (
+                  categories.map((category) => (
+                    <tr
+                      key={category.id}
+                      className={category.active ? "hover:bg-slate-900/60" : "opacity-60 hover:bg-slate-900/60"}
+                    >
+                      <td className="px-4 py-3 font-mono text-xs text-slate-300">{category.code}</td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={categoryLevel(category.code) === 0 ? "font-semibold text-white" : undefined}
+                          style={{ paddingLeft: `${categoryLevel(category.code) * 1.25}rem` }}
+                        >
+                          {category.name}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-slate-300">
+                        {MOVEMENT_OPTIONS.find((option) => option.value === category.movement)?.label ?? "—"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            className="rounded-lg border border-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:cursor-not-allowed disabled:opacity-60"
+                            type="button"
+                            onClick={() => {
+                              setEditingId(category.id);
+                              setForm({ code: category.code, name: category.name, movement: category.movement ?? "" });
+                              setFeedback({});
+                            }}
+                            disabled={busyId === category.id}
+                          >
+                            Editar
+                          </button>
+                          <button
+                            className="rounded-lg border border-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:cursor-not-allowed disabled:opacity-60"
+                            type="button"
+                            onClick={() => handleToggle(category)}
+                            disabled={busyId === category.id}
+                          >
+                            {category.active ? "Desativar" : "Ativar"}
+                          </button>
+                          <button
+                            className="rounded-lg border border-red-500/40 px-3 py-1 text-xs font-semibold text-red-200 transition hover:border-red-400 hover:text-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+                            type="button"
+                            onClick={() => handleDelete(category)}
+                            disabled={busyId === category.id}
+                          >
+                            Excluir
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+    </section>
+  );
+}
@@ -0,0 +1,375 @@
+'use client';
+
+import { useEffect, useState, useTransition, type FormEvent, type ReactNode } from "react";
+import { describeLedgerCategory } from "./chart-of-accounts-panel";
+
+export type CostCenterSummary = {
+  id: number;
+  companyId: number;
+  name: string;
+  active: boolean;
+};
+
+type GroupTotals = {
+  count: number;
+  entradas: number;
+  despesas: number;
+  compras: number;
+  retiradas: number;
+  transferencias: number;
+  saldo: number;
+};
+
+type EntryGroups = {
+  costCenters: ({ id: number | null; name: string } & GroupTotals)[];
+  tags: ({ tag: string } & GroupTotals)[];
+  /** Categoria e tipo contam cada linha dos lançamentos desdobrados. */
+  categories: ({ id: number | null; code: string | null; name: string } & GroupTotals)[];
+  types: ({ type: string } & GroupTotals)[];
+};
+
+type GroupTotalsTableProps = {
+  heading: string;
+  rows: { key: string; label: ReactNode; totals: GroupTotals }[];
+};
+
+type CostCentersSectionProps = {
+  companyId: number;
+  costCenters: CostCenterSummary[];
+  onCostCentersChange: (costCenters: CostCenterSummary[]) => void;
+  /** Filtros da listagem do livro-caixa, aplicados também aos totais. */
+  query: string;
+  /** Muda quando os lançamentos do livro-caixa mudam, para recarregar. */
+  refreshKey: unknown;
+  onSelectTag?: (tag: string) => void;
+};
+
+const inputClassName =
+  "rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40";
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+function sortCostCenters(list: CostCenterSummary[]) {
+  return [...list].sort((a, b) => Number(b.active) - Number(a.active) || a.name.localeCompare(b.name, "pt-BR"));
+}
+
+const ACTIVITY_LABELS: Record<string, string> = {
+  COMERCIO: "Comércio",
+  INDUSTRIA: "Indústria",
+  SERVICO: "Serviço",
+  TRANSPORTE: "Transporte",
+};
+
+function outflows(totals: GroupTotals) {
+  return totals.despesas + totals.compras + totals.retiradas;
+}
+
+function GroupTotalsTable({ heading, rows }: GroupTotalsTableProps) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-950/60">
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-white/10 text-sm text-slate-200">
+          <thead className="text-xs font-semibold uppercase tracking-wide text-slate-300/80">
+            <tr>
+              <th className="px-4 py-3 text-left">{heading}</th>
+              <th className="px-4 py-3 text-left">Lançamentos</th>
+              <th className="px-4 py-3 text-left">Entradas</th>
+              <th className="px-4 py-3 text-left">Saídas</th>
+              <th className="px-4 py-3 text-left">Saldo</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {rows.map(({ key, label, totals }) => (
+              <tr key={key} className="hover:bg-slate-900/60">
+                <td className="px-4 py-3">{label}</td>
+                <td className="px-4 py-3">{totals.count}</td>
+                <td className="px-4 py-3 text-sky-300">{currencyFormatter.format(totals.entradas)}</td>
+                <td className="px-4 py-3 text-red-300">{currencyFormatter.format(outflows(totals))}</td>
+                <td className={`px-4 py-3 font-semibold ${totals.saldo >= 0 ? "text-sky-300" : "text-red-300"}`}>
+                  {currencyFormatter.format(totals.saldo)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default function CostCentersSection({
+  companyId,
+  costCenters,
+  onCostCentersChange,
+  query,
+  refreshKey,
+  onSelectTag,
+}: CostCentersSectionProps) {
+  const [groups, setGroups] = useState<EntryGroups | null>(null);
+  const [name, setName] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/clients/${companyId}/cash-entries/breakdown?${query}`, { method: "GET" });
+        if (!response.ok) {
+          throw new Error("Falha ao carregar os totais.");
+        }
+        const data = (await response.json()) as EntryGroups;
+        if (!cancelled) {
+          setGroups(data);
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          console.error("Erro ao carregar totais por centro de custo", loadError);
+          setGroups(null);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, query, refreshKey, costCenters]);
+
+  async function saveCostCenter(payload: Pick<CostCenterSummary, "name" | "active">, costCenterId: number | null) {
+    const response = await fetch(
+      costCenterId === null
+        ? `/api/clients/${companyId}/cost-centers`
+        : `/api/clients/${companyId}/cost-centers/${costCenterId}`,
+      {
+        method: costCenterId === null ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      },
+    );
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({ error: "Falha ao salvar o centro de custo." }));
+      throw new Error(body.error ?? "Não foi possível salvar o centro de custo.");
+    }
+    const saved = (await response.json()) as CostCenterSummary;
+    onCostCentersChange(sortCostCenters([...costCenters.filter((existing) => existing.id !== saved.id), saved]));
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+
+    startSaveTransition(async () => {
+      try {
+        const current = costCenters.find((costCenter) => costCenter.id === editingId);
+        await saveCostCenter({ name, active: current?.active ?? true }, editingId);
+        setName("");
+        setEditingId(null);
+      } catch (saveError) {
+        console.error("Erro ao salvar centro de custo", saveError);
+        setError(saveError instanceof Error ? saveError.message : "Não foi possível salvar o centro de custo.");
+      }
+    });
+  }
+
+  async function handleToggle(costCenter: CostCenterSummary) {
+    setBusyId(costCenter.id);
+    setError(null);
+    try {
+      await saveCostCenter({ name: costCenter.name, active: !costCenter.active }, costCenter.id);
+    } catch (toggleError) {
+      console.error("Erro ao alterar centro de custo", toggleError);
+      setError(toggleError instanceof Error ? toggleError.message : "Não foi possível alterar o centro de custo.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(costCenter: CostCenterSummary) {
+    if (!window.confirm(`Excluir o centro de custo "${costCenter.name}"?`)) {
+      return;
+    }
+
+    setBusyId(costCenter.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/clients/${companyId}/cost-centers/${costCenter.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao excluir." }));
+        setError(body.error ?? "Não foi possível excluir o centro de custo.");
+        return;
+      }
+      onCostCentersChange(costCenters.filter((existing) => existing.id !== costCenter.id));
+    } catch (deleteError) {
+      console.error("Erro ao excluir centro de custo", deleteError);
+      setError("Não foi possível excluir o centro de custo. Tente novamente.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const totalsById = new Map((groups?.costCenters ?? []).map((group) => [group.id, group]));
+  const withoutCostCenter = totalsById.get(null);
+
+  return (
+    <section className="space-y-4">
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-white">Centros de custo, categorias e marcadores</h3>
+          <p className="text-sm text-slate-300/80">
+            Resultado de cada loja, filial ou projeto no período e nos filtros aplicados aos lançamentos. Lançamentos
+            desdobrados entram nas categorias e tipos linha a linha.
+          </p>
+        </div>
+        <form className="flex flex-wrap items-center gap-2" onSubmit={handleSubmit}>
+          <input
+            aria-label="Nome do centro de custo"
+            className={inputClassName}
+            placeholder="Ex.: Loja Centro"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            required
+          />
+          <button
+            className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+            type="submit"
+            disabled={isSaving}
+          >
+            {isSaving ? "Salvando..." : editingId === null ? "Novo centro de custo" : "Renomear"}
+          </button>
+          {editingId !== null ? (
+            <button
+              className="rounded-xl border border-white/10 px-4 py-2 text-sm font-semibold text-slate-300 transition hover:border-sky-500 hover:text-sky-300"
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                setName("");
+              }}
+            >
+              Cancelar
+            </button>
+          ) : null}
+        </form>
+      </header>
+
+      {error ? <p className="text-sm text-red-300">{error}</p> : null}
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {costCenters.map((costCenter) => {
+          const totals = totalsById.get(costCenter.id);
+          return (
+            <div
+              key={costCenter.id}
+              className={`space-y-2 rounded-2xl border border-white/10 bg-slate-950/60 px-4 py-3 text-sm text-slate-200 ${
+                costCenter.active ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className="font-semibold text-white">{costCenter.name}</p>
+                {!costCenter.active ? <span className="text-xs text-slate-400">Inativo</span> : null}
+              </div>
+              <p className="text-xs text-slate-400">
+                {totals
+                  ? `${totals.count} lançamento(s) · entradas ${currencyFormatter.format(totals.entradas)} · saídas ${currencyFormatter.format(outflows(totals))}`
+                  : "Nenhum lançamento no período."}
+              </p>
+              <p className={`text-base font-semibold ${(totals?.saldo ?? 0) >= 0 ? "text-sky-300" : "text-red-300"}`}>
+                {currencyFormatter.format(totals?.saldo ?? 0)}
+              </p>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <button
+                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                  type="button"
+                  onClick={() => {
+                    setEditingId(costCenter.id);
+                    setName(costCenter.name);
+                    setError(null);
+                  }}
+                  disabled={busyId === costCenter.id}
+                >
+                  Renomear
+                </button>
+                <button
+                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                  type="button"
+                  onClick={() => handleToggle(costCenter)}
+                  disabled={busyId === costCenter.id}
+                >
+                  {costCenter.active ? "Desativar" : "Ativar"}
+                </button>
+                <button
+                  className="rounded-lg border border-red-500/40 px-3 py-1 font-semibold text-red-200 transition hover:bg-red-500/10 disabled:opacity-40"
+                  type="button"
+                  onClick={() => handleDelete(costCenter)}
+                  disabled={busyId === costCenter.id}
+                >
+                  Excluir
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {withoutCostCenter && costCenters.length > 0 ? (
+          <div className="space-y-2 rounded-2xl border border-dashed border-white/10 bg-slate-950/40 px-4 py-3 text-sm text-slate-200">
+            <p className="font-semibold text-white">{withoutCostCenter.name}</p>
+            <p className="text-xs text-slate-400">
+              {withoutCostCenter.count} lançamento(s) · entradas {currencyFormatter.format(withoutCostCenter.entradas)}{" "}
+              · saídas {currencyFormatter.format(outflows(withoutCostCenter))}
+            </p>
+            <p className={`text-base font-semibold ${withoutCostCenter.saldo >= 0 ? "text-sky-300" : "text-red-300"}`}>
+              {currencyFormatter.format(withoutCostCenter.saldo)}
+            </p>
+          </div>
+        ) : null}
+      </div>
+
+      {groups && (groups.categories.length > 0 || groups.types.length > 0) ? (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <GroupTotalsTable
+            heading="Categoria"
+            rows={groups.categories.map((group) => ({
+              key: String(group.id),
+              label: group.code ? describeLedgerCategory({ code: group.code, name: group.name }) : group.name,
+              totals: group,
+            }))}
+          />
+          <GroupTotalsTable
+            heading="Tipo de atividade"
+            rows={groups.types.map((group) => ({
+              key: group.type,
+              label: ACTIVITY_LABELS[group.type] ?? group.type,
+              totals: group,
+            }))}
+          />
+        </div>
+      ) : null}
+
+      {groups && groups.tags.length > 0 ? (
+        <GroupTotalsTable
+          heading="Marcador"
+          rows={groups.tags.map((group) => ({
+            key: group.tag,
+            label: onSelectTag ? (
+              <button
+                className="rounded-full border border-white/10 px-2 py-0.5 text-xs text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+                type="button"
+                onClick={() => onSelectTag(group.tag)}
+                title="Filtrar lançamentos por este marcador"
+              >
+                {group.tag}
+              </button>
+            ) : (
+              group.tag
+            ),
+            totals: group,
+          }))}
+        />
+      ) : null}
+    </section>
+  );
+}
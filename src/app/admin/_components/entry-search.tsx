@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from "react";
+
+type SearchResult = {
+  id: number;
+  date: string;
+  counterpart: string;
+  productService: string;
+  movement: string;
+  amount: number;
+  notes: string | null;
+  externalReference: string | null;
+  company: { id: number; name: string };
+};
+
+type EntrySearchProps = {
+  /** Sem empresa, administradores buscam em toda a carteira. */
+  companyId?: number;
+};
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+// Datas dos lançamentos são gravadas à meia-noite UTC.
+const dateFormatter = new Intl.DateTimeFormat("pt-BR", {
+  day: "2-digit",
+  month: "2-digit",
+  year: "2-digit",
+  timeZone: "UTC",
+});
+
+const SEARCH_DEBOUNCE_MS = 350;
+
+function signedAmount(result: SearchResult) {
+  if (result.movement === "TRANSFERENCIA") {
+    return result.amount;
+  }
+  return result.movement === "RECEITA" ? Math.abs(result.amount) : -Math.abs(result.amount);
+}
+
+export default function EntrySearch({ companyId }: EntrySearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const text = query.trim();
+    if (text.length < 2) {
+      setResults(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ q: text });
+        if (companyId !== undefined) {
+          params.set("companyId", String(companyId));
+        }
+        const response = await fetch(`/api/cash-entries/search?${params.toString()}`, { method: "GET" });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha na busca." }));
+          throw new Error(body.error ?? "Não foi possível realizar a busca.");
+        }
+        const data = (await response.json()) as SearchResult[];
+        if (!cancelled) {
+          setResults(data);
+        }
+      } catch (searchError) {
+        if (!cancelled) {
+          console.error("Erro ao buscar lançamentos", searchError);
+          setError(searchError instanceof Error ? searchError.message : "Não foi possível realizar a busca.");
+          setResults(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, companyId]);
+
+  return (
+    <div className="space-y-3">
+      <input
+        aria-label="Buscar lançamentos"
+        className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+        type="search"
+        placeholder="Buscar por fornecedor, produto, observação ou referência"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+      />
+
+      {error ? <p className="text-sm text-red-300">{error}</p> : null}
+      {isSearching && !results ? <p className="text-sm text-slate-400">Buscando...</p> : null}
+
+      {results ? (
+        results.length > 0 ? (
+          <ul className="max-h-[24rem] divide-y divide-white/5 overflow-y-auto rounded-2xl border border-white/10 bg-slate-950/60 text-sm text-slate-200">
+            {results.map((result) => {
+              const amount = signedAmount(result);
+              return (
+                <li key={result.id} className="flex flex-col gap-1 px-4 py-3 sm:flex-row sm:items-center sm:gap-4">
+                  <span className="w-20 text-xs text-slate-400">{dateFormatter.format(new Date(result.date))}</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-semibold text-white">{result.counterpart}</p>
+                    <p className="truncate text-xs text-slate-400">
+                      {companyId === undefined ? `${result.company.name} · ` : ""}
+                      {result.productService}
+                      {result.notes ? ` · ${result.notes}` : ""}
+                    </p>
+                  </div>
+                  <span className={amount >= 0 ? "text-sky-300" : "text-red-300"}>{currencyFormatter.format(amount)}</span>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-400">Nenhum lançamento encontrado.</p>
+        )
+      ) : null}
+    </div>
+  );
+}
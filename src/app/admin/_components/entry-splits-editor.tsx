@@ -0,0 +1,207 @@
+'use client';
+
+import { describeLedgerCategory, type LedgerCategorySummary } from "./chart-of-accounts-panel";
+
+export type EntrySplit = {
+  id: number;
+  categoryId: number | null;
+  type: string;
+  amount: number;
+  notes: string | null;
+};
+
+export type SplitFormLine = {
+  categoryId: string;
+  type: string;
+  /** Valor com a máscara de moeda, como no campo do lançamento. */
+  amount: string;
+  notes: string;
+};
+
+type EntrySplitsEditorProps = {
+  idPrefix: string;
+  lines: SplitFormLine[];
+  onChange: (lines: SplitFormLine[]) => void;
+  /** Valor do lançamento, que as linhas precisam somar. */
+  total: number;
+  categories: LedgerCategorySummary[];
+  typeOptions: { value: string; label: string }[];
+  /** Categoria e tipo do lançamento, usados na primeira linha ao desdobrar. */
+  defaultCategoryId: string;
+  defaultType: string;
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40";
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+function formatAmountInput(value: number) {
+  return currencyFormatter.format(value).replace(/\s/g, "").replace("R$", "").trim();
+}
+
+function maskAmount(raw: string) {
+  return formatAmountInput(Number(raw.replace(/\D/g, "")) / 100);
+}
+
+function parseAmount(value: string) {
+  const parsed = Number(value.replace(/\s/g, "").replace(/\./g, "").replace(/,/g, "."));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function toSplitFormLines(splits: EntrySplit[] | undefined): SplitFormLine[] {
+  return (splits ?? []).map((split) => ({
+    categoryId: split.categoryId === null ? "" : String(split.categoryId),
+    type: split.type,
+    amount: formatAmountInput(split.amount),
+    notes: split.notes ?? "",
+  }));
+}
+
+export function toSplitPayload(lines: SplitFormLine[]) {
+  return lines.map((line) => ({
+    categoryId: line.categoryId ? Number(line.categoryId) : null,
+    type: line.type,
+    amount: line.amount,
+    notes: line.notes.trim(),
+  }));
+}
+
+export default function EntrySplitsEditor({
+  idPrefix,
+  lines,
+  onChange,
+  total,
+  categories,
+  typeOptions,
+  defaultCategoryId,
+  defaultType,
+}: EntrySplitsEditorProps) {
+  const activeCategories = categories.filter(
+    (category) => category.active || lines.some((line) => line.categoryId === String(category.id)),
+  );
+  const remainingCents =
+    Math.round(Math.abs(total) * 100) -
+    lines.reduce((sum, line) => sum + Math.round(parseAmount(line.amount) * 100), 0);
+
+  function updateLine(index: number, changes: Partial<SplitFormLine>) {
+    onChange(lines.map((line, lineIndex) => (lineIndex === index ? { ...line, ...changes } : line)));
+  }
+
+  function handleSplit() {
+    onChange([
+      { categoryId: defaultCategoryId, type: defaultType, amount: formatAmountInput(Math.abs(total)), notes: "" },
+      { categoryId: "", type: defaultType, amount: formatAmountInput(0), notes: "" },
+    ]);
+  }
+
+  function handleAddLine() {
+    onChange([
+      ...lines,
+      { categoryId: "", type: defaultType, amount: formatAmountInput(Math.max(remainingCents, 0) / 100), notes: "" },
+    ]);
+  }
+
+  if (lines.length === 0) {
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-dashed border-white/10 px-4 py-3 text-sm text-slate-300">
+        <span>Um pagamento que cobre várias despesas pode ser desdobrado em linhas com categoria e tipo próprios.</span>
+        <button
+          className="rounded-lg border border-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+          type="button"
+          onClick={handleSplit}
+        >
+          Desdobrar lançamento
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/10 px-4 py-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium text-slate-200">Desdobramento</p>
+        <button
+          className="rounded-lg border border-white/10 px-3 py-1 text-xs font-semibold text-slate-300 transition hover:border-sky-500 hover:text-sky-300"
+          type="button"
+          onClick={() => onChange([])}
+        >
+          Desfazer desdobramento
+        </button>
+      </div>
+
+      {lines.map((line, index) => (
+        <div key={index} className="grid gap-2 md:grid-cols-[2fr_1fr_1fr_2fr_auto] md:items-center">
+          <select
+            aria-label={`Categoria da linha ${index + 1}`}
+            className={inputClassName}
+            id={`${idPrefix}-split-category-${index}`}
+            value={line.categoryId}
+            onChange={(event) => updateLine(index, { categoryId: event.target.value })}
+          >
+            <option value="">Sem categoria</option>
+            {activeCategories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {describeLedgerCategory(category)}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label={`Tipo da linha ${index + 1}`}
+            className={inputClassName}
+            value={line.type}
+            onChange={(event) => updateLine(index, { type: event.target.value })}
+          >
+            {typeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label={`Valor da linha ${index + 1}`}
+            className={inputClassName}
+            inputMode="decimal"
+            value={line.amount}
+            onChange={(event) => updateLine(index, { amount: maskAmount(event.target.value) })}
+          />
+          <input
+            aria-label={`Descrição da linha ${index + 1}`}
+            className={inputClassName}
+            placeholder="Ex.: condomínio"
+            value={line.notes}
+            onChange={(event) => updateLine(index, { notes: event.target.value })}
+          />
+          <button
+            className="rounded-lg border border-red-500/40 px-3 py-1 text-xs font-semibold text-red-200 transition hover:bg-red-500/10 disabled:opacity-40"
+            type="button"
+            onClick={() => onChange(lines.filter((_, lineIndex) => lineIndex !== index))}
+            disabled={lines.length <= 2}
+          >
+            Remover
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <button
+          className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+          type="button"
+          onClick={handleAddLine}
+        >
+          Adicionar linha
+        </button>
+        <span className={remainingCents === 0 ? "text-sky-300" : "text-amber-300"}>
+          {remainingCents === 0
+            ? "As linhas somam o valor do lançamento."
+            : remainingCents > 0
+              ? `Falta distribuir ${currencyFormatter.format(remainingCents / 100)}.`
+              : `As linhas excedem o lançamento em ${currencyFormatter.format(-remainingCents / 100)}.`}
+        </span>
+      </div>
+    </div>
+  );
+}
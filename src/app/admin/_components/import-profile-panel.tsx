@@ -0,0 +1,521 @@
+'use client';
+
+import { useState, useTransition, type FormEvent } from "react";
+
+type SignConvention = "signed" | "inverted" | "split" | "indicator";
+
+type ColumnKey = "date" | "description" | "amount" | "credit" | "debit" | "indicator" | "reference";
+
+type ImportProfileSummary = {
+  id: string;
+  name: string;
+  bank?: string | null;
+  builtIn: boolean;
+  delimiter: string;
+  encoding: string;
+  dateFormat: string;
+  headerRow: number;
+  signConvention: SignConvention;
+  debitIndicators?: string[];
+  columns: Partial<Record<ColumnKey, string>>;
+};
+
+type ImportProfilePanelProps = {
+  initialProfiles: ImportProfileSummary[];
+};
+
+type ProfileFormState = {
+  name: string;
+  bank: string;
+  delimiter: string;
+  encoding: string;
+  dateFormat: string;
+  headerRow: string;
+  signConvention: SignConvention;
+  debitIndicators: string;
+  columns: Record<ColumnKey, string>;
+};
+
+type CsvSample = {
+  header: string[];
+  rows: string[][];
+};
+
+const DELIMITER_OPTIONS = [
+  { value: ";", label: "Ponto e vírgula (;)" },
+  { value: ",", label: "Vírgula (,)" },
+  { value: "\\t", label: "Tabulação" },
+  { value: "|", label: "Barra vertical (|)" },
+];
+
+const ENCODING_OPTIONS = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "latin1", label: "Latin-1 (Windows)" },
+];
+
+const DATE_FORMAT_OPTIONS = ["DD/MM/YYYY", "DD/MM/YY", "YYYY-MM-DD", "MM/DD/YYYY", "DD-MM-YYYY", "YYYYMMDD"];
+
+const SIGN_OPTIONS: { value: SignConvention; label: string }[] = [
+  { value: "signed", label: "Valor com sinal (negativo = saída)" },
+  { value: "inverted", label: "Sinal invertido (fatura de cartão)" },
+  { value: "split", label: "Crédito e débito em colunas separadas" },
+  { value: "indicator", label: "Valor + coluna indicadora (C/D)" },
+];
+
+const COLUMN_LABELS: Record<ColumnKey, string> = {
+  date: "Data",
+  description: "Descrição",
+  amount: "Valor",
+  credit: "Crédito",
+  debit: "Débito",
+  indicator: "Indicador C/D",
+  reference: "Identificador (opcional)",
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20";
+
+function createInitialForm(): ProfileFormState {
+  return {
+    name: "",
+    bank: "",
+    delimiter: ";",
+    encoding: "latin1",
+    dateFormat: "DD/MM/YYYY",
+    headerRow: "0",
+    signConvention: "signed",
+    debitIndicators: "D",
+    columns: { date: "", description: "", amount: "", credit: "", debit: "", indicator: "", reference: "" },
+  };
+}
+
+function visibleColumns(signConvention: SignConvention): ColumnKey[] {
+  if (signConvention === "split") {
+    return ["date", "description", "credit", "debit", "reference"];
+  }
+  if (signConvention === "indicator") {
+    return ["date", "description", "amount", "indicator", "reference"];
+  }
+  return ["date", "description", "amount", "reference"];
+}
+
+export default function ImportProfilePanel({ initialProfiles }: ImportProfilePanelProps) {
+  const [profiles, setProfiles] = useState<ImportProfileSummary[]>(initialProfiles);
+  const [form, setForm] = useState<ProfileFormState>(() => createInitialForm());
+  const [sampleFile, setSampleFile] = useState<File | null>(null);
+  const [sample, setSample] = useState<CsvSample | null>(null);
+  const [feedback, setFeedback] = useState<{ error?: string; success?: string }>({});
+  const [isSampling, startSampleTransition] = useTransition();
+  const [isSaving, startSaveTransition] = useTransition();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  function updateColumn(key: ColumnKey, value: string) {
+    setForm((prev) => ({ ...prev, columns: { ...prev.columns, [key]: value } }));
+  }
+
+  function handleReadSample(file: File | null, nextForm: ProfileFormState) {
+    if (!file) {
+      return;
+    }
+    setFeedback({});
+    startSampleTransition(async () => {
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("delimiter", nextForm.delimiter);
+        formData.append("encoding", nextForm.encoding);
+        formData.append("headerRow", nextForm.headerRow || "0");
+        const response = await fetch("/api/import-profiles/sample", {
+          method: "POST",
+          body: formData,
+        });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha ao ler o arquivo." }));
+          setFeedback({ error: body.error ?? "Não foi possível ler o arquivo de exemplo." });
+          setSample(null);
+          return;
+        }
+        setSample((await response.json()) as CsvSample);
+      } catch (error) {
+        console.error("Erro ao ler arquivo de exemplo", error);
+        setFeedback({ error: "Não foi possível ler o arquivo de exemplo." });
+        setSample(null);
+      }
+    });
+  }
+
+  function updateReadOption(key: "delimiter" | "encoding" | "headerRow", value: string) {
+    const nextForm = { ...form, [key]: value };
+    setForm(nextForm);
+    handleReadSample(sampleFile, nextForm);
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setFeedback({});
+
+    const columns = Object.fromEntries(
+      visibleColumns(form.signConvention)
+        .map((key) => [key, form.columns[key]] as const)
+        .filter(([, value]) => value),
+    );
+
+    startSaveTransition(async () => {
+      try {
+        const response = await fetch("/api/import-profiles", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: form.name,
+            bank: form.bank,
+            delimiter: form.delimiter,
+            encoding: form.encoding,
+            dateFormat: form.dateFormat,
+            headerRow: Number(form.headerRow || 0),
+            signConvention: form.signConvention,
+            debitIndicators: form.debitIndicators,
+            columns,
+          }),
+        });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha ao salvar o perfil." }));
+          setFeedback({ error: body.error ?? "Não foi possível salvar o perfil." });
+          return;
+        }
+        const created = (await response.json()) as ImportProfileSummary;
+        setProfiles((prev) => [...prev, created]);
+        setForm(createInitialForm());
+        setSample(null);
+        setSampleFile(null);
+        setFeedback({ success: `Perfil "${created.name}" cadastrado.` });
+      } catch (error) {
+        console.error("Erro ao salvar perfil de importação", error);
+        setFeedback({ error: "Não foi possível salvar o perfil. Tente novamente." });
+      }
+    });
+  }
+
+  async function handleDelete(profile: ImportProfileSummary) {
+    if (profile.builtIn || !window.confirm(`Excluir o perfil "${profile.name}"?`)) {
+      return;
+    }
+
+    setDeletingId(profile.id);
+    try {
+      const response = await fetch(`/api/import-profiles/${profile.id.replace(/^db:/, "")}`, { method: "DELETE" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao excluir perfil." }));
+        alert(body.error ?? "Não foi possível excluir o perfil.");
+        return;
+      }
+      setProfiles((prev) => prev.filter((existing) => existing.id !== profile.id));
+    } catch (error) {
+      console.error("Erro ao excluir perfil de importação", error);
+      alert("Não foi possível excluir o perfil. Tente novamente.");
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  const headerOptions = sample?.header.filter(Boolean) ?? [];
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-white/5 p-6 shadow-inner shadow-white/5 space-y-10">
+      <header className="space-y-2">
+        <h2 className="text-lg font-semibold text-white">Novo perfil a partir de um arquivo de exemplo</h2>
+        <p className="text-sm text-slate-300/80">
+          Envie um CSV exportado pelo banco, ajuste separador, codificação e linha do cabeçalho até as colunas aparecerem
+          corretamente e indique qual coluna corresponde a cada campo.
+        </p>
+      </header>
+
+      <form className="space-y-5" onSubmit={handleSubmit}>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="profile-name">
+              Nome do perfil
+            </label>
+            <input
+              id="profile-name"
+              className={inputClassName}
+              value={form.name}
+              onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+              placeholder="Ex.: Sicoob - conta corrente"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="profile-bank">
+              Código do banco (opcional)
+            </label>
+            <input
+              id="profile-bank"
+              className={inputClassName}
+              value={form.bank}
+              onChange={(event) => setForm((prev) => ({ ...prev, bank: event.target.value }))}
+              placeholder="Ex.: 756"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-slate-200" htmlFor="profile-sample">
+            Arquivo de exemplo
+          </label>
+          <input
+            id="profile-sample"
+            className={inputClassName}
+            type="file"
+            accept=".csv,.txt,text/csv"
+            onChange={(event) => {
+              const file = event.target.files?.[0] ?? null;
+              setSampleFile(file);
+              handleReadSample(file, form);
+            }}
+          />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="profile-delimiter">
+              Separador
+            </label>
+            <select
+              id="profile-delimiter"
+              className={inputClassName}
+              value={form.delimiter}
+              onChange={(event) => updateReadOption("delimiter", event.target.value)}
+            >
+              {DELIMITER_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="profile-encoding">
+              Codificação
+            </label>
+            <select
+              id="profile-encoding"
+              className={inputClassName}
+              value={form.encoding}
+              onChange={(event) => updateReadOption("encoding", event.target.value)}
+            >
+              {ENCODING_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="profile-header-row">
+              Linha do cabeçalho
+            </label>
+            <input
+              id="profile-header-row"
+              className={inputClassName}
+              type="number"
+              min={0}
+              max={50}
+              value={form.headerRow}
+              onChange={(event) => updateReadOption("headerRow", event.target.value)}
+            />
+            <p className="text-xs text-slate-500">Quantidade de linhas antes do cabeçalho (0 = primeira linha).</p>
+          </div>
+        </div>
+
+        {isSampling ? <p className="text-sm text-slate-400">Lendo arquivo...</p> : null}
+
+        {sample ? (
+          <div className="max-h-64 overflow-auto rounded-2xl border border-white/10 bg-slate-950/60">
+            <table className="min-w-full divide-y divide-white/10 text-sm text-slate-200">
+              <thead className="text-xs font-semibold uppercase tracking-wide text-slate-300/80">
+                <tr>
+                  {sample.header.map((cell, index) => (
+                    <th key={`${cell}-${index}`} className="px-4 py-3 text-left">
+                      {cell || "—"}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {sample.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="px-4 py-2 text-slate-300">
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="profile-date-format">
+              Formato da data
+            </label>
+            <select
+              id="profile-date-format"
+              className={inputClassName}
+              value={form.dateFormat}
+              onChange={(event) => setForm((prev) => ({ ...prev, dateFormat: event.target.value }))}
+            >
+              {DATE_FORMAT_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-slate-200" htmlFor="profile-sign">
+              Convenção de sinal
+            </label>
+            <select
+              id="profile-sign"
+              className={inputClassName}
+              value={form.signConvention}
+              onChange={(event) =>
+                setForm((prev) => ({ ...prev, signConvention: event.target.value as SignConvention }))
+              }
+            >
+              {SIGN_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {visibleColumns(form.signConvention).map((key) => (
+            <div key={key} className="space-y-2">
+              <label className="text-sm font-medium text-slate-200" htmlFor={`profile-column-${key}`}>
+                Coluna: {COLUMN_LABELS[key]}
+              </label>
+              {headerOptions.length > 0 ? (
+                <select
+                  id={`profile-column-${key}`}
+                  className={inputClassName}
+                  value={form.columns[key]}
+                  onChange={(event) => updateColumn(key, event.target.value)}
+                >
+                  <option value="">Não usar</option>
+                  {headerOptions.map((cell) => (
+                    <option key={cell} value={cell}>
+                      {cell}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  id={`profile-column-${key}`}
+                  className={inputClassName}
+                  value={form.columns[key]}
+                  onChange={(event) => updateColumn(key, event.target.value)}
+                  placeholder="Nome da coluna no cabeçalho"
+                />
+              )}
+            </div>
+          ))}
+          {form.signConvention === "indicator" ? (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-200" htmlFor="profile-debit-indicators">
+                Valores que indicam débito
+              </label>
+              <input
+                id="profile-debit-indicators"
+                className={inputClassName}
+                value={form.debitIndicators}
+                onChange={(event) => setForm((prev) => ({ ...prev, debitIndicators: event.target.value }))}
+                placeholder="Ex.: D, DEB"
+              />
+              <p className="text-xs text-slate-500">Separe por vírgula.</p>
+            </div>
+          ) : null}
+        </div>
+
+        {feedback.error ? (
+          <p className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{feedback.error}</p>
+        ) : null}
+        {feedback.success ? (
+          <p className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {feedback.success}
+          </p>
+        ) : null}
+
+        <div className="flex items-center justify-end">
+          <button
+            className="rounded-xl bg-sky-600 px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-sky-600/30 transition hover:bg-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40 disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={isSaving}
+            type="submit"
+          >
+            {isSaving ? "Salvando..." : "Salvar perfil"}
+          </button>
+        </div>
+      </form>
+
+      <section className="space-y-4">
+        <header className="space-y-1">
+          <h3 className="text-base font-semibold text-white">Perfis disponíveis</h3>
+          <p className="text-xs text-slate-400">
+            Os perfis pré-definidos não podem ser alterados. Na importação, o perfil é detectado pelo cabeçalho do arquivo
+            e pode ser trocado na pré-visualização.
+          </p>
+        </header>
+        <div className="rounded-2xl border border-white/10 bg-slate-950/60">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10 text-sm text-slate-200">
+              <thead className="text-xs font-semibold uppercase tracking-wide text-slate-300/80">
+                <tr>
+                  <th className="px-4 py-3 text-left">Nome</th>
+                  <th className="px-4 py-3 text-left">Separador</th>
+                  <th className="px-4 py-3 text-left">Data</th>
+                  <th className="px-4 py-3 text-left">Sinal</th>
+                  <th className="px-4 py-3 text-left">Ações</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {profiles.map((profile) => (
+                  <tr key={profile.id} className="hover:bg-slate-900/60">
+                    <td className="px-4 py-3">
+                      <p className="font-semibold text-white">{profile.name}</p>
+                      <p className="text-xs text-slate-400">{profile.builtIn ? "Pré-definido" : "Personalizado"}</p>
+                    </td>
+                    <td className="px-4 py-3">{profile.delimiter === "\t" ? "TAB" : profile.delimiter}</td>
+                    <td className="px-4 py-3">{profile.dateFormat}</td>
+                    <td className="px-4 py-3">
+                      {SIGN_OPTIONS.find((option) => option.value === profile.signConvention)?.label ?? profile.signConvention}
+                    </td>
+                    <td className="px-4 py-3">
+                      {profile.builtIn ? (
+                        <span className="text-xs text-slate-500">—</span>
+                      ) : (
+                        <button
+                          className="rounded-lg border border-red-500/40 px-3 py-1 text-xs font-semibold text-red-200 transition hover:border-red-400 hover:text-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+                          type="button"
+                          onClick={() => handleDelete(profile)}
+                          disabled={deletingId === profile.id}
+                        >
+                          {deletingId === profile.id ? "Excluindo..." : "Excluir"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+    </section>
+  );
+}
@@ -1,7 +1,19 @@
 ﻿'use client';
 
-import { useEffect, useMemo, useRef, useState, useTransition, type FormEvent } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState, useTransition, type FormEvent } from "react";
 import type { MovementCategory } from "@prisma/client";
+import BankAccountsSection, { describeBankAccount, type BankAccountSummary, type CompanyOpeningBalance } from "./bank-accounts-section";
+import { describeLedgerCategory, type LedgerCategorySummary } from "./chart-of-accounts-panel";
+import CostCentersSection, { type CostCenterSummary } from "./cost-centers-section";
+import EntrySearch from "./entry-search";
+import EntrySplitsEditor, {
+  toSplitFormLines,
+  toSplitPayload,
+  type EntrySplit,
+  type SplitFormLine,
+} from "./entry-splits-editor";
+import ReconciliationSection from "./reconciliation-section";
+import RecurringEntriesSection from "./recurring-entries-section";
 
 type Company = {
   id: number;
@@ -25,6 +37,26 @@ type CashEntry = {
   createdAt: string;
   updatedAt: string;
   paymentMethod: PaymentOption;
+  importBatchId?: number | null;
+  bankAccountId?: number | null;
+  categoryId?: number | null;
+  costCenterId?: number | null;
+  tags?: string[];
+  splits?: EntrySplit[];
+};
+
+type ImportBatchSummary = {
+  id: number;
+  filename: string;
+  format: string;
+  bankId: string | null;
+  branchId: string | null;
+  accountId: string | null;
+  rowCount: number;
+  totalIncome: number;
+  totalExpense: number;
+  createdAt: string;
+  user: { id: number; email: string } | null;
 };
 
 type LivroCaixaPanelProps = {
@@ -46,10 +78,18 @@ type EntryFormState = {
   type: ActivityOption;
   paymentMethod: string;
   amount: string;
+  /** Só usado em transferências, que guardam o sentido no sinal do valor. */
+  direction: TransferDirection;
   notes: string;
+  bankAccountId: string;
+  categoryId: string;
+  costCenterId: string;
+  /** Marcadores separados por vírgula. */
+  tags: string;
 };
 
-type MovementOption = "RECEITA" | "COMPRA" | "DESPESA" | "RETIRADA";
+type MovementOption = "RECEITA" | "COMPRA" | "DESPESA" | "RETIRADA" | "TRANSFERENCIA";
+type TransferDirection = "ENTRADA" | "SAIDA";
 type ActivityOption = "COMERCIO" | "INDUSTRIA" | "SERVICO" | "TRANSPORTE";
 type PaymentOption =
   | "PIX"
@@ -58,22 +98,106 @@ type PaymentOption =
   | "CARTAO_CREDITO"
   | "CARTAO_DEBITO"
   | "CHEQUE"
+  | "TRANSFERENCIA"
   | "OUTROS";
 
+type ImportProfileOption = {
+  id: string;
+  name: string;
+  builtIn: boolean;
+};
+
+type ImportPreviewAccount = {
+  bankId?: string;
+  branchId?: string;
+  accountId?: string;
+  type?: string;
+};
+
+type ImportPreviewSuggestion = {
+  movement: MovementOption;
+  type: ActivityOption;
+  productService: string;
+  confidence: number;
+  highConfidence: boolean;
+  source: "counterpart" | "description";
+  matches: number;
+  accepted?: boolean;
+};
+
+type ImportPreviewTransaction = {
+  date: string;
+  amount: number;
+  description: string;
+  reference: string;
+  counterpart: string;
+  productService: string;
+  paymentMethod: PaymentOption;
+  movement: MovementCategory;
+  type?: ActivityOption;
+  categoryId?: number | null;
+  rule?: { id: number; name: string };
+  suggestion?: ImportPreviewSuggestion;
+  duplicate?: "reference" | "fingerprint" | null;
+  lowConfidence?: boolean;
+  issues?: string[];
+};
+
+type ImportPreviewStatement = {
+  kind: "bank" | "creditcard";
+  currency?: string;
+  account?: ImportPreviewAccount;
+  sourceAccount?: string;
+  bankAccountId?: number | null;
+  endDate?: string;
+  ledgerBalance?: { amount: number; date: string };
+  transactions: ImportPreviewTransaction[];
+};
+
+type EntriesTotals = {
+  count: number;
+  entradas: number;
+  despesas: number;
+  compras: number;
+  retiradas: number;
+  transferencias: number;
+  saldo: number;
+};
+
+type EntriesPage = {
+  entries: CashEntry[];
+  nextCursor: number | null;
+  totals: EntriesTotals;
+};
+
+type EntryFilters = {
+  startDate: string;
+  endDate: string;
+  bankAccountId: string;
+  costCenterId: string;
+  tags: string;
+  movement: string;
+  type: string;
+  paymentMethod: string;
+  counterpart: string;
+  minAmount: string;
+  maxAmount: string;
+  sort: string;
+};
+
 type ImportPreview = {
   filename: string;
-  format: "csv" | "ofx";
+  format: "csv" | "ofx" | "pdf" | "xlsx" | "xls" | "ods" | "cnab" | "xml";
   currency?: string;
-  transactions: Array<{
-    date: string;
-    amount: number;
-    description: string;
-    reference: string;
-    counterpart: string;
-    productService: string;
-    paymentMethod: PaymentOption;
-    movement: MovementCategory;
-  }>;
+  profileId?: string;
+  sheets?: string[];
+  sheetName?: string;
+  account?: ImportPreviewAccount;
+  sourceAccount?: string;
+  bankAccountId?: number | null;
+  statements?: ImportPreviewStatement[];
+  warnings?: string[];
+  transactions: ImportPreviewTransaction[];
 };
 
 const MOVEMENT_OPTIONS: { value: MovementOption; label: string }[] = [
@@ -81,6 +205,12 @@ const MOVEMENT_OPTIONS: { value: MovementOption; label: string }[] = [
   { value: "COMPRA", label: "Compra" },
   { value: "DESPESA", label: "Despesa" },
   { value: "RETIRADA", label: "Retirada" },
+  { value: "TRANSFERENCIA", label: "Transferência" },
+];
+
+const DIRECTION_OPTIONS: { value: TransferDirection; label: string }[] = [
+  { value: "SAIDA", label: "Saída da conta" },
+  { value: "ENTRADA", label: "Entrada na conta" },
 ];
 
 const ACTIVITY_OPTIONS: { value: ActivityOption; label: string }[] = [
@@ -97,9 +227,33 @@ const PAYMENT_OPTIONS: { value: PaymentOption; label: string }[] = [
   { value: "CARTAO_CREDITO", label: "Cartão de crédito" },
   { value: "CARTAO_DEBITO", label: "Cartão de débito" },
   { value: "CHEQUE", label: "Cheque" },
+  { value: "TRANSFERENCIA", label: "Transferência (TED/DOC)" },
   { value: "OUTROS", label: "Outros" },
 ];
 
+const emptyTotals: EntriesTotals = {
+  count: 0,
+  entradas: 0,
+  despesas: 0,
+  compras: 0,
+  retiradas: 0,
+  transferencias: 0,
+  saldo: 0,
+};
+
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: "date:asc", label: "Data (mais antigos)" },
+  { value: "date:desc", label: "Data (mais recentes)" },
+  { value: "amount:desc", label: "Maior valor" },
+  { value: "amount:asc", label: "Menor valor" },
+  { value: "counterpart:asc", label: "Empresa / Fornecedor" },
+];
+
+// Campos digitados esperam o usuário parar antes de consultar o servidor.
+const FILTER_DEBOUNCE_MS = 350;
+
+const initialCompanyOpening: CompanyOpeningBalance = { openingBalance: 0, openingDate: null };
+
 const initialClientForm: ClientFormState = {
   name: "",
   email: "",
@@ -119,6 +273,79 @@ function formatCnpj(cnpj: string) {
   return `${digits.slice(0, 2)}.${digits.slice(2, 5)}.${digits.slice(5, 8)}/${digits.slice(8, 12)}-${digits.slice(12)}`;
 }
 
+function formatDateTime(iso: string) {
+  return new Intl.DateTimeFormat("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function describeStatementAccount(statement: ImportPreviewStatement) {
+  const account = statement.account;
+  if (statement.kind === "creditcard") {
+    return `Cartão ${account?.accountId ?? ""}`.trim();
+  }
+  return [
+    account?.bankId ? `Banco ${account.bankId}` : null,
+    account?.branchId ? `Ag. ${account.branchId}` : null,
+    account?.accountId ? `Conta ${account.accountId}` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+type OpeningWindow = {
+  /** `null` é o saldo inicial da empresa, dos lançamentos sem conta. */
+  bankAccountId: number | null;
+  openingBalance: number;
+  openingDate: string | null;
+};
+
+/**
+ * Saldo após cada lançamento, em ordem cronológica, partindo do saldo
+ * transportado para `startDate`. Segue as regras do saldo transportado no
+ * servidor: lançamentos anteriores à data do saldo inicial da sua conta já
+ * estão nele, e o saldo inicial de uma conta aberta depois de `startDate`
+ * entra no dia da abertura.
+ */
+function computeRunningBalances(
+  entries: CashEntry[],
+  carriedBalance: number,
+  windows: OpeningWindow[],
+  startDate: string,
+  countsTransfers: boolean,
+) {
+  const openingDates = new Map(windows.map((window) => [window.bankAccountId, window.openingDate?.slice(0, 10) ?? ""]));
+  let pending = startDate
+    ? windows.filter((window) => window.openingDate && window.openingDate.slice(0, 10) > startDate)
+    : [];
+  let running = carriedBalance;
+
+  return entries.map((entry) => {
+    const day = entry.date.slice(0, 10);
+    pending.forEach((window) => {
+      if (window.openingDate!.slice(0, 10) <= day) {
+        running += window.openingBalance;
+      }
+    });
+    pending = pending.filter((window) => window.openingDate!.slice(0, 10) > day);
+
+    const openingDate = openingDates.get(entry.bankAccountId ?? null) ?? "";
+    if (openingDate && day < openingDate) {
+      return running;
+    }
+    if (entry.movement === "TRANSFERENCIA") {
+      running += countsTransfers ? entry.amount : 0;
+    } else {
+      running += entry.movement === "RECEITA" ? Math.abs(entry.amount) : -Math.abs(entry.amount);
+    }
+    return running;
+  });
+}
+
 function formatDateShort(iso: string) {
   const date = new Date(iso);
   return new Intl.DateTimeFormat("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit" }).format(date);
@@ -155,6 +382,55 @@ function getCurrentMonthRange() {
   };
 }
 
+function createInitialFilters(): EntryFilters {
+  const { start, end } = getCurrentMonthRange();
+  return {
+    startDate: start,
+    endDate: end,
+    bankAccountId: "",
+    costCenterId: "",
+    tags: "",
+    movement: "",
+    type: "",
+    paymentMethod: "",
+    counterpart: "",
+    minAmount: "",
+    maxAmount: "",
+    sort: "date:asc",
+  };
+}
+
+function buildEntriesQuery(filters: EntryFilters) {
+  const params = new URLSearchParams();
+  const [sort, order] = filters.sort.split(":");
+  params.set("sort", sort);
+  params.set("order", order);
+  (
+    [
+      "startDate",
+      "endDate",
+      "bankAccountId",
+      "costCenterId",
+      "tags",
+      "movement",
+      "type",
+      "paymentMethod",
+      "counterpart",
+    ] as const
+  ).forEach((key) => {
+    if (filters[key].trim()) {
+      params.set(key, filters[key].trim());
+    }
+  });
+  if (filters.minAmount.trim()) {
+    params.set("minAmount", String(parseCurrencyToNumber(filters.minAmount)));
+  }
+  if (filters.maxAmount.trim()) {
+    params.set("maxAmount", String(parseCurrencyToNumber(filters.maxAmount)));
+  }
+  return params;
+}
+
 function createInitialEntryForm(): EntryFormState {
   return {
     date: formatDateInput(new Date()),
@@ -164,7 +440,12 @@ function createInitialEntryForm(): EntryFormState {
     type: "COMERCIO",
     paymentMethod: "PIX",
     amount: "",
+    direction: "SAIDA",
     notes: "",
+    bankAccountId: "",
+    categoryId: "",
+    costCenterId: "",
+    tags: "",
   };
 }
 
@@ -190,30 +471,65 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
   const [entries, setEntries] = useState<CashEntry[]>([]);
   const [isFetchingEntries, setIsFetchingEntries] = useState(false);
   const [entriesError, setEntriesError] = useState<string | null>(null);
-  const [filters, setFilters] = useState(() => {
-    const { start, end } = getCurrentMonthRange();
-    return { startDate: start, endDate: end };
-  });
+  const [filters, setFilters] = useState<EntryFilters>(createInitialFilters);
+  const [appliedFilters, setAppliedFilters] = useState<EntryFilters>(filters);
+  const [entriesCursor, setEntriesCursor] = useState<number | null>(null);
+  const [entriesTotals, setEntriesTotals] = useState<EntriesTotals>(emptyTotals);
+  const [entriesVersion, setEntriesVersion] = useState(0);
+  const [isLoadingMoreEntries, setIsLoadingMoreEntries] = useState(false);
+  const [accountBalances, setAccountBalances] = useState<Record<string, number>>({});
+  const [bankAccounts, setBankAccounts] = useState<BankAccountSummary[]>([]);
+  const [ledgerCategories, setLedgerCategories] = useState<LedgerCategorySummary[]>([]);
+  const [costCenters, setCostCenters] = useState<CostCenterSummary[]>([]);
+  const [companyOpening, setCompanyOpening] = useState<CompanyOpeningBalance>(initialCompanyOpening);
+  const [carriedBalance, setCarriedBalance] = useState<number | null>(null);
 
   const [entryForm, setEntryForm] = useState<EntryFormState>(() => createInitialEntryForm());
   const [entryFormError, setEntryFormError] = useState<string | null>(null);
   const [isCreatingEntry, startCreateEntryTransition] = useTransition();
   const [editingEntry, setEditingEntry] = useState<CashEntry | null>(null);
   const [editAmountInput, setEditAmountInput] = useState("0,00");
+  const [editTagsInput, setEditTagsInput] = useState("");
+  const [editDirection, setEditDirection] = useState<TransferDirection>("SAIDA");
+  const [editSplits, setEditSplits] = useState<SplitFormLine[]>([]);
+  const [entrySplits, setEntrySplits] = useState<SplitFormLine[]>([]);
+  const [expandedEntryIds, setExpandedEntryIds] = useState<number[]>([]);
   const [isEditing, startEditTransition] = useTransition();
   const [editError, setEditError] = useState<string | null>(null);
   const [isDeleting, startDeleteTransition] = useTransition();
   const [bulkDeleting, setBulkDeleting] = useState(false);
   const [selectedEntryIds, setSelectedEntryIds] = useState<number[]>([]);
+  const [bulkCostCenterId, setBulkCostCenterId] = useState("");
+  const [bulkTagsInput, setBulkTagsInput] = useState("");
+  const [bulkUpdating, setBulkUpdating] = useState(false);
   const [isImporting, startImportTransition] = useTransition();
   const [importError, setImportError] = useState<string | null>(null);
   const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importRowErrors, setImportRowErrors] = useState<Record<number, string>>({});
+  const [skippedImportIndexes, setSkippedImportIndexes] = useState<number[]>([]);
+  const [importBatches, setImportBatches] = useState<ImportBatchSummary[]>([]);
+  const [importBatchesError, setImportBatchesError] = useState<string | null>(null);
+  const [undoingBatchId, setUndoingBatchId] = useState<number | null>(null);
+  const [importProfiles, setImportProfiles] = useState<ImportProfileOption[]>([]);
+  const [importProfileId, setImportProfileId] = useState("");
+  const [importBankAccountId, setImportBankAccountId] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const invoiceInputRef = useRef<HTMLInputElement>(null);
+  const lastImportFileRef = useRef<File | null>(null);
   const selectAllCheckboxRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedFilters(filters), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const entriesQuery = useMemo(() => buildEntriesQuery(appliedFilters).toString(), [appliedFilters]);
+
   useEffect(() => {
     if (typeof selectedClientId !== "number") {
       setEntries([]);
+      setEntriesCursor(null);
+      setEntriesTotals(emptyTotals);
       return;
     }
 
@@ -223,7 +539,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
 
     (async () => {
       try {
-        const response = await fetch(`/api/clients/${selectedClientId}/cash-entries`, {
+        const response = await fetch(`/api/clients/${selectedClientId}/cash-entries?${entriesQuery}`, {
           method: "GET",
         });
 
@@ -232,15 +548,19 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
           throw new Error(body.error ?? "Falha ao carregar lançamentos.");
         }
 
-        const data = (await response.json()) as CashEntry[];
+        const data = (await response.json()) as EntriesPage;
         if (!cancelled) {
-          setEntries(data);
+          setEntries(data.entries);
+          setEntriesCursor(data.nextCursor);
+          setEntriesTotals(data.totals);
         }
       } catch (error) {
         if (!cancelled) {
           console.error("Erro ao buscar lançamentos", error);
           setEntriesError("Não foi possível carregar os lançamentos dessa empresa.");
           setEntries([]);
+          setEntriesCursor(null);
+          setEntriesTotals(emptyTotals);
         }
       } finally {
         if (!cancelled) {
@@ -252,12 +572,274 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
     return () => {
       cancelled = true;
     };
-  }, [selectedClientId]);
+  }, [selectedClientId, entriesQuery, entriesVersion]);
+
+  useEffect(() => {
+    if (typeof selectedClientId !== "number") {
+      setAccountBalances({});
+      return;
+    }
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/clients/${selectedClientId}/bank-accounts/balances`, { method: "GET" });
+        if (!response.ok) {
+          throw new Error("Falha ao carregar saldos.");
+        }
+        const data = (await response.json()) as Record<string, number>;
+        if (!cancelled) {
+          setAccountBalances(data);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Erro ao buscar saldos das contas", error);
+          setAccountBalances({});
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClientId, entriesVersion, bankAccounts, companyOpening]);
 
   useEffect(() => {
     setSelectedEntryIds([]);
   }, [selectedClientId]);
 
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch("/api/import-profiles", { method: "GET" });
+        if (!response.ok) {
+          throw new Error("Falha ao carregar perfis de importação.");
+        }
+        const data = (await response.json()) as ImportProfileOption[];
+        if (!cancelled) {
+          setImportProfiles(data);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Erro ao buscar perfis de importação", error);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (typeof selectedClientId !== "number") {
+      setImportBatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    setImportBatchesError(null);
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/clients/${selectedClientId}/import-batches`, { method: "GET" });
+        if (!response.ok) {
+          throw new Error("Falha ao carregar importações.");
+        }
+        const data = (await response.json()) as ImportBatchSummary[];
+        if (!cancelled) {
+          setImportBatches(data);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Erro ao buscar importações", error);
+          setImportBatchesError("Não foi possível carregar o histórico de importações.");
+          setImportBatches([]);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClientId]);
+
+  useEffect(() => {
+    if (typeof selectedClientId !== "number") {
+      setBankAccounts([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/clients/${selectedClientId}/bank-accounts`, { method: "GET" });
+        if (!response.ok) {
+          throw new Error("Falha ao carregar contas.");
+        }
+        const data = (await response.json()) as BankAccountSummary[];
+        if (!cancelled) {
+          setBankAccounts(data);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Erro ao buscar contas", error);
+          setBankAccounts([]);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClientId]);
+
+  useEffect(() => {
+    if (typeof selectedClientId !== "number") {
+      setLedgerCategories([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/clients/${selectedClientId}/ledger-categories`, { method: "GET" });
+        if (!response.ok) {
+          throw new Error("Falha ao carregar o plano de contas.");
+        }
+        const data = (await response.json()) as LedgerCategorySummary[];
+        if (!cancelled) {
+          setLedgerCategories(data);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Erro ao buscar plano de contas", error);
+          setLedgerCategories([]);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClientId]);
+
+  useEffect(() => {
+    if (typeof selectedClientId !== "number") {
+      setCostCenters([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/clients/${selectedClientId}/cost-centers`, { method: "GET" });
+        if (!response.ok) {
+          throw new Error("Falha ao carregar centros de custo.");
+        }
+        const data = (await response.json()) as CostCenterSummary[];
+        if (!cancelled) {
+          setCostCenters(data);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Erro ao buscar centros de custo", error);
+          setCostCenters([]);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClientId]);
+
+  useEffect(() => {
+    if (typeof selectedClientId !== "number") {
+      setCompanyOpening(initialCompanyOpening);
+      return;
+    }
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/clients/${selectedClientId}/opening-balance`, { method: "GET" });
+        if (!response.ok) {
+          throw new Error("Falha ao carregar saldo inicial.");
+        }
+        const data = (await response.json()) as CompanyOpeningBalance;
+        if (!cancelled) {
+          setCompanyOpening(data);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Erro ao buscar saldo inicial", error);
+          setCompanyOpening(initialCompanyOpening);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClientId]);
+
+  // O saldo acumulado da tabela parte do saldo transportado para a data
+  // inicial do filtro, calculado no servidor com os saldos iniciais.
+  useEffect(() => {
+    if (typeof selectedClientId !== "number") {
+      setCarriedBalance(null);
+      return;
+    }
+
+    let cancelled = false;
+    const params = new URLSearchParams();
+    if (appliedFilters.startDate) {
+      params.set("date", appliedFilters.startDate);
+    }
+    if (appliedFilters.bankAccountId) {
+      params.set("bankAccountId", appliedFilters.bankAccountId);
+    }
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/clients/${selectedClientId}/balance?${params.toString()}`, {
+          method: "GET",
+        });
+        if (!response.ok) {
+          throw new Error("Falha ao carregar saldo anterior.");
+        }
+        const data = (await response.json()) as { balance: number };
+        if (!cancelled) {
+          setCarriedBalance(data.balance);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Erro ao buscar saldo anterior", error);
+          setCarriedBalance(null);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    selectedClientId,
+    appliedFilters.startDate,
+    appliedFilters.bankAccountId,
+    entriesVersion,
+    bankAccounts,
+    companyOpening,
+  ]);
+
   useEffect(() => {
     setSelectedEntryIds((prev) => {
       const valid = prev.filter((id) => entries.some((entry) => entry.id === id));
@@ -292,46 +874,64 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
       ? formattedClients.find((client) => client.id === selectedClientId) ?? null
       : null;
 
-  const filteredEntries = useMemo(() => {
-    const start = filters.startDate ? new Date(filters.startDate) : null;
-    const end = filters.endDate ? new Date(filters.endDate) : null;
-    if (end) {
-      end.setHours(23, 59, 59, 999);
-    }
-
-    return entries.filter((entry) => {
-      const entryDate = new Date(entry.date);
-      if (start && entryDate < start) {
-        return false;
-      }
-      if (end && entryDate > end) {
-        return false;
-      }
-      return true;
-    });
-  }, [entries, filters]);
+  const activeBankAccounts = bankAccounts.filter((account) => account.active);
+  const activeLedgerCategories = ledgerCategories.filter((category) => category.active);
+  const activeCostCenters = costCenters.filter((costCenter) => costCenter.active);
+
+  // O saldo acumulado só faz sentido na ordem cronológica (as páginas chegam
+  // em ordem e a primeira parte do saldo transportado para a data inicial) e
+  // com todos os lançamentos do escopo: além do período, só a conta filtra.
+  const showsRunningBalance =
+    appliedFilters.sort === "date:asc" &&
+    !appliedFilters.costCenterId &&
+    !appliedFilters.tags.trim() &&
+    !appliedFilters.movement &&
+    !appliedFilters.type &&
+    !appliedFilters.paymentMethod &&
+    !appliedFilters.counterpart.trim() &&
+    !appliedFilters.minAmount &&
+    !appliedFilters.maxAmount;
 
   const enhancedEntries = useMemo(() => {
-    let running = 0;
-
-    return filteredEntries
-      .slice()
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-      .map((entry) => {
-        const multiplier = entry.movement === "RECEITA" ? 1 : -1;
-        const amount = Math.abs(entry.amount);
-        running += amount * multiplier;
-
-        return {
-          ...entry,
-          runningBalance: running,
-          displayAmount:
-            entry.movement === "RECEITA"
+    let runningBalances: number[] | null = null;
+    if (showsRunningBalance) {
+      const companyWindow: OpeningWindow = { bankAccountId: null, ...companyOpening };
+      const accountWindows: OpeningWindow[] = bankAccounts.map((account) => ({
+        bankAccountId: account.id,
+        openingBalance: account.openingBalance,
+        openingDate: account.openingDate,
+      }));
+      const windows =
+        appliedFilters.bankAccountId === "none"
+          ? [companyWindow]
+          : appliedFilters.bankAccountId
+            ? accountWindows.filter((window) => String(window.bankAccountId) === appliedFilters.bankAccountId)
+            : [companyWindow, ...accountWindows];
+      // Transferências entre contas da empresa ficam fora dos totais; no saldo,
+      // só contam quando o filtro é uma conta.
+      runningBalances = computeRunningBalances(
+        entries,
+        carriedBalance ?? 0,
+        windows,
+        appliedFilters.startDate,
+        Boolean(appliedFilters.bankAccountId),
+      );
+    }
+
+    return entries.map((entry, index) => {
+      const amount = Math.abs(entry.amount);
+      return {
+        ...entry,
+        runningBalance: runningBalances ? runningBalances[index] : null,
+        displayAmount:
+          entry.movement === "TRANSFERENCIA"
+            ? currencyFormatter.format(entry.amount)
+            : entry.movement === "RECEITA"
               ? currencyFormatter.format(amount)
               : `-${currencyFormatter.format(amount)}`,
-        };
-      });
-  }, [filteredEntries]);
+      };
+    });
+  }, [appliedFilters, bankAccounts, carriedBalance, companyOpening, entries, showsRunningBalance]);
 
   const selectedEntryIdsSet = useMemo(() => new Set(selectedEntryIds), [selectedEntryIds]);
   const selectedEntriesCount = selectedEntryIds.length;
@@ -344,33 +944,44 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
     }
   }, [selectedEntriesCount, allVisibleSelected]);
 
-  const totals = useMemo(() => {
-    return enhancedEntries.reduce(
-      (acc, entry) => {
-        const amount = Math.abs(entry.amount);
-        switch (entry.movement) {
-          case "RECEITA":
-            acc.entradas += amount;
-            break;
-          case "DESPESA":
-            acc.despesas += amount;
-            break;
-          case "COMPRA":
-            acc.compras += amount;
-            break;
-          case "RETIRADA":
-            acc.retiradas += amount;
-            break;
-          default:
-            break;
-        }
-        return acc;
-      },
-      { entradas: 0, despesas: 0, compras: 0, retiradas: 0 },
-    );
-  }, [enhancedEntries]);
+  // Totais e saldo final vêm do servidor e consideram todo o conjunto
+  // filtrado, inclusive as páginas ainda não carregadas.
+  const totals = entriesTotals;
+  const totalBalance = entriesTotals.saldo;
+  const closingBalance =
+    (carriedBalance ?? 0) + entriesTotals.saldo + (appliedFilters.bankAccountId ? entriesTotals.transferencias : 0);
+
+  function reloadEntries() {
+    setEntriesVersion((prev) => prev + 1);
+  }
+
+  async function handleLoadMoreEntries() {
+    if (typeof selectedClientId !== "number" || entriesCursor === null) {
+      return;
+    }
 
-  const totalBalance = totals.entradas - totals.despesas - totals.compras - totals.retiradas;
+    setIsLoadingMoreEntries(true);
+    try {
+      const params = new URLSearchParams(entriesQuery);
+      params.set("cursor", String(entriesCursor));
+      const response = await fetch(`/api/clients/${selectedClientId}/cash-entries?${params.toString()}`, {
+        method: "GET",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Falha ao carregar lançamentos." }));
+        throw new Error(body.error ?? "Falha ao carregar lançamentos.");
+      }
+      const data = (await response.json()) as EntriesPage;
+      setEntries((prev) => [...prev, ...data.entries]);
+      setEntriesCursor(data.nextCursor);
+      setEntriesTotals(data.totals);
+    } catch (error) {
+      console.error("Erro ao carregar mais lançamentos", error);
+      alert("Não foi possível carregar mais lançamentos. Tente novamente.");
+    } finally {
+      setIsLoadingMoreEntries(false);
+    }
+  }
 
   function handleClientModalClose() {
     setClientModalOpen(false);
@@ -405,6 +1016,22 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
     }));
   }
 
+  // Categorias com movimentação definida já ajustam a movimentação do lançamento.
+  function handleEntryCategoryChange(value: string) {
+    const category = ledgerCategories.find((option) => String(option.id) === value);
+    setEntryForm((prev) => ({
+      ...prev,
+      categoryId: value,
+      movement: category?.movement ?? prev.movement,
+    }));
+  }
+
+  function handleToggleEntryExpanded(entryId: number) {
+    setExpandedEntryIds((prev) =>
+      prev.includes(entryId) ? prev.filter((id) => id !== entryId) : [...prev, entryId],
+    );
+  }
+
   function handleCreateClient(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (!canCreateClients) {
@@ -462,6 +1089,9 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
       amount: entryForm.amount,
       paymentMethod: entryForm.paymentMethod,
       notes: entryForm.notes.trim(),
+      bankAccountId: entryForm.bankAccountId ? Number(entryForm.bankAccountId) : null,
+      categoryId: entryForm.categoryId ? Number(entryForm.categoryId) : null,
+      costCenterId: entryForm.costCenterId ? Number(entryForm.costCenterId) : null,
     };
 
     if (!payload.date || !payload.counterpart || !payload.productService || !payload.paymentMethod || !payload.amount) {
@@ -481,6 +1111,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
           body: JSON.stringify({
             ...payload,
             notes: payload.notes || undefined,
+            splits: entrySplits.length > 0 ? toSplitPayload(entrySplits) : undefined,
           }),
         });
 
@@ -490,9 +1121,15 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
           return;
         }
 
-        const createdEntry = (await response.json()) as CashEntry;
-        setEntries((prev) => [...prev, createdEntry]);
-        setEntryForm(createInitialEntryForm());
+        await response.json();
+        reloadEntries();
+        // A conta e o centro de custo costumam se repetir entre lançamentos seguidos.
+        setEntryForm({
+          ...createInitialEntryForm(),
+          bankAccountId: entryForm.bankAccountId,
+          costCenterId: entryForm.costCenterId,
+        });
+        setEntrySplits([]);
       } catch (error) {
         console.error("Erro ao criar lançamento", error);
         setEntryFormError("Não foi possível salvar o lançamento. Tente novamente.");
@@ -502,13 +1139,19 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
 
   function handleEditEntry(entry: CashEntry) {
     setEditingEntry({ ...entry });
-    setEditAmountInput(formatNumberToCurrencyInput(entry.amount));
+    setEditAmountInput(formatNumberToCurrencyInput(Math.abs(entry.amount)));
+    setEditDirection(entry.amount < 0 ? "SAIDA" : "ENTRADA");
+    setEditTagsInput((entry.tags ?? []).join(", "));
+    setEditSplits(toSplitFormLines(entry.splits));
     setEditError(null);
   }
 
   function handleCloseEditModal() {
     setEditingEntry(null);
     setEditAmountInput("0,00");
+    setEditDirection("SAIDA");
+    setEditTagsInput("");
+    setEditSplits([]);
     setEditError(null);
   }
 
@@ -527,8 +1170,14 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
       productService: editingEntry.productService,
       type: editingEntry.type,
       paymentMethod: editingEntry.paymentMethod,
-      amount: editAmountInput || formatNumberToCurrencyInput(editingEntry.amount),
+      amount: editAmountInput || formatNumberToCurrencyInput(Math.abs(editingEntry.amount)),
+      direction: editDirection,
       notes: editingEntry.notes ?? "",
+      bankAccountId: editingEntry.bankAccountId ?? null,
+      categoryId: editingEntry.categoryId ?? null,
+      costCenterId: editingEntry.costCenterId ?? null,
+      tags: editTagsInput,
+      splits: toSplitPayload(editSplits),
     };
 
     const payloadBody = {
@@ -557,6 +1206,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
 
         const updated = (await response.json()) as CashEntry;
         setEntries((prev) => prev.map((entry) => (entry.id === updated.id ? updated : entry)));
+        reloadEntries();
         handleCloseEditModal();
       } catch (error) {
         console.error("Erro ao atualizar lançamento", error);
@@ -586,6 +1236,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
         }
 
         setEntries((prev) => prev.filter((existing) => existing.id !== entry.id));
+        reloadEntries();
         if (editingEntry?.id === entry.id) {
           handleCloseEditModal();
         }
@@ -647,6 +1298,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
 
       setEntries((prev) => prev.filter((entry) => !selectedEntryIdsSet.has(entry.id)));
       setSelectedEntryIds([]);
+      reloadEntries();
     } catch (error) {
       console.error("Erro ao excluir lançamentos em massa", error);
       alert("Não foi possível excluir todos os lançamentos selecionados. Tente novamente.");
@@ -655,8 +1307,233 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
     }
   }
 
+  async function handleBulkUpdate(changes: { costCenterId?: number | null; addTags?: string; removeTags?: string }) {
+    if (!selectedEntriesCount || typeof selectedClientId !== "number") {
+      return;
+    }
+
+    setBulkUpdating(true);
+    try {
+      const response = await fetch(`/api/clients/${selectedClientId}/cash-entries/bulk`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ids: selectedEntryIds, ...changes }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao atualizar." }));
+        alert(body.error ?? "Não foi possível atualizar os lançamentos selecionados.");
+        return;
+      }
+
+      setBulkTagsInput("");
+      reloadEntries();
+    } catch (error) {
+      console.error("Erro ao atualizar lançamentos em massa", error);
+      alert("Não foi possível atualizar os lançamentos selecionados. Tente novamente.");
+    } finally {
+      setBulkUpdating(false);
+    }
+  }
+
+  async function handleUndoImport(batch: ImportBatchSummary) {
+    if (typeof selectedClientId !== "number") {
+      return;
+    }
+
+    if (
+      !window.confirm(
+        `Desfazer a importação de "${batch.filename}"? ${batch.rowCount} lançamento(s) criados por ela serão excluídos.`,
+      )
+    ) {
+      return;
+    }
+
+    setUndoingBatchId(batch.id);
+    try {
+      const response = await fetch(`/api/clients/${selectedClientId}/import-batches/${batch.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao desfazer importação." }));
+        alert(body.error ?? "Não foi possível desfazer a importação.");
+        return;
+      }
+
+      setEntries((prev) => prev.filter((entry) => entry.importBatchId !== batch.id));
+      reloadEntries();
+      setImportBatches((prev) => prev.filter((existing) => existing.id !== batch.id));
+    } catch (error) {
+      console.error("Erro ao desfazer importação", error);
+      alert("Não foi possível desfazer a importação. Tente novamente.");
+    } finally {
+      setUndoingBatchId(null);
+    }
+  }
+
   const hasClients = formattedClients.length > 0;
+  function handleImportStatement(file: File, profileId: string, sheet = "") {
+    if (typeof selectedClientId !== "number") {
+      setImportError("Selecione uma empresa antes de importar.");
+      return;
+    }
+    setImportError(null);
+    startImportTransition(async () => {
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("companyId", String(selectedClientId));
+        if (profileId) {
+          formData.append("profileId", profileId);
+        }
+        if (sheet) {
+          formData.append("sheet", sheet);
+        }
+        const response = await fetch("/api/importar-extrato", {
+          method: "POST",
+          body: formData,
+        });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha ao importar o extrato." }));
+          setImportError(body.error ?? "Não foi possível importar o extrato.");
+          return;
+        }
+        const data = (await response.json()) as ImportPreview;
+        if (data.statements && data.statements.length > 0) {
+          // Mantém a mesma referência para saber qual conta está selecionada.
+          data.transactions = data.statements[0].transactions;
+        }
+        showImportPreview(data);
+        setImportProfileId(data.profileId ?? profileId);
+      } catch (error) {
+        console.error("Erro ao importar extrato", error);
+        setImportError("Não foi possível importar o extrato. Tente novamente.");
+      }
+    });
+  }
+
+  function handleImportInvoices(file: File) {
+    if (typeof selectedClientId !== "number") {
+      setImportError("Selecione uma empresa antes de importar.");
+      return;
+    }
+    setImportError(null);
+    startImportTransition(async () => {
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("companyId", String(selectedClientId));
+        const response = await fetch("/api/importar-notas", {
+          method: "POST",
+          body: formData,
+        });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha ao importar as notas fiscais." }));
+          setImportError(body.error ?? "Não foi possível importar as notas fiscais.");
+          return;
+        }
+        showImportPreview((await response.json()) as ImportPreview);
+      } catch (error) {
+        console.error("Erro ao importar notas fiscais", error);
+        setImportError("Não foi possível importar as notas fiscais. Tente novamente.");
+      }
+    });
+  }
+
+  function showImportPreview(data: ImportPreview) {
+    setImportPreview(data);
+    setImportBankAccountId(data.bankAccountId ? String(data.bankAccountId) : "");
+    setSkippedImportIndexes(data.transactions.flatMap((transaction, index) => (transaction.duplicate ? [index] : [])));
+    setImportRowErrors({});
+    setImportError(null);
+  }
+
+  function handleSelectImportStatement(index: number) {
+    const statement = importPreview?.statements?.[index];
+    if (!importPreview || !statement) {
+      return;
+    }
+    setImportPreview({
+      ...importPreview,
+      currency: statement.currency ?? importPreview.currency,
+      account: statement.account,
+      sourceAccount: statement.sourceAccount,
+      bankAccountId: statement.bankAccountId,
+      transactions: statement.transactions,
+    });
+    setImportBankAccountId(statement.bankAccountId ? String(statement.bankAccountId) : "");
+    setSkippedImportIndexes(
+      statement.transactions.flatMap((transaction, transactionIndex) => (transaction.duplicate ? [transactionIndex] : [])),
+    );
+    setImportRowErrors({});
+  }
+
+  function handleChangeImportProfile(profileId: string) {
+    setImportProfileId(profileId);
+    if (lastImportFileRef.current) {
+      handleImportStatement(lastImportFileRef.current, profileId, importPreview?.sheetName ?? "");
+    }
+  }
+
+  function handleChangeImportSheet(sheet: string) {
+    // Abas diferentes costumam ter layouts diferentes: volta a detectar o perfil.
+    setImportProfileId("");
+    if (lastImportFileRef.current) {
+      handleImportStatement(lastImportFileRef.current, "", sheet);
+    }
+  }
+
   const importTransactionsCount = importPreview?.transactions.length ?? 0;
+  const importStatementIndex = importPreview?.statements
+    ? importPreview.statements.findIndex((statement) => statement.transactions === importPreview.transactions)
+    : -1;
+  const importStatement = importStatementIndex >= 0 ? importPreview?.statements?.[importStatementIndex] : undefined;
+  const skippedImportSet = new Set(skippedImportIndexes);
+  const importSelectedCount = importTransactionsCount - skippedImportIndexes.length;
+  const importDuplicatesCount = importPreview?.transactions.filter((transaction) => transaction.duplicate).length ?? 0;
+  const importLowConfidenceCount =
+    importPreview?.transactions.filter((transaction) => transaction.lowConfidence).length ?? 0;
+  const importHighConfidenceIndexes =
+    importPreview?.transactions.flatMap((transaction, index) =>
+      transaction.suggestion?.highConfidence && !transaction.suggestion.accepted ? [index] : [],
+    ) ?? [];
+
+  function handleAcceptImportSuggestions(indexes: number[]) {
+    if (!importPreview) {
+      return;
+    }
+    const targets = new Set(indexes);
+    const transactions = importPreview.transactions.map((transaction, index) => {
+      const suggestion = transaction.suggestion;
+      if (!suggestion || suggestion.accepted || !targets.has(index)) {
+        return transaction;
+      }
+      return {
+        ...transaction,
+        movement: suggestion.movement,
+        type: suggestion.type,
+        productService: suggestion.productService,
+        suggestion: { ...suggestion, accepted: true },
+      };
+    });
+    // A conta selecionada é identificada pela referência da lista de transações.
+    setImportPreview({
+      ...importPreview,
+      statements: importPreview.statements?.map((statement) =>
+        statement.transactions === importPreview.transactions ? { ...statement, transactions } : statement,
+      ),
+      transactions,
+    });
+  }
+
+  function handleToggleImportRow(index: number) {
+    setSkippedImportIndexes((prev) =>
+      prev.includes(index) ? prev.filter((existing) => existing !== index) : [...prev, index],
+    );
+  }
 
   return (
     <section className="rounded-3xl border border-white/10 bg-white/5 p-6 shadow-inner shadow-white/5">
@@ -725,14 +1602,32 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
 
       {selectedClient ? (
         <div className="mt-10 space-y-10">
+          <BankAccountsSection
+            companyId={selectedClient.id}
+            accounts={bankAccounts}
+            balances={accountBalances}
+            onAccountsChange={setBankAccounts}
+            companyOpening={companyOpening}
+            onCompanyOpeningChange={setCompanyOpening}
+          />
+
+          <ReconciliationSection
+            companyId={selectedClient.id}
+            accounts={bankAccounts.filter((account) => account.active && account.type !== "CAIXA")}
+            refreshKey={entriesVersion}
+          />
+
           <section className="space-y-6">
             <header className="space-y-2">
               <h3 className="text-lg font-semibold text-white">Lançamentos</h3>
               <p className="text-sm text-slate-300/80">
-                O livro-caixa é a ferramenta de controle financeiro da empresa. Acompanhe os lançamentos e filtre por data.
+                O livro-caixa é a ferramenta de controle financeiro da empresa. Acompanhe os lançamentos e filtre por
+                período, movimentação, forma de pagamento, contraparte ou valor.
               </p>
             </header>
 
+            <EntrySearch companyId={selectedClient.id} />
+
             <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
               <div className="space-y-2">
                 <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="start-date">
@@ -758,6 +1653,174 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                   onChange={(event) => setFilters((prev) => ({ ...prev, endDate: event.target.value }))}
                 />
               </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="account-filter">
+                  Conta
+                </label>
+                <select
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="account-filter"
+                  value={filters.bankAccountId}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, bankAccountId: event.target.value }))}
+                >
+                  <option value="">Todas as contas</option>
+                  <option value="none">Sem conta</option>
+                  {bankAccounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="cost-center-filter">
+                  Centro de custo
+                </label>
+                <select
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="cost-center-filter"
+                  value={filters.costCenterId}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, costCenterId: event.target.value }))}
+                >
+                  <option value="">Todos os centros</option>
+                  <option value="none">Sem centro de custo</option>
+                  {costCenters.map((costCenter) => (
+                    <option key={costCenter.id} value={costCenter.id}>
+                      {costCenter.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="tags-filter">
+                  Marcadores
+                </label>
+                <input
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="tags-filter"
+                  placeholder="Separados por vírgula"
+                  value={filters.tags}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, tags: event.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="movement-filter">
+                  Movimentação
+                </label>
+                <select
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="movement-filter"
+                  value={filters.movement}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, movement: event.target.value }))}
+                >
+                  <option value="">Todas</option>
+                  {MOVEMENT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="type-filter">
+                  Tipo
+                </label>
+                <select
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="type-filter"
+                  value={filters.type}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, type: event.target.value }))}
+                >
+                  <option value="">Todos</option>
+                  {ACTIVITY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="payment-filter">
+                  Forma de pagamento
+                </label>
+                <select
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="payment-filter"
+                  value={filters.paymentMethod}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, paymentMethod: event.target.value }))}
+                >
+                  <option value="">Todas</option>
+                  {PAYMENT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="counterpart-filter">
+                  Empresa / Fornecedor
+                </label>
+                <input
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="counterpart-filter"
+                  placeholder="Buscar pelo nome"
+                  value={filters.counterpart}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, counterpart: event.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="min-amount-filter">
+                  Valor mínimo
+                </label>
+                <input
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="min-amount-filter"
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  value={filters.minAmount}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, minAmount: event.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="max-amount-filter">
+                  Valor máximo
+                </label>
+                <input
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="max-amount-filter"
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  value={filters.maxAmount}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, maxAmount: event.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="sort-filter">
+                  Ordenar por
+                </label>
+                <select
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="sort-filter"
+                  value={filters.sort}
+                  onChange={(event) => setFilters((prev) => ({ ...prev, sort: event.target.value }))}
+                >
+                  {SORT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-end">
+                <button
+                  className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-sm font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+                  type="button"
+                  onClick={() => setFilters(createInitialFilters())}
+                >
+                  Limpar filtros
+                </button>
+              </div>
             </div>
 
             <div className="rounded-2xl border border-white/10 bg-slate-950/60">
@@ -783,6 +1846,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                       <th className="px-4 py-3 text-left">Tipo</th>
                       <th className="px-4 py-3 text-left">Valor</th>
                       <th className="px-4 py-3 text-left">Forma de pagamento</th>
+                      <th className="px-4 py-3 text-left">Conta</th>
                       <th className="px-4 py-3 text-left">Saldo acumulado</th>
                       <th className="px-4 py-3 text-left">Ações</th>
                     </tr>
@@ -790,75 +1854,157 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                   <tbody className="divide-y divide-white/5 text-sm text-slate-200">
                     {isFetchingEntries ? (
                       <tr>
-                        <td className="px-4 py-6 text-center text-sm text-slate-400" colSpan={10}>
+                        <td className="px-4 py-6 text-center text-sm text-slate-400" colSpan={11}>
                           Carregando lançamentos...
                         </td>
                       </tr>
                     ) : entriesError ? (
                       <tr>
-                        <td className="px-4 py-6 text-center text-sm text-red-300" colSpan={10}>
+                        <td className="px-4 py-6 text-center text-sm text-red-300" colSpan={11}>
                           {entriesError}
                         </td>
                       </tr>
                     ) : enhancedEntries.length > 0 ? (
                       enhancedEntries.map((entry) => (
-                        <tr key={entry.id} className="hover:bg-slate-900/60">
-                          <td className="px-4 py-3">
-                            <input
-                              aria-label="Selecionar movimentação"
-                              className="h-4 w-4 rounded border border-white/30 bg-slate-950/80 text-sky-500 focus:ring-2 focus:ring-sky-500 disabled:opacity-40"
-                              type="checkbox"
-                              checked={selectedEntryIdsSet.has(entry.id)}
-                              onChange={() => handleToggleEntrySelection(entry.id)}
-                              disabled={bulkDeleting}
-                            />
-                          </td>
-                          <td className="px-4 py-3">{formatDateShort(entry.date)}</td>
-                          <td className="px-4 py-3">{entry.counterpart}</td>
-                          <td className="px-4 py-3">{entry.productService}</td>
-                          <td className="px-4 py-3">
-                            {MOVEMENT_OPTIONS.find((option) => option.value === entry.movement)?.label ?? entry.movement}
-                          </td>
-                          <td className="px-4 py-3">
-                            {ACTIVITY_OPTIONS.find((option) => option.value === entry.type)?.label ?? entry.type}
-                          </td>
-                          <td className="px-4 py-3 font-semibold">{entry.displayAmount}</td>
-                          <td className="px-4 py-3">{formatPayment(entry.paymentMethod)}</td>
-                          <td className="px-4 py-3 font-semibold">
-                            {currencyFormatter.format(entry.runningBalance)}
-                          </td>
-                          <td className="px-4 py-3">
-                            <div className="flex items-center gap-2 text-xs">
-                              <button
-                                className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
-                                type="button"
-                                onClick={() => handleEditEntry(entry)}
+                        <Fragment key={entry.id}>
+                          <tr className="hover:bg-slate-900/60">
+                            <td className="px-4 py-3">
+                              <input
+                                aria-label="Selecionar movimentação"
+                                className="h-4 w-4 rounded border border-white/30 bg-slate-950/80 text-sky-500 focus:ring-2 focus:ring-sky-500 disabled:opacity-40"
+                                type="checkbox"
+                                checked={selectedEntryIdsSet.has(entry.id)}
+                                onChange={() => handleToggleEntrySelection(entry.id)}
                                 disabled={bulkDeleting}
-                              >
-                                Editar
-                              </button>
-                              <button
-                                className="rounded-lg border border-red-500/40 px-3 py-1 font-semibold text-red-200 transition hover:bg-red-500/10 disabled:opacity-40"
-                                type="button"
-                                onClick={() => handleDeleteEntry(entry)}
-                                disabled={isDeleting || bulkDeleting}
-                              >
-                                Excluir
-                              </button>
-                            </div>
-                          </td>
-                        </tr>
+                              />
+                            </td>
+                            <td className="px-4 py-3">{formatDateShort(entry.date)}</td>
+                            <td className="px-4 py-3">{entry.counterpart}</td>
+                            <td className="px-4 py-3">
+                              <p>{entry.productService}</p>
+                              {entry.categoryId ? (
+                                <p className="text-xs text-slate-400">
+                                  {(() => {
+                                    const category = ledgerCategories.find((option) => option.id === entry.categoryId);
+                                    return category ? describeLedgerCategory(category) : "—";
+                                  })()}
+                                </p>
+                              ) : null}
+                              {entry.splits && entry.splits.length > 0 ? (
+                                <button
+                                  className="text-xs font-semibold text-sky-300 transition hover:text-sky-200"
+                                  type="button"
+                                  onClick={() => handleToggleEntryExpanded(entry.id)}
+                                  aria-expanded={expandedEntryIds.includes(entry.id)}
+                                >
+                                  {`${expandedEntryIds.includes(entry.id) ? "Ocultar" : "Ver"} desdobramento (${entry.splits.length} linhas)`}
+                                </button>
+                              ) : null}
+                              {entry.tags && entry.tags.length > 0 ? (
+                                <div className="mt-1 flex flex-wrap gap-1">
+                                  {entry.tags.map((tag) => (
+                                    <span
+                                      key={tag}
+                                      className="rounded-full border border-white/10 px-2 py-0.5 text-[11px] text-slate-300"
+                                    >
+                                      {tag}
+                                    </span>
+                                  ))}
+                                </div>
+                              ) : null}
+                            </td>
+                            <td className="px-4 py-3">
+                              {MOVEMENT_OPTIONS.find((option) => option.value === entry.movement)?.label ?? entry.movement}
+                            </td>
+                            <td className="px-4 py-3">
+                              {ACTIVITY_OPTIONS.find((option) => option.value === entry.type)?.label ?? entry.type}
+                            </td>
+                            <td className="px-4 py-3 font-semibold">{entry.displayAmount}</td>
+                            <td className="px-4 py-3">{formatPayment(entry.paymentMethod)}</td>
+                            <td className="px-4 py-3">
+                              <p>{bankAccounts.find((account) => account.id === entry.bankAccountId)?.name ?? "—"}</p>
+                              {entry.costCenterId ? (
+                                <p className="text-xs text-slate-400">
+                                  {costCenters.find((costCenter) => costCenter.id === entry.costCenterId)?.name ?? "—"}
+                                </p>
+                              ) : null}
+                            </td>
+                            <td className="px-4 py-3 font-semibold">
+                              {entry.runningBalance === null ? "—" : currencyFormatter.format(entry.runningBalance)}
+                            </td>
+                            <td className="px-4 py-3">
+                              <div className="flex items-center gap-2 text-xs">
+                                <button
+                                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+                                  type="button"
+                                  onClick={() => handleEditEntry(entry)}
+                                  disabled={bulkDeleting}
+                                >
+                                  Editar
+                                </button>
+                                <button
+                                  className="rounded-lg border border-red-500/40 px-3 py-1 font-semibold text-red-200 transition hover:bg-red-500/10 disabled:opacity-40"
+                                  type="button"
+                                  onClick={() => handleDeleteEntry(entry)}
+                                  disabled={isDeleting || bulkDeleting}
+                                >
+                                  Excluir
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                          {entry.splits && entry.splits.length > 0 && expandedEntryIds.includes(entry.id) ? (
+                            <tr className="bg-slate-900/40">
+                              <td className="px-4 py-3" colSpan={11}>
+                                <ul className="space-y-1 pl-8 text-xs text-slate-300">
+                                  {entry.splits.map((split) => {
+                                    const category = ledgerCategories.find((option) => option.id === split.categoryId);
+                                    return (
+                                      <li key={split.id} className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                                        <span className="min-w-[12rem] font-semibold text-slate-200">
+                                          {category ? describeLedgerCategory(category) : "Sem categoria"}
+                                        </span>
+                                        <span>
+                                          {ACTIVITY_OPTIONS.find((option) => option.value === split.type)?.label ?? split.type}
+                                        </span>
+                                        <span className="font-semibold">{currencyFormatter.format(split.amount)}</span>
+                                        {split.notes ? <span className="text-slate-400">{split.notes}</span> : null}
+                                      </li>
+                                    );
+                                  })}
+                                </ul>
+                              </td>
+                            </tr>
+                          ) : null}
+                        </Fragment>
                       ))
                     ) : (
                       <tr>
-                        <td className="px-4 py-6 text-center text-sm text-slate-400" colSpan={10}>
-                          Nenhum lançamento registrado para o período selecionado.
+                        <td className="px-4 py-6 text-center text-sm text-slate-400" colSpan={11}>
+                          Nenhum lançamento encontrado com os filtros selecionados.
                         </td>
                       </tr>
                     )}
                   </tbody>
                 </table>
               </div>
+              {entries.length > 0 ? (
+                <div className="flex flex-col gap-2 border-t border-white/10 px-4 py-3 text-xs text-slate-400 sm:flex-row sm:items-center sm:justify-between">
+                  <span>
+                    Exibindo {entries.length} de {entriesTotals.count} lançamento(s)
+                  </span>
+                  {entriesCursor !== null ? (
+                    <button
+                      className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                      type="button"
+                      onClick={handleLoadMoreEntries}
+                      disabled={isLoadingMoreEntries || isFetchingEntries}
+                    >
+                      {isLoadingMoreEntries ? "Carregando..." : "Carregar mais"}
+                    </button>
+                  ) : null}
+                </div>
+              ) : null}
             </div>
 
             <aside className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-slate-950/70 px-4 py-4 text-sm text-slate-200 sm:flex-row sm:items-center sm:justify-between">
@@ -881,12 +2027,70 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                 </span>
               </div>
               <div className="flex flex-col items-start gap-3 text-base font-semibold sm:items-end">
+                <span className="text-sm font-normal text-slate-300/80">
+                  Saldo anterior:&nbsp;
+                  <strong className="text-slate-100">{currencyFormatter.format(carriedBalance ?? 0)}</strong>
+                </span>
                 <span>
-                  Saldo:&nbsp;
+                  Saldo do período:&nbsp;
                   <span className={totalBalance >= 0 ? "text-sky-300" : "text-red-300"}>
                     {currencyFormatter.format(totalBalance)}
                   </span>
                 </span>
+                <span>
+                  Saldo final:&nbsp;
+                  <span className={closingBalance >= 0 ? "text-sky-300" : "text-red-300"}>
+                    {currencyFormatter.format(closingBalance)}
+                  </span>
+                </span>
+                <div className="flex flex-wrap items-center gap-2 text-sm font-normal">
+                  <select
+                    aria-label="Centro de custo dos selecionados"
+                    className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                    value={bulkCostCenterId}
+                    onChange={(event) => setBulkCostCenterId(event.target.value)}
+                  >
+                    <option value="">Sem centro de custo</option>
+                    {activeCostCenters.map((costCenter) => (
+                      <option key={costCenter.id} value={costCenter.id}>
+                        {costCenter.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                    type="button"
+                    onClick={() => handleBulkUpdate({ costCenterId: bulkCostCenterId ? Number(bulkCostCenterId) : null })}
+                    disabled={selectedEntriesCount === 0 || bulkUpdating || bulkDeleting}
+                  >
+                    Aplicar centro
+                  </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm font-normal">
+                  <input
+                    aria-label="Marcadores dos selecionados"
+                    className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                    placeholder="Marcadores, separados por vírgula"
+                    value={bulkTagsInput}
+                    onChange={(event) => setBulkTagsInput(event.target.value)}
+                  />
+                  <button
+                    className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                    type="button"
+                    onClick={() => handleBulkUpdate({ addTags: bulkTagsInput })}
+                    disabled={selectedEntriesCount === 0 || !bulkTagsInput.trim() || bulkUpdating || bulkDeleting}
+                  >
+                    Adicionar
+                  </button>
+                  <button
+                    className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                    type="button"
+                    onClick={() => handleBulkUpdate({ removeTags: bulkTagsInput })}
+                    disabled={selectedEntriesCount === 0 || !bulkTagsInput.trim() || bulkUpdating || bulkDeleting}
+                  >
+                    Remover
+                  </button>
+                </div>
                 <button
                   className="inline-flex items-center justify-center rounded-xl border border-red-500/40 bg-red-500/10 px-4 py-2 text-sm font-semibold text-red-200 transition hover:bg-red-500/20 disabled:opacity-40"
                   type="button"
@@ -903,6 +2107,27 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
             </aside>
           </section>
 
+          <CostCentersSection
+            companyId={selectedClient.id}
+            costCenters={costCenters}
+            onCostCentersChange={setCostCenters}
+            query={entriesQuery}
+            refreshKey={entriesVersion}
+            onSelectTag={(tag) => setFilters((prev) => ({ ...prev, tags: tag }))}
+          />
+
+          <RecurringEntriesSection
+            companyId={selectedClient.id}
+            bankAccounts={bankAccounts}
+            ledgerCategories={ledgerCategories}
+            costCenters={costCenters}
+            movementOptions={MOVEMENT_OPTIONS}
+            directionOptions={DIRECTION_OPTIONS}
+            typeOptions={ACTIVITY_OPTIONS}
+            paymentOptions={PAYMENT_OPTIONS}
+            onEntriesGenerated={reloadEntries}
+          />
+
           <section className="space-y-6 rounded-2xl border border-white/10 bg-slate-950/60 p-6">
             <header className="space-y-1">
               <p className="text-sm font-semibold uppercase tracking-[0.3em] text-slate-400">Adicionar lançamento</p>
@@ -913,7 +2138,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
             </header>
 
             <form className="space-y-5" onSubmit={handleCreateEntry}>
-              <div className="grid gap-4 md:grid-cols-3">
+              <div className="grid gap-4 md:grid-cols-4">
                 <div className="space-y-2 md:col-span-1">
                   <label className="text-sm font-medium text-slate-200" htmlFor="entry-date">
                     Data
@@ -947,6 +2172,22 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                       </option>
                     ))}
                   </select>
+                  {entryForm.movement === "TRANSFERENCIA" ? (
+                    <select
+                      aria-label="Sentido da transferência"
+                      className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                      id="entry-direction"
+                      name="entry-direction"
+                      value={entryForm.direction}
+                      onChange={(event) => handleEntryFormChange("direction", event.target.value)}
+                    >
+                      {DIRECTION_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
                 </div>
 
                 <div className="space-y-2 md:col-span-1">
@@ -968,9 +2209,29 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                     ))}
                   </select>
                 </div>
+
+                <div className="space-y-2 md:col-span-1">
+                  <label className="text-sm font-medium text-slate-200" htmlFor="entry-account">
+                    Conta
+                  </label>
+                  <select
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                    id="entry-account"
+                    name="entry-account"
+                    value={entryForm.bankAccountId}
+                    onChange={(event) => handleEntryFormChange("bankAccountId", event.target.value)}
+                  >
+                    <option value="">Sem conta</option>
+                    {activeBankAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
-              <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-4 md:grid-cols-3">
                 <div className="space-y-2">
                   <label className="text-sm font-medium text-slate-200" htmlFor="entry-counterpart">
                     Empresa ou fornecedor
@@ -1000,6 +2261,26 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                     required
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-200" htmlFor="entry-category">
+                    Categoria
+                  </label>
+                  <select
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                    id="entry-category"
+                    name="entry-category"
+                    value={entryForm.categoryId}
+                    onChange={(event) => handleEntryCategoryChange(event.target.value)}
+                  >
+                    <option value="">Sem categoria</option>
+                    {activeLedgerCategories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {describeLedgerCategory(category)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div className="grid gap-4 md:grid-cols-3">
@@ -1054,6 +2335,53 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                 </div>
               </div>
 
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-200" htmlFor="entry-cost-center">
+                    Centro de custo
+                  </label>
+                  <select
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                    id="entry-cost-center"
+                    name="entry-cost-center"
+                    value={entryForm.costCenterId}
+                    onChange={(event) => handleEntryFormChange("costCenterId", event.target.value)}
+                  >
+                    <option value="">Sem centro de custo</option>
+                    {activeCostCenters.map((costCenter) => (
+                      <option key={costCenter.id} value={costCenter.id}>
+                        {costCenter.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-200" htmlFor="entry-tags">
+                    Marcadores (opcional)
+                  </label>
+                  <input
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                    id="entry-tags"
+                    name="entry-tags"
+                    placeholder="Ex.: obra norte, evento"
+                    value={entryForm.tags}
+                    onChange={(event) => handleEntryFormChange("tags", event.target.value)}
+                  />
+                </div>
+              </div>
+
+              <EntrySplitsEditor
+                idPrefix="entry"
+                lines={entrySplits}
+                onChange={setEntrySplits}
+                total={parseCurrencyToNumber(entryForm.amount)}
+                categories={ledgerCategories}
+                typeOptions={ACTIVITY_OPTIONS}
+                defaultCategoryId={entryForm.categoryId}
+                defaultType={entryForm.type}
+              />
+
               {entryFormError ? (
                 <p className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{entryFormError}</p>
               ) : null}
@@ -1063,6 +2391,20 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
               ) : null}
 
               <div className="flex items-center justify-end gap-3">
+                <select
+                  className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                  aria-label="Perfil de importação de CSV e planilhas"
+                  value={importProfileId}
+                  onChange={(event) => handleChangeImportProfile(event.target.value)}
+                  disabled={isImporting}
+                >
+                  <option value="">Detectar perfil automaticamente</option>
+                  {importProfiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.builtIn ? profile.name : `${profile.name} (personalizado)`}
+                    </option>
+                  ))}
+                </select>
                 <button
                   className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300 disabled:cursor-not-allowed disabled:opacity-60"
                   type="button"
@@ -1075,39 +2417,38 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                   ref={fileInputRef}
                   className="hidden"
                   type="file"
-                  accept=".csv,.ofx,application/ofx,text/csv"
+                  accept=".csv,.ofx,.pdf,.xlsx,.xls,.ods,.ret,.cnab,application/ofx,text/csv,application/pdf"
                   onChange={(event) => {
                     const file = event.target.files?.[0];
                     if (!file) return;
-                    if (typeof selectedClientId !== "number") {
-                      setImportError("Selecione uma empresa antes de importar.");
-                      return;
+                    lastImportFileRef.current = file;
+                    if (fileInputRef.current) {
+                      fileInputRef.current.value = "";
                     }
-                    setImportError(null);
-                    startImportTransition(async () => {
-                      try {
-                        const formData = new FormData();
-                        formData.append("file", file);
-                        const response = await fetch("/api/importar-extrato", {
-                          method: "POST",
-                          body: formData,
-                        });
-                        if (!response.ok) {
-                          const body = await response.json().catch(() => ({ error: "Falha ao importar o extrato." }));
-                          setImportError(body.error ?? "Não foi possível importar o extrato.");
-                          return;
-                        }
-                        const data = (await response.json()) as ImportPreview;
-                        setImportPreview(data);
-                        setImportError(null);
-                        if (fileInputRef.current) {
-                          fileInputRef.current.value = "";
-                        }
-                      } catch (error) {
-                        console.error("Erro ao importar extrato", error);
-                        setImportError("Não foi possível importar o extrato. Tente novamente.");
-                      }
-                    });
+                    handleImportStatement(file, importProfileId);
+                  }}
+                />
+                <button
+                  className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300 disabled:cursor-not-allowed disabled:opacity-60"
+                  type="button"
+                  onClick={() => invoiceInputRef.current?.click()}
+                  disabled={typeof selectedClientId !== "number"}
+                  title="XML de NF-e, NFC-e ou NFS-e, ou um ZIP com vários XML"
+                >
+                  Importar notas fiscais
+                </button>
+                <input
+                  ref={invoiceInputRef}
+                  className="hidden"
+                  type="file"
+                  accept=".xml,.zip,application/xml,text/xml,application/zip"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (!file) return;
+                    if (invoiceInputRef.current) {
+                      invoiceInputRef.current.value = "";
+                    }
+                    handleImportInvoices(file);
                   }}
                 />
                 <button
@@ -1120,6 +2461,76 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
               </div>
             </form>
           </section>
+
+          <section className="space-y-4">
+            <header className="space-y-1">
+              <h3 className="text-lg font-semibold text-white">Histórico de importações</h3>
+              <p className="text-sm text-slate-300/80">
+                Extratos importados para esta empresa. Desfazer uma importação remove somente os lançamentos criados por ela.
+              </p>
+            </header>
+
+            <div className="rounded-2xl border border-white/10 bg-slate-950/60">
+              <div className="max-h-80 overflow-auto">
+                <table className="min-w-full divide-y divide-white/10 text-sm text-slate-200">
+                  <thead className="text-xs font-semibold uppercase tracking-wide text-slate-300/80">
+                    <tr>
+                      <th className="px-4 py-3 text-left">Importado em</th>
+                      <th className="px-4 py-3 text-left">Arquivo</th>
+                      <th className="px-4 py-3 text-left">Conta</th>
+                      <th className="px-4 py-3 text-left">Lançamentos</th>
+                      <th className="px-4 py-3 text-left">Entradas</th>
+                      <th className="px-4 py-3 text-left">Saídas</th>
+                      <th className="px-4 py-3 text-left">Usuário</th>
+                      <th className="px-4 py-3 text-left">Ações</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {importBatchesError ? (
+                      <tr>
+                        <td className="px-4 py-6 text-center text-sm text-red-300" colSpan={8}>
+                          {importBatchesError}
+                        </td>
+                      </tr>
+                    ) : importBatches.length > 0 ? (
+                      importBatches.map((batch) => (
+                        <tr key={batch.id} className="hover:bg-slate-900/60">
+                          <td className="px-4 py-3">{formatDateTime(batch.createdAt)}</td>
+                          <td className="px-4 py-3">
+                            <p>{batch.filename}</p>
+                            <p className="text-xs text-slate-400">{batch.format.toUpperCase()}</p>
+                          </td>
+                          <td className="px-4 py-3 text-xs text-slate-400">
+                            {[batch.bankId, batch.branchId, batch.accountId].filter(Boolean).join(" / ") || "—"}
+                          </td>
+                          <td className="px-4 py-3">{batch.rowCount}</td>
+                          <td className="px-4 py-3 text-sky-300">{currencyFormatter.format(batch.totalIncome)}</td>
+                          <td className="px-4 py-3 text-red-300">{currencyFormatter.format(batch.totalExpense)}</td>
+                          <td className="px-4 py-3 text-xs text-slate-400">{batch.user?.email ?? "—"}</td>
+                          <td className="px-4 py-3">
+                            <button
+                              className="rounded-lg border border-red-500/40 px-3 py-1 text-xs font-semibold text-red-200 transition hover:bg-red-500/10 disabled:opacity-40"
+                              type="button"
+                              onClick={() => handleUndoImport(batch)}
+                              disabled={undoingBatchId !== null}
+                            >
+                              {undoingBatchId === batch.id ? "Desfazendo..." : "Desfazer importação"}
+                            </button>
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td className="px-4 py-6 text-center text-sm text-slate-400" colSpan={8}>
+                          Nenhum extrato importado para esta empresa.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </section>
         </div>
       ) : null}
 
@@ -1280,6 +2691,21 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                       </option>
                     ))}
                   </select>
+                  {editingEntry.movement === "TRANSFERENCIA" ? (
+                    <select
+                      aria-label="Sentido da transferência"
+                      className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                      id="edit-direction"
+                      value={editDirection}
+                      onChange={(event) => setEditDirection(event.target.value as TransferDirection)}
+                    >
+                      {DIRECTION_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
                 </div>
 
                 <div className="space-y-2 md:col-span-1">
@@ -1380,6 +2806,56 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                   </select>
                 </div>
 
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-200" htmlFor="edit-account">
+                    Conta
+                  </label>
+                  <select
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                    id="edit-account"
+                    value={editingEntry.bankAccountId ?? ""}
+                    onChange={(event) =>
+                      setEditingEntry((prev) =>
+                        prev ? { ...prev, bankAccountId: event.target.value ? Number(event.target.value) : null } : prev,
+                      )
+                    }
+                  >
+                    <option value="">Sem conta</option>
+                    {bankAccounts
+                      .filter((account) => account.active || account.id === editingEntry.bankAccountId)
+                      .map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-200" htmlFor="edit-category">
+                    Categoria
+                  </label>
+                  <select
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                    id="edit-category"
+                    value={editingEntry.categoryId ?? ""}
+                    onChange={(event) =>
+                      setEditingEntry((prev) =>
+                        prev ? { ...prev, categoryId: event.target.value ? Number(event.target.value) : null } : prev,
+                      )
+                    }
+                  >
+                    <option value="">Sem categoria</option>
+                    {ledgerCategories
+                      .filter((category) => category.active || category.id === editingEntry.categoryId)
+                      .map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {describeLedgerCategory(category)}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+
                 <div className="space-y-2">
                   <label className="text-sm font-medium text-slate-200" htmlFor="edit-notes">
                     Observações (opcional)
@@ -1393,8 +2869,57 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                     }
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-200" htmlFor="edit-cost-center">
+                    Centro de custo
+                  </label>
+                  <select
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                    id="edit-cost-center"
+                    value={editingEntry.costCenterId ?? ""}
+                    onChange={(event) =>
+                      setEditingEntry((prev) =>
+                        prev ? { ...prev, costCenterId: event.target.value ? Number(event.target.value) : null } : prev,
+                      )
+                    }
+                  >
+                    <option value="">Sem centro de custo</option>
+                    {costCenters
+                      .filter((costCenter) => costCenter.active || costCenter.id === editingEntry.costCenterId)
+                      .map((costCenter) => (
+                        <option key={costCenter.id} value={costCenter.id}>
+                          {costCenter.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-200" htmlFor="edit-tags">
+                    Marcadores (opcional)
+                  </label>
+                  <input
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                    id="edit-tags"
+                    placeholder="Separados por vírgula"
+                    value={editTagsInput}
+                    onChange={(event) => setEditTagsInput(event.target.value)}
+                  />
+                </div>
               </div>
 
+              <EntrySplitsEditor
+                idPrefix="edit"
+                lines={editSplits}
+                onChange={setEditSplits}
+                total={Math.abs(editingEntry.amount)}
+                categories={ledgerCategories}
+                typeOptions={ACTIVITY_OPTIONS}
+                defaultCategoryId={editingEntry.categoryId ? String(editingEntry.categoryId) : ""}
+                defaultType={editingEntry.type}
+              />
+
               {editError ? (
                 <p className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{editError}</p>
               ) : null}
@@ -1438,6 +2963,121 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                   {importPreview.filename} · {importPreview.format.toUpperCase()} · {importPreview.currency ?? "BRL"} ·{" "}
                   {importTransactionsCount} lancamentos
                 </p>
+                {importPreview.sheets && importPreview.sheets.length > 1 ? (
+                  <label className="mt-2 flex items-center gap-2 text-xs text-slate-300/80">
+                    Aba
+                    <select
+                      className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                      value={importPreview.sheetName ?? ""}
+                      onChange={(event) => handleChangeImportSheet(event.target.value)}
+                      disabled={isImporting}
+                    >
+                      {importPreview.sheets.map((sheet) => (
+                        <option key={sheet} value={sheet}>
+                          {sheet}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+                {importPreview.profileId ? (
+                  <label className="mt-2 flex items-center gap-2 text-xs text-slate-300/80">
+                    Perfil de importação
+                    <select
+                      className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                      aria-label="Perfil de importação de CSV e planilhas"
+                      value={importProfileId}
+                      onChange={(event) => handleChangeImportProfile(event.target.value)}
+                      disabled={isImporting}
+                    >
+                      <option value="">Detectar perfil automaticamente</option>
+                      {importProfiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                          {profile.builtIn ? profile.name : `${profile.name} (personalizado)`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+                {importPreview.statements && importPreview.statements.length > 1 ? (
+                  <label className="mt-2 flex items-center gap-2 text-xs text-slate-300/80">
+                    Conta
+                    <select
+                      className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                      value={importStatementIndex}
+                      onChange={(event) => handleSelectImportStatement(Number(event.target.value))}
+                      disabled={isImporting}
+                    >
+                      {importPreview.statements.map((statement, index) => (
+                        <option key={`${statement.sourceAccount}-${index}`} value={index}>
+                          {describeStatementAccount(statement)} · {statement.transactions.length} lancamentos
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+                {typeof selectedClientId === "number" ? (
+                  <label className="mt-2 flex items-center gap-2 text-xs text-slate-300/80">
+                    Conta do livro-caixa
+                    <select
+                      className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                      value={importBankAccountId}
+                      onChange={(event) => setImportBankAccountId(event.target.value)}
+                      disabled={isImporting}
+                    >
+                      <option value="">Sem conta</option>
+                      {activeBankAccounts.map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name} · {describeBankAccount(account)}
+                        </option>
+                      ))}
+                    </select>
+                    {importBankAccountId && importBankAccountId === String(importPreview.bankAccountId ?? "") ? (
+                      <span className="text-emerald-300">identificada pelo extrato</span>
+                    ) : null}
+                  </label>
+                ) : null}
+                {importStatement?.ledgerBalance ? (
+                  <p className="text-xs text-slate-300/80">
+                    Saldo informado pelo banco
+                    {importStatement.ledgerBalance.date
+                      ? ` em ${formatDateShort(`${importStatement.ledgerBalance.date}T12:00:00`)}`
+                      : ""}
+                    : {currencyFormatter.format(importStatement.ledgerBalance.amount)}
+                  </p>
+                ) : null}
+                {importDuplicatesCount > 0 ? (
+                  <p className="text-xs text-amber-200">
+                    {importDuplicatesCount} lancamento(s) ja existem no livro-caixa e foram desmarcados.
+                  </p>
+                ) : null}
+                {importHighConfidenceIndexes.length > 0 ? (
+                  <button
+                    className="mt-2 rounded-xl border border-emerald-500/40 px-3 py-1 text-xs font-semibold text-emerald-200 transition hover:border-emerald-400 hover:text-emerald-100 disabled:cursor-not-allowed disabled:opacity-60"
+                    type="button"
+                    onClick={() => handleAcceptImportSuggestions(importHighConfidenceIndexes)}
+                    disabled={isImporting}
+                  >
+                    Aceitar {importHighConfidenceIndexes.length} sugestao(oes) de alta confianca
+                  </button>
+                ) : null}
+                {importPreview.warnings && importPreview.warnings.length > 0 ? (
+                  <details className="text-xs text-amber-200">
+                    <summary className="cursor-pointer">
+                      {importPreview.warnings.length} arquivo(s) ou nota(s) ignorados
+                    </summary>
+                    <ul className="mt-1 space-y-1">
+                      {importPreview.warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </details>
+                ) : null}
+                {importLowConfidenceCount > 0 ? (
+                  <p className="text-xs text-amber-200">
+                    {importLowConfidenceCount} lancamento(s) nao foram lidos por completo. Confira os destacados antes de importar.
+                  </p>
+                ) : null}
               </div>
               <button
                 className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
@@ -1445,6 +3085,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                 onClick={() => {
                   setImportPreview(null);
                   setImportError(null);
+                  setImportRowErrors({});
                 }}
               >
                 Fechar
@@ -1461,6 +3102,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
               <table className="min-w-full divide-y divide-white/10 text-sm text-slate-200">
                 <thead className="text-xs font-semibold uppercase tracking-wide text-slate-300/80">
                   <tr>
+                    <th className="px-4 py-3 text-left">Importar</th>
                     <th className="px-4 py-3 text-left">Data</th>
                     <th className="px-4 py-3 text-left">Empresa / Fornecedor</th>
                     <th className="px-4 py-3 text-left">Produto / Servico</th>
@@ -1472,21 +3114,77 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                 </thead>
                 <tbody className="divide-y divide-white/5">
                   {importPreview.transactions.map((item, index) => (
-                    <tr key={`${item.reference}-${index}`} className="hover:bg-slate-900/60">
+                    <tr
+                      key={`${item.reference}-${index}`}
+                      className={
+                        importRowErrors[index]
+                          ? "bg-red-500/10 hover:bg-red-500/20"
+                          : item.lowConfidence
+                            ? "bg-amber-500/10 hover:bg-amber-500/20"
+                            : "hover:bg-slate-900/60"
+                      }
+                      title={importRowErrors[index] ?? item.issues?.join(" ")}
+                    >
+                      <td className="px-4 py-3">
+                        <input
+                          aria-label="Importar lancamento"
+                          className="h-4 w-4 rounded border border-white/30 bg-slate-950/80 text-sky-500 focus:ring-2 focus:ring-sky-500 disabled:opacity-40"
+                          type="checkbox"
+                          checked={!skippedImportSet.has(index)}
+                          onChange={() => handleToggleImportRow(index)}
+                          disabled={isImporting || item.duplicate === "reference"}
+                        />
+                      </td>
                       <td className="px-4 py-3">{item.date || "—"}</td>
                       <td className="px-4 py-3">{item.counterpart}</td>
                       <td className="px-4 py-3">
                         <p>{item.productService}</p>
                         <p className="text-xs text-slate-400">{item.description}</p>
+                        {item.rule ? <p className="text-xs text-emerald-300">Regra: {item.rule.name}</p> : null}
+                        {item.suggestion && !item.suggestion.accepted ? (
+                          <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-sky-200">
+                            <span
+                              title={`Baseada em ${item.suggestion.matches} lancamento(s) ${
+                                item.suggestion.source === "counterpart" ? "da mesma contraparte" : "com descricao parecida"
+                              }`}
+                            >
+                              Sugestao: {item.suggestion.productService} ·{" "}
+                              {MOVEMENT_OPTIONS.find((option) => option.value === item.suggestion?.movement)?.label} ·{" "}
+                              {ACTIVITY_OPTIONS.find((option) => option.value === item.suggestion?.type)?.label} (
+                              {Math.round(item.suggestion.confidence * 100)}%)
+                            </span>
+                            <button
+                              className="rounded-lg border border-sky-500/40 px-2 py-0.5 font-semibold transition hover:border-sky-400 hover:text-sky-100 disabled:cursor-not-allowed disabled:opacity-60"
+                              type="button"
+                              onClick={() => handleAcceptImportSuggestions([index])}
+                              disabled={isImporting}
+                            >
+                              Aceitar
+                            </button>
+                          </div>
+                        ) : item.suggestion?.accepted ? (
+                          <p className="text-xs text-emerald-300">Sugestao aceita</p>
+                        ) : null}
                       </td>
                       <td className="px-4 py-3">
-                        {item.movement === "DESPESA" || item.movement === "COMPRA" || item.movement === "RETIRADA"
-                          ? "Saida"
-                          : "Entrada"}
+                        {MOVEMENT_OPTIONS.find((option) => option.value === item.movement)?.label ?? item.movement}
                       </td>
                       <td className="px-4 py-3">{formatPayment(item.paymentMethod)}</td>
                       <td className="px-4 py-3 font-semibold">{currencyFormatter.format(item.amount)}</td>
-                      <td className="px-4 py-3 text-xs text-slate-400">{item.reference || "—"}</td>
+                      <td className="px-4 py-3 text-xs text-slate-400">
+                        <p>{item.reference || "—"}</p>
+                        {item.duplicate === "reference" ? (
+                          <p className="text-amber-200">Ja importado</p>
+                        ) : item.duplicate === "fingerprint" ? (
+                          <p className="text-amber-200">Possivel duplicado</p>
+                        ) : null}
+                        {item.issues?.map((issue) => (
+                          <p key={issue} className="text-amber-200">
+                            {issue}
+                          </p>
+                        ))}
+                        {importRowErrors[index] ? <p className="text-red-300">{importRowErrors[index]}</p> : null}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -1500,6 +3198,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                 onClick={() => {
                   setImportPreview(null);
                   setImportError(null);
+                  setImportRowErrors({});
                 }}
               >
                 Cancelar
@@ -1507,7 +3206,7 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
               <button
                 className="rounded-xl bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-sky-600/30 transition hover:bg-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40 disabled:cursor-not-allowed disabled:opacity-60"
                 type="button"
-                disabled={isImporting || typeof selectedClientId !== "number" || importTransactionsCount === 0}
+                disabled={isImporting || typeof selectedClientId !== "number" || importSelectedCount === 0}
                 onClick={async () => {
                   if (!importPreview || typeof selectedClientId !== "number") {
                     return;
@@ -1515,12 +3214,11 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                   setImportError(null);
                   startImportTransition(async () => {
                     try {
-                      const newEntries: CashEntry[] = [];
-                      for (const transaction of importPreview.transactions) {
-                        if (!transaction.date) {
-                          continue;
-                        }
+                      const rowsToImport = importPreview.transactions
+                        .map((transaction, previewIndex) => ({ transaction, previewIndex }))
+                        .filter(({ transaction, previewIndex }) => Boolean(transaction.date) && !skippedImportSet.has(previewIndex));
 
+                      const payload = rowsToImport.map(({ transaction }) => {
                         const movementValue: MovementOption =
                           transaction.movement === "DESPESA"
                             ? "DESPESA"
@@ -1528,51 +3226,96 @@ export default function LivroCaixaPanel({ initialClients, canCreateClients = fal
                               ? "COMPRA"
                               : transaction.movement === "RETIRADA"
                                 ? "RETIRADA"
-                                : "RECEITA";
+                                : transaction.movement === "TRANSFERENCIA"
+                                  ? "TRANSFERENCIA"
+                                  : "RECEITA";
 
-                        const payload = {
+                        return {
                           date: transaction.date,
                           movement: movementValue,
                           counterpart: transaction.counterpart || "Nao identificado",
                           productService: transaction.productService || "Nao identificado (NI)",
-                          type: "SERVICO",
+                          type: transaction.type ?? "SERVICO",
                           paymentMethod: transaction.paymentMethod,
                           amount: transaction.amount.toFixed(2),
-                          notes: transaction.reference || undefined,
+                          notes: transaction.description || undefined,
+                          externalReference: transaction.reference || undefined,
+                          sourceAccount: importPreview.sourceAccount ?? "",
+                          bankAccountId: importBankAccountId ? Number(importBankAccountId) : null,
+                          categoryId: transaction.categoryId ?? null,
                         };
-
-                        const response = await fetch(
-                          `/api/clients/${selectedClientId}/cash-entries`,
-                          {
-                            method: "POST",
-                            headers: {
-                              "Content-Type": "application/json",
-                            },
-                            body: JSON.stringify(payload),
+                      });
+
+                      const response = await fetch(`/api/clients/${selectedClientId}/cash-entries/bulk`, {
+                        method: "POST",
+                        headers: {
+                          "Content-Type": "application/json",
+                        },
+                        body: JSON.stringify({
+                          entries: payload,
+                          batch: {
+                            filename: importPreview.filename,
+                            format: importPreview.format,
+                            account: importPreview.account,
                           },
-                        );
-
-                        if (!response.ok) {
-                          const body = await response.json().catch(() => ({ error: "Falha ao salvar lançamento." }));
-                          throw new Error(body.error ?? "Falha ao salvar lançamento.");
-                        }
-
-                        const created = (await response.json()) as CashEntry;
-                        newEntries.push(created);
+                          // Notas fiscais não são extrato; só extratos vinculados a uma conta
+                          // alimentam a conciliação.
+                          statement:
+                            importBankAccountId && importPreview.format !== "xml"
+                              ? {
+                                  bankAccountId: Number(importBankAccountId),
+                                  ledgerBalance: importStatement?.ledgerBalance,
+                                  endDate: importStatement?.endDate,
+                                  transactions: importPreview.transactions
+                                    .filter((transaction) => Boolean(transaction.date))
+                                    .map((transaction) => ({
+                                      date: transaction.date,
+                                      amount: transaction.amount.toFixed(2),
+                                      description: transaction.description,
+                                      reference: transaction.reference,
+                                    })),
+                                }
+                              : undefined,
+                        }),
+                      });
+
+                      if (!response.ok) {
+                        const body = (await response.json().catch(() => ({}))) as {
+                          error?: string;
+                          rows?: Array<{ index: number; error: string }>;
+                        };
+                        const rowErrors: Record<number, string> = {};
+                        body.rows?.forEach((row) => {
+                          const target = rowsToImport[row.index];
+                          if (target) {
+                            rowErrors[target.previewIndex] = row.error;
+                          }
+                        });
+                        setImportRowErrors(rowErrors);
+                        setImportError(body.error ?? "Nao foi possivel importar os lancamentos.");
+                        return;
                       }
 
-                      if (newEntries.length > 0) {
-                        setEntries((prev) => [...prev, ...newEntries]);
+                      const result = (await response.json()) as {
+                        batch: ImportBatchSummary | null;
+                        entries: CashEntry[];
+                      };
+                      if (result.entries.length > 0) {
+                        reloadEntries();
+                      }
+                      if (result.batch) {
+                        setImportBatches((prev) => [result.batch!, ...prev]);
                       }
+                      setImportRowErrors({});
                       setImportPreview(null);
                     } catch (error) {
                       console.error("Erro ao confirmar importacao", error);
-                      setImportError("Nao foi possivel importar todos os lancamentos. Tente novamente.");
+                      setImportError("Nao foi possivel importar os lancamentos. Tente novamente.");
                     }
                   });
                 }}
               >
-                {isImporting ? "Importando..." : "Adicionar lancamentos"}
+                {isImporting ? "Importando..." : `Adicionar ${importSelectedCount} lancamentos`}
               </button>
             </div>
           </div>
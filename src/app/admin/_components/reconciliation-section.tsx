@@ -0,0 +1,419 @@
+'use client';
+
+import { useEffect, useState, useTransition, type FormEvent } from "react";
+import type { BankAccountSummary } from "./bank-accounts-section";
+
+type ReconciliationStatus = "PENDENTE" | "DIVERGENTE" | "CONCILIADO";
+
+type StatementLineSummary = {
+  id: number;
+  date: string;
+  amount: number;
+  description: string;
+  reference: string;
+  cashEntryId: number | null;
+  matchSource: "AUTO" | "MANUAL" | null;
+};
+
+type ReconciliationEntry = {
+  id: number;
+  date: string;
+  counterpart: string;
+  productService: string;
+  amount: number;
+  statementLineId: number | null;
+};
+
+type ReconciliationSummary = {
+  month: string;
+  status: ReconciliationStatus;
+  statementBalance: number | null;
+  ledgerOpening: number;
+  ledgerClosing: number;
+  difference: number | null;
+  unmatchedLines: number;
+  unmatchedEntries: number;
+  lines: StatementLineSummary[];
+  entries: ReconciliationEntry[];
+};
+
+type ReconciliationSectionProps = {
+  companyId: number;
+  accounts: BankAccountSummary[];
+  /** Muda quando os lançamentos do livro-caixa mudam, para recarregar. */
+  refreshKey: unknown;
+};
+
+const STATUS_STYLES: Record<ReconciliationStatus, { label: string; className: string }> = {
+  CONCILIADO: { label: "Conciliado", className: "border-emerald-500/40 bg-emerald-500/10 text-emerald-200" },
+  DIVERGENTE: { label: "Divergente", className: "border-red-500/40 bg-red-500/10 text-red-200" },
+  PENDENTE: { label: "Sem saldo do banco", className: "border-amber-500/40 bg-amber-500/10 text-amber-200" },
+};
+
+const inputClassName =
+  "rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40";
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+// Datas dos lançamentos e do extrato são gravadas à meia-noite UTC.
+const dateFormatter = new Intl.DateTimeFormat("pt-BR", { day: "2-digit", month: "2-digit", timeZone: "UTC" });
+
+function currentMonth() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function toBalanceInput(value: number | null) {
+  return value === null ? "" : value.toFixed(2).replace(".", ",");
+}
+
+export default function ReconciliationSection({ companyId, accounts, refreshKey }: ReconciliationSectionProps) {
+  const [accountId, setAccountId] = useState(() => (accounts[0] ? String(accounts[0].id) : ""));
+  const [month, setMonth] = useState(currentMonth);
+  const [summary, setSummary] = useState<ReconciliationSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [selectedLineId, setSelectedLineId] = useState<number | null>(null);
+  const [selectedEntryId, setSelectedEntryId] = useState<number | null>(null);
+  const [balanceInput, setBalanceInput] = useState("");
+  const [isSaving, startSaveTransition] = useTransition();
+
+  useEffect(() => {
+    if (!accounts.some((account) => String(account.id) === accountId)) {
+      setAccountId(accounts[0] ? String(accounts[0].id) : "");
+    }
+  }, [accounts, accountId]);
+
+  useEffect(() => {
+    if (!accountId || !month) {
+      setSummary(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    (async () => {
+      try {
+        const response = await fetch(
+          `/api/clients/${companyId}/bank-accounts/${accountId}/reconciliation?month=${month}`,
+          { method: "GET" },
+        );
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha ao carregar a conciliação." }));
+          throw new Error(body.error ?? "Não foi possível carregar a conciliação.");
+        }
+        const data = (await response.json()) as ReconciliationSummary;
+        if (!cancelled) {
+          setSummary(data);
+          setBalanceInput(toBalanceInput(data.statementBalance));
+          setSelectedLineId(null);
+          setSelectedEntryId(null);
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          console.error("Erro ao carregar conciliação", loadError);
+          setError(loadError instanceof Error ? loadError.message : "Não foi possível carregar a conciliação.");
+          setSummary(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, accountId, month, reloadToken, refreshKey]);
+
+  function runAction(action: () => Promise<Response>, fallback: string, onSuccess?: (body: unknown) => void) {
+    setError(null);
+    setNotice(null);
+    startSaveTransition(async () => {
+      try {
+        const response = await action();
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error((body as { error?: string }).error ?? fallback);
+        }
+        onSuccess?.(body);
+        setReloadToken((prev) => prev + 1);
+      } catch (actionError) {
+        console.error("Erro na conciliação", actionError);
+        setError(actionError instanceof Error ? actionError.message : fallback);
+      }
+    });
+  }
+
+  const baseUrl = `/api/clients/${companyId}/bank-accounts/${accountId}/reconciliation`;
+
+  function handleAutoMatch() {
+    runAction(
+      () => fetch(`${baseUrl}/auto?month=${month}`, { method: "POST" }),
+      "Não foi possível conciliar automaticamente.",
+      (body) => {
+        const matched = (body as { matched?: number }).matched ?? 0;
+        setNotice(
+          matched > 0 ? `${matched} linha(s) conciliada(s) automaticamente.` : "Nenhum novo vínculo encontrado.",
+        );
+      },
+    );
+  }
+
+  function handleMatch() {
+    if (selectedLineId === null || selectedEntryId === null) {
+      return;
+    }
+    runAction(
+      () =>
+        fetch(`${baseUrl}/matches`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ statementLineId: selectedLineId, cashEntryId: selectedEntryId }),
+        }),
+      "Não foi possível conciliar a linha.",
+    );
+  }
+
+  function handleUnmatch(lineId: number) {
+    runAction(
+      () => fetch(`${baseUrl}/matches?statementLineId=${lineId}`, { method: "DELETE" }),
+      "Não foi possível desfazer a conciliação.",
+    );
+  }
+
+  function handleBalanceSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    runAction(
+      () =>
+        fetch(baseUrl, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ month, statementBalance: balanceInput }),
+        }),
+      "Não foi possível salvar o saldo do extrato.",
+    );
+  }
+
+  if (accounts.length === 0) {
+    return null;
+  }
+
+  const status = summary ? STATUS_STYLES[summary.status] : null;
+
+  return (
+    <section className="space-y-4">
+      <header className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-white">Conciliação bancária</h3>
+          <p className="text-sm text-slate-300/80">
+            Compare o extrato importado com o livro-caixa. O mês só fica conciliado quando o saldo final do livro-caixa
+            é igual ao do banco.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label="Conta"
+            className={inputClassName}
+            value={accountId}
+            onChange={(event) => setAccountId(event.target.value)}
+          >
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.name}
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label="Mês"
+            className={inputClassName}
+            type="month"
+            value={month}
+            onChange={(event) => setMonth(event.target.value)}
+          />
+          <button
+            className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+            type="button"
+            onClick={handleAutoMatch}
+            disabled={isSaving || isLoading || !summary}
+          >
+            Conciliar automaticamente
+          </button>
+        </div>
+      </header>
+
+      {error ? (
+        <p className="rounded-xl border border-red-500/40 bg-red-500/10 px-4 py-2 text-sm text-red-200">{error}</p>
+      ) : null}
+      {notice ? (
+        <p className="rounded-xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-2 text-sm text-emerald-200">
+          {notice}
+        </p>
+      ) : null}
+
+      {isLoading && !summary ? <p className="text-sm text-slate-400">Carregando conciliação...</p> : null}
+
+      {summary && status ? (
+        <>
+          <div className="grid gap-3 rounded-2xl border border-white/10 bg-slate-950/60 px-4 py-4 text-sm text-slate-200 md:grid-cols-4">
+            <form className="space-y-1" onSubmit={handleBalanceSubmit}>
+              <label className="text-xs uppercase tracking-wide text-slate-400" htmlFor="reconciliation-balance">
+                Saldo final do banco
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="reconciliation-balance"
+                  className={`${inputClassName} w-full`}
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  value={balanceInput}
+                  onChange={(event) => setBalanceInput(event.target.value)}
+                />
+                <button
+                  className="rounded-lg border border-white/10 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                  type="submit"
+                  disabled={isSaving}
+                >
+                  Salvar
+                </button>
+              </div>
+            </form>
+            <div className="space-y-1">
+              <p className="text-xs uppercase tracking-wide text-slate-400">Livro-caixa</p>
+              <p>
+                Saldo anterior <strong>{currencyFormatter.format(summary.ledgerOpening)}</strong>
+              </p>
+              <p>
+                Saldo final <strong>{currencyFormatter.format(summary.ledgerClosing)}</strong>
+              </p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs uppercase tracking-wide text-slate-400">Diferença</p>
+              <p className={`text-base font-semibold ${summary.difference ? "text-red-300" : "text-slate-100"}`}>
+                {summary.difference === null ? "—" : currencyFormatter.format(summary.difference)}
+              </p>
+              <p className="text-xs text-slate-400">
+                {summary.unmatchedLines} linha(s) do extrato e {summary.unmatchedEntries} lançamento(s) sem par
+              </p>
+            </div>
+            <div className="flex items-start md:justify-end">
+              <span className={`rounded-full border px-3 py-1 text-xs font-semibold ${status.className}`}>
+                {status.label}
+              </span>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              className="rounded-xl bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-sky-600/30 transition hover:bg-sky-500 disabled:cursor-not-allowed disabled:opacity-60"
+              type="button"
+              onClick={handleMatch}
+              disabled={isSaving || selectedLineId === null || selectedEntryId === null}
+            >
+              Vincular selecionados
+            </button>
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <div className="rounded-2xl border border-white/10 bg-slate-950/60">
+              <h4 className="border-b border-white/10 px-4 py-3 text-sm font-semibold text-white">Extrato do banco</h4>
+              <ul className="max-h-[24rem] divide-y divide-white/5 overflow-y-auto text-sm text-slate-200">
+                {summary.lines.length === 0 ? (
+                  <li className="px-4 py-6 text-center text-slate-400">
+                    Nenhuma linha de extrato importada para esta conta no mês.
+                  </li>
+                ) : (
+                  summary.lines.map((line) => (
+                    <li
+                      key={line.id}
+                      className={`flex items-center gap-3 px-4 py-2 ${selectedLineId === line.id ? "bg-sky-500/10" : ""}`}
+                    >
+                      {line.cashEntryId === null ? (
+                        <input
+                          aria-label="Selecionar linha do extrato"
+                          className="h-4 w-4"
+                          type="radio"
+                          name="reconciliation-line"
+                          checked={selectedLineId === line.id}
+                          onChange={() => setSelectedLineId(line.id)}
+                        />
+                      ) : (
+                        <span
+                          className="w-4 text-center text-emerald-300"
+                          title={line.matchSource === "AUTO" ? "Conciliado automaticamente" : "Conciliado manualmente"}
+                        >
+                          ✓
+                        </span>
+                      )}
+                      <span className="w-12 text-xs text-slate-400">{dateFormatter.format(new Date(line.date))}</span>
+                      <span className="flex-1 truncate" title={line.description}>
+                        {line.description || line.reference}
+                      </span>
+                      <span className={line.amount >= 0 ? "text-sky-300" : "text-red-300"}>
+                        {currencyFormatter.format(line.amount)}
+                      </span>
+                      {line.cashEntryId !== null ? (
+                        <button
+                          className="text-xs font-semibold text-slate-300 transition hover:text-red-300 disabled:opacity-40"
+                          type="button"
+                          onClick={() => handleUnmatch(line.id)}
+                          disabled={isSaving}
+                        >
+                          Desfazer
+                        </button>
+                      ) : null}
+                    </li>
+                  ))
+                )}
+              </ul>
+            </div>
+
+            <div className="rounded-2xl border border-white/10 bg-slate-950/60">
+              <h4 className="border-b border-white/10 px-4 py-3 text-sm font-semibold text-white">Livro-caixa</h4>
+              <ul className="max-h-[24rem] divide-y divide-white/5 overflow-y-auto text-sm text-slate-200">
+                {summary.entries.length === 0 ? (
+                  <li className="px-4 py-6 text-center text-slate-400">Nenhum lançamento desta conta no mês.</li>
+                ) : (
+                  summary.entries.map((entry) => (
+                    <li
+                      key={entry.id}
+                      className={`flex items-center gap-3 px-4 py-2 ${selectedEntryId === entry.id ? "bg-sky-500/10" : ""}`}
+                    >
+                      {entry.statementLineId === null ? (
+                        <input
+                          aria-label="Selecionar lançamento"
+                          className="h-4 w-4"
+                          type="radio"
+                          name="reconciliation-entry"
+                          checked={selectedEntryId === entry.id}
+                          onChange={() => setSelectedEntryId(entry.id)}
+                        />
+                      ) : (
+                        <span className="w-4 text-center text-emerald-300">✓</span>
+                      )}
+                      <span className="w-12 text-xs text-slate-400">{dateFormatter.format(new Date(entry.date))}</span>
+                      <span className="flex-1 truncate" title={entry.productService}>
+                        {entry.counterpart}
+                      </span>
+                      <span className={entry.amount >= 0 ? "text-sky-300" : "text-red-300"}>
+                        {currencyFormatter.format(entry.amount)}
+                      </span>
+                    </li>
+                  ))
+                )}
+              </ul>
+            </div>
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
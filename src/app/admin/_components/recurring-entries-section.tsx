@@ -0,0 +1,811 @@
+'use client';
+
+import { useEffect, useState, useTransition, type FormEvent } from "react";
+import type { BankAccountSummary } from "./bank-accounts-section";
+import { describeLedgerCategory, type LedgerCategorySummary } from "./chart-of-accounts-panel";
+import type { CostCenterSummary } from "./cost-centers-section";
+
+type FrequencyOption = "MENSAL" | "BIMESTRAL" | "TRIMESTRAL" | "SEMESTRAL" | "ANUAL";
+
+type Option = { value: string; label: string };
+
+type RecurringEntrySummary = {
+  id: number;
+  companyId: number;
+  counterpart: string;
+  productService: string;
+  movement: string;
+  type: string;
+  paymentMethod: string;
+  amount: number;
+  notes: string | null;
+  bankAccountId: number | null;
+  categoryId: number | null;
+  costCenterId: number | null;
+  frequency: FrequencyOption;
+  dayOfMonth: number;
+  startDate: string;
+  endDate: string | null;
+  active: boolean;
+};
+
+type UpcomingOccurrence = {
+  recurringEntryId: number;
+  counterpart: string;
+  productService: string;
+  movement: string;
+  dueDate: string;
+  date: string;
+  amount: number;
+  notes: string | null;
+  /** PREVISTA: ainda sem registro, segue o modelo. PENDENTE: ajustada. */
+  status: "PREVISTA" | "PENDENTE" | "GERADA" | "PULADA";
+  cashEntryId: number | null;
+};
+
+type RecurringFormState = {
+  counterpart: string;
+  productService: string;
+  movement: string;
+  type: string;
+  paymentMethod: string;
+  amount: string;
+  /** Só usado em transferências, que guardam o sentido no sinal do valor. */
+  direction: string;
+  notes: string;
+  bankAccountId: string;
+  categoryId: string;
+  costCenterId: string;
+  frequency: FrequencyOption;
+  dayOfMonth: string;
+  startDate: string;
+  endDate: string;
+};
+
+type AdjustmentState = {
+  key: string;
+  date: string;
+  amount: string;
+  notes: string;
+};
+
+type RecurringEntriesSectionProps = {
+  companyId: number;
+  bankAccounts: BankAccountSummary[];
+  ledgerCategories: LedgerCategorySummary[];
+  costCenters: CostCenterSummary[];
+  movementOptions: Option[];
+  directionOptions: Option[];
+  typeOptions: Option[];
+  paymentOptions: Option[];
+  /** Chamado quando lançamentos são gerados, para recarregar o livro-caixa. */
+  onEntriesGenerated: () => void;
+};
+
+const FREQUENCY_OPTIONS: { value: FrequencyOption; label: string }[] = [
+  { value: "MENSAL", label: "Mensal" },
+  { value: "BIMESTRAL", label: "Bimestral" },
+  { value: "TRIMESTRAL", label: "Trimestral" },
+  { value: "SEMESTRAL", label: "Semestral" },
+  { value: "ANUAL", label: "Anual" },
+];
+
+const STATUS_LABELS: Record<UpcomingOccurrence["status"], string> = {
+  PREVISTA: "Prevista",
+  PENDENTE: "Ajustada",
+  GERADA: "Gerada",
+  PULADA: "Pulada",
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40";
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+// Datas dos lançamentos são gravadas à meia-noite UTC.
+const dateFormatter = new Intl.DateTimeFormat("pt-BR", {
+  day: "2-digit",
+  month: "2-digit",
+  year: "2-digit",
+  timeZone: "UTC",
+});
+
+function formatAmountInput(value: number) {
+  return currencyFormatter.format(value).replace(/\s/g, "").replace("R$", "").trim();
+}
+
+function maskAmount(raw: string) {
+  return formatAmountInput(Number(raw.replace(/\D/g, "")) / 100);
+}
+
+function todayInput() {
+  const now = new Date();
+  const month = `${now.getMonth() + 1}`.padStart(2, "0");
+  const day = `${now.getDate()}`.padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+function createInitialForm(): RecurringFormState {
+  return {
+    counterpart: "",
+    productService: "",
+    movement: "DESPESA",
+    type: "SERVICO",
+    paymentMethod: "BOLETO",
+    amount: "0,00",
+    direction: "SAIDA",
+    notes: "",
+    bankAccountId: "",
+    categoryId: "",
+    costCenterId: "",
+    frequency: "MENSAL",
+    dayOfMonth: "5",
+    startDate: todayInput(),
+    endDate: "",
+  };
+}
+
+function toForm(entry: RecurringEntrySummary): RecurringFormState {
+  return {
+    counterpart: entry.counterpart,
+    productService: entry.productService,
+    movement: entry.movement,
+    type: entry.type,
+    paymentMethod: entry.paymentMethod,
+    amount: formatAmountInput(Math.abs(entry.amount)),
+    direction: entry.amount < 0 ? "SAIDA" : "ENTRADA",
+    notes: entry.notes ?? "",
+    bankAccountId: entry.bankAccountId === null ? "" : String(entry.bankAccountId),
+    categoryId: entry.categoryId === null ? "" : String(entry.categoryId),
+    costCenterId: entry.costCenterId === null ? "" : String(entry.costCenterId),
+    frequency: entry.frequency,
+    dayOfMonth: String(entry.dayOfMonth),
+    startDate: entry.startDate.slice(0, 10),
+    endDate: entry.endDate ? entry.endDate.slice(0, 10) : "",
+  };
+}
+
+function toPayload(form: RecurringFormState, active: boolean) {
+  return {
+    ...form,
+    dayOfMonth: Number(form.dayOfMonth),
+    endDate: form.endDate || null,
+    bankAccountId: form.bankAccountId ? Number(form.bankAccountId) : null,
+    categoryId: form.categoryId ? Number(form.categoryId) : null,
+    costCenterId: form.costCenterId ? Number(form.costCenterId) : null,
+    active,
+  };
+}
+
+function occurrenceKey(occurrence: UpcomingOccurrence) {
+  return `${occurrence.recurringEntryId}:${occurrence.dueDate}`;
+}
+
+export default function RecurringEntriesSection({
+  companyId,
+  bankAccounts,
+  ledgerCategories,
+  costCenters,
+  movementOptions,
+  directionOptions,
+  typeOptions,
+  paymentOptions,
+  onEntriesGenerated,
+}: RecurringEntriesSectionProps) {
+  const [recurringEntries, setRecurringEntries] = useState<RecurringEntrySummary[]>([]);
+  const [occurrences, setOccurrences] = useState<UpcomingOccurrence[]>([]);
+  const [version, setVersion] = useState(0);
+  const [form, setForm] = useState<RecurringFormState>(createInitialForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [adjustment, setAdjustment] = useState<AdjustmentState | null>(null);
+  const [generateMessage, setGenerateMessage] = useState<string | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const [entriesResponse, occurrencesResponse] = await Promise.all([
+          fetch(`/api/clients/${companyId}/recurring-entries`, { method: "GET" }),
+          fetch(`/api/clients/${companyId}/recurring-entries/occurrences`, { method: "GET" }),
+        ]);
+        if (!entriesResponse.ok || !occurrencesResponse.ok) {
+          throw new Error("Falha ao carregar os lançamentos recorrentes.");
+        }
+        const entries = (await entriesResponse.json()) as RecurringEntrySummary[];
+        const upcoming = (await occurrencesResponse.json()) as UpcomingOccurrence[];
+        if (!cancelled) {
+          setRecurringEntries(entries);
+          setOccurrences(upcoming);
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          console.error("Erro ao carregar lançamentos recorrentes", loadError);
+          setRecurringEntries([]);
+          setOccurrences([]);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, version]);
+
+  function handleFormChange<K extends keyof RecurringFormState>(field: K, value: string) {
+    setForm((prev) => ({ ...prev, [field]: field === "amount" ? maskAmount(value) : value }));
+  }
+
+  function resetForm() {
+    setForm(createInitialForm());
+    setEditingId(null);
+  }
+
+  async function saveRecurringEntry(payload: ReturnType<typeof toPayload>, recurringId: number | null) {
+    const response = await fetch(
+      recurringId === null
+        ? `/api/clients/${companyId}/recurring-entries`
+        : `/api/clients/${companyId}/recurring-entries/${recurringId}`,
+      {
+        method: recurringId === null ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      },
+    );
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({ error: "Falha ao salvar o lançamento recorrente." }));
+      throw new Error(body.error ?? "Não foi possível salvar o lançamento recorrente.");
+    }
+    setVersion((prev) => prev + 1);
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+
+    startSaveTransition(async () => {
+      try {
+        const current = recurringEntries.find((entry) => entry.id === editingId);
+        await saveRecurringEntry(toPayload(form, current?.active ?? true), editingId);
+        resetForm();
+      } catch (saveError) {
+        console.error("Erro ao salvar lançamento recorrente", saveError);
+        setError(saveError instanceof Error ? saveError.message : "Não foi possível salvar o lançamento recorrente.");
+      }
+    });
+  }
+
+  async function handleToggle(entry: RecurringEntrySummary) {
+    setBusyKey(`entry:${entry.id}`);
+    setError(null);
+    try {
+      await saveRecurringEntry(toPayload(toForm(entry), !entry.active), entry.id);
+    } catch (toggleError) {
+      console.error("Erro ao alterar lançamento recorrente", toggleError);
+      setError(toggleError instanceof Error ? toggleError.message : "Não foi possível alterar o lançamento recorrente.");
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function handleDelete(entry: RecurringEntrySummary) {
+    if (!window.confirm(`Excluir o lançamento recorrente "${entry.counterpart}"? Os lançamentos já gerados são mantidos.`)) {
+      return;
+    }
+
+    setBusyKey(`entry:${entry.id}`);
+    setError(null);
+    try {
+      const response = await fetch(`/api/clients/${companyId}/recurring-entries/${entry.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao excluir." }));
+        setError(body.error ?? "Não foi possível excluir o lançamento recorrente.");
+        return;
+      }
+      if (editingId === entry.id) {
+        resetForm();
+      }
+      setVersion((prev) => prev + 1);
+    } catch (deleteError) {
+      console.error("Erro ao excluir lançamento recorrente", deleteError);
+      setError("Não foi possível excluir o lançamento recorrente. Tente novamente.");
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function updateOccurrence(occurrence: UpcomingOccurrence, changes: Record<string, unknown>) {
+    const key = occurrenceKey(occurrence);
+    setBusyKey(key);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/clients/${companyId}/recurring-entries/${occurrence.recurringEntryId}/occurrences`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ dueDate: occurrence.dueDate.slice(0, 10), ...changes }),
+        },
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao ajustar." }));
+        setError(body.error ?? "Não foi possível ajustar a ocorrência.");
+        return;
+      }
+      setAdjustment(null);
+      setVersion((prev) => prev + 1);
+    } catch (updateError) {
+      console.error("Erro ao ajustar ocorrência", updateError);
+      setError("Não foi possível ajustar a ocorrência. Tente novamente.");
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function handleGenerate() {
+    setBusyKey("generate");
+    setError(null);
+    setGenerateMessage(null);
+    try {
+      const response = await fetch(`/api/clients/${companyId}/recurring-entries/generate`, { method: "POST" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Erro inesperado ao gerar." }));
+        setError(body.error ?? "Não foi possível gerar os lançamentos recorrentes.");
+        return;
+      }
+      const { generated, failed } = (await response.json()) as { generated: number; failed: number };
+      setGenerateMessage(
+        generated > 0
+          ? `${generated} lançamento(s) gerado(s)${failed > 0 ? `; ${failed} com erro` : ""}.`
+          : failed > 0
+            ? `${failed} ocorrência(s) com erro.`
+            : "Nenhum lançamento vencido para gerar.",
+      );
+      setVersion((prev) => prev + 1);
+      if (generated > 0) {
+        onEntriesGenerated();
+      }
+    } catch (generateError) {
+      console.error("Erro ao gerar lançamentos recorrentes", generateError);
+      setError("Não foi possível gerar os lançamentos recorrentes. Tente novamente.");
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  const labelOf = (options: Option[], value: string) => options.find((option) => option.value === value)?.label ?? value;
+
+  return (
+    <section className="space-y-4">
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-white">Lançamentos recorrentes</h3>
+          <p className="text-sm text-slate-300/80">
+            Aluguel, pró-labore, salários e assinaturas entram no livro-caixa no dia do vencimento. Ocorrências ainda
+            não geradas podem ser puladas ou ajustadas.
+          </p>
+        </div>
+        <div className="flex flex-col items-start gap-1 sm:items-end">
+          <button
+            className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+            type="button"
+            onClick={handleGenerate}
+            disabled={busyKey === "generate" || recurringEntries.length === 0}
+          >
+            {busyKey === "generate" ? "Gerando..." : "Gerar vencidos agora"}
+          </button>
+          {generateMessage ? <span className="text-xs text-slate-400">{generateMessage}</span> : null}
+        </div>
+      </header>
+
+      {error ? <p className="text-sm text-red-300">{error}</p> : null}
+
+      <form className="space-y-3 rounded-2xl border border-white/10 bg-slate-950/60 p-4" onSubmit={handleSubmit}>
+        <div className="grid gap-3 md:grid-cols-4">
+          <input
+            aria-label="Empresa ou fornecedor"
+            className={inputClassName}
+            placeholder="Empresa / Fornecedor"
+            value={form.counterpart}
+            onChange={(event) => handleFormChange("counterpart", event.target.value)}
+            required
+          />
+          <input
+            aria-label="Produto ou serviço"
+            className={inputClassName}
+            placeholder="Ex.: Aluguel da loja"
+            value={form.productService}
+            onChange={(event) => handleFormChange("productService", event.target.value)}
+            required
+          />
+          <select
+            aria-label="Movimentação"
+            className={inputClassName}
+            value={form.movement}
+            onChange={(event) => handleFormChange("movement", event.target.value)}
+          >
+            {movementOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {form.movement === "TRANSFERENCIA" ? (
+            <select
+              aria-label="Sentido da transferência"
+              className={inputClassName}
+              value={form.direction}
+              onChange={(event) => handleFormChange("direction", event.target.value)}
+            >
+              {directionOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <select
+            aria-label="Tipo"
+            className={inputClassName}
+            value={form.type}
+            onChange={(event) => handleFormChange("type", event.target.value)}
+          >
+            {typeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label="Valor"
+            className={inputClassName}
+            inputMode="decimal"
+            value={form.amount}
+            onChange={(event) => handleFormChange("amount", event.target.value)}
+            required
+          />
+          <select
+            aria-label="Forma de pagamento"
+            className={inputClassName}
+            value={form.paymentMethod}
+            onChange={(event) => handleFormChange("paymentMethod", event.target.value)}
+          >
+            {paymentOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Frequência"
+            className={inputClassName}
+            value={form.frequency}
+            onChange={(event) => handleFormChange("frequency", event.target.value)}
+          >
+            {FREQUENCY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            Dia
+            <input
+              className={inputClassName}
+              type="number"
+              min={1}
+              max={31}
+              value={form.dayOfMonth}
+              onChange={(event) => handleFormChange("dayOfMonth", event.target.value)}
+              required
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            Início
+            <input
+              className={inputClassName}
+              type="date"
+              value={form.startDate}
+              onChange={(event) => handleFormChange("startDate", event.target.value)}
+              required
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            Término
+            <input
+              className={inputClassName}
+              type="date"
+              value={form.endDate}
+              onChange={(event) => handleFormChange("endDate", event.target.value)}
+            />
+          </label>
+          <select
+            aria-label="Conta"
+            className={inputClassName}
+            value={form.bankAccountId}
+            onChange={(event) => handleFormChange("bankAccountId", event.target.value)}
+          >
+            <option value="">Sem conta</option>
+            {bankAccounts
+              .filter((account) => account.active || String(account.id) === form.bankAccountId)
+              .map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+          </select>
+          <select
+            aria-label="Categoria"
+            className={inputClassName}
+            value={form.categoryId}
+            onChange={(event) => handleFormChange("categoryId", event.target.value)}
+          >
+            <option value="">Sem categoria</option>
+            {ledgerCategories
+              .filter((category) => category.active || String(category.id) === form.categoryId)
+              .map((category) => (
+                <option key={category.id} value={category.id}>
+                  {describeLedgerCategory(category)}
+                </option>
+              ))}
+          </select>
+          <select
+            aria-label="Centro de custo"
+            className={inputClassName}
+            value={form.costCenterId}
+            onChange={(event) => handleFormChange("costCenterId", event.target.value)}
+          >
+            <option value="">Sem centro de custo</option>
+            {costCenters
+              .filter((costCenter) => costCenter.active || String(costCenter.id) === form.costCenterId)
+              .map((costCenter) => (
+                <option key={costCenter.id} value={costCenter.id}>
+                  {costCenter.name}
+                </option>
+              ))}
+          </select>
+          <input
+            aria-label="Observações"
+            className={`${inputClassName} md:col-span-3`}
+            placeholder="Observações (opcional)"
+            value={form.notes}
+            onChange={(event) => handleFormChange("notes", event.target.value)}
+          />
+        </div>
+        <div className="flex items-center justify-end gap-2">
+          {editingId !== null ? (
+            <button
+              className="rounded-xl border border-white/10 px-4 py-2 text-sm font-semibold text-slate-300 transition hover:border-sky-500 hover:text-sky-300"
+              type="button"
+              onClick={resetForm}
+            >
+              Cancelar
+            </button>
+          ) : null}
+          <button
+            className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+            type="submit"
+            disabled={isSaving}
+          >
+            {isSaving ? "Salvando..." : editingId === null ? "Novo lançamento recorrente" : "Salvar alterações"}
+          </button>
+        </div>
+      </form>
+
+      {recurringEntries.length > 0 ? (
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {recurringEntries.map((entry) => (
+            <div
+              key={entry.id}
+              className={`space-y-2 rounded-2xl border border-white/10 bg-slate-950/60 px-4 py-3 text-sm text-slate-200 ${
+                entry.active ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-semibold text-white">{entry.counterpart}</p>
+                  <p className="text-xs text-slate-400">{entry.productService}</p>
+                </div>
+                {!entry.active ? <span className="text-xs text-slate-400">Inativo</span> : null}
+              </div>
+              <p className="text-xs text-slate-400">
+                {labelOf(FREQUENCY_OPTIONS, entry.frequency)}, dia {entry.dayOfMonth} ·{" "}
+                {labelOf(movementOptions, entry.movement)} · {labelOf(paymentOptions, entry.paymentMethod)}
+                {entry.endDate ? ` · até ${dateFormatter.format(new Date(entry.endDate))}` : ""}
+              </p>
+              <p className="text-base font-semibold text-sky-300">{currencyFormatter.format(entry.amount)}</p>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <button
+                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                  type="button"
+                  onClick={() => {
+                    setEditingId(entry.id);
+                    setForm(toForm(entry));
+                    setError(null);
+                  }}
+                  disabled={busyKey === `entry:${entry.id}`}
+                >
+                  Editar
+                </button>
+                <button
+                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                  type="button"
+                  onClick={() => handleToggle(entry)}
+                  disabled={busyKey === `entry:${entry.id}`}
+                >
+                  {entry.active ? "Desativar" : "Ativar"}
+                </button>
+                <button
+                  className="rounded-lg border border-red-500/40 px-3 py-1 font-semibold text-red-200 transition hover:bg-red-500/10 disabled:opacity-40"
+                  type="button"
+                  onClick={() => handleDelete(entry)}
+                  disabled={busyKey === `entry:${entry.id}`}
+                >
+                  Excluir
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {occurrences.length > 0 ? (
+        <div className="rounded-2xl border border-white/10 bg-slate-950/60">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10 text-sm text-slate-200">
+              <thead className="text-xs font-semibold uppercase tracking-wide text-slate-300/80">
+                <tr>
+                  <th className="px-4 py-3 text-left">Data</th>
+                  <th className="px-4 py-3 text-left">Próximas ocorrências</th>
+                  <th className="px-4 py-3 text-left">Valor</th>
+                  <th className="px-4 py-3 text-left">Situação</th>
+                  <th className="px-4 py-3 text-left">Ações</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {occurrences.map((occurrence) => {
+                  const key = occurrenceKey(occurrence);
+                  const isAdjusting = adjustment?.key === key;
+                  const editable = occurrence.status !== "GERADA";
+                  return (
+                    <tr key={key} className={`hover:bg-slate-900/60 ${occurrence.status === "PULADA" ? "opacity-60" : ""}`}>
+                      <td className="px-4 py-3">
+                        {isAdjusting ? (
+                          <input
+                            aria-label="Data ajustada"
+                            className={inputClassName}
+                            type="date"
+                            value={adjustment.date}
+                            onChange={(event) => setAdjustment({ ...adjustment, date: event.target.value })}
+                          />
+                        ) : (
+                          <>
+                            <p>{dateFormatter.format(new Date(occurrence.date))}</p>
+                            {occurrence.date !== occurrence.dueDate ? (
+                              <p className="text-xs text-slate-400">
+                                vence {dateFormatter.format(new Date(occurrence.dueDate))}
+                              </p>
+                            ) : null}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <p>{occurrence.counterpart}</p>
+                        {isAdjusting ? (
+                          <input
+                            aria-label="Observação da ocorrência"
+                            className={`${inputClassName} mt-1`}
+                            placeholder="Observação (opcional)"
+                            value={adjustment.notes}
+                            onChange={(event) => setAdjustment({ ...adjustment, notes: event.target.value })}
+                          />
+                        ) : (
+                          <p className="text-xs text-slate-400">
+                            {occurrence.productService}
+                            {occurrence.notes ? ` · ${occurrence.notes}` : ""}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {isAdjusting ? (
+                          <input
+                            aria-label="Valor ajustado"
+                            className={inputClassName}
+                            inputMode="decimal"
+                            value={adjustment.amount}
+                            onChange={(event) => setAdjustment({ ...adjustment, amount: maskAmount(event.target.value) })}
+                          />
+                        ) : (
+                          <span className={occurrence.movement === "RECEITA" ? "text-sky-300" : "text-red-300"}>
+                            {currencyFormatter.format(occurrence.amount)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-slate-300">{STATUS_LABELS[occurrence.status]}</td>
+                      <td className="px-4 py-3">
+                        {editable ? (
+                          <div className="flex flex-wrap gap-2 text-xs">
+                            {isAdjusting ? (
+                              <>
+                                <button
+                                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                                  type="button"
+                                  onClick={() =>
+                                    updateOccurrence(occurrence, {
+                                      date: adjustment.date,
+                                      amount: adjustment.amount,
+                                      notes: adjustment.notes,
+                                    })
+                                  }
+                                  disabled={busyKey === key}
+                                >
+                                  Salvar
+                                </button>
+                                <button
+                                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-300 transition hover:border-sky-500 hover:text-sky-300"
+                                  type="button"
+                                  onClick={() => setAdjustment(null)}
+                                >
+                                  Cancelar
+                                </button>
+                              </>
+                            ) : (
+                              <>
+                                <button
+                                  className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                                  type="button"
+                                  onClick={() =>
+                                    setAdjustment({
+                                      key,
+                                      date: occurrence.date.slice(0, 10),
+                                      amount: formatAmountInput(occurrence.amount),
+                                      notes: occurrence.notes ?? "",
+                                    })
+                                  }
+                                  disabled={busyKey === key}
+                                >
+                                  Ajustar
+                                </button>
+                                {occurrence.status !== "PULADA" ? (
+                                  <button
+                                    className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                                    type="button"
+                                    onClick={() => updateOccurrence(occurrence, { skipped: true })}
+                                    disabled={busyKey === key}
+                                  >
+                                    Pular
+                                  </button>
+                                ) : null}
+                                {occurrence.status !== "PREVISTA" ? (
+                                  <button
+                                    className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                                    type="button"
+                                    onClick={() => updateOccurrence(occurrence, {})}
+                                    disabled={busyKey === key}
+                                    title="Volta a seguir o lançamento recorrente"
+                                  >
+                                    Restaurar
+                                  </button>
+                                ) : null}
+                              </>
+                            )}
+                          </div>
+                        ) : null}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
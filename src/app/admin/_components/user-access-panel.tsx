@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useTransition } from "react";
+import { useEffect, useRef, useState, useTransition } from "react";
 
 type CompanySummary = {
   id: number;
@@ -12,15 +12,51 @@ type UserSummary = {
   id: number;
   email: string;
   mustChangePassword: boolean;
+  active: boolean;
   createdAt: string;
   admin: boolean;
+  companyId: number | null;
   companyName: string;
   companyCnpj: string;
 };
 
+type ApiUser = {
+  id: number;
+  email: string;
+  admin: boolean;
+  mustChangePassword: boolean;
+  active: boolean;
+  createdAt: string;
+  company: CompanySummary | null;
+};
+
+type UserListResponse = {
+  users: ApiUser[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
 type UserAccessPanelProps = {
   companies: CompanySummary[];
   initialUsers: UserSummary[];
+  initialTotal: number;
+  pageSize: number;
+};
+
+type UserFilters = {
+  companyId: string;
+  admin: "" | "true" | "false";
+  mustChangePassword: "" | "true" | "false";
+  active: "" | "true" | "false";
+};
+
+type EditUserState = {
+  id: number;
+  email: string;
+  admin: boolean;
+  companyId: string;
+  mustChangePassword: boolean;
 };
 
 type FormState = {
@@ -49,6 +85,20 @@ function formatDateTime(iso: string) {
   }).format(date);
 }
 
+function toUserSummary(user: ApiUser): UserSummary {
+  return {
+    id: user.id,
+    email: user.email,
+    admin: user.admin,
+    mustChangePassword: user.mustChangePassword,
+    active: user.active,
+    createdAt: user.createdAt,
+    companyId: user.company?.id ?? null,
+    companyName: user.company?.name ?? "Equipe interna",
+    companyCnpj: user.company?.cnpj ?? "—",
+  };
+}
+
 const initialFormState: FormState = {
   email: "",
   cnpj: "",
@@ -56,11 +106,184 @@ const initialFormState: FormState = {
   admin: false,
 };
 
-export default function UserAccessPanel({ companies, initialUsers }: UserAccessPanelProps) {
+const initialFilters: UserFilters = {
+  companyId: "",
+  admin: "",
+  mustChangePassword: "",
+  active: "",
+};
+
+export default function UserAccessPanel({ companies, initialUsers, initialTotal, pageSize }: UserAccessPanelProps) {
   const [form, setForm] = useState<FormState>(initialFormState);
   const [users, setUsers] = useState<UserSummary[]>(initialUsers);
+  const [totalUsers, setTotalUsers] = useState(initialTotal);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<UserFilters>(initialFilters);
+  const [isFetchingUsers, setIsFetchingUsers] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [editingUser, setEditingUser] = useState<EditUserState | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [isSavingUser, startSaveUserTransition] = useTransition();
+  const [isUpdatingRow, startRowTransition] = useTransition();
   const [feedback, setFeedback] = useState<{ error?: string; success?: string }>({});
   const [isPending, startTransition] = useTransition();
+  const skipInitialFetch = useRef(true);
+
+  const totalPages = Math.max(1, Math.ceil(totalUsers / pageSize));
+
+  useEffect(() => {
+    if (skipInitialFetch.current) {
+      skipInitialFetch.current = false;
+      return;
+    }
+
+    let cancelled = false;
+    setIsFetchingUsers(true);
+    setListError(null);
+
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    (Object.keys(filters) as (keyof UserFilters)[]).forEach((key) => {
+      if (filters[key]) {
+        params.set(key, filters[key]);
+      }
+    });
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/users?${params.toString()}`, { method: "GET" });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Falha ao carregar acessos." }));
+          throw new Error(body.error ?? "Falha ao carregar acessos.");
+        }
+
+        const data = (await response.json()) as UserListResponse;
+        if (!cancelled) {
+          setUsers(data.users.map(toUserSummary));
+          setTotalUsers(data.total);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Erro ao buscar acessos", error);
+          setListError("Não foi possível carregar a lista de acessos.");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsFetchingUsers(false);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, page, pageSize]);
+
+  function handleFilterChange<K extends keyof UserFilters>(field: K, value: UserFilters[K]) {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+    setPage(1);
+  }
+
+  async function patchUser(userId: number, body: Record<string, unknown>) {
+    const response = await fetch(`/api/users/${userId}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({ error: "Erro inesperado ao atualizar usuário." }));
+      throw new Error(data.error ?? "Não foi possível atualizar o usuário.");
+    }
+
+    const updated = toUserSummary((await response.json()) as ApiUser);
+    setUsers((prev) => prev.map((user) => (user.id === updated.id ? updated : user)));
+    return updated;
+  }
+
+  function handleOpenEdit(user: UserSummary) {
+    setEditingUser({
+      id: user.id,
+      email: user.email,
+      admin: user.admin,
+      companyId: user.companyId ? String(user.companyId) : "",
+      mustChangePassword: user.mustChangePassword,
+    });
+    setEditError(null);
+  }
+
+  function handleCloseEdit() {
+    setEditingUser(null);
+    setEditError(null);
+  }
+
+  function handleSaveUser(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!editingUser) {
+      return;
+    }
+
+    if (!editingUser.admin && !editingUser.companyId) {
+      setEditError("Selecione a empresa vinculada ao usuário comum.");
+      return;
+    }
+
+    startSaveUserTransition(async () => {
+      try {
+        await patchUser(editingUser.id, {
+          admin: editingUser.admin,
+          companyId: !editingUser.admin && editingUser.companyId ? Number(editingUser.companyId) : null,
+          mustChangePassword: editingUser.mustChangePassword,
+        });
+        handleCloseEdit();
+      } catch (error) {
+        console.error("Erro ao atualizar usuário", error);
+        setEditError(error instanceof Error ? error.message : "Não foi possível atualizar o usuário.");
+      }
+    });
+  }
+
+  function handleToggleActive(user: UserSummary) {
+    const message = user.active
+      ? `Desativar o acesso de ${user.email}? O usuário não conseguirá mais entrar no portal.`
+      : `Reativar o acesso de ${user.email}?`;
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    startRowTransition(async () => {
+      try {
+        await patchUser(user.id, { active: !user.active });
+      } catch (error) {
+        console.error("Erro ao alterar status do usuário", error);
+        alert(error instanceof Error ? error.message : "Não foi possível alterar o status do usuário.");
+      }
+    });
+  }
+
+  function handleDeleteUser(user: UserSummary) {
+    if (!window.confirm(`Excluir definitivamente o acesso de ${user.email}?`)) {
+      return;
+    }
+
+    startRowTransition(async () => {
+      try {
+        const response = await fetch(`/api/users/${user.id}`, { method: "DELETE" });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({ error: "Erro inesperado ao excluir." }));
+          alert(body.error ?? "Não foi possível excluir o usuário.");
+          return;
+        }
+
+        setUsers((prev) => prev.filter((existing) => existing.id !== user.id));
+        setTotalUsers((prev) => Math.max(0, prev - 1));
+      } catch (error) {
+        console.error("Erro ao excluir usuário", error);
+        alert("Não foi possível excluir o usuário. Tente novamente.");
+      }
+    });
+  }
 
   function handleInputChange<K extends keyof FormState>(field: K, value: FormState[K]) {
     setForm((prev) => ({
@@ -110,20 +333,10 @@ export default function UserAccessPanel({ companies, initialUsers }: UserAccessP
           return;
         }
 
-        const createdUser = await response.json();
-
-        setUsers((prev) => [
-          {
-            id: createdUser.id,
-            email: createdUser.email,
-            admin: createdUser.admin,
-            mustChangePassword: createdUser.mustChangePassword,
-            createdAt: createdUser.createdAt,
-            companyName: createdUser.company?.name ?? "Equipe interna",
-            companyCnpj: createdUser.company?.cnpj ?? "—",
-          },
-          ...prev,
-        ]);
+        const createdUser = (await response.json()) as ApiUser;
+
+        setUsers((prev) => [toUserSummary(createdUser), ...prev].slice(0, pageSize));
+        setTotalUsers((prev) => prev + 1);
 
         setForm(initialFormState);
         setFeedback({
@@ -287,11 +500,64 @@ export default function UserAccessPanel({ companies, initialUsers }: UserAccessP
       <section className="space-y-4">
         <header className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div>
-            <h3 className="text-base font-semibold text-white">Últimos acessos criados</h3>
-            <p className="text-xs text-slate-400">Acompanhe quem ainda precisa definir uma senha definitiva.</p>
+            <h3 className="text-base font-semibold text-white">Acessos cadastrados</h3>
+            <p className="text-xs text-slate-400">
+              Filtre por empresa, perfil ou situação, edite vínculos e desative acessos que não devem mais entrar no portal.
+            </p>
           </div>
+          <span className="text-xs text-slate-400">
+            {totalUsers} {totalUsers === 1 ? "acesso" : "acessos"}
+          </span>
         </header>
 
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <select
+            aria-label="Filtrar por empresa"
+            className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+            value={filters.companyId}
+            onChange={(event) => handleFilterChange("companyId", event.target.value)}
+          >
+            <option value="">Todas as empresas</option>
+            {companies.map((company) => (
+              <option key={company.id} value={company.id}>
+                {company.name}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Filtrar por perfil"
+            className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+            value={filters.admin}
+            onChange={(event) => handleFilterChange("admin", event.target.value as UserFilters["admin"])}
+          >
+            <option value="">Todos os perfis</option>
+            <option value="true">Administradores</option>
+            <option value="false">Usuários</option>
+          </select>
+          <select
+            aria-label="Filtrar por troca de senha"
+            className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+            value={filters.mustChangePassword}
+            onChange={(event) =>
+              handleFilterChange("mustChangePassword", event.target.value as UserFilters["mustChangePassword"])
+            }
+          >
+            <option value="">Qualquer senha</option>
+            <option value="true">Aguardando troca</option>
+            <option value="false">Senha definida</option>
+          </select>
+          <select
+            aria-label="Filtrar por situação"
+            className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+            value={filters.active}
+            onChange={(event) => handleFilterChange("active", event.target.value as UserFilters["active"])}
+          >
+            <option value="">Ativos e desativados</option>
+            <option value="true">Somente ativos</option>
+            <option value="false">Somente desativados</option>
+          </select>
+        </div>
+
         <div className="rounded-2xl border border-white/10 bg-slate-950/60">
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-white/10 text-sm text-slate-200">
@@ -302,10 +568,23 @@ export default function UserAccessPanel({ companies, initialUsers }: UserAccessP
                   <th className="px-4 py-3 text-left">Empresa</th>
                   <th className="px-4 py-3 text-left">Criado em</th>
                   <th className="px-4 py-3 text-left">Status</th>
+                  <th className="px-4 py-3 text-left">Ações</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-white/5">
-                {users.length > 0 ? (
+                {isFetchingUsers ? (
+                  <tr>
+                    <td className="px-4 py-6 text-center text-sm text-slate-400" colSpan={6}>
+                      Carregando acessos...
+                    </td>
+                  </tr>
+                ) : listError ? (
+                  <tr>
+                    <td className="px-4 py-6 text-center text-sm text-red-300" colSpan={6}>
+                      {listError}
+                    </td>
+                  </tr>
+                ) : users.length > 0 ? (
                   users.map((user) => (
                     <tr key={user.id} className="hover:bg-slate-900/60">
                       <td className="px-4 py-3">{user.email}</td>
@@ -318,7 +597,11 @@ export default function UserAccessPanel({ companies, initialUsers }: UserAccessP
                       </td>
                       <td className="px-4 py-3">{formatDateTime(user.createdAt)}</td>
                       <td className="px-4 py-3">
-                        {user.mustChangePassword ? (
+                        {!user.active ? (
+                          <span className="rounded-full border border-red-400/40 bg-red-500/10 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-red-200">
+                            Desativado
+                          </span>
+                        ) : user.mustChangePassword ? (
                           <span className="rounded-full border border-amber-400/40 bg-amber-500/10 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-amber-200">
                             Aguardando troca
                           </span>
@@ -328,12 +611,40 @@ export default function UserAccessPanel({ companies, initialUsers }: UserAccessP
                           </span>
                         )}
                       </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2 text-xs">
+                          <button
+                            className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+                            type="button"
+                            onClick={() => handleOpenEdit(user)}
+                            disabled={isUpdatingRow}
+                          >
+                            Editar
+                          </button>
+                          <button
+                            className="rounded-lg border border-amber-500/40 px-3 py-1 font-semibold text-amber-200 transition hover:bg-amber-500/10 disabled:opacity-40"
+                            type="button"
+                            onClick={() => handleToggleActive(user)}
+                            disabled={isUpdatingRow}
+                          >
+                            {user.active ? "Desativar" : "Reativar"}
+                          </button>
+                          <button
+                            className="rounded-lg border border-red-500/40 px-3 py-1 font-semibold text-red-200 transition hover:bg-red-500/10 disabled:opacity-40"
+                            type="button"
+                            onClick={() => handleDeleteUser(user)}
+                            disabled={isUpdatingRow}
+                          >
+                            Excluir
+                          </button>
+                        </div>
+                      </td>
                     </tr>
                   ))
                 ) : (
                   <tr>
-                    <td className="px-4 py-6 text-center text-sm text-slate-400" colSpan={4}>
-                      Nenhum acesso criado ainda.
+                    <td className="px-4 py-6 text-center text-sm text-slate-400" colSpan={6}>
+                      Nenhum acesso encontrado para os filtros selecionados.
                     </td>
                   </tr>
                 )}
@@ -341,7 +652,120 @@ export default function UserAccessPanel({ companies, initialUsers }: UserAccessP
             </table>
           </div>
         </div>
+
+        <div className="flex items-center justify-between text-xs text-slate-400">
+          <span>
+            Página {page} de {totalPages}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+              type="button"
+              onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+              disabled={page <= 1 || isFetchingUsers}
+            >
+              Anterior
+            </button>
+            <button
+              className="rounded-lg border border-white/10 px-3 py-1 font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300 disabled:opacity-40"
+              type="button"
+              onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+              disabled={page >= totalPages || isFetchingUsers}
+            >
+              Próxima
+            </button>
+          </div>
+        </div>
       </section>
+
+      {editingUser ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 px-4 py-8 backdrop-blur">
+          <div className="w-full max-w-lg rounded-3xl border border-white/10 bg-slate-900/95 p-6 shadow-2xl">
+            <header className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-white">Editar acesso</h3>
+                <p className="text-sm text-slate-300/80">{editingUser.email}</p>
+              </div>
+              <button
+                aria-label="Fechar modal"
+                className="rounded-xl border border-white/10 bg-slate-900/70 px-3 py-1 text-xs font-semibold text-slate-300 transition hover:border-sky-500 hover:text-sky-300"
+                type="button"
+                onClick={handleCloseEdit}
+              >
+                Fechar
+              </button>
+            </header>
+
+            <form className="mt-6 space-y-5" onSubmit={handleSaveUser}>
+              <label className="flex items-center gap-3 text-sm text-slate-200">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border border-white/30 bg-slate-950/80 text-sky-500 focus:ring-2 focus:ring-sky-500"
+                  checked={editingUser.admin}
+                  onChange={(event) =>
+                    setEditingUser((prev) => (prev ? { ...prev, admin: event.target.checked } : prev))
+                  }
+                />
+                Administrador
+              </label>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-200" htmlFor="edit-user-company">
+                  Empresa vinculada
+                </label>
+                <select
+                  className="w-full rounded-xl border border-white/10 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 shadow-sm transition focus:border-sky-500 focus:outline-none focus:ring-4 focus:ring-sky-500/20"
+                  id="edit-user-company"
+                  value={editingUser.companyId}
+                  onChange={(event) =>
+                    setEditingUser((prev) => (prev ? { ...prev, companyId: event.target.value } : prev))
+                  }
+                >
+                  <option value="">{editingUser.admin ? "Equipe interna" : "Selecione uma empresa"}</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name} · {formatCnpj(company.cnpj)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center gap-3 text-sm text-slate-200">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border border-white/30 bg-slate-950/80 text-sky-500 focus:ring-2 focus:ring-sky-500"
+                  checked={editingUser.mustChangePassword}
+                  onChange={(event) =>
+                    setEditingUser((prev) => (prev ? { ...prev, mustChangePassword: event.target.checked } : prev))
+                  }
+                />
+                Exigir troca de senha no próximo login
+              </label>
+
+              {editError ? (
+                <p className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{editError}</p>
+              ) : null}
+
+              <div className="flex items-center justify-end gap-3 pt-2">
+                <button
+                  className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:border-sky-500 hover:text-sky-300"
+                  type="button"
+                  onClick={handleCloseEdit}
+                >
+                  Cancelar
+                </button>
+                <button
+                  className="rounded-xl bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-sky-600/30 transition hover:bg-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40 disabled:cursor-not-allowed disabled:opacity-60"
+                  disabled={isSavingUser}
+                  type="submit"
+                >
+                  {isSavingUser ? "Salvando..." : "Salvar alterações"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      ) : null}
     </section>
   );
 }
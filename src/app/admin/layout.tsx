@@ -0,0 +1,16 @@
+import { redirect } from "next/navigation";
+import { getSession } from "../../lib/session";
+
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const session = await getSession();
+
+  if (!session) {
+    redirect("/");
+  }
+
+  return children;
+}
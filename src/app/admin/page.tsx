@@ -2,6 +2,7 @@
 import Link from "next/link";
 import Image from "next/image";
 import LogoutButton from "../_components/logout-button";
+import EntrySearch from "./_components/entry-search";
 
 type CompanySummary = {
   id: number;
@@ -107,6 +108,24 @@ export default async function AdminDashboard() {
               >
                 Acessos
               </Link>
+              <Link
+                className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300 cursor-pointer"
+                href="/admin/perfis-importacao"
+              >
+                Perfis CSV
+              </Link>
+              <Link
+                className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300 cursor-pointer"
+                href="/admin/regras-categorizacao"
+              >
+                Regras de categorização
+              </Link>
+              <Link
+                className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-sky-500 hover:text-sky-300 cursor-pointer"
+                href="/admin/plano-de-contas"
+              >
+                Plano de contas
+              </Link>
               <LogoutButton className="rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-red-500 hover:text-red-200 cursor-pointer">
                 Sair
               </LogoutButton>
@@ -140,6 +159,18 @@ export default async function AdminDashboard() {
           </article>
         </section>
 
+        <section className="rounded-3xl border border-white/10 bg-white/5 p-6 shadow-inner shadow-white/5">
+          <header className="border-b border-white/10 pb-4">
+            <h2 className="text-lg font-semibold text-white">Buscar lancamentos</h2>
+            <p className="text-sm text-slate-300/80">
+              Encontre lancamentos de todas as empresas pelo fornecedor, produto, observacao ou referencia.
+            </p>
+          </header>
+          <div className="mt-6">
+            <EntrySearch />
+          </div>
+        </section>
+
         <section className="rounded-3xl border border-white/10 bg-white/5 p-6 shadow-inner shadow-white/5">
           <header className="flex flex-col gap-2 border-b border-white/10 pb-4 sm:flex-row sm:items-center sm:justify-between">
             <div>
@@ -2,6 +2,8 @@ import Link from "next/link";
 import UserAccessPanel from "../_components/user-access-panel";
 import { prismaWithRetry } from "../../../lib/prisma-retry";
 
+const USERS_PAGE_SIZE = 20;
+
 function formatDateTime(date: Date) {
   return new Intl.DateTimeFormat("pt-BR", {
     day: "2-digit",
@@ -13,7 +15,7 @@ function formatDateTime(date: Date) {
 }
 
 export default async function UsuariosPage() {
-  const [companies, users] = await Promise.all([
+  const [companies, users, totalUsers] = await Promise.all([
     prismaWithRetry((client) =>
       client.company.findMany({
         orderBy: { name: "asc" },
@@ -27,15 +29,17 @@ export default async function UsuariosPage() {
     prismaWithRetry((client) =>
       client.user.findMany({
         orderBy: { createdAt: "desc" },
-        take: 20,
+        take: USERS_PAGE_SIZE,
         select: {
           id: true,
           email: true,
           admin: true,
           mustChangePassword: true,
+          active: true,
           createdAt: true,
           company: {
             select: {
+              id: true,
               name: true,
               cnpj: true,
             },
@@ -43,6 +47,7 @@ export default async function UsuariosPage() {
         },
       }),
     ),
+    prismaWithRetry((client) => client.user.count()),
   ]);
 
   const userSummaries = users.map((user) => ({
@@ -50,7 +55,9 @@ export default async function UsuariosPage() {
     email: user.email,
     admin: user.admin,
     mustChangePassword: user.mustChangePassword,
+    active: user.active,
     createdAt: user.createdAt.toISOString(),
+    companyId: user.company?.id ?? null,
     companyName: user.company?.name ?? "Equipe interna",
     companyCnpj: user.company?.cnpj ?? "-",
   }));
@@ -63,7 +70,7 @@ export default async function UsuariosPage() {
             <p className="text-sm uppercase tracking-[0.3em] text-slate-300/80">Ferramentas</p>
             <h1 className="mt-2 text-3xl font-semibold text-white">Gerenciar acessos</h1>
             <p className="mt-3 text-sm text-slate-300/80">
-              Crie usuários comuns ou administradores com senha temporária e acompanhe quem ainda precisa definir uma credencial definitiva.
+              Crie usuários comuns ou administradores com senha temporária, ajuste vínculos e desative acessos que não devem mais entrar no portal.
             </p>
           </div>
           <div className="flex flex-col gap-3 text-sm text-slate-300/80 sm:items-end">
@@ -81,7 +88,12 @@ export default async function UsuariosPage() {
       </header>
 
       <div className="mx-auto max-w-5xl px-6 py-10 space-y-10">
-        <UserAccessPanel companies={companies} initialUsers={userSummaries} />
+        <UserAccessPanel
+          companies={companies}
+          initialUsers={userSummaries}
+          initialTotal={totalUsers}
+          pageSize={USERS_PAGE_SIZE}
+        />
       </div>
     </main>
   );
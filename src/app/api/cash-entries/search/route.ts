@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../lib/prisma-retry";
+import { authorizeCompany, authorizeSession } from "../../../../lib/authorization";
+import { MAX_SEARCH_RESULTS, searchCashEntries } from "../../../../lib/entry-search";
+
+/**
+ * Busca textual no livro-caixa (`q`). Com `companyId`, restringe à empresa;
+ * sem ele, administradores buscam em todas e usuários comuns na própria.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeSession(request);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const text = request.nextUrl.searchParams.get("q")?.trim() ?? "";
+  if (text.length < 2) {
+    return NextResponse.json({ error: "Digite ao menos 2 caracteres para buscar." }, { status: 400 });
+  }
+
+  const rawCompanyId = request.nextUrl.searchParams.get("companyId");
+  let companyId: number | null = null;
+  if (rawCompanyId) {
+    companyId = Number(rawCompanyId);
+    if (!Number.isInteger(companyId) || companyId <= 0) {
+      return NextResponse.json({ error: "Empresa inválida." }, { status: 400 });
+    }
+    const companyAuth = await authorizeCompany(request, companyId);
+    if (companyAuth.response) {
+      return companyAuth.response;
+    }
+  } else if (!auth.session.admin) {
+    if (auth.session.companyId == null) {
+      return NextResponse.json({ error: "Você não tem acesso a esta empresa." }, { status: 403 });
+    }
+    companyId = auth.session.companyId;
+  }
+
+  const rawLimit = Number(request.nextUrl.searchParams.get("limit") ?? MAX_SEARCH_RESULTS);
+  const limit = Number.isInteger(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, MAX_SEARCH_RESULTS) : MAX_SEARCH_RESULTS;
+
+  try {
+    const results = await prismaWithRetry((client) => searchCashEntries(client, text, companyId, limit));
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error("[GET /api/cash-entries/search]", error);
+    return NextResponse.json({ error: "Não foi possível realizar a busca." }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../lib/authorization";
+import { computeCarriedBalance, type BalanceScope } from "../../../../../lib/balances";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Saldo transportado para o início da data informada (`date=AAAA-MM-DD`).
+ * `bankAccountId` restringe a uma conta; `bankAccountId=none` aos lançamentos
+ * sem conta.
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const rawDate = request.nextUrl.searchParams.get("date");
+  const rawAccount = request.nextUrl.searchParams.get("bankAccountId");
+
+  const date = rawDate ? new Date(rawDate) : undefined;
+  if (date && Number.isNaN(date.getTime())) {
+    return NextResponse.json({ error: "Data inválida." }, { status: 400 });
+  }
+
+  let scope: BalanceScope;
+  if (rawAccount === "none") {
+    scope = null;
+  } else if (rawAccount) {
+    const accountId = Number(rawAccount);
+    if (!Number.isInteger(accountId) || accountId <= 0) {
+      return NextResponse.json({ error: "Conta inválida." }, { status: 400 });
+    }
+    scope = accountId;
+  }
+
+  try {
+    const balance = await prismaWithRetry((client) => computeCarriedBalance(client, companyId, scope, date));
+    if (!balance) {
+      return NextResponse.json(
+        { error: typeof scope === "number" ? "Conta não encontrada nesta empresa." : "Empresa não encontrada." },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ date: date ? date.toISOString() : null, ...balance });
+  } catch (error) {
+    console.error("[GET /api/clients/:id/balance]", error);
+    return NextResponse.json({ error: "Não foi possível calcular o saldo." }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../../../lib/authorization";
+import {
+  AUTO_MATCH_TIMEOUT_MS,
+  autoMatchStatementLines,
+  loadReconciliation,
+  parseMonth,
+} from "../../../../../../../../lib/reconciliation";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Casa automaticamente as linhas pendentes do mês (`month=AAAA-MM`) e
+ * devolve a conciliação atualizada com o número de novos vínculos.
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string; accountId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const accountId = parseId(params.accountId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const range = parseMonth(request.nextUrl.searchParams.get("month"));
+  if (!range) {
+    return NextResponse.json({ error: "Informe o mês no formato AAAA-MM." }, { status: 400 });
+  }
+
+  try {
+    const result = await prismaWithRetry(async (client) => {
+      const account = await client.bankAccount.findFirst({
+        where: { id: accountId, companyId },
+        select: { id: true, companyId: true },
+      });
+      if (!account) {
+        return null;
+      }
+      const matched = await client.$transaction((tx) => autoMatchStatementLines(tx, accountId, range), {
+        timeout: AUTO_MATCH_TIMEOUT_MS,
+      });
+      return { matched, ...(await loadReconciliation(client, account, range)) };
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: "Conta não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[POST /api/clients/:id/bank-accounts/:accountId/reconciliation/auto]", error);
+    return NextResponse.json({ error: "Não foi possível conciliar automaticamente." }, { status: 500 });
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../../../lib/authorization";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+function parseOptionalId(raw: unknown) {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Vínculo manual entre uma linha do extrato e um lançamento da mesma conta.
+ * Valores diferentes são aceitos: o saldo final mostra a diferença.
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string; accountId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const accountId = parseId(params.accountId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as { statementLineId?: unknown; cashEntryId?: unknown };
+  const statementLineId = parseOptionalId(payload.statementLineId);
+  const cashEntryId = parseOptionalId(payload.cashEntryId);
+
+  if (!statementLineId || !cashEntryId) {
+    return NextResponse.json({ error: "Selecione a linha do extrato e o lançamento." }, { status: 400 });
+  }
+
+  try {
+    const result = await prismaWithRetry((client) =>
+      client.$transaction(async (tx) => {
+        const line = await tx.statementLine.findFirst({
+          where: { id: statementLineId, bankAccountId: accountId, bankAccount: { companyId } },
+          select: { id: true, cashEntryId: true },
+        });
+        if (!line) {
+          return { error: "Linha do extrato não encontrada.", status: 404 };
+        }
+        if (line.cashEntryId !== null) {
+          return { error: "A linha do extrato já está conciliada.", status: 409 };
+        }
+
+        const entry = await tx.cashEntry.findFirst({
+          where: { id: cashEntryId, companyId, bankAccountId: accountId },
+          select: { id: true, statementLine: { select: { id: true } } },
+        });
+        if (!entry) {
+          return { error: "Lançamento não encontrado nesta conta.", status: 404 };
+        }
+        if (entry.statementLine) {
+          return { error: "O lançamento já está conciliado com outra linha.", status: 409 };
+        }
+
+        const updated = await tx.statementLine.update({
+          where: { id: statementLineId },
+          data: { cashEntryId, matchSource: "MANUAL", matchedAt: new Date() },
+          select: { id: true, cashEntryId: true, matchSource: true },
+        });
+        return { line: updated };
+      }),
+    );
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.line);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: "O lançamento já está conciliado com outra linha." }, { status: 409 });
+    }
+
+    console.error("[POST /api/clients/:id/bank-accounts/:accountId/reconciliation/matches]", error);
+    return NextResponse.json({ error: "Não foi possível conciliar a linha." }, { status: 500 });
+  }
+}
+
+/**
+ * Desfaz o vínculo da linha do extrato (`statementLineId`).
+ */
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string; accountId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const accountId = parseId(params.accountId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const statementLineId = parseOptionalId(request.nextUrl.searchParams.get("statementLineId"));
+  if (!statementLineId) {
+    return NextResponse.json({ error: "Informe a linha do extrato." }, { status: 400 });
+  }
+
+  try {
+    const { count } = await prismaWithRetry((client) =>
+      client.statementLine.updateMany({
+        where: { id: statementLineId, bankAccountId: accountId, bankAccount: { companyId } },
+        data: { cashEntryId: null, matchSource: null, matchedAt: null },
+      }),
+    );
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Linha do extrato não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[DELETE /api/clients/:id/bank-accounts/:accountId/reconciliation/matches]", error);
+    return NextResponse.json({ error: "Não foi possível desfazer a conciliação." }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../../lib/authorization";
+import { normalizeCurrencyToNumber } from "../../../../../../../lib/currency";
+import { loadReconciliation, parseMonth } from "../../../../../../../lib/reconciliation";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Conciliação da conta no mês (`month=AAAA-MM`): linhas do extrato,
+ * lançamentos do livro-caixa e a comparação dos saldos finais.
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string; accountId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const accountId = parseId(params.accountId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const range = parseMonth(request.nextUrl.searchParams.get("month"));
+  if (!range) {
+    return NextResponse.json({ error: "Informe o mês no formato AAAA-MM." }, { status: 400 });
+  }
+
+  try {
+    const result = await prismaWithRetry(async (client) => {
+      const account = await client.bankAccount.findFirst({
+        where: { id: accountId, companyId },
+        select: { id: true, companyId: true },
+      });
+      return account ? loadReconciliation(client, account, range) : null;
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: "Conta não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[GET /api/clients/:id/bank-accounts/:accountId/reconciliation]", error);
+    return NextResponse.json({ error: "Não foi possível carregar a conciliação." }, { status: 500 });
+  }
+}
+
+/**
+ * Informa o saldo final do banco no mês quando o extrato não trouxe
+ * (CSV, PDF) ou para corrigi-lo. `statementBalance` vazio remove o saldo.
+ */
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string; accountId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const accountId = parseId(params.accountId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as { month?: unknown; statementBalance?: unknown };
+  const range = parseMonth(typeof payload.month === "string" ? payload.month : null);
+  if (!range) {
+    return NextResponse.json({ error: "Informe o mês no formato AAAA-MM." }, { status: 400 });
+  }
+
+  const rawBalance = payload.statementBalance;
+  const amount =
+    rawBalance === undefined || rawBalance === null || rawBalance === "" ? null : normalizeCurrencyToNumber(rawBalance);
+  if (amount !== null && !Number.isFinite(amount)) {
+    return NextResponse.json({ error: "Saldo do extrato inválido." }, { status: 400 });
+  }
+  const statementBalance = amount === null ? null : new Prisma.Decimal(amount.toFixed(2));
+
+  try {
+    const result = await prismaWithRetry(async (client) => {
+      const account = await client.bankAccount.findFirst({
+        where: { id: accountId, companyId },
+        select: { id: true, companyId: true },
+      });
+      if (!account) {
+        return null;
+      }
+      await client.bankReconciliation.upsert({
+        where: { bankAccountId_month: { bankAccountId: accountId, month: range.start } },
+        create: { bankAccountId: accountId, month: range.start, statementBalance },
+        update: { statementBalance },
+      });
+      return loadReconciliation(client, account, range);
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: "Conta não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[PUT /api/clients/:id/bank-accounts/:accountId/reconciliation]", error);
+    return NextResponse.json({ error: "Não foi possível salvar o saldo do extrato." }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../lib/authorization";
+import { formatBankAccount, parseBankAccountPayload, type BankAccountPayload } from "../../../../../../lib/bank-accounts";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string; accountId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const accountId = parseId(params.accountId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as BankAccountPayload;
+  const { data, errors } = parseBankAccountPayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const account = await prismaWithRetry((client) =>
+      client.bankAccount.update({
+        where: {
+          id: accountId,
+          companyId,
+        },
+        data,
+      }),
+    );
+
+    return NextResponse.json(formatBankAccount(account));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      return NextResponse.json({ error: "Conta não encontrada." }, { status: 404 });
+    }
+
+    console.error("[PUT /api/clients/:id/bank-accounts/:accountId]", error);
+    return NextResponse.json({ error: "Não foi possível atualizar a conta." }, { status: 500 });
+  }
+}
+
+/**
+ * Contas com lançamentos não são excluídas, para não perder o vínculo
+ * dos lançamentos; nesse caso a conta deve ser desativada.
+ */
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string; accountId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const accountId = parseId(params.accountId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const entries = await prismaWithRetry((client) =>
+      client.cashEntry.count({ where: { companyId, bankAccountId: accountId } }),
+    );
+    if (entries > 0) {
+      return NextResponse.json(
+        { error: `A conta possui ${entries} lançamento(s). Desative-a em vez de excluir.` },
+        { status: 409 },
+      );
+    }
+
+    const { count } = await prismaWithRetry((client) =>
+      client.bankAccount.deleteMany({ where: { id: accountId, companyId } }),
+    );
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Conta não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[DELETE /api/clients/:id/bank-accounts/:accountId]", error);
+    return NextResponse.json({ error: "Não foi possível excluir a conta." }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../lib/authorization";
+import { computeAccountBalances } from "../../../../../../lib/balances";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Saldo atual por conta; a chave "none" reúne os lançamentos sem conta.
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const balances = await prismaWithRetry((client) => computeAccountBalances(client, companyId));
+    if (!balances) {
+      return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json(balances);
+  } catch (error) {
+    console.error("[GET /api/clients/:id/bank-accounts/balances]", error);
+    return NextResponse.json({ error: "Não foi possível calcular os saldos." }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../lib/authorization";
+import { formatBankAccount, parseBankAccountPayload, type BankAccountPayload } from "../../../../../lib/bank-accounts";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const accounts = await prismaWithRetry((client) =>
+    client.bankAccount.findMany({
+      where: { companyId },
+      orderBy: [{ active: "desc" }, { name: "asc" }],
+    }),
+  );
+
+  return NextResponse.json(accounts.map(formatBankAccount));
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as BankAccountPayload;
+  const { data, errors } = parseBankAccountPayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const account = await prismaWithRetry((client) =>
+      client.bankAccount.create({
+        data: {
+          companyId,
+          ...data,
+        },
+      }),
+    );
+
+    return NextResponse.json(formatBankAccount(account), { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2003") {
+      return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+    }
+
+    console.error("[POST /api/clients/:id/bank-accounts]", error);
+    return NextResponse.json({ error: "Não foi possível cadastrar a conta." }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../lib/authorization";
+import { parseCashEntryQuery, summarizeCashEntryGroups } from "../../../../../../lib/cash-entries";
+import { summarizeEntryLines } from "../../../../../../lib/entry-splits";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Totais por centro de custo, marcador, categoria e tipo de atividade, com os
+ * mesmos filtros da listagem do livro-caixa. Categoria e tipo contam cada
+ * linha dos lançamentos desdobrados.
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { query, errors } = parseCashEntryQuery(request.nextUrl.searchParams, companyId);
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const [groups, lines] = await prismaWithRetry((client) =>
+      Promise.all([summarizeCashEntryGroups(client, companyId, query.where), summarizeEntryLines(client, query.where)]),
+    );
+    return NextResponse.json({ ...groups, ...lines });
+  } catch (error) {
+    console.error("[GET /api/clients/:id/cash-entries/breakdown]", error);
+    return NextResponse.json({ error: "Não foi possível calcular os totais." }, { status: 500 });
+  }
+}
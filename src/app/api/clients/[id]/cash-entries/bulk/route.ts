@@ -0,0 +1,332 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../lib/authorization";
+import {
+  formatEntry,
+  MAX_TAGS,
+  mergeTags,
+  normalizeTags,
+  parseCashEntryPayload,
+  validateTags,
+  type CashEntryInput,
+  type CashEntryPayload,
+} from "../../../../../../lib/cash-entries";
+import { bankAccountsBelongToCompany } from "../../../../../../lib/bank-accounts";
+import { costCentersBelongToCompany } from "../../../../../../lib/cost-centers";
+import { categoriesBelongToCompany } from "../../../../../../lib/ledger-categories";
+import { findReferenceConflicts } from "../../../../../../lib/import-duplicates";
+import {
+  BULK_TRANSACTION_OPTIONS,
+  buildImportBatchData,
+  formatImportBatch,
+  importBatchSelect,
+  type ImportBatchPayload,
+} from "../../../../../../lib/import-batches";
+import {
+  AUTO_MATCH_TIMEOUT_MS,
+  autoMatchStatementLines,
+  parseStatementPayload,
+  saveStatement,
+  type StatementPayload,
+} from "../../../../../../lib/reconciliation";
+
+type BulkCreatePayload = {
+  entries?: unknown;
+  batch?: ImportBatchPayload;
+  /** Extrato completo da conta selecionada, guardado para a conciliação. */
+  statement?: StatementPayload;
+};
+
+/** Alteração aplicada de uma vez aos lançamentos selecionados. */
+type BulkUpdatePayload = {
+  ids?: unknown;
+  /** Ausente mantém; null ou vazio remove o centro de custo. */
+  costCenterId?: unknown;
+  addTags?: unknown;
+  removeTags?: unknown;
+};
+
+type RowError = {
+  index: number;
+  error: string;
+};
+
+const MAX_BULK_ENTRIES = 5000;
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as BulkCreatePayload;
+
+  if (!Array.isArray(payload.entries) || payload.entries.length === 0) {
+    return NextResponse.json({ error: "Envie ao menos um lançamento." }, { status: 400 });
+  }
+
+  if (payload.entries.length > MAX_BULK_ENTRIES) {
+    return NextResponse.json(
+      { error: `Envie no máximo ${MAX_BULK_ENTRIES} lançamentos por importação.` },
+      { status: 400 },
+    );
+  }
+
+  const rows: CashEntryInput[] = [];
+  const rowErrors: RowError[] = [];
+
+  payload.entries.forEach((raw, index) => {
+    const { data, errors } = parseCashEntryPayload((raw ?? {}) as CashEntryPayload);
+    if (errors) {
+      rowErrors.push({ index, error: errors.join(" ") });
+      return;
+    }
+    rows.push(data);
+  });
+
+  if (rowErrors.length > 0) {
+    return NextResponse.json(
+      {
+        error: `${rowErrors.length} lançamento(s) inválido(s). Nenhum lançamento foi importado.`,
+        rows: rowErrors,
+      },
+      { status: 400 },
+    );
+  }
+
+  const statement = parseStatementPayload(payload.statement);
+  const bankAccountIds = rows.flatMap((row) => (typeof row.bankAccountId === "number" ? [row.bankAccountId] : []));
+  if (statement) {
+    bankAccountIds.push(statement.bankAccountId);
+  }
+  const validAccounts = await prismaWithRetry((client) =>
+    bankAccountsBelongToCompany(client, companyId, bankAccountIds),
+  );
+  if (!validAccounts) {
+    return NextResponse.json({ error: "Conta não encontrada nesta empresa." }, { status: 400 });
+  }
+
+  const categoryIds = rows.flatMap((row) => (typeof row.categoryId === "number" ? [row.categoryId] : []));
+  const validCategories = await prismaWithRetry((client) =>
+    categoriesBelongToCompany(client, companyId, categoryIds),
+  );
+  if (!validCategories) {
+    return NextResponse.json({ error: "Categoria não encontrada no plano de contas da empresa." }, { status: 400 });
+  }
+
+  const costCenterIds = rows.flatMap((row) => (typeof row.costCenterId === "number" ? [row.costCenterId] : []));
+  const validCostCenters = await prismaWithRetry((client) =>
+    costCentersBelongToCompany(client, companyId, costCenterIds),
+  );
+  if (!validCostCenters) {
+    return NextResponse.json({ error: "Centro de custo não encontrado nesta empresa." }, { status: 400 });
+  }
+
+  const conflicts = await prismaWithRetry((client) => findReferenceConflicts(client, companyId, rows));
+  if (conflicts.length > 0) {
+    return NextResponse.json(
+      {
+        error: `${conflicts.length} lançamento(s) já importado(s) anteriormente. Nenhum lançamento foi importado.`,
+        rows: conflicts,
+      },
+      { status: 409 },
+    );
+  }
+
+  const userId = Number(auth.session.userId);
+
+  try {
+    const { batch, entries } = await prismaWithRetry((client) =>
+      client.$transaction(async (tx) => {
+        const createdBatch = payload.batch
+          ? await tx.importBatch.create({
+              data: buildImportBatchData(payload.batch, rows, companyId, Number.isInteger(userId) ? userId : null),
+              select: importBatchSelect,
+            })
+          : null;
+
+        const createdEntries = await tx.cashEntry.createManyAndReturn({
+          data: rows.map((row) => ({ companyId, importBatchId: createdBatch?.id ?? null, ...row })),
+        });
+
+        if (statement) {
+          await saveStatement(tx, statement, createdBatch?.id ?? null);
+        }
+
+        return { batch: createdBatch, entries: createdEntries };
+      }, BULK_TRANSACTION_OPTIONS),
+    );
+
+    // A conciliação automática roda depois da importação gravada; se falhar,
+    // pode ser refeita pela tela de conciliação.
+    const dates = statement?.lines.map((line) => line.date.getTime()) ?? [];
+    if (dates.length > 0) {
+      try {
+        await prismaWithRetry((client) =>
+          client.$transaction(
+            (tx) =>
+              autoMatchStatementLines(tx, statement.bankAccountId, {
+                start: new Date(Math.min(...dates)),
+                end: new Date(Math.max(...dates) + 1),
+              }),
+            { timeout: AUTO_MATCH_TIMEOUT_MS },
+          ),
+        );
+      } catch (error) {
+        console.error("[POST /api/clients/:id/cash-entries/bulk] conciliação automática", error);
+      }
+    }
+
+    return NextResponse.json(
+      {
+        batch: batch ? formatImportBatch(batch) : null,
+        entries: entries.map(formatEntry),
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "Um ou mais lançamentos já foram importados anteriormente para esta conta." },
+        { status: 409 },
+      );
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2003") {
+      return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2028") {
+      return NextResponse.json(
+        { error: "A importação demorou demais e foi desfeita. Tente novamente com menos lançamentos." },
+        { status: 503 },
+      );
+    }
+
+    console.error("[POST /api/clients/:id/cash-entries/bulk]", error);
+    return NextResponse.json({ error: "Não foi possível importar os lançamentos." }, { status: 500 });
+  }
+}
+
+/**
+ * Atribui centro de custo e acrescenta ou remove marcadores dos lançamentos
+ * selecionados. Lançamentos de outras empresas são ignorados.
+ */
+export async function PATCH(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as BulkUpdatePayload;
+  const ids = Array.isArray(payload.ids) ? payload.ids.map(Number) : [];
+  const costCenterId =
+    payload.costCenterId === undefined
+      ? undefined
+      : payload.costCenterId === null || payload.costCenterId === ""
+        ? null
+        : Number(payload.costCenterId);
+  const addTags = payload.addTags === undefined ? [] : normalizeTags(payload.addTags);
+  const removeTags = payload.removeTags === undefined ? [] : normalizeTags(payload.removeTags);
+
+  const errors: string[] = [];
+  if (ids.length === 0 || ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    errors.push("Selecione ao menos um lançamento.");
+  } else if (ids.length > MAX_BULK_ENTRIES) {
+    errors.push(`Selecione no máximo ${MAX_BULK_ENTRIES} lançamentos.`);
+  }
+  if (typeof costCenterId === "number" && (!Number.isInteger(costCenterId) || costCenterId <= 0)) {
+    errors.push("Selecione um centro de custo válido.");
+  }
+  if (addTags === null || removeTags === null) {
+    errors.push("Marcadores inválidos.");
+  } else {
+    errors.push(...validateTags(addTags));
+    if (costCenterId === undefined && addTags.length === 0 && removeTags.length === 0) {
+      errors.push("Informe o centro de custo ou os marcadores a alterar.");
+    }
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  if (typeof costCenterId === "number") {
+    const validCostCenter = await prismaWithRetry((client) =>
+      costCentersBelongToCompany(client, companyId, [costCenterId]),
+    );
+    if (!validCostCenter) {
+      return NextResponse.json({ error: "Centro de custo não encontrado nesta empresa." }, { status: 400 });
+    }
+  }
+
+  try {
+    const updated = await prismaWithRetry((client) =>
+      client.$transaction(async (tx) => {
+        const entries = await tx.cashEntry.findMany({
+          where: { companyId, id: { in: ids } },
+          select: { id: true, tags: true },
+        });
+
+        const changedTags = entries
+          .map((entry) => ({ id: entry.id, current: entry.tags, tags: mergeTags(entry.tags, addTags, removeTags) }))
+          .filter(({ current, tags }) => tags.length !== current.length || tags.some((tag, index) => tag !== current[index]));
+        if (changedTags.some(({ tags }) => tags.length > MAX_TAGS)) {
+          return null;
+        }
+
+        if (costCenterId !== undefined) {
+          await tx.cashEntry.updateMany({
+            where: { companyId, id: { in: entries.map((entry) => entry.id) } },
+            data: { costCenterId },
+          });
+        }
+        // Lançamentos que terminam com os mesmos marcadores vão no mesmo update.
+        const byTags = new Map<string, { tags: string[]; ids: number[] }>();
+        changedTags.forEach(({ id, tags }) => {
+          const key = JSON.stringify(tags);
+          const group = byTags.get(key) ?? { tags, ids: [] };
+          group.ids.push(id);
+          byTags.set(key, group);
+        });
+        for (const { tags, ids: groupIds } of byTags.values()) {
+          await tx.cashEntry.updateMany({ where: { id: { in: groupIds } }, data: { tags } });
+        }
+
+        return entries.length;
+      }, BULK_TRANSACTION_OPTIONS),
+    );
+
+    if (updated === null) {
+      return NextResponse.json(
+        { error: `Um ou mais lançamentos ficariam com mais de ${MAX_TAGS} marcadores.` },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({ updated });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2028") {
+      return NextResponse.json(
+        { error: "A atualização demorou demais e foi desfeita. Tente novamente com menos lançamentos." },
+        { status: 503 },
+      );
+    }
+
+    console.error("[PATCH /api/clients/:id/cash-entries/bulk]", error);
+    return NextResponse.json({ error: "Não foi possível atualizar os lançamentos." }, { status: 500 });
+  }
+}
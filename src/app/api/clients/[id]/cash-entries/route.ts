@@ -1,30 +1,18 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { Prisma, MovementCategory, ActivityType } from "@prisma/client";
+import { Prisma } from "@prisma/client";
 import { prismaWithRetry } from "../../../../../lib/prisma-retry";
-import { normalizeCurrencyToNumber } from "../../../../../lib/currency";
-
-type CreateEntryPayload = {
-  date?: unknown;
-  counterpart?: unknown;
-  productService?: unknown;
-  movement?: unknown;
-  type?: unknown;
-  paymentMethod?: unknown;
-  amount?: unknown;
-  notes?: unknown;
-};
-
-const VALID_MOVEMENTS = new Set(["RECEITA", "COMPRA", "DESPESA", "RETIRADA"]);
-const VALID_TYPES = new Set(["COMERCIO", "INDUSTRIA", "SERVICO", "TRANSPORTE"]);
-const VALID_PAYMENTS = new Set([
-  "PIX",
-  "DINHEIRO",
-  "BOLETO",
-  "CARTAO_CREDITO",
-  "CARTAO_DEBITO",
-  "CHEQUE",
-  "OUTROS",
-]);
+import { authorizeCompany } from "../../../../../lib/authorization";
+import { bankAccountsBelongToCompany } from "../../../../../lib/bank-accounts";
+import {
+  formatEntry,
+  parseCashEntryPayload,
+  parseCashEntryQuery,
+  summarizeCashEntries,
+  type CashEntryPayload,
+} from "../../../../../lib/cash-entries";
+import { costCentersBelongToCompany } from "../../../../../lib/cost-centers";
+import { parseEntrySplits } from "../../../../../lib/entry-splits";
+import { categoriesBelongToCompany } from "../../../../../lib/ledger-categories";
 
 function parseId(raw: string) {
   const id = Number(raw);
@@ -34,125 +22,120 @@ function parseId(raw: string) {
   return id;
 }
 
-function normalizePayment(raw: string) {
-  return raw
-    .trim()
-    .toUpperCase()
-    .replace(/\s+/g, "_")
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "");
-}
-
-function formatEntry(entry: {
-  id: number;
-  companyId: number;
-  date: Date;
-  counterpart: string;
-  productService: string;
-  movement: string;
-  type: string;
-  paymentMethod: string;
-  amount: Prisma.Decimal;
-  notes: string | null;
-  createdAt: Date;
-  updatedAt: Date;
-}) {
-  return {
-    ...entry,
-    amount: Number(entry.amount),
-  };
-}
-
-export async function GET(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+/**
+ * Página do livro-caixa com os filtros de `parseCashEntryQuery`. `nextCursor`
+ * é o id a enviar em `cursor` para a próxima página; `totals` considera todo
+ * o conjunto filtrado.
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
   const params = await context.params;
   const companyId = parseId(params.id);
 
-  const entries = await prismaWithRetry((client) =>
-    client.cashEntry.findMany({
-      where: { companyId },
-      orderBy: { date: "desc" },
-    }),
-  );
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
 
-  return NextResponse.json(entries.map(formatEntry));
+  const { query, errors } = parseCashEntryQuery(request.nextUrl.searchParams, companyId);
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const [entries, totals] = await prismaWithRetry((client) =>
+      Promise.all([
+        client.cashEntry.findMany({
+          where: query.where,
+          orderBy: query.orderBy,
+          take: query.limit + 1,
+          ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+          include: { splits: { orderBy: { id: "asc" } } },
+        }),
+        summarizeCashEntries(client, query.where),
+      ]),
+    );
+
+    const page = entries.slice(0, query.limit);
+    return NextResponse.json({
+      entries: page.map(formatEntry),
+      nextCursor: entries.length > query.limit ? page[page.length - 1].id : null,
+      totals,
+    });
+  } catch (error) {
+    console.error("[GET /api/clients/:id/cash-entries]", error);
+    return NextResponse.json({ error: "Não foi possível carregar os lançamentos." }, { status: 500 });
+  }
 }
 
 export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
   const params = await context.params;
   const companyId = parseId(params.id);
-  const payload = (await request.json()) as CreateEntryPayload;
 
-  const errors: string[] = [];
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
 
-  const rawDate = typeof payload.date === "string" ? payload.date : "";
-  const rawAmount = payload.amount;
-  const counterpart = typeof payload.counterpart === "string" ? payload.counterpart.trim() : "";
-  const productService = typeof payload.productService === "string" ? payload.productService.trim() : "";
-  const movement = typeof payload.movement === "string" ? payload.movement.toUpperCase().trim() : "";
-  const type = typeof payload.type === "string" ? payload.type.toUpperCase().trim() : "";
-  const paymentMethod = typeof payload.paymentMethod === "string" ? normalizePayment(payload.paymentMethod) : "";
-  const notes = typeof payload.notes === "string" ? payload.notes.trim() : undefined;
+  const payload = (await request.json()) as CashEntryPayload;
+  const { data, errors } = parseCashEntryPayload(payload);
 
-  if (!rawDate) {
-    errors.push("Informe a data do lançamento.");
-  }
-  if (!counterpart) {
-    errors.push("Informe a empresa ou fornecedor.");
-  }
-  if (!productService) {
-    errors.push("Informe o produto ou serviço.");
-  }
-  if (!VALID_MOVEMENTS.has(movement)) {
-    errors.push("Selecione uma movimentação válida.");
-  }
-  if (!VALID_TYPES.has(type)) {
-    errors.push("Selecione um tipo válido.");
-  }
-  if (!VALID_PAYMENTS.has(paymentMethod)) {
-    errors.push("Selecione uma forma de pagamento válida.");
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
   }
 
-  const amountNumber = normalizeCurrencyToNumber(rawAmount);
-  if (!Number.isFinite(amountNumber) || amountNumber === 0) {
-    errors.push("Informe um valor válido diferente de zero.");
+  const { data: splits, errors: splitErrors } = parseEntrySplits(payload.splits, data.amount);
+  if (splitErrors) {
+    return NextResponse.json({ error: splitErrors.join(" ") }, { status: 400 });
   }
 
-  let parsedDate: Date | null = null;
-  if (rawDate) {
-    const testDate = new Date(rawDate);
-    if (Number.isNaN(testDate.getTime())) {
-      errors.push("Data inválida.");
-    } else {
-      parsedDate = testDate;
+  if (typeof data.bankAccountId === "number") {
+    const validAccount = await prismaWithRetry((client) =>
+      bankAccountsBelongToCompany(client, companyId, [data.bankAccountId as number]),
+    );
+    if (!validAccount) {
+      return NextResponse.json({ error: "Conta não encontrada nesta empresa." }, { status: 400 });
     }
   }
 
-  if (errors.length > 0) {
-    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  const categoryIds = [data.categoryId, ...(splits ?? []).map((split) => split.categoryId)].filter(
+    (categoryId): categoryId is number => typeof categoryId === "number",
+  );
+  if (categoryIds.length > 0) {
+    const validCategory = await prismaWithRetry((client) => categoriesBelongToCompany(client, companyId, categoryIds));
+    if (!validCategory) {
+      return NextResponse.json({ error: "Categoria não encontrada no plano de contas da empresa." }, { status: 400 });
+    }
   }
 
-  const movementValue = movement as MovementCategory;
-  const typeValue = type as ActivityType;
+  if (typeof data.costCenterId === "number") {
+    const validCostCenter = await prismaWithRetry((client) =>
+      costCentersBelongToCompany(client, companyId, [data.costCenterId as number]),
+    );
+    if (!validCostCenter) {
+      return NextResponse.json({ error: "Centro de custo não encontrado nesta empresa." }, { status: 400 });
+    }
+  }
 
   try {
     const entry = await prismaWithRetry((client) =>
       client.cashEntry.create({
         data: {
           companyId,
-          date: parsedDate!,
-          counterpart,
-          productService,
-          movement: movementValue,
-          type: typeValue,
-          paymentMethod,
-          amount: new Prisma.Decimal(amountNumber),
-          notes,
+          ...data,
+          ...(splits && splits.length > 0 ? { splits: { create: splits } } : {}),
         },
+        include: { splits: { orderBy: { id: "asc" } } },
       }),
     );
 
     return NextResponse.json(formatEntry(entry), { status: 201 });
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "Já existe um lançamento com este identificador para esta conta." },
+        { status: 409 },
+      );
+    }
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2003") {
       return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
     }
@@ -0,0 +1,89 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeAdmin } from "../../../../../../lib/authorization";
+import { categoriesBelongToCompany } from "../../../../../../lib/ledger-categories";
+import { parseRulePayload, toCategorizationRule } from "../../../../../../lib/statement-import/categorization";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string; ruleId: string }> }) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem alterar regras de categorização.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const ruleId = parseId(params.ruleId);
+  const payload = (await request.json()) as Record<string, unknown>;
+  const { rule, errors } = parseRulePayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  if (rule.setCategoryId !== null) {
+    const validCategory = await prismaWithRetry((client) =>
+      categoriesBelongToCompany(client, companyId, [rule.setCategoryId as number]),
+    );
+    if (!validCategory) {
+      return NextResponse.json({ error: "Categoria não encontrada no plano de contas da empresa." }, { status: 400 });
+    }
+  }
+
+  try {
+    const updated = await prismaWithRetry((client) =>
+      client.$transaction(async (tx) => {
+        const existing = await tx.categorizationRule.findFirst({
+          where: { id: ruleId, companyId },
+          select: { id: true },
+        });
+        if (!existing) {
+          return null;
+        }
+        return tx.categorizationRule.update({ where: { id: ruleId }, data: rule });
+      }),
+    );
+
+    if (!updated) {
+      return NextResponse.json({ error: "Regra não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json(toCategorizationRule(updated));
+  } catch (error) {
+    console.error("[PUT /api/clients/:id/categorization-rules/:ruleId]", error);
+    return NextResponse.json({ error: "Não foi possível atualizar a regra." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string; ruleId: string }> }) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem excluir regras de categorização.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const ruleId = parseId(params.ruleId);
+
+  try {
+    const { count } = await prismaWithRetry((client) =>
+      client.categorizationRule.deleteMany({ where: { id: ruleId, companyId } }),
+    );
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Regra não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[DELETE /api/clients/:id/categorization-rules/:ruleId]", error);
+    return NextResponse.json({ error: "Não foi possível excluir a regra." }, { status: 500 });
+  }
+}
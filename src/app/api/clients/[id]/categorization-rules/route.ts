@@ -0,0 +1,73 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../lib/prisma-retry";
+import { authorizeAdmin, authorizeCompany } from "../../../../../lib/authorization";
+import { categoriesBelongToCompany } from "../../../../../lib/ledger-categories";
+import {
+  loadCategorizationRules,
+  parseRulePayload,
+  toCategorizationRule,
+} from "../../../../../lib/statement-import/categorization";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const rules = await prismaWithRetry((client) => loadCategorizationRules(client, companyId));
+  return NextResponse.json(rules);
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem cadastrar regras de categorização.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const payload = (await request.json()) as Record<string, unknown>;
+  const { rule, errors } = parseRulePayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const company = await prismaWithRetry((client) =>
+      client.company.findUnique({ where: { id: companyId }, select: { id: true } }),
+    );
+    if (!company) {
+      return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+    }
+
+    if (rule.setCategoryId !== null) {
+      const validCategory = await prismaWithRetry((client) =>
+        categoriesBelongToCompany(client, companyId, [rule.setCategoryId as number]),
+      );
+      if (!validCategory) {
+        return NextResponse.json({ error: "Categoria não encontrada no plano de contas da empresa." }, { status: 400 });
+      }
+    }
+
+    const created = await prismaWithRetry((client) =>
+      client.categorizationRule.create({ data: { ...rule, companyId } }),
+    );
+
+    return NextResponse.json(toCategorizationRule(created), { status: 201 });
+  } catch (error) {
+    console.error("[POST /api/clients/:id/categorization-rules]", error);
+    return NextResponse.json({ error: "Não foi possível salvar a regra." }, { status: 500 });
+  }
+}
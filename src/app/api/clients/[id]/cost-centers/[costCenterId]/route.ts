@@ -0,0 +1,98 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../lib/authorization";
+import { parseCostCenterPayload, type CostCenterPayload } from "../../../../../../lib/cost-centers";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string; costCenterId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const costCenterId = parseId(params.costCenterId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as CostCenterPayload;
+  const { data, errors } = parseCostCenterPayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const costCenter = await prismaWithRetry((client) =>
+      client.costCenter.update({
+        where: {
+          id: costCenterId,
+          companyId,
+        },
+        data,
+      }),
+    );
+
+    return NextResponse.json(costCenter);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      return NextResponse.json({ error: "Centro de custo não encontrado." }, { status: 404 });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: "Já existe um centro de custo com este nome." }, { status: 409 });
+    }
+
+    console.error("[PUT /api/clients/:id/cost-centers/:costCenterId]", error);
+    return NextResponse.json({ error: "Não foi possível atualizar o centro de custo." }, { status: 500 });
+  }
+}
+
+/**
+ * Centros de custo com lançamentos não são excluídos, para não perder a
+ * apuração por unidade; nesse caso devem ser desativados.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; costCenterId: string }> },
+) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const costCenterId = parseId(params.costCenterId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const entries = await prismaWithRetry((client) =>
+      client.cashEntry.count({ where: { companyId, costCenterId } }),
+    );
+    if (entries > 0) {
+      return NextResponse.json(
+        { error: `O centro de custo possui ${entries} lançamento(s). Desative-o em vez de excluir.` },
+        { status: 409 },
+      );
+    }
+
+    const { count } = await prismaWithRetry((client) =>
+      client.costCenter.deleteMany({ where: { id: costCenterId, companyId } }),
+    );
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Centro de custo não encontrado." }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[DELETE /api/clients/:id/cost-centers/:costCenterId]", error);
+    return NextResponse.json({ error: "Não foi possível excluir o centro de custo." }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../lib/authorization";
+import { parseCostCenterPayload, type CostCenterPayload } from "../../../../../lib/cost-centers";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const costCenters = await prismaWithRetry((client) =>
+    client.costCenter.findMany({
+      where: { companyId },
+      orderBy: [{ active: "desc" }, { name: "asc" }],
+    }),
+  );
+
+  return NextResponse.json(costCenters);
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as CostCenterPayload;
+  const { data, errors } = parseCostCenterPayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const costCenter = await prismaWithRetry((client) =>
+      client.costCenter.create({
+        data: {
+          companyId,
+          ...data,
+        },
+      }),
+    );
+
+    return NextResponse.json(costCenter, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: "Já existe um centro de custo com este nome." }, { status: 409 });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2003") {
+      return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+    }
+
+    console.error("[POST /api/clients/:id/cost-centers]", error);
+    return NextResponse.json({ error: "Não foi possível cadastrar o centro de custo." }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../lib/authorization";
+import { BULK_TRANSACTION_OPTIONS } from "../../../../../../lib/import-batches";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Desfaz a importação: remove exatamente os lançamentos criados pelo lote
+ * e o próprio lote, numa única transação.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; batchId: string }> },
+) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const batchId = parseId(params.batchId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const removed = await prismaWithRetry((client) =>
+      client.$transaction(async (tx) => {
+        const batch = await tx.importBatch.findFirst({
+          where: { id: batchId, companyId },
+          select: { id: true },
+        });
+        if (!batch) {
+          return null;
+        }
+
+        const { count } = await tx.cashEntry.deleteMany({
+          where: { importBatchId: batchId, companyId },
+        });
+        await tx.importBatch.delete({ where: { id: batchId } });
+        return count;
+      }, BULK_TRANSACTION_OPTIONS),
+    );
+
+    if (removed === null) {
+      return NextResponse.json({ error: "Importação não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, removedEntries: removed });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2028") {
+      return NextResponse.json(
+        { error: "Desfazer a importação demorou demais e nada foi removido. Tente novamente." },
+        { status: 503 },
+      );
+    }
+
+    console.error("[DELETE /api/clients/:id/import-batches/:batchId]", error);
+    return NextResponse.json({ error: "Não foi possível desfazer a importação." }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../lib/authorization";
+import { formatImportBatch, importBatchSelect } from "../../../../../lib/import-batches";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const batches = await prismaWithRetry((client) =>
+    client.importBatch.findMany({
+      where: { companyId },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+      select: importBatchSelect,
+    }),
+  );
+
+  return NextResponse.json(batches.map(formatImportBatch));
+}
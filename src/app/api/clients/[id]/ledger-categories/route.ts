@@ -0,0 +1,85 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../lib/prisma-retry";
+import { authorizeAdmin, authorizeCompany } from "../../../../../lib/authorization";
+import {
+  createLedgerCategory,
+  ensureCompanyChart,
+  loadLedgerCategories,
+  parseLedgerCategoryPayload,
+  type LedgerCategoryPayload,
+} from "../../../../../lib/ledger-categories";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Plano de contas da empresa. Na primeira consulta a empresa recebe uma
+ * cópia do modelo padrão.
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const company = await prismaWithRetry((client) =>
+      client.company.findUnique({ where: { id: companyId }, select: { id: true } }),
+    );
+    if (!company) {
+      return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+    }
+
+    await prismaWithRetry((client) => ensureCompanyChart(client, companyId));
+    const categories = await prismaWithRetry((client) => loadLedgerCategories(client, companyId));
+
+    return NextResponse.json(categories);
+  } catch (error) {
+    console.error("[GET /api/clients/:id/ledger-categories]", error);
+    return NextResponse.json({ error: "Não foi possível carregar o plano de contas." }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem alterar o plano de contas.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const payload = (await request.json()) as LedgerCategoryPayload;
+  const { data, errors } = parseLedgerCategoryPayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const company = await prismaWithRetry((client) =>
+      client.company.findUnique({ where: { id: companyId }, select: { id: true } }),
+    );
+    if (!company) {
+      return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+    }
+
+    await prismaWithRetry((client) => ensureCompanyChart(client, companyId));
+    const result = await prismaWithRetry((client) => createLedgerCategory(client, companyId, data));
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.category, { status: 201 });
+  } catch (error) {
+    console.error("[POST /api/clients/:id/ledger-categories]", error);
+    return NextResponse.json({ error: "Não foi possível cadastrar a categoria." }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../lib/authorization";
+import { parseOpeningBalancePayload, type OpeningBalancePayload } from "../../../../../lib/balances";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+const openingBalanceSelect = {
+  openingBalance: true,
+  openingDate: true,
+} satisfies Prisma.CompanySelect;
+
+function formatOpeningBalance(company: { openingBalance: Prisma.Decimal; openingDate: Date | null }) {
+  return {
+    openingBalance: Number(company.openingBalance),
+    openingDate: company.openingDate,
+  };
+}
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const company = await prismaWithRetry((client) =>
+    client.company.findUnique({ where: { id: companyId }, select: openingBalanceSelect }),
+  );
+
+  if (!company) {
+    return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+  }
+
+  return NextResponse.json(formatOpeningBalance(company));
+}
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as OpeningBalancePayload;
+  const { data, errors } = parseOpeningBalancePayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const company = await prismaWithRetry((client) =>
+      client.company.update({ where: { id: companyId }, data, select: openingBalanceSelect }),
+    );
+
+    return NextResponse.json(formatOpeningBalance(company));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+    }
+
+    console.error("[PUT /api/clients/:id/opening-balance]", error);
+    return NextResponse.json({ error: "Não foi possível salvar o saldo inicial." }, { status: 500 });
+  }
+}
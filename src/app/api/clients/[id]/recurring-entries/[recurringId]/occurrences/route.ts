@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../../lib/authorization";
+import {
+  parseOccurrencePayload,
+  updateOccurrence,
+  type OccurrencePayload,
+} from "../../../../../../../lib/recurring-entries";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Pula ou ajusta (data, valor, observação) uma única ocorrência, identificada
+ * pelo vencimento, antes de ela ser gerada.
+ */
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string; recurringId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const recurringId = parseId(params.recurringId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as OccurrencePayload;
+  const { data, errors } = parseOccurrencePayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const result = await prismaWithRetry((client) => updateOccurrence(client, companyId, recurringId, data));
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.status ?? 400 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[PUT /api/clients/:id/recurring-entries/:recurringId/occurrences]", error);
+    return NextResponse.json({ error: "Não foi possível ajustar a ocorrência." }, { status: 500 });
+  }
+}
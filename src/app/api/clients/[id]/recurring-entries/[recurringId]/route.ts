@@ -0,0 +1,99 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../lib/authorization";
+import {
+  formatRecurringEntry,
+  parseRecurringEntryPayload,
+  validateRecurringReferences,
+  type RecurringEntryPayload,
+} from "../../../../../../lib/recurring-entries";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Alterações valem para as ocorrências ainda não geradas; lançamentos já
+ * gerados continuam como estão no livro-caixa.
+ */
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string; recurringId: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const recurringId = parseId(params.recurringId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as RecurringEntryPayload;
+  const { data, errors } = parseRecurringEntryPayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  const referenceError = await prismaWithRetry((client) => validateRecurringReferences(client, companyId, data));
+  if (referenceError) {
+    return NextResponse.json({ error: referenceError }, { status: 400 });
+  }
+
+  try {
+    const entry = await prismaWithRetry((client) =>
+      client.recurringEntry.update({
+        where: {
+          id: recurringId,
+          companyId,
+        },
+        data,
+      }),
+    );
+
+    return NextResponse.json(formatRecurringEntry(entry));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      return NextResponse.json({ error: "Lançamento recorrente não encontrado." }, { status: 404 });
+    }
+
+    console.error("[PUT /api/clients/:id/recurring-entries/:recurringId]", error);
+    return NextResponse.json({ error: "Não foi possível atualizar o lançamento recorrente." }, { status: 500 });
+  }
+}
+
+/**
+ * Exclui o modelo e os ajustes das ocorrências; os lançamentos já gerados
+ * permanecem no livro-caixa.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; recurringId: string }> },
+) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+  const recurringId = parseId(params.recurringId);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const { count } = await prismaWithRetry((client) =>
+      client.recurringEntry.deleteMany({ where: { id: recurringId, companyId } }),
+    );
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Lançamento recorrente não encontrado." }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[DELETE /api/clients/:id/recurring-entries/:recurringId]", error);
+    return NextResponse.json({ error: "Não foi possível excluir o lançamento recorrente." }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../lib/authorization";
+import { generateRecurringEntries, startOfUtcDay } from "../../../../../../lib/recurring-entries";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Gera na hora os lançamentos recorrentes vencidos da empresa, sem esperar a
+ * rotina agendada.
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const result = await prismaWithRetry((client) =>
+      generateRecurringEntries(client, startOfUtcDay(new Date()), companyId),
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[POST /api/clients/:id/recurring-entries/generate]", error);
+    return NextResponse.json({ error: "Não foi possível gerar os lançamentos recorrentes." }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../../lib/authorization";
+import { UPCOMING_MONTHS, listUpcomingOccurrences } from "../../../../../../lib/recurring-entries";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+/**
+ * Ocorrências dos lançamentos recorrentes do início do mês atual até
+ * `UPCOMING_MONTHS` meses à frente, geradas ou não.
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const now = new Date();
+  const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + UPCOMING_MONTHS + 1, 0));
+
+  try {
+    const occurrences = await prismaWithRetry((client) => listUpcomingOccurrences(client, companyId, from, to));
+    return NextResponse.json(occurrences);
+  } catch (error) {
+    console.error("[GET /api/clients/:id/recurring-entries/occurrences]", error);
+    return NextResponse.json({ error: "Não foi possível carregar as próximas ocorrências." }, { status: 500 });
+  }
+}
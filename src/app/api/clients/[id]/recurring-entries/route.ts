@@ -0,0 +1,79 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../../lib/prisma-retry";
+import { authorizeCompany } from "../../../../../lib/authorization";
+import {
+  formatRecurringEntry,
+  parseRecurringEntryPayload,
+  validateRecurringReferences,
+  type RecurringEntryPayload,
+} from "../../../../../lib/recurring-entries";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const entries = await prismaWithRetry((client) =>
+    client.recurringEntry.findMany({
+      where: { companyId },
+      orderBy: [{ active: "desc" }, { dayOfMonth: "asc" }, { counterpart: "asc" }],
+    }),
+  );
+
+  return NextResponse.json(entries.map(formatRecurringEntry));
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const params = await context.params;
+  const companyId = parseId(params.id);
+
+  const auth = await authorizeCompany(request, companyId);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as RecurringEntryPayload;
+  const { data, errors } = parseRecurringEntryPayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  const referenceError = await prismaWithRetry((client) => validateRecurringReferences(client, companyId, data));
+  if (referenceError) {
+    return NextResponse.json({ error: referenceError }, { status: 400 });
+  }
+
+  try {
+    const entry = await prismaWithRetry((client) =>
+      client.recurringEntry.create({
+        data: {
+          companyId,
+          ...data,
+        },
+      }),
+    );
+
+    return NextResponse.json(formatRecurringEntry(entry), { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2003") {
+      return NextResponse.json({ error: "Empresa não encontrada." }, { status: 404 });
+    }
+
+    console.error("[POST /api/clients/:id/recurring-entries]", error);
+    return NextResponse.json({ error: "Não foi possível cadastrar o lançamento recorrente." }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { Prisma } from "@prisma/client";
 import { prismaWithRetry } from "../../../lib/prisma-retry";
-import { decodeSessionToken, SESSION_COOKIE_NAME } from "../../../lib/session";
+import { authorizeAdmin, authorizeSession } from "../../../lib/authorization";
 
 type CreateClientPayload = {
   name?: unknown;
@@ -24,9 +24,20 @@ function formatCnpj(raw: string) {
   );
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const auth = await authorizeSession(request);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { session } = auth;
+  if (!session.admin && session.companyId == null) {
+    return NextResponse.json([]);
+  }
+
   const clients = await prismaWithRetry((client) =>
     client.company.findMany({
+      where: session.admin ? undefined : { id: session.companyId! },
       orderBy: { name: "asc" },
       select: {
         id: true,
@@ -47,15 +58,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
-  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value ?? "";
-  const session = token ? decodeSessionToken(token) : null;
-
-  if (!session) {
-    return NextResponse.json({ error: "Não autorizado." }, { status: 401 });
-  }
-
-  if (!session.admin) {
-    return NextResponse.json({ error: "Apenas administradores podem criar empresas." }, { status: 403 });
+  const auth = await authorizeAdmin(request, "Apenas administradores podem criar empresas.");
+  if (auth.response) {
+    return auth.response;
   }
 
   const payload = (await request.json()) as CreateClientPayload;
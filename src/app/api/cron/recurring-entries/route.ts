@@ -0,0 +1,34 @@
+import { timingSafeEqual } from "crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../lib/prisma-retry";
+import { generateRecurringEntries, startOfUtcDay } from "../../../../lib/recurring-entries";
+
+function isAuthorized(request: NextRequest, secret: string) {
+  const received = Buffer.from(request.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Rotina diária (ver `vercel.json`) que gera os lançamentos recorrentes
+ * vencidos de todas as empresas. Chamada sem sessão; exige o cabeçalho
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("[GET /api/cron/recurring-entries] CRON_SECRET não configurado nas variáveis de ambiente.");
+    return NextResponse.json({ error: "Rotina não configurada." }, { status: 500 });
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: "Não autorizado." }, { status: 401 });
+  }
+
+  try {
+    const result = await prismaWithRetry((client) => generateRecurringEntries(client, startOfUtcDay(new Date())));
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[GET /api/cron/recurring-entries]", error);
+    return NextResponse.json({ error: "Não foi possível gerar os lançamentos recorrentes." }, { status: 500 });
+  }
+}
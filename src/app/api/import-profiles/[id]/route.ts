@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../lib/prisma-retry";
+import { authorizeAdmin } from "../../../../lib/authorization";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem excluir perfis de importação.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = await context.params;
+  const profileId = parseId(params.id);
+
+  try {
+    await prismaWithRetry((client) => client.importProfile.delete({ where: { id: profileId } }));
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      return NextResponse.json({ error: "Perfil não encontrado." }, { status: 404 });
+    }
+
+    console.error("[DELETE /api/import-profiles/:id]", error);
+    return NextResponse.json({ error: "Não foi possível excluir o perfil." }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../lib/prisma-retry";
+import { authorizeAdmin, authorizeSession } from "../../../lib/authorization";
+import { loadImportProfiles, parseProfilePayload, toCsvImportProfile } from "../../../lib/statement-import/profiles";
+
+export async function GET(request: NextRequest) {
+  const auth = await authorizeSession(request);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const profiles = await prismaWithRetry((client) => loadImportProfiles(client));
+  return NextResponse.json(profiles);
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem cadastrar perfis de importação.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as Record<string, unknown>;
+  const { profile, errors } = parseProfilePayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const created = await prismaWithRetry((client) =>
+      client.importProfile.create({
+        data: {
+          name: profile.name,
+          bank: profile.bank,
+          delimiter: profile.delimiter,
+          encoding: profile.encoding,
+          dateFormat: profile.dateFormat,
+          headerRow: profile.headerRow,
+          signConvention: profile.signConvention,
+          debitIndicators: profile.debitIndicators ?? [],
+          columns: profile.columns,
+        },
+      }),
+    );
+
+    return NextResponse.json(toCsvImportProfile(created), { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: "Já existe um perfil com este nome." }, { status: 409 });
+    }
+
+    console.error("[POST /api/import-profiles]", error);
+    return NextResponse.json({ error: "Não foi possível salvar o perfil." }, { status: 500 });
+  }
+}
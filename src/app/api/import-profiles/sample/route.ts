@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { authorizeAdmin } from "../../../../lib/authorization";
+import { sampleCsv } from "../../../../lib/statement-import/csv";
+import { CSV_DELIMITERS, CSV_ENCODINGS, type CsvDelimiter, type CsvEncoding } from "../../../../lib/statement-import/profiles";
+
+/**
+ * Lê um arquivo de exemplo e devolve o cabeçalho e as primeiras linhas
+ * para o administrador mapear as colunas de um novo perfil.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem cadastrar perfis de importação.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Campo 'file' e obrigatorio." }, { status: 400 });
+  }
+
+  const rawDelimiter = formData.get("delimiter");
+  const delimiter = (rawDelimiter === "\\t" ? "\t" : rawDelimiter) as CsvDelimiter;
+  const encoding = formData.get("encoding") as CsvEncoding;
+  const headerRow = Number(formData.get("headerRow") ?? 0);
+
+  if (!CSV_DELIMITERS.includes(delimiter) || !CSV_ENCODINGS.includes(encoding)) {
+    return NextResponse.json({ error: "Separador ou codificação inválidos." }, { status: 400 });
+  }
+
+  if (!Number.isInteger(headerRow) || headerRow < 0) {
+    return NextResponse.json({ error: "Linha do cabeçalho inválida." }, { status: 400 });
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  return NextResponse.json(sampleCsv(buffer, { delimiter, encoding, headerRow }));
+}
@@ -1,273 +1,36 @@
 ﻿import { NextRequest, NextResponse } from "next/server";
-import { MovementCategory } from "@prisma/client";
-import { decodeSessionToken, SESSION_COOKIE_NAME } from "../../../lib/session";
-
-type PaymentMethod =
-  | "PIX"
-  | "DINHEIRO"
-  | "BOLETO"
-  | "CARTAO_CREDITO"
-  | "CARTAO_DEBITO"
-  | "CHEQUE"
-  | "OUTROS";
-
-type ParsedTransaction = {
-  date: string;
-  amount: number;
-  description: string;
-  reference: string;
-  counterpart: string;
-  productService: string;
-  paymentMethod: PaymentMethod;
-  movement: MovementCategory;
-  raw: Record<string, unknown>;
-};
-
-type ParsedExtract = {
-  filename: string;
-  format: "csv" | "ofx";
-  currency?: string;
-  account?: {
-    bankId?: string;
-    branchId?: string;
-    accountId?: string;
-    type?: string;
-  };
-  transactions: ParsedTransaction[];
-};
+import { authorizeCompany, authorizeSession } from "../../../lib/authorization";
+import { prismaWithRetry } from "../../../lib/prisma-retry";
+import { matchBankAccount } from "../../../lib/bank-accounts";
+import { buildSourceAccountKey, findDuplicateTransactions } from "../../../lib/import-duplicates";
+import { applyCategorizationRules, loadCategorizationRules } from "../../../lib/statement-import/categorization";
+import { isCnabReturn, parseCnab } from "../../../lib/statement-import/cnab";
+import {
+  createCsvSource,
+  createRecordsSource,
+  detectTableProfile,
+  parseTable,
+  type TableSource,
+} from "../../../lib/statement-import/csv";
+import { loadClassificationHistory, suggestFromHistory } from "../../../lib/statement-import/history";
+import { classifyTransactionKinds } from "../../../lib/statement-import/kinds";
+import { parseOfx } from "../../../lib/statement-import/ofx";
+import { parsePdf } from "../../../lib/statement-import/pdf";
+import { loadImportProfiles } from "../../../lib/statement-import/profiles";
+import { readSpreadsheet, SPREADSHEET_EXTENSIONS, type SpreadsheetSheet } from "../../../lib/statement-import/spreadsheet";
+import type { ParsedExtract, ParsedStatement } from "../../../lib/statement-import/types";
 
 const CSV_EXTENSIONS = new Set([".csv"]);
 const OFX_EXTENSIONS = new Set([".ofx"]);
+const PDF_EXTENSIONS = new Set([".pdf"]);
+const CNAB_EXTENSIONS = new Set([".ret", ".cnab"]);
 
 function normalizeExtension(name: string) {
   const idx = name.lastIndexOf(".");
   return idx === -1 ? "" : name.slice(idx).toLowerCase();
 }
 
-function decodeLatin1(buffer: Buffer) {
-  return new TextDecoder("latin1").decode(buffer);
-}
-
-function decodeUtf8(buffer: Buffer) {
-  return new TextDecoder("utf-8").decode(buffer);
-}
-
-function normalizeWhitespaces(value: string) {
-  return value.replace(/\s+/g, " ").trim();
-}
-
-function stripObfuscation(value: string) {
-  return value.replace(/[•*]/g, "").trim();
-}
-
-function normalizeAmount(value: string) {
-  const trimmed = value.replace(/\s/g, "");
-  const hasComma = trimmed.includes(",");
-  const hasDot = trimmed.includes(".");
-  let sanitized = trimmed;
-
-  if (hasComma && hasDot) {
-    if (trimmed.lastIndexOf(",") > trimmed.lastIndexOf(".")) {
-      sanitized = trimmed.replace(/\./g, "").replace(",", ".");
-    } else {
-      sanitized = trimmed.replace(/,/g, "");
-    }
-  } else if (hasComma) {
-    sanitized = trimmed.replace(/\./g, "").replace(",", ".");
-  } else {
-    sanitized = trimmed.replace(/,/g, "");
-  }
-
-  return Number(sanitized);
-}
-
-function normalizeText(value: string) {
-  return value
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .toLowerCase();
-}
-
-function extractCounterpart(description: string) {
-  const cleaned = stripObfuscation(normalizeWhitespaces(description));
-  const parts = cleaned.split(" - ").map((part) => part.trim()).filter(Boolean);
-  const candidate = parts.find((part, index) => index > 0 && /[a-zA-ZÀ-ÿ]/.test(part) && !/\d{3}\.\d{3}/.test(part));
-  if (candidate) {
-    return stripObfuscation(candidate).replace(/[^\p{L}\s'.-]/gu, "").trim();
-  }
-  if (parts.length > 1) {
-    return stripObfuscation(parts[1]).replace(/[^\p{L}\s'.-]/gu, "").trim();
-  }
-  return cleaned.slice(0, 80) || "Nao identificado";
-}
-
-function inferPaymentMethod(description: string): PaymentMethod {
-  const normalized = normalizeText(description);
-  if (normalized.includes("pix")) {
-    return "PIX";
-  }
-  if (normalized.includes("boleto")) {
-    return "BOLETO";
-  }
-  if (normalized.includes("credito")) {
-    return "CARTAO_CREDITO";
-  }
-  if (normalized.includes("debito")) {
-    return "CARTAO_DEBITO";
-  }
-  if (normalized.includes("cheque")) {
-    return "CHEQUE";
-  }
-  if (normalized.includes("dinheiro") || normalized.includes("saque")) {
-    return "DINHEIRO";
-  }
-  return "OUTROS";
-}
-
-function parseCsv(buffer: Buffer, filename: string): ParsedExtract {
-  const text = decodeLatin1(buffer);
-  const lines = text
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
-
-  if (lines.length < 2) {
-    throw new Error("Arquivo CSV sem conteudo suficiente.");
-  }
-
-  const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
-  const dateIdx = header.indexOf("data");
-  const valueIdx = header.indexOf("valor");
-  const idIdx = header.indexOf("identificador");
-  const descriptionIdx = header.findIndex((h) => h.startsWith("descri"));
-
-  if (dateIdx === -1 || valueIdx === -1 || idIdx === -1 || descriptionIdx === -1) {
-    throw new Error("Cabecalho do CSV invalido ou fora do padrao esperado.");
-  }
-
-  const transactions: ParsedTransaction[] = lines.slice(1).map((line, index) => {
-    const columns = line.split(",").map((c) => c.trim());
-    const rawDate = columns[dateIdx];
-    const [day, month, year] = rawDate.split("/");
-    const isoDate = `${year}-${month}-${day}`;
-    const amount = normalizeAmount(columns[valueIdx]);
-    const description = normalizeWhitespaces(columns[descriptionIdx]);
-    const counterpart = extractCounterpart(description);
-    const paymentMethod = inferPaymentMethod(description);
-    const productService = "Nao identificado (NI)";
-    const reference = columns[idIdx];
-
-    return {
-      date: isoDate,
-      amount,
-      description,
-      reference,
-      counterpart,
-      productService,
-      paymentMethod,
-      movement: amount >= 0 ? "RECEITA" : "DESPESA",
-      raw: {
-        originalLineNumber: index + 2,
-        date: rawDate,
-        amountRaw: columns[valueIdx],
-        description,
-        reference,
-      },
-    };
-  });
-
-  return {
-    filename,
-    format: "csv",
-    currency: "BRL",
-    transactions,
-  };
-}
-
-function extractTag(text: string, tag: string) {
-  const regex = new RegExp(`<${tag}>([^<]+)`, "i");
-  const match = text.match(regex);
-  return match ? match[1].trim() : undefined;
-}
-
-function parseOfx(buffer: Buffer, filename: string): ParsedExtract {
-  const text = decodeUtf8(buffer);
-  const accountSectionMatch = text.match(/<BANKACCTFROM>([\s\S]*?)<\/BANKACCTFROM>/i);
-  const transactionsSectionMatch = text.match(/<BANKTRANLIST>([\s\S]*?)<\/BANKTRANLIST>/i);
-
-  if (!transactionsSectionMatch) {
-    throw new Error("Arquivo OFX invalido: transacoes nao encontradas.");
-  }
-
-  const account = accountSectionMatch
-    ? {
-        bankId: extractTag(accountSectionMatch[1], "BANKID"),
-        branchId: extractTag(accountSectionMatch[1], "BRANCHID"),
-        accountId: extractTag(accountSectionMatch[1], "ACCTID"),
-        type: extractTag(accountSectionMatch[1], "ACCTTYPE"),
-      }
-    : undefined;
-
-  const currency = extractTag(text, "CURDEF") ?? "BRL";
-
-  const transactions: ParsedTransaction[] = [];
-  const stmtRegex = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
-  let match: RegExpExecArray | null;
-
-  while ((match = stmtRegex.exec(transactionsSectionMatch[1])) !== null) {
-    const block = match[1];
-    const posted = extractTag(block, "DTPOSTED") ?? "";
-    const amountRaw = extractTag(block, "TRNAMT") ?? "0";
-    const memo = extractTag(block, "MEMO") ?? "";
-    const fitid = extractTag(block, "FITID") ?? "";
-
-    const dateIso = (() => {
-      const digits = posted.replace(/\D/g, "");
-      if (digits.length >= 8) {
-        return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
-      }
-      return "";
-    })();
-
-    const amount = normalizeAmount(amountRaw);
-    const description = normalizeWhitespaces(memo);
-    const counterpart = extractCounterpart(description);
-    const paymentMethod = inferPaymentMethod(description);
-    const productService = "Nao identificado (NI)";
-
-    transactions.push({
-      date: dateIso,
-      amount,
-      description,
-      reference: fitid,
-      counterpart,
-      productService,
-      paymentMethod,
-      movement: amount >= 0 ? "RECEITA" : "DESPESA",
-      raw: {
-        posted,
-        amountRaw,
-        memo: description,
-        fitid,
-        type: extractTag(block, "TRNTYPE"),
-      },
-    });
-  }
-
-  if (transactions.length === 0) {
-    throw new Error("Nenhuma transacao encontrada no arquivo OFX.");
-  }
-
-  return {
-    filename,
-    format: "ofx",
-    currency,
-    account,
-    transactions,
-  };
-}
-
-function detectFormat(file: File, buffer: Buffer): "csv" | "ofx" | "pdf" | null {
+function detectFormat(file: File, buffer: Buffer): ParsedExtract["format"] | null {
   const name = file.name ?? "upload";
   const extension = normalizeExtension(name);
 
@@ -275,10 +38,19 @@ function detectFormat(file: File, buffer: Buffer): "csv" | "ofx" | "pdf" | null
     return "csv";
   }
 
+  if (SPREADSHEET_EXTENSIONS[extension]) {
+    return SPREADSHEET_EXTENSIONS[extension];
+  }
+
   if (OFX_EXTENSIONS.has(extension)) {
     return "ofx";
   }
 
+  // Retornos CNAB chegam também como .txt ou sem extensão.
+  if (CNAB_EXTENSIONS.has(extension) || isCnabReturn(buffer)) {
+    return "cnab";
+  }
+
   const contentType = file.type.toLowerCase();
   if (contentType.includes("csv")) {
     return "csv";
@@ -286,15 +58,27 @@ function detectFormat(file: File, buffer: Buffer): "csv" | "ofx" | "pdf" | null
   if (contentType.includes("ofx")) {
     return "ofx";
   }
-  if (contentType.includes("pdf") || extension === ".pdf") {
+  if (contentType.includes("opendocument.spreadsheet")) {
+    return "ods";
+  }
+  if (contentType.includes("spreadsheetml")) {
+    return "xlsx";
+  }
+  if (contentType.includes("ms-excel")) {
+    return "xls";
+  }
+  if (contentType.includes("pdf") || PDF_EXTENSIONS.has(extension)) {
     return "pdf";
   }
 
   const snippet = buffer.slice(0, 32).toString("utf-8");
+  if (snippet.startsWith("%PDF-")) {
+    return "pdf";
+  }
   if (snippet.trimStart().toUpperCase().startsWith("OFXHEADER")) {
     return "ofx";
   }
-  if (snippet.includes(",") && snippet.toLowerCase().includes("data")) {
+  if ((snippet.includes(",") || snippet.includes(";")) && snippet.toLowerCase().includes("data")) {
     return "csv";
   }
 
@@ -302,14 +86,25 @@ function detectFormat(file: File, buffer: Buffer): "csv" | "ofx" | "pdf" | null
 }
 
 export async function POST(request: NextRequest) {
-  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value ?? "";
-  const session = token ? decodeSessionToken(token) : null;
-  if (!session) {
-    return NextResponse.json({ error: "Nao autorizado." }, { status: 401 });
+  const auth = await authorizeSession(request);
+  if (auth.response) {
+    return auth.response;
   }
 
   const formData = await request.formData();
   const file = formData.get("file");
+  const rawCompanyId = formData.get("companyId");
+  const companyId = typeof rawCompanyId === "string" && rawCompanyId ? Number(rawCompanyId) : null;
+
+  if (companyId !== null) {
+    if (!Number.isInteger(companyId) || companyId <= 0) {
+      return NextResponse.json({ error: "Empresa invalida." }, { status: 400 });
+    }
+    const companyAuth = await authorizeCompany(request, companyId);
+    if (companyAuth.response) {
+      return companyAuth.response;
+    }
+  }
 
   if (!(file instanceof File)) {
     return NextResponse.json({ error: "Campo 'file' e obrigatorio." }, { status: 400 });
@@ -324,22 +119,162 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Formato de arquivo nao suportado." }, { status: 400 });
   }
 
-  if (format === "pdf") {
-    return NextResponse.json(
-      { error: "Importacao de PDF ainda nao esta disponivel. Utilize arquivos CSV ou OFX." },
-      { status: 422 },
-    );
+  let parsed: ParsedExtract;
+
+  if (format === "csv" || format === "xlsx" || format === "xls" || format === "ods") {
+    const profiles = await prismaWithRetry((client) => loadImportProfiles(client));
+    const requestedProfile = formData.get("profileId");
+    const requestedSheet = formData.get("sheet");
+    let sheets: SpreadsheetSheet[] | null = null;
+    let sheet: SpreadsheetSheet | undefined;
+    let source: TableSource;
+
+    if (format === "csv") {
+      source = createCsvSource(buffer);
+    } else {
+      try {
+        sheets = readSpreadsheet(buffer);
+      } catch (error) {
+        console.error("[POST /api/importar-extrato]", error);
+        return NextResponse.json({ error: "Nao foi possivel ler a planilha." }, { status: 422 });
+      }
+
+      // Sem aba escolhida, usa a primeira em que algum perfil reconhece o cabeçalho.
+      sheet =
+        typeof requestedSheet === "string" && requestedSheet
+          ? sheets.find((candidate) => candidate.name === requestedSheet)
+          : (sheets.find((candidate) => detectTableProfile(createRecordsSource(candidate.records), profiles)) ??
+            sheets.find((candidate) => candidate.records.length > 0));
+
+      if (!sheet) {
+        return NextResponse.json({ error: "Planilha sem abas com conteudo." }, { status: 422 });
+      }
+      source = createRecordsSource(sheet.records);
+    }
+
+    const sheetNames = sheets?.map((candidate) => candidate.name);
+    const profile =
+      typeof requestedProfile === "string" && requestedProfile
+        ? profiles.find((candidate) => candidate.id === requestedProfile)
+        : detectTableProfile(source, profiles);
+
+    if (!profile) {
+      return NextResponse.json(
+        {
+          error:
+            typeof requestedProfile === "string" && requestedProfile
+              ? "Perfil de importacao nao encontrado."
+              : "Nao reconhecemos o layout deste arquivo. Selecione um perfil de importacao.",
+          profiles,
+          sheets: sheetNames,
+        },
+        { status: 422 },
+      );
+    }
+
+    try {
+      parsed = parseTable(source, file.name, profile, format);
+      parsed.sheets = sheetNames;
+      parsed.sheetName = sheet?.name;
+    } catch (error) {
+      console.error("[POST /api/importar-extrato]", error);
+      return NextResponse.json(
+        {
+          error: `O arquivo nao corresponde ao perfil "${profile.name}". Selecione outro perfil.`,
+          profiles,
+          sheets: sheetNames,
+        },
+        { status: 422 },
+      );
+    }
+  } else if (format === "cnab") {
+    try {
+      parsed = parseCnab(buffer, file.name);
+    } catch (error) {
+      console.error("[POST /api/importar-extrato]", error);
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error && error.message.includes("CNAB")
+              ? error.message
+              : "Nao foi possivel ler o retorno CNAB.",
+        },
+        { status: 422 },
+      );
+    }
+  } else if (format === "pdf") {
+    try {
+      parsed = await parsePdf(buffer, file.name);
+    } catch (error) {
+      console.error("[POST /api/importar-extrato]", error);
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error && error.message.startsWith("PDF sem camada de texto")
+              ? error.message
+              : "Nao foi possivel ler o PDF. Verifique se o extrato foi gerado pelo internet banking.",
+        },
+        { status: 422 },
+      );
+    }
+  } else {
+    try {
+      parsed = parseOfx(buffer, file.name);
+    } catch (error) {
+      console.error("[POST /api/importar-extrato]", error);
+      return NextResponse.json(
+        { error: "Falha ao processar o arquivo. Verifique o formato e tente novamente." },
+        { status: 422 },
+      );
+    }
   }
 
   try {
-    const parsed: ParsedExtract = format === "csv" ? parseCsv(buffer, file.name) : parseOfx(buffer, file.name);
+    parsed.sourceAccount = buildSourceAccountKey(parsed.account);
+    // Cada conta do arquivo tem seus próprios identificadores externos.
+    const statements: ParsedStatement[] = parsed.statements ?? [
+      { kind: "bank", account: parsed.account, transactions: parsed.transactions },
+    ];
+    const owner =
+      companyId !== null
+        ? await prismaWithRetry((client) =>
+            client.company.findUnique({ where: { id: companyId }, select: { name: true, cnpj: true } }),
+          )
+        : null;
+    const rules =
+      companyId !== null
+        ? await prismaWithRetry((client) => loadCategorizationRules(client, companyId, { activeOnly: true }))
+        : [];
+    const history =
+      companyId !== null ? await prismaWithRetry((client) => loadClassificationHistory(client, companyId)) : null;
+    const bankAccounts =
+      companyId !== null
+        ? await prismaWithRetry((client) => client.bankAccount.findMany({ where: { companyId, active: true } }))
+        : [];
+
+    for (const statement of statements) {
+      statement.sourceAccount = buildSourceAccountKey(statement.account);
+      statement.bankAccountId = matchBankAccount(bankAccounts, statement.account)?.id ?? null;
+      classifyTransactionKinds(statement.transactions, owner ?? undefined);
+      applyCategorizationRules(statement.transactions, rules);
+      if (history) {
+        suggestFromHistory(statement.transactions, history);
+      }
+      if (companyId !== null) {
+        const duplicates = await prismaWithRetry((client) =>
+          findDuplicateTransactions(client, companyId, statement.sourceAccount ?? "", statement.transactions),
+        );
+        statement.transactions.forEach((transaction, index) => {
+          transaction.duplicate = duplicates[index];
+        });
+      }
+    }
+
+    parsed.bankAccountId = statements[0]?.bankAccountId ?? null;
 
     return NextResponse.json(parsed);
   } catch (error) {
     console.error("[POST /api/importar-extrato]", error);
-    return NextResponse.json(
-      { error: "Falha ao processar o arquivo. Verifique o formato e tente novamente." },
-      { status: 422 },
-    );
+    return NextResponse.json({ error: "Nao foi possivel categorizar ou verificar lancamentos ja importados." }, { status: 500 });
   }
 }
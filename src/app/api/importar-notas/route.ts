@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeCompany, authorizeSession } from "../../../lib/authorization";
+import { prismaWithRetry } from "../../../lib/prisma-retry";
+import { findDuplicateTransactions } from "../../../lib/import-duplicates";
+import { INVOICE_SOURCE_ACCOUNT, parseInvoices } from "../../../lib/statement-import/invoices";
+import type { ParsedExtract } from "../../../lib/statement-import/types";
+import { isZipArchive } from "../../../lib/statement-import/zip";
+
+const INVOICE_EXTENSIONS = new Set([".xml", ".zip"]);
+
+function normalizeExtension(name: string) {
+  const idx = name.lastIndexOf(".");
+  return idx === -1 ? "" : name.slice(idx).toLowerCase();
+}
+
+function isInvoiceFile(file: File, buffer: Buffer) {
+  if (INVOICE_EXTENSIONS.has(normalizeExtension(file.name ?? "upload")) || isZipArchive(buffer)) {
+    return true;
+  }
+  return buffer.slice(0, 64).toString("utf-8").replace(/^\uFEFF/, "").trimStart().startsWith("<");
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorizeSession(request);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+  const rawCompanyId = formData.get("companyId");
+  const companyId = typeof rawCompanyId === "string" && rawCompanyId ? Number(rawCompanyId) : NaN;
+
+  // O sentido da nota (venda ou compra) depende do CNPJ da empresa.
+  if (!Number.isInteger(companyId) || companyId <= 0) {
+    return NextResponse.json({ error: "Selecione a empresa das notas fiscais." }, { status: 400 });
+  }
+  const companyAuth = await authorizeCompany(request, companyId);
+  if (companyAuth.response) {
+    return companyAuth.response;
+  }
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Campo 'file' e obrigatorio." }, { status: 400 });
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+
+  if (!isInvoiceFile(file, buffer)) {
+    return NextResponse.json({ error: "Envie o XML da nota fiscal ou um ZIP com os XML." }, { status: 400 });
+  }
+
+  const company = await prismaWithRetry((client) =>
+    client.company.findUnique({ where: { id: companyId }, select: { cnpj: true } }),
+  );
+  if (!company) {
+    return NextResponse.json({ error: "Empresa nao encontrada." }, { status: 404 });
+  }
+
+  let parsed: ParsedExtract;
+
+  try {
+    parsed = parseInvoices(buffer, file.name, company);
+  } catch (error) {
+    console.error("[POST /api/importar-notas]", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error && /ZIP|^Nenhum/.test(error.message)
+            ? error.message
+            : "Nao foi possivel ler as notas fiscais. Verifique se o arquivo e o XML autorizado.",
+      },
+      { status: 422 },
+    );
+  }
+
+  try {
+    const duplicates = await prismaWithRetry((client) =>
+      findDuplicateTransactions(client, companyId, INVOICE_SOURCE_ACCOUNT, parsed.transactions),
+    );
+    parsed.transactions.forEach((transaction, index) => {
+      transaction.duplicate = duplicates[index];
+    });
+
+    return NextResponse.json(parsed);
+  } catch (error) {
+    console.error("[POST /api/importar-notas]", error);
+    return NextResponse.json({ error: "Nao foi possivel verificar notas ja importadas." }, { status: 500 });
+  }
+}
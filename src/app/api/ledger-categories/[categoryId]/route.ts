@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../../lib/prisma-retry";
+import { authorizeAdmin } from "../../../../lib/authorization";
+import {
+  deleteLedgerCategory,
+  parseLedgerCategoryPayload,
+  updateLedgerCategory,
+  type LedgerCategoryPayload,
+} from "../../../../lib/ledger-categories";
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ categoryId: string }> }) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem alterar o plano de contas.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = await context.params;
+  const categoryId = parseId(params.categoryId);
+  const payload = (await request.json()) as LedgerCategoryPayload;
+  const { data, errors } = parseLedgerCategoryPayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const result = await prismaWithRetry((client) => updateLedgerCategory(client, null, categoryId, data));
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.category);
+  } catch (error) {
+    console.error("[PUT /api/ledger-categories/:categoryId]", error);
+    return NextResponse.json({ error: "Não foi possível atualizar a categoria." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: { params: Promise<{ categoryId: string }> }) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem alterar o plano de contas.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = await context.params;
+  const categoryId = parseId(params.categoryId);
+
+  try {
+    const result = await prismaWithRetry((client) => deleteLedgerCategory(client, null, categoryId));
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[DELETE /api/ledger-categories/:categoryId]", error);
+    return NextResponse.json({ error: "Não foi possível excluir a categoria." }, { status: 500 });
+  }
+}
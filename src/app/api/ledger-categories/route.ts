@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prismaWithRetry } from "../../../lib/prisma-retry";
+import { authorizeAdmin, authorizeSession } from "../../../lib/authorization";
+import {
+  createLedgerCategory,
+  loadLedgerCategories,
+  parseLedgerCategoryPayload,
+  type LedgerCategoryPayload,
+} from "../../../lib/ledger-categories";
+
+/**
+ * Modelo padrão do plano de contas, copiado para cada empresa no primeiro uso.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeSession(request);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const categories = await prismaWithRetry((client) => loadLedgerCategories(client, null));
+  return NextResponse.json(categories);
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem alterar o plano de contas.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const payload = (await request.json()) as LedgerCategoryPayload;
+  const { data, errors } = parseLedgerCategoryPayload(payload);
+
+  if (errors) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const result = await prismaWithRetry((client) => createLedgerCategory(client, null, data));
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.category, { status: 201 });
+  } catch (error) {
+    console.error("[POST /api/ledger-categories]", error);
+    return NextResponse.json({ error: "Não foi possível cadastrar a categoria." }, { status: 500 });
+  }
+}
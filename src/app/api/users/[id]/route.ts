@@ -0,0 +1,190 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prismaWithRetry } from "../../../../lib/prisma-retry";
+import { authorizeAdmin } from "../../../../lib/authorization";
+
+type UpdateUserPayload = {
+  companyId?: unknown;
+  admin?: unknown;
+  mustChangePassword?: unknown;
+  active?: unknown;
+};
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  admin: true,
+  mustChangePassword: true,
+  active: true,
+  createdAt: true,
+  company: {
+    select: {
+      id: true,
+      name: true,
+      cnpj: true,
+    },
+  },
+} satisfies Prisma.UserSelect;
+
+function parseId(raw: string) {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Identificador inválido.");
+  }
+  return id;
+}
+
+function formatCnpj(raw: string) {
+  const digits = raw.replace(/\D/g, "");
+  if (digits.length !== 14) {
+    return raw;
+  }
+  return `${digits.slice(0, 2)}.${digits.slice(2, 5)}.${digits.slice(5, 8)}/${digits.slice(8, 12)}-${digits.slice(12)}`;
+}
+
+function formatUser(user: Prisma.UserGetPayload<{ select: typeof userSelect }>) {
+  return {
+    ...user,
+    company: user.company ? { ...user.company, cnpj: formatCnpj(user.company.cnpj) } : null,
+  };
+}
+
+export async function PATCH(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem alterar acessos.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = await context.params;
+  const userId = parseId(params.id);
+  const payload = (await request.json()) as UpdateUserPayload;
+  const isSelf = auth.session.userId === String(userId);
+
+  const current = await prismaWithRetry((client) =>
+    client.user.findUnique({
+      where: { id: userId },
+      select: { id: true, admin: true, companyId: true },
+    }),
+  );
+
+  if (!current) {
+    return NextResponse.json({ error: "Usuario nao encontrado." }, { status: 404 });
+  }
+
+  const data: Prisma.UserUncheckedUpdateInput = {};
+  const errors: string[] = [];
+
+  if (payload.admin !== undefined) {
+    if (typeof payload.admin !== "boolean") {
+      errors.push("Perfil invalido.");
+    } else if (isSelf && !payload.admin) {
+      errors.push("Voce nao pode remover o seu proprio perfil de administrador.");
+    } else {
+      data.admin = payload.admin;
+    }
+  }
+
+  if (payload.mustChangePassword !== undefined) {
+    if (typeof payload.mustChangePassword !== "boolean") {
+      errors.push("Valor invalido para troca de senha.");
+    } else {
+      data.mustChangePassword = payload.mustChangePassword;
+      if (!payload.mustChangePassword) {
+        data.passwordResetToken = null;
+      }
+    }
+  }
+
+  if (payload.active !== undefined) {
+    if (typeof payload.active !== "boolean") {
+      errors.push("Status invalido.");
+    } else if (isSelf && !payload.active) {
+      errors.push("Voce nao pode desativar o seu proprio acesso.");
+    } else {
+      data.active = payload.active;
+      if (!payload.active) {
+        data.passwordResetToken = null;
+      }
+    }
+  }
+
+  if (payload.companyId !== undefined) {
+    if (payload.companyId === null) {
+      data.companyId = null;
+    } else if (typeof payload.companyId === "number" && Number.isInteger(payload.companyId) && payload.companyId > 0) {
+      data.companyId = payload.companyId;
+    } else {
+      errors.push("Empresa invalida.");
+    }
+  }
+
+  const nextAdmin = typeof data.admin === "boolean" ? data.admin : current.admin;
+  const nextCompanyId = data.companyId !== undefined ? data.companyId : current.companyId;
+  if (!nextAdmin && nextCompanyId == null) {
+    errors.push("Usuarios comuns precisam estar vinculados a uma empresa.");
+  }
+  // Administradores nao tem empresa, como no cadastro: promover desvincula.
+  if (nextAdmin && typeof data.companyId === "number") {
+    errors.push("Administradores nao podem ser vinculados a uma empresa.");
+  } else if (nextAdmin && current.companyId !== null) {
+    data.companyId = null;
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  try {
+    const user = await prismaWithRetry((client) =>
+      client.user.update({
+        where: { id: userId },
+        data,
+        select: userSelect,
+      }),
+    );
+
+    return NextResponse.json(formatUser(user));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2003") {
+      return NextResponse.json({ error: "Empresa nao encontrada." }, { status: 404 });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      return NextResponse.json({ error: "Usuario nao encontrado." }, { status: 404 });
+    }
+
+    console.error("[PATCH /api/users/:id]", error);
+    return NextResponse.json({ error: "Nao foi possivel atualizar o usuario." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem excluir acessos.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = await context.params;
+  const userId = parseId(params.id);
+
+  if (auth.session.userId === String(userId)) {
+    return NextResponse.json({ error: "Voce nao pode excluir o seu proprio acesso." }, { status: 400 });
+  }
+
+  try {
+    await prismaWithRetry((client) =>
+      client.user.delete({
+        where: { id: userId },
+      }),
+    );
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      return NextResponse.json({ error: "Usuario nao encontrado." }, { status: 404 });
+    }
+
+    console.error("[DELETE /api/users/:id]", error);
+    return NextResponse.json({ error: "Nao foi possivel excluir o usuario." }, { status: 500 });
+  }
+}
@@ -1,8 +1,9 @@
-import { NextResponse } from "next/server";
+import { NextResponse, type NextRequest } from "next/server";
 import { Prisma } from "@prisma/client";
 import { prismaWithRetry } from "../../../lib/prisma-retry";
 import { hashPassword } from "../../../lib/auth";
 import { sendWelcomeEmail } from "../../../lib/mail";
+import { authorizeAdmin } from "../../../lib/authorization";
 
 type CreateUserPayload = {
   email?: unknown;
@@ -25,7 +26,96 @@ function formatCnpj(raw: string) {
   return `${digits.slice(0, 2)}.${digits.slice(2, 5)}.${digits.slice(5, 8)}/${digits.slice(8, 12)}-${digits.slice(12)}`;
 }
 
-export async function POST(request: Request) {
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  admin: true,
+  mustChangePassword: true,
+  active: true,
+  createdAt: true,
+  company: {
+    select: {
+      id: true,
+      name: true,
+      cnpj: true,
+    },
+  },
+} satisfies Prisma.UserSelect;
+
+function parseBooleanParam(raw: string | null) {
+  if (raw === "true") {
+    return true;
+  }
+  if (raw === "false") {
+    return false;
+  }
+  return undefined;
+}
+
+function parsePositiveInt(raw: string | null, fallback: number) {
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem listar acessos.");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const params = request.nextUrl.searchParams;
+  const page = parsePositiveInt(params.get("page"), 1);
+  const pageSize = Math.min(parsePositiveInt(params.get("pageSize"), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const companyIdParam = params.get("companyId");
+
+  const where: Prisma.UserWhereInput = {
+    admin: parseBooleanParam(params.get("admin")),
+    mustChangePassword: parseBooleanParam(params.get("mustChangePassword")),
+    active: parseBooleanParam(params.get("active")),
+  };
+
+  if (companyIdParam) {
+    const companyId = Number(companyIdParam);
+    if (!Number.isInteger(companyId) || companyId <= 0) {
+      return NextResponse.json({ error: "Empresa invalida." }, { status: 400 });
+    }
+    where.companyId = companyId;
+  }
+
+  const [users, total] = await prismaWithRetry((client) =>
+    client.$transaction([
+      client.user.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        select: userSelect,
+      }),
+      client.user.count({ where }),
+    ]),
+  );
+
+  return NextResponse.json({
+    users: users.map((user) => ({
+      ...user,
+      company: user.company ? { ...user.company, cnpj: formatCnpj(user.company.cnpj) } : null,
+    })),
+    total,
+    page,
+    pageSize,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorizeAdmin(request, "Apenas administradores podem criar acessos.");
+  if (auth.response) {
+    return auth.response;
+  }
+
   const payload = (await request.json()) as CreateUserPayload;
 
   const rawEmail = typeof payload.email === "string" ? payload.email.trim().toLowerCase() : "";
@@ -78,20 +168,7 @@ export async function POST(request: Request) {
           passwordResetToken: null,
           companyId,
         },
-        select: {
-          id: true,
-          email: true,
-          admin: true,
-          mustChangePassword: true,
-          createdAt: true,
-          company: {
-            select: {
-              id: true,
-              name: true,
-              cnpj: true,
-            },
-          },
-        },
+        select: userSelect,
       }),
     );
 
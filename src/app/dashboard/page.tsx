@@ -1,6 +1,7 @@
 ﻿import Link from "next/link";
 import Image from "next/image";
 import { redirect } from "next/navigation";
+import { computeCarriedBalance } from "../../lib/balances";
 import { prismaWithRetry } from "../../lib/prisma-retry";
 import { getSession } from "../../lib/session";
 import LogoutButton from "../_components/logout-button";
@@ -33,7 +34,7 @@ export default async function ClientDashboard() {
     redirect("/");
   }
 
-  const [company, transactions] = await Promise.all([
+  const [company, transactions, carried] = await Promise.all([
     prismaWithRetry((client) =>
       client.company.findUnique({
         where: { id: session.companyId! },
@@ -56,6 +57,8 @@ export default async function ClientDashboard() {
         take: 20,
       }),
     ),
+    // Saldo real até agora: saldos iniciais mais todo o histórico, não só a página exibida.
+    prismaWithRetry((client) => computeCarriedBalance(client, session.companyId!, undefined, new Date())),
   ]);
 
   if (!company) {
@@ -73,7 +76,7 @@ export default async function ClientDashboard() {
     },
     { income: 0, expense: 0 },
   );
-  const balance = totals.income - Math.abs(totals.expense);
+  const balance = carried?.balance ?? 0;
 
   return (
     <main className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 text-slate-100">
@@ -111,7 +114,7 @@ export default async function ClientDashboard() {
             <p className="text-sm font-medium text-slate-300/80">Saldo acumulado</p>
             <p className="mt-3 text-3xl font-semibold text-white">{currencyFormatter.format(balance)}</p>
             <p className="mt-4 text-xs text-slate-400">
-              Entradas totais de {currencyFormatter.format(totals.income)} e saídas de {currencyFormatter.format(Math.abs(totals.expense))} no período exibido.
+              Inclui o saldo inicial de {currencyFormatter.format(carried?.openingBalance ?? 0)}. Nos últimos lançamentos exibidos, entradas de {currencyFormatter.format(totals.income)} e saídas de {currencyFormatter.format(Math.abs(totals.expense))}.
             </p>
           </article>
           <article className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-inner shadow-white/5">
@@ -170,11 +173,21 @@ export default async function ClientDashboard() {
                         <p className="font-medium text-white">{entry.productService}</p>
                         <p className="text-xs text-slate-400">{entry.notes || entry.counterpart}</p>
                       </td>
-                      <td className="px-4 py-3">{entry.movement === "RECEITA" ? "Entrada" : "Saída"}</td>
+                      <td className="px-4 py-3">
+                        {entry.movement === "RECEITA"
+                          ? "Entrada"
+                          : entry.movement === "TRANSFERENCIA"
+                            ? "Transferência"
+                            : "Saída"}
+                      </td>
                       <td className="px-4 py-3">{entry.paymentMethod}</td>
                       <td
                         className={`px-4 py-3 font-semibold ${
-                          entry.movement === "RECEITA" ? "text-emerald-300" : "text-red-300"
+                          entry.movement === "RECEITA"
+                            ? "text-emerald-300"
+                            : entry.movement === "TRANSFERENCIA"
+                              ? "text-slate-300"
+                              : "text-red-300"
                         }`}
                       >
                         {currencyFormatter.format(Number(entry.amount))}
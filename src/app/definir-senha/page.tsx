@@ -34,11 +34,11 @@ async function resetPasswordAction(_: ResetState, formData: FormData): Promise<R
   const user = await prismaWithRetry((client) =>
     client.user.findUnique({
       where: { passwordResetToken: token },
-      select: { id: true, admin: true, companyId: true },
+      select: { id: true, admin: true, companyId: true, active: true },
     }),
   );
 
-  if (!user) {
+  if (!user || !user.active) {
     return { error: "Link invalido ou expirado." };
   }
 
@@ -73,7 +73,7 @@ export default async function DefinirSenhaPage({ searchParams }: PageProps) {
     ? await prismaWithRetry((client) =>
         client.user.findUnique({
           where: { passwordResetToken: token },
-          select: { email: true, company: { select: { name: true } } },
+          select: { email: true, active: true, company: { select: { name: true } } },
         }),
       )
     : null;
@@ -89,7 +89,7 @@ export default async function DefinirSenhaPage({ searchParams }: PageProps) {
           </p>
         </header>
 
-        {token && user ? (
+        {token && user?.active ? (
           <div className="space-y-8">
             <div className="rounded-2xl border border-white/10 bg-slate-950/70 px-5 py-4 text-sm text-slate-200">
               <p>
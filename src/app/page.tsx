@@ -33,6 +33,7 @@ async function loginAction(_: LoginState, formData: FormData): Promise<LoginStat
         password: true,
         admin: true,
         mustChangePassword: true,
+        active: true,
         companyId: true,
       },
     }),
@@ -42,6 +43,10 @@ async function loginAction(_: LoginState, formData: FormData): Promise<LoginStat
     return { error: "Credenciais invalidas. Tente novamente." };
   }
 
+  if (!user.active) {
+    return { error: "Acesso desativado. Procure o administrador do portal." };
+  }
+
   if (user.mustChangePassword) {
     const token = crypto.randomUUID();
     await prismaWithRetry((client) =>
@@ -0,0 +1,84 @@
+import { Prisma } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import {
+  keepStoredSign,
+  mergeTags,
+  normalizeTags,
+  parseCashEntryPayload,
+  parseCashEntryQuery,
+  type CashEntryPayload,
+} from "../cash-entries";
+
+const BASE_PAYLOAD: CashEntryPayload = {
+  date: "2024-03-15",
+  counterpart: "Fornecedor Exemplo",
+  productService: "Material de escritório",
+  movement: "DESPESA",
+  type: "COMERCIO",
+  paymentMethod: "PIX",
+  amount: "150,00",
+};
+
+function parse(payload: CashEntryPayload) {
+  const { data, errors } = parseCashEntryPayload({ ...BASE_PAYLOAD, ...payload });
+  expect(errors).toBeNull();
+  return data!;
+}
+
+describe("parseCashEntryPayload", () => {
+  it("applies the given direction to transfers", () => {
+    expect(parse({ movement: "TRANSFERENCIA", direction: "SAIDA" }).amount.toNumber()).toBe(-150);
+    expect(parse({ movement: "TRANSFERENCIA", direction: "ENTRADA", amount: "-150,00" }).amount.toNumber()).toBe(150);
+  });
+
+  it("keeps the amount sign on transfers without a direction", () => {
+    expect(parse({ movement: "TRANSFERENCIA", amount: "-150,00" }).amount.toNumber()).toBe(-150);
+  });
+
+  it("ignores the direction on other movements", () => {
+    expect(parse({ direction: "SAIDA" }).amount.toNumber()).toBe(150);
+  });
+
+  it("rejects an unknown direction", () => {
+    const { errors } = parseCashEntryPayload({ ...BASE_PAYLOAD, movement: "TRANSFERENCIA", direction: "LATERAL" });
+    expect(errors).toContain("Selecione o sentido da transferência.");
+  });
+});
+
+describe("keepStoredSign", () => {
+  const importedFee = { movement: "DESPESA" as const, amount: new Prisma.Decimal(-150) };
+
+  it("keeps the negative sign of an imported entry saved unchanged", () => {
+    expect(keepStoredSign(parse({}), importedFee).amount.toNumber()).toBe(-150);
+  });
+
+  it("keeps the sign when only the amount changes", () => {
+    expect(keepStoredSign(parse({ amount: "200,00" }), importedFee).amount.toNumber()).toBe(-200);
+  });
+
+  it("uses the sent amount when the movement changes", () => {
+    expect(keepStoredSign(parse({ movement: "RECEITA" }), importedFee).amount.toNumber()).toBe(150);
+  });
+
+  it("follows the given direction on transfers", () => {
+    const storedTransfer = { movement: "TRANSFERENCIA" as const, amount: new Prisma.Decimal(-150) };
+    const data = parse({ movement: "TRANSFERENCIA", direction: "ENTRADA" });
+    expect(keepStoredSign(data, storedTransfer).amount.toNumber()).toBe(150);
+  });
+});
+
+describe("tags", () => {
+  it("stores tags in lower case without repeats", () => {
+    expect(normalizeTags("Obra,  Centro  Sul , obra")).toEqual(["obra", "centro sul"]);
+    expect(parse({ tags: ["Reforma", "REFORMA"] }).tags).toEqual(["reforma"]);
+  });
+
+  it("merges tags regardless of case", () => {
+    expect(mergeTags(["Obra", "urgente"], ["Reforma"], ["URGENTE"])).toEqual(["obra", "reforma"]);
+  });
+
+  it("filters by tag regardless of the typed case", () => {
+    const { query } = parseCashEntryQuery(new URLSearchParams({ tags: "Obra" }), 1);
+    expect(query!.where).toEqual({ AND: expect.arrayContaining([{ tags: { hasSome: ["obra"] } }]) });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseStatementPayload } from "../reconciliation";
+
+const FEE = { date: "2024-03-15", amount: "-12.90", description: "Tarifa pacote de serviços" };
+
+describe("parseStatementPayload", () => {
+  it("keeps two identical lines without a bank reference apart", () => {
+    const statement = parseStatementPayload({ bankAccountId: 1, transactions: [FEE, FEE] });
+
+    const references = statement!.lines.map((line) => line.reference);
+    expect(references).toHaveLength(2);
+    expect(new Set(references).size).toBe(2);
+    expect(references[1]).toBe(`${references[0]}#2`);
+  });
+
+  it("gives the same references when the statement is imported again", () => {
+    const payload = { bankAccountId: 1, transactions: [FEE, { ...FEE, amount: "-5.00" }, FEE] };
+
+    const first = parseStatementPayload(payload)!.lines.map((line) => line.reference);
+    const second = parseStatementPayload(payload)!.lines.map((line) => line.reference);
+    expect(second).toEqual(first);
+  });
+
+  it("keeps the bank reference as is", () => {
+    const statement = parseStatementPayload({
+      bankAccountId: 1,
+      transactions: [
+        { ...FEE, reference: "ABC123" },
+        { ...FEE, reference: "ABC124" },
+      ],
+    });
+
+    expect(statement!.lines.map((line) => line.reference)).toEqual(["ABC123", "ABC124"]);
+  });
+});
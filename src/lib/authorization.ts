@@ -0,0 +1,64 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { decodeSessionToken, refreshSession, SESSION_COOKIE_NAME, type SessionPayload } from "./session";
+
+type AuthorizationResult = {
+  session: SessionPayload | null;
+  response: NextResponse | null;
+};
+
+function deny(status: 401 | 403, error: string): AuthorizationResult {
+  return { session: null, response: NextResponse.json({ error }, { status }) };
+}
+
+export function readRequestSession(request: NextRequest): SessionPayload | null {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value ?? "";
+  return token ? decodeSessionToken(token) : null;
+}
+
+/**
+ * Garante que a requisição possui uma sessão válida e que o usuário segue
+ * ativo, com o mesmo perfil e empresa de quando entrou.
+ */
+export async function authorizeSession(request: NextRequest): Promise<AuthorizationResult> {
+  const session = await refreshSession(readRequestSession(request));
+  if (!session) {
+    return deny(401, "Não autorizado.");
+  }
+  return { session, response: null };
+}
+
+/**
+ * Restringe a rota a administradores.
+ */
+export async function authorizeAdmin(
+  request: NextRequest,
+  message = "Acesso restrito a administradores.",
+): Promise<AuthorizationResult> {
+  const result = await authorizeSession(request);
+  if (result.response) {
+    return result;
+  }
+  if (!result.session.admin) {
+    return deny(403, message);
+  }
+  return result;
+}
+
+/**
+ * Administradores podem operar qualquer empresa; usuários comuns apenas
+ * a empresa vinculada à própria sessão.
+ */
+export async function authorizeCompany(request: NextRequest, companyId: number): Promise<AuthorizationResult> {
+  const result = await authorizeSession(request);
+  if (result.response) {
+    return result;
+  }
+  if (!canAccessCompany(result.session, companyId)) {
+    return deny(403, "Você não tem acesso a esta empresa.");
+  }
+  return result;
+}
+
+export function canAccessCompany(session: SessionPayload, companyId: number) {
+  return session.admin || (session.companyId != null && session.companyId === companyId);
+}
@@ -0,0 +1,211 @@
+import { Prisma, type MovementCategory, type PrismaClient } from "@prisma/client";
+import { normalizeCurrencyToNumber } from "./currency";
+
+/**
+ * `undefined` considera a empresa inteira, `null` só os lançamentos sem conta
+ * e um número uma conta específica.
+ */
+export type BalanceScope = number | null | undefined;
+
+export type CarriedBalance = {
+  openingBalance: number;
+  movements: number;
+  balance: number;
+};
+
+export type OpeningBalancePayload = {
+  openingBalance?: unknown;
+  openingDate?: unknown;
+};
+
+type OpeningWindow = {
+  openingBalance: Prisma.Decimal;
+  openingDate: Date | null;
+  where: Prisma.CashEntryWhereInput;
+};
+
+/**
+ * Valida o saldo inicial da empresa, aplicado aos lançamentos sem conta.
+ */
+export function parseOpeningBalancePayload(
+  payload: OpeningBalancePayload,
+):
+  | { data: { openingBalance: Prisma.Decimal; openingDate: Date | null }; errors: null }
+  | { data: null; errors: string[] } {
+  const errors: string[] = [];
+
+  const rawBalance = payload.openingBalance;
+  const openingBalance =
+    rawBalance === undefined || rawBalance === null || rawBalance === "" ? 0 : normalizeCurrencyToNumber(rawBalance);
+  const rawDate = typeof payload.openingDate === "string" && payload.openingDate.trim() ? payload.openingDate.trim() : null;
+  const openingDate = rawDate ? new Date(rawDate) : null;
+
+  if (!Number.isFinite(openingBalance)) {
+    errors.push("Saldo inicial inválido.");
+  }
+  if (openingDate && Number.isNaN(openingDate.getTime())) {
+    errors.push("Data do saldo inicial inválida.");
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return { data: { openingBalance: new Prisma.Decimal(openingBalance), openingDate }, errors: null };
+}
+
+/**
+ * Valor do lançamento no saldo. Nos demais movimentos o sinal vem do movimento;
+ * transferências guardam o próprio sinal, do extrato ou do sentido informado
+ * no cadastro (ver `applyTransferDirection`).
+ */
+export function signedEntryAmount(movement: MovementCategory, amount: number) {
+  if (movement === "TRANSFERENCIA") {
+    return amount;
+  }
+  return movement === "RECEITA" ? Math.abs(amount) : -Math.abs(amount);
+}
+
+/**
+ * Soma dos lançamentos por movimento e conta. Valores importados podem estar
+ * negativos; separar pelo sinal permite somar o valor absoluto sem trazer os
+ * lançamentos um a um, por isso cada grupo tem um único sinal e o mesmo
+ * movimento e conta podem aparecer duas vezes.
+ */
+export async function sumEntryAmounts(client: PrismaClient, where: Prisma.CashEntryWhereInput) {
+  const [positive, negative] = await Promise.all([
+    client.cashEntry.groupBy({
+      by: ["movement", "bankAccountId"],
+      where: { AND: [where, { amount: { gte: 0 } }] },
+      _sum: { amount: true },
+    }),
+    client.cashEntry.groupBy({
+      by: ["movement", "bankAccountId"],
+      where: { AND: [where, { amount: { lt: 0 } }] },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  return [...positive, ...negative].map((group) => ({
+    movement: group.movement,
+    bankAccountId: group.bankAccountId,
+    total: Number(group._sum.amount ?? 0),
+  }));
+}
+
+/**
+ * Transferências entre contas da empresa só movimentam o saldo quando o
+ * escopo é uma conta (ou os lançamentos sem conta); no consolidado da empresa
+ * elas ficam de fora, como nos totais do livro-caixa.
+ */
+export function countsTransfers(scope: BalanceScope) {
+  return scope !== undefined;
+}
+
+/**
+ * Saldo transportado para o início de `date`: saldo inicial de cada conta (e o
+ * da empresa, para os lançamentos sem conta) mais os lançamentos anteriores a
+ * `date`. Lançamentos anteriores à data do saldo inicial já estão nele e são
+ * ignorados; o saldo inicial só entra a partir da própria data. Sem `date`,
+ * devolve apenas os saldos iniciais.
+ */
+export async function computeCarriedBalance(
+  client: PrismaClient,
+  companyId: number,
+  scope: BalanceScope,
+  date?: Date,
+): Promise<CarriedBalance | null> {
+  const company = await client.company.findUnique({
+    where: { id: companyId },
+    select: {
+      openingBalance: true,
+      openingDate: true,
+      bankAccounts: {
+        where: typeof scope === "number" ? { id: scope } : undefined,
+        select: { id: true, openingBalance: true, openingDate: true },
+      },
+    },
+  });
+
+  if (!company || (typeof scope === "number" && company.bankAccounts.length === 0)) {
+    return null;
+  }
+
+  const windows: OpeningWindow[] = [];
+  if (scope === undefined || scope === null) {
+    windows.push({
+      openingBalance: company.openingBalance,
+      openingDate: company.openingDate,
+      where: { bankAccountId: null },
+    });
+  }
+  if (scope !== null) {
+    company.bankAccounts.forEach((account) => {
+      windows.push({
+        openingBalance: account.openingBalance,
+        openingDate: account.openingDate,
+        where: { bankAccountId: account.id },
+      });
+    });
+  }
+
+  const applicable = date ? windows.filter((window) => !window.openingDate || window.openingDate <= date) : windows;
+  const openingBalance = applicable.reduce((sum, window) => sum + Number(window.openingBalance), 0);
+
+  if (!date || applicable.length === 0) {
+    return { openingBalance, movements: 0, balance: openingBalance };
+  }
+
+  const where: Prisma.CashEntryWhereInput = {
+    companyId,
+    date: { lt: date },
+    movement: countsTransfers(scope) ? undefined : { not: "TRANSFERENCIA" },
+    OR: applicable.map((window) =>
+      window.openingDate ? { ...window.where, date: { gte: window.openingDate } } : window.where,
+    ),
+  };
+
+  const groups = await sumEntryAmounts(client, where);
+  const movements = groups.reduce((sum, group) => sum + signedEntryAmount(group.movement, group.total), 0);
+
+  return { openingBalance, movements, balance: openingBalance + movements };
+}
+
+/**
+ * Saldo atual de cada conta da empresa e dos lançamentos sem conta (chave
+ * "none"), com todos os lançamentos a partir da data do saldo inicial.
+ */
+export async function computeAccountBalances(client: PrismaClient, companyId: number) {
+  const company = await client.company.findUnique({
+    where: { id: companyId },
+    select: {
+      openingBalance: true,
+      openingDate: true,
+      bankAccounts: { select: { id: true, openingBalance: true, openingDate: true } },
+    },
+  });
+  if (!company) {
+    return null;
+  }
+
+  const balances: Record<string, number> = { none: Number(company.openingBalance) };
+  const windows: Prisma.CashEntryWhereInput[] = [
+    company.openingDate ? { bankAccountId: null, date: { gte: company.openingDate } } : { bankAccountId: null },
+  ];
+  company.bankAccounts.forEach((account) => {
+    balances[account.id] = Number(account.openingBalance);
+    windows.push(
+      account.openingDate
+        ? { bankAccountId: account.id, date: { gte: account.openingDate } }
+        : { bankAccountId: account.id },
+    );
+  });
+
+  const groups = await sumEntryAmounts(client, { companyId, OR: windows });
+  groups.forEach((group) => {
+    const key = group.bankAccountId === null ? "none" : String(group.bankAccountId);
+    balances[key] = (balances[key] ?? 0) + signedEntryAmount(group.movement, group.total);
+  });
+
+  return balances;
+}
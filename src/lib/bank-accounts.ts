@@ -0,0 +1,150 @@
+import { Prisma, type BankAccount, type BankAccountType, type PrismaClient } from "@prisma/client";
+import { normalizeCurrencyToNumber } from "./currency";
+
+export type BankAccountPayload = {
+  name?: unknown;
+  type?: unknown;
+  bankId?: unknown;
+  branchId?: unknown;
+  accountId?: unknown;
+  openingBalance?: unknown;
+  openingDate?: unknown;
+  active?: unknown;
+};
+
+export type BankAccountInput = {
+  name: string;
+  type: BankAccountType;
+  bankId: string | null;
+  branchId: string | null;
+  accountId: string | null;
+  openingBalance: Prisma.Decimal;
+  openingDate: Date | null;
+  active: boolean;
+};
+
+type StatementAccount = {
+  bankId?: string;
+  branchId?: string;
+  accountId?: string;
+};
+
+export const VALID_ACCOUNT_TYPES = new Set(["CORRENTE", "POUPANCA", "CARTAO_CREDITO", "INVESTIMENTO", "CAIXA"]);
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Valida o cadastro de uma conta. Caixa não exige banco, agência e conta.
+ */
+export function parseBankAccountPayload(
+  payload: BankAccountPayload,
+): { data: BankAccountInput; errors: null } | { data: null; errors: string[] } {
+  const errors: string[] = [];
+
+  const name = optionalText(payload.name) ?? "";
+  const type = typeof payload.type === "string" && payload.type ? payload.type.toUpperCase().trim() : "CORRENTE";
+  const rawBalance = payload.openingBalance;
+  const openingBalance =
+    rawBalance === undefined || rawBalance === null || rawBalance === "" ? 0 : normalizeCurrencyToNumber(rawBalance);
+  const rawDate = optionalText(payload.openingDate);
+  const openingDate = rawDate ? new Date(rawDate) : null;
+
+  if (name.length < 2) {
+    errors.push("Informe o nome da conta.");
+  }
+  if (!VALID_ACCOUNT_TYPES.has(type)) {
+    errors.push("Selecione um tipo de conta válido.");
+  }
+  if (!Number.isFinite(openingBalance)) {
+    errors.push("Saldo inicial inválido.");
+  }
+  if (openingDate && Number.isNaN(openingDate.getTime())) {
+    errors.push("Data do saldo inicial inválida.");
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      name,
+      type: type as BankAccountType,
+      bankId: optionalText(payload.bankId),
+      branchId: optionalText(payload.branchId),
+      accountId: optionalText(payload.accountId),
+      openingBalance: new Prisma.Decimal(openingBalance),
+      openingDate,
+      active: payload.active !== false,
+    },
+    errors: null,
+  };
+}
+
+export function formatBankAccount(account: BankAccount) {
+  return {
+    ...account,
+    openingBalance: Number(account.openingBalance),
+  };
+}
+
+/**
+ * Confere se todas as contas informadas pertencem à empresa.
+ */
+export async function bankAccountsBelongToCompany(client: PrismaClient, companyId: number, ids: number[]) {
+  const unique = [...new Set(ids)];
+  if (unique.length === 0) {
+    return true;
+  }
+  const count = await client.bankAccount.count({ where: { companyId, id: { in: unique } } });
+  return count === unique.length;
+}
+
+function accountDigits(value: string | null | undefined) {
+  return (value ?? "").replace(/\D/g, "").replace(/^0+/, "");
+}
+
+function sameAccountNumber(a: string, b: string) {
+  if (a === b) {
+    return true;
+  }
+  // Alguns bancos enviam o ACCTID sem o dígito verificador.
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  return longer.length === shorter.length + 1 && longer.startsWith(shorter);
+}
+
+/**
+ * Conta ativa da empresa correspondente ao banco/agência/conta do extrato.
+ * O número da conta decide; banco e agência só desempatam ou descartam
+ * quando informados dos dois lados.
+ */
+export function matchBankAccount<T extends Pick<BankAccount, "id" | "bankId" | "branchId" | "accountId" | "active">>(
+  accounts: T[],
+  statementAccount?: StatementAccount,
+) {
+  const accountId = accountDigits(statementAccount?.accountId);
+  if (!accountId) {
+    return null;
+  }
+  const bankId = accountDigits(statementAccount?.bankId);
+  const branchId = accountDigits(statementAccount?.branchId);
+
+  const candidates = accounts.filter((account) => {
+    const candidateAccount = accountDigits(account.accountId);
+    const candidateBank = accountDigits(account.bankId);
+    return (
+      account.active &&
+      candidateAccount !== "" &&
+      sameAccountNumber(candidateAccount, accountId) &&
+      (!bankId || !candidateBank || candidateBank === bankId)
+    );
+  });
+
+  return (
+    candidates.find((account) => branchId && accountDigits(account.branchId) === branchId) ??
+    candidates.find((account) => !branchId || !accountDigits(account.branchId)) ??
+    null
+  );
+}
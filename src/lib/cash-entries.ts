@@ -0,0 +1,554 @@
+import {
+  Prisma,
+  type ActivityType,
+  type CashEntry,
+  type CashEntrySplit,
+  type MovementCategory,
+  type PrismaClient,
+} from "@prisma/client";
+import { sumEntryAmounts } from "./balances";
+import { normalizeCurrencyToNumber } from "./currency";
+
+export type CashEntryPayload = {
+  date?: unknown;
+  counterpart?: unknown;
+  productService?: unknown;
+  movement?: unknown;
+  type?: unknown;
+  paymentMethod?: unknown;
+  amount?: unknown;
+  /** Sentido de uma transferência (`ENTRADA` ou `SAIDA`); sem ele vale o sinal de `amount`. */
+  direction?: unknown;
+  notes?: unknown;
+  externalReference?: unknown;
+  sourceAccount?: unknown;
+  bankAccountId?: unknown;
+  categoryId?: unknown;
+  costCenterId?: unknown;
+  tags?: unknown;
+  /** Linhas do desdobramento, validadas à parte por `parseEntrySplits`. */
+  splits?: unknown;
+};
+
+export type CashEntryInput = {
+  date: Date;
+  counterpart: string;
+  productService: string;
+  movement: MovementCategory;
+  type: ActivityType;
+  paymentMethod: string;
+  amount: Prisma.Decimal;
+  notes: string | undefined;
+  externalReference?: string;
+  sourceAccount?: string;
+  /** `undefined` mantém a conta atual na edição; `null` desvincula. */
+  bankAccountId?: number | null;
+  /** Conta do plano de contas, com a mesma semântica de `bankAccountId`. */
+  categoryId?: number | null;
+  costCenterId?: number | null;
+  /** `undefined` mantém os marcadores atuais na edição. */
+  tags?: string[];
+};
+
+export const VALID_MOVEMENTS = new Set(["RECEITA", "COMPRA", "DESPESA", "RETIRADA", "TRANSFERENCIA"]);
+export const VALID_DIRECTIONS = new Set(["ENTRADA", "SAIDA"]);
+export const VALID_TYPES = new Set(["COMERCIO", "INDUSTRIA", "SERVICO", "TRANSPORTE"]);
+export const VALID_PAYMENTS = new Set([
+  "PIX",
+  "DINHEIRO",
+  "BOLETO",
+  "CARTAO_CREDITO",
+  "CARTAO_DEBITO",
+  "CHEQUE",
+  "TRANSFERENCIA",
+  "OUTROS",
+]);
+
+export const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+/**
+ * Marcadores livres, em lista ou separados por vírgula. São gravados em
+ * minúsculas, com espaços repetidos reduzidos e sem repetição, para que o
+ * filtro por marcador não dependa da grafia. Retorna null quando o valor não
+ * é texto nem lista de textos.
+ */
+export function normalizeTags(value: unknown): string[] | null {
+  const parts = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(parts) || parts.some((part) => typeof part !== "string")) {
+    return null;
+  }
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  (parts as string[]).forEach((part) => {
+    const tag = part.trim().replace(/\s+/g, " ").toLowerCase();
+    if (tag && !seen.has(tag)) {
+      seen.add(tag);
+      tags.push(tag);
+    }
+  });
+  return tags;
+}
+
+/** Acrescenta e remove marcadores de um lançamento, sem diferenciar maiúsculas. */
+export function mergeTags(current: string[], add: string[], remove: string[]) {
+  const removed = new Set(normalizeTags(remove));
+  return normalizeTags([...current, ...add])!.filter((tag) => !removed.has(tag));
+}
+
+export function validateTags(tags: string[]) {
+  const errors: string[] = [];
+  if (tags.length > MAX_TAGS) {
+    errors.push(`Use no máximo ${MAX_TAGS} marcadores por lançamento.`);
+  }
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    errors.push(`Marcadores devem ter até ${MAX_TAG_LENGTH} caracteres.`);
+  }
+  return errors;
+}
+
+export function normalizePayment(raw: string) {
+  return raw
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, "_")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Transferências não têm sinal implícito no movimento: o sentido informado
+ * define se o valor entra ou sai da conta. Sem sentido, o sinal de `amount`
+ * é mantido, como nas linhas vindas do extrato.
+ */
+export function applyTransferDirection(movement: string, amount: number, direction: string | undefined) {
+  if (movement !== "TRANSFERENCIA" || !direction) {
+    return amount;
+  }
+  return direction === "SAIDA" ? -Math.abs(amount) : Math.abs(amount);
+}
+
+/**
+ * Na edição o formulário envia o valor sem sinal. Fora das transferências, que
+ * já trazem o sentido, o lançamento mantém o sinal gravado (linhas importadas
+ * guardam o do extrato) enquanto o movimento não muda.
+ */
+export function keepStoredSign(
+  data: CashEntryInput,
+  stored: { movement: MovementCategory; amount: Prisma.Decimal },
+): CashEntryInput {
+  if (data.movement === "TRANSFERENCIA" || data.movement !== stored.movement) {
+    return data;
+  }
+  const amount = data.amount.abs();
+  return { ...data, amount: stored.amount.isNegative() ? amount.negated() : amount };
+}
+
+/**
+ * Valida o corpo de um lançamento. Usado pela criação, edição e importação
+ * em lote para que todas apliquem as mesmas regras.
+ */
+export function parseCashEntryPayload(
+  payload: CashEntryPayload,
+): { data: CashEntryInput; errors: null } | { data: null; errors: string[] } {
+  const errors: string[] = [];
+
+  const rawDate = typeof payload.date === "string" ? payload.date : "";
+  const rawAmount = payload.amount;
+  const counterpart = typeof payload.counterpart === "string" ? payload.counterpart.trim() : "";
+  const productService = typeof payload.productService === "string" ? payload.productService.trim() : "";
+  const movement = typeof payload.movement === "string" ? payload.movement.toUpperCase().trim() : "";
+  const type = typeof payload.type === "string" ? payload.type.toUpperCase().trim() : "";
+  const paymentMethod = typeof payload.paymentMethod === "string" ? normalizePayment(payload.paymentMethod) : "";
+  const direction = typeof payload.direction === "string" ? normalizePayment(payload.direction) : undefined;
+  const notes = typeof payload.notes === "string" ? payload.notes.trim() : undefined;
+  const externalReference =
+    typeof payload.externalReference === "string" && payload.externalReference.trim()
+      ? payload.externalReference.trim()
+      : undefined;
+  const sourceAccount = typeof payload.sourceAccount === "string" ? payload.sourceAccount.trim() : undefined;
+  const bankAccountId =
+    payload.bankAccountId === undefined
+      ? undefined
+      : payload.bankAccountId === null || payload.bankAccountId === ""
+        ? null
+        : Number(payload.bankAccountId);
+  const categoryId =
+    payload.categoryId === undefined
+      ? undefined
+      : payload.categoryId === null || payload.categoryId === ""
+        ? null
+        : Number(payload.categoryId);
+  const costCenterId =
+    payload.costCenterId === undefined
+      ? undefined
+      : payload.costCenterId === null || payload.costCenterId === ""
+        ? null
+        : Number(payload.costCenterId);
+  const tags = payload.tags === undefined || payload.tags === null ? undefined : normalizeTags(payload.tags);
+
+  if (!rawDate) {
+    errors.push("Informe a data do lançamento.");
+  }
+  if (!counterpart) {
+    errors.push("Informe a empresa ou fornecedor.");
+  }
+  if (!productService) {
+    errors.push("Informe o produto ou serviço.");
+  }
+  if (!VALID_MOVEMENTS.has(movement)) {
+    errors.push("Selecione uma movimentação válida.");
+  }
+  if (!VALID_TYPES.has(type)) {
+    errors.push("Selecione um tipo válido.");
+  }
+  if (!VALID_PAYMENTS.has(paymentMethod)) {
+    errors.push("Selecione uma forma de pagamento válida.");
+  }
+  if (direction !== undefined && !VALID_DIRECTIONS.has(direction)) {
+    errors.push("Selecione o sentido da transferência.");
+  }
+  if (typeof bankAccountId === "number" && (!Number.isInteger(bankAccountId) || bankAccountId <= 0)) {
+    errors.push("Selecione uma conta válida.");
+  }
+  if (typeof categoryId === "number" && (!Number.isInteger(categoryId) || categoryId <= 0)) {
+    errors.push("Selecione uma categoria válida.");
+  }
+  if (typeof costCenterId === "number" && (!Number.isInteger(costCenterId) || costCenterId <= 0)) {
+    errors.push("Selecione um centro de custo válido.");
+  }
+  if (tags === null) {
+    errors.push("Marcadores inválidos.");
+  } else if (tags) {
+    errors.push(...validateTags(tags));
+  }
+
+  const amountNumber = normalizeCurrencyToNumber(rawAmount);
+  if (!Number.isFinite(amountNumber) || amountNumber === 0) {
+    errors.push("Informe um valor válido diferente de zero.");
+  }
+
+  let parsedDate: Date | null = null;
+  if (rawDate) {
+    const testDate = new Date(rawDate);
+    if (Number.isNaN(testDate.getTime())) {
+      errors.push("Data inválida.");
+    } else {
+      parsedDate = testDate;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      date: parsedDate!,
+      counterpart,
+      productService,
+      movement: movement as MovementCategory,
+      type: type as ActivityType,
+      paymentMethod,
+      amount: new Prisma.Decimal(applyTransferDirection(movement, amountNumber, direction)),
+      notes,
+      externalReference,
+      sourceAccount,
+      bankAccountId,
+      categoryId,
+      costCenterId,
+      tags: tags ?? undefined,
+    },
+    errors: null,
+  };
+}
+
+export function formatEntry(entry: CashEntry & { splits?: CashEntrySplit[] }) {
+  return {
+    ...entry,
+    amount: Number(entry.amount),
+    ...(entry.splits ? { splits: entry.splits.map((split) => ({ ...split, amount: Number(split.amount) })) } : {}),
+  };
+}
+
+export type CashEntrySort = "date" | "amount" | "counterpart";
+
+export type CashEntryQuery = {
+  where: Prisma.CashEntryWhereInput;
+  orderBy: Prisma.CashEntryOrderByWithRelationInput[];
+  cursor: number | null;
+  limit: number;
+};
+
+const VALID_SORTS = new Set<CashEntrySort>(["date", "amount", "counterpart"]);
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+function parseList(value: string | null, valid: Set<string>, normalize: (raw: string) => string = (raw) => raw) {
+  if (!value) {
+    return { values: [] as string[], invalid: false };
+  }
+  const values = value
+    .split(",")
+    .map((part) => normalize(part.trim().toUpperCase()))
+    .filter(Boolean);
+  return { values, invalid: values.some((item) => !valid.has(item)) };
+}
+
+function parseQueryDate(value: string | null, endOfDay: boolean) {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return undefined;
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function parseQueryAmount(value: string | null) {
+  if (!value) {
+    return null;
+  }
+  const amount = Math.abs(normalizeCurrencyToNumber(value));
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Filtros, ordenação e página da listagem do livro-caixa. Datas no formato
+ * AAAA-MM-DD incluem o dia final inteiro; movimento, tipo e forma de
+ * pagamento aceitam vários valores separados por vírgula, e marcadores trazem
+ * os lançamentos com qualquer um deles. A faixa de valor
+ * compara o valor absoluto, já que lançamentos importados guardam o sinal.
+ */
+export function parseCashEntryQuery(
+  params: URLSearchParams,
+  companyId: number,
+): { query: CashEntryQuery; errors: null } | { query: null; errors: string[] } {
+  const errors: string[] = [];
+  const conditions: Prisma.CashEntryWhereInput[] = [{ companyId }];
+
+  const start = parseQueryDate(params.get("startDate"), false);
+  const end = parseQueryDate(params.get("endDate"), true);
+  if (start === undefined || end === undefined) {
+    errors.push("Período inválido.");
+  } else if (start || end) {
+    conditions.push({ date: { ...(start ? { gte: start } : {}), ...(end ? { lte: end } : {}) } });
+  }
+
+  const movements = parseList(params.get("movement"), VALID_MOVEMENTS);
+  const types = parseList(params.get("type"), VALID_TYPES);
+  const payments = parseList(params.get("paymentMethod"), VALID_PAYMENTS, normalizePayment);
+  if (movements.invalid) {
+    errors.push("Movimentação inválida.");
+  } else if (movements.values.length > 0) {
+    conditions.push({ movement: { in: movements.values as MovementCategory[] } });
+  }
+  if (types.invalid) {
+    errors.push("Tipo inválido.");
+  } else if (types.values.length > 0) {
+    conditions.push({ type: { in: types.values as ActivityType[] } });
+  }
+  if (payments.invalid) {
+    errors.push("Forma de pagamento inválida.");
+  } else if (payments.values.length > 0) {
+    conditions.push({ paymentMethod: { in: payments.values } });
+  }
+
+  const counterpart = params.get("counterpart")?.trim();
+  if (counterpart) {
+    conditions.push({ counterpart: { contains: counterpart, mode: "insensitive" } });
+  }
+
+  const rawAccount = params.get("bankAccountId");
+  if (rawAccount === "none") {
+    conditions.push({ bankAccountId: null });
+  } else if (rawAccount) {
+    const bankAccountId = Number(rawAccount);
+    if (!Number.isInteger(bankAccountId) || bankAccountId <= 0) {
+      errors.push("Conta inválida.");
+    } else {
+      conditions.push({ bankAccountId });
+    }
+  }
+
+  const rawCostCenter = params.get("costCenterId");
+  if (rawCostCenter === "none") {
+    conditions.push({ costCenterId: null });
+  } else if (rawCostCenter) {
+    const costCenterId = Number(rawCostCenter);
+    if (!Number.isInteger(costCenterId) || costCenterId <= 0) {
+      errors.push("Centro de custo inválido.");
+    } else {
+      conditions.push({ costCenterId });
+    }
+  }
+
+  const tags = normalizeTags(params.get("tags") ?? "");
+  if (tags && tags.length > 0) {
+    conditions.push({ tags: { hasSome: tags } });
+  }
+
+  const minAmount = parseQueryAmount(params.get("minAmount"));
+  const maxAmount = parseQueryAmount(params.get("maxAmount"));
+  if (minAmount === undefined || maxAmount === undefined) {
+    errors.push("Faixa de valor inválida.");
+  } else if (minAmount !== null || maxAmount !== null) {
+    conditions.push({
+      OR: [
+        { amount: { gte: minAmount ?? 0, ...(maxAmount !== null ? { lte: maxAmount } : {}) } },
+        { amount: { lte: -(minAmount ?? 0), ...(maxAmount !== null ? { gte: -maxAmount } : {}) } },
+      ],
+    });
+  }
+
+  const sort = (params.get("sort") ?? "date") as CashEntrySort;
+  const order = params.get("order") ?? "asc";
+  if (!VALID_SORTS.has(sort)) {
+    errors.push("Ordenação inválida.");
+  }
+  if (order !== "asc" && order !== "desc") {
+    errors.push("Ordem inválida.");
+  }
+
+  const rawCursor = params.get("cursor");
+  const cursor = rawCursor ? Number(rawCursor) : null;
+  if (cursor !== null && (!Number.isInteger(cursor) || cursor <= 0)) {
+    errors.push("Cursor inválido.");
+  }
+
+  const rawLimit = params.get("limit");
+  const limit = rawLimit ? Number(rawLimit) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_PAGE_SIZE) {
+    errors.push(`Informe um limite entre 1 e ${MAX_PAGE_SIZE}.`);
+  }
+
+  if (errors.length > 0) {
+    return { query: null, errors };
+  }
+
+  const direction = order as Prisma.SortOrder;
+  return {
+    query: {
+      where: { AND: conditions },
+      // O id desempata a ordenação para o cursor ser estável.
+      orderBy: [{ [sort]: direction }, ...(sort === "date" ? [] : [{ date: direction }]), { id: direction }],
+      cursor,
+      limit,
+    },
+    errors: null,
+  };
+}
+
+/**
+ * Totais do conjunto filtrado (não só da página). Transferências entre
+ * contas ficam fora do saldo, como no livro-caixa.
+ */
+export async function summarizeCashEntries(client: PrismaClient, where: Prisma.CashEntryWhereInput) {
+  const [count, groups] = await Promise.all([client.cashEntry.count({ where }), sumEntryAmounts(client, where)]);
+
+  const totals = createEntryTotals(count);
+  groups.forEach((group) => addToEntryTotals(totals, group.movement, group.total));
+  return totals;
+}
+
+export type EntryTotals = {
+  count: number;
+  entradas: number;
+  despesas: number;
+  compras: number;
+  retiradas: number;
+  transferencias: number;
+  saldo: number;
+};
+
+export function createEntryTotals(count = 0): EntryTotals {
+  return { count, entradas: 0, despesas: 0, compras: 0, retiradas: 0, transferencias: 0, saldo: 0 };
+}
+
+/**
+ * Soma um valor ao total do movimento e recalcula o saldo, que deixa as
+ * transferências de fora.
+ */
+export function addToEntryTotals(totals: EntryTotals, movement: MovementCategory, total: number) {
+  const amount = Math.abs(total);
+  switch (movement) {
+    case "RECEITA":
+      totals.entradas += amount;
+      break;
+    case "DESPESA":
+      totals.despesas += amount;
+      break;
+    case "COMPRA":
+      totals.compras += amount;
+      break;
+    case "RETIRADA":
+      totals.retiradas += amount;
+      break;
+    case "TRANSFERENCIA":
+      totals.transferencias += total;
+      break;
+  }
+  totals.saldo = totals.entradas - totals.despesas - totals.compras - totals.retiradas;
+}
+
+function addToGroup<K>(
+  groups: Map<K, EntryTotals>,
+  key: K,
+  count: number,
+  movement: MovementCategory,
+  total: number,
+) {
+  const totals = groups.get(key) ?? createEntryTotals();
+  totals.count += count;
+  addToEntryTotals(totals, movement, total);
+  groups.set(key, totals);
+}
+
+/**
+ * Totais do conjunto filtrado por centro de custo (`id` null reúne os
+ * lançamentos sem centro) e por marcador. Grupos sem lançamentos ficam de
+ * fora; um lançamento com vários marcadores entra em cada um deles.
+ *
+ * Os lançamentos são agrupados uma vez por centro, conjunto de marcadores e
+ * movimento (separados pelo sinal, como em `sumEntryAmounts`); cada conjunto
+ * de marcadores é então somado em cada um dos seus marcadores.
+ */
+export async function summarizeCashEntryGroups(
+  client: PrismaClient,
+  companyId: number,
+  where: Prisma.CashEntryWhereInput,
+) {
+  const [costCenters, positive, negative] = await Promise.all([
+    client.costCenter.findMany({ where: { companyId }, orderBy: { name: "asc" }, select: { id: true, name: true } }),
+    ...[{ amount: { gte: 0 } }, { amount: { lt: 0 } }].map((sign) =>
+      client.cashEntry.groupBy({
+        by: ["costCenterId", "tags", "movement"],
+        where: { AND: [where, sign] },
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+    ),
+  ]);
+
+  const byCostCenter = new Map<number | null, EntryTotals>();
+  const byTag = new Map<string, EntryTotals>();
+  [...positive, ...negative].forEach((group) => {
+    const total = Number(group._sum.amount ?? 0);
+    addToGroup(byCostCenter, group.costCenterId, group._count._all, group.movement, total);
+    new Set(group.tags).forEach((tag) => addToGroup(byTag, tag, group._count._all, group.movement, total));
+  });
+
+  return {
+    costCenters: [...costCenters, { id: null, name: "Sem centro de custo" }].flatMap((costCenter) => {
+      const totals = byCostCenter.get(costCenter.id);
+      return totals ? [{ id: costCenter.id, name: costCenter.name, ...totals }] : [];
+    }),
+    tags: [...byTag.keys()]
+      .sort((a, b) => a.localeCompare(b, "pt-BR"))
+      .map((tag) => ({ tag, ...byTag.get(tag)! })),
+  };
+}
@@ -0,0 +1,35 @@
+import type { PrismaClient } from "@prisma/client";
+
+export type CostCenterPayload = {
+  name?: unknown;
+  active?: unknown;
+};
+
+export type CostCenterInput = {
+  name: string;
+  active: boolean;
+};
+
+export function parseCostCenterPayload(
+  payload: CostCenterPayload,
+): { data: CostCenterInput; errors: null } | { data: null; errors: string[] } {
+  const name = typeof payload.name === "string" ? payload.name.trim().replace(/\s+/g, " ") : "";
+
+  if (name.length < 2) {
+    return { data: null, errors: ["Informe o nome do centro de custo."] };
+  }
+
+  return { data: { name, active: payload.active !== false }, errors: null };
+}
+
+/**
+ * Confere se todos os centros de custo informados pertencem à empresa.
+ */
+export async function costCentersBelongToCompany(client: PrismaClient, companyId: number, ids: number[]) {
+  const unique = [...new Set(ids)];
+  if (unique.length === 0) {
+    return true;
+  }
+  const count = await client.costCenter.count({ where: { companyId, id: { in: unique } } });
+  return count === unique.length;
+}
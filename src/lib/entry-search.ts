@@ -0,0 +1,71 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { formatEntry } from "./cash-entries";
+
+export const MAX_SEARCH_RESULTS = 100;
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * Converte o texto digitado numa consulta `to_tsquery`: sem acentos, só
+ * letras e números, todos os termos obrigatórios e o último como prefixo
+ * ("fornec" encontra "fornecedor"). Devolve null quando não sobra termo.
+ */
+export function buildSearchQuery(text: string) {
+  const terms = text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .slice(0, MAX_SEARCH_TERMS);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term, index) => (index === terms.length - 1 ? `${term}:*` : term)).join(" & ");
+}
+
+/**
+ * Busca textual (PostgreSQL, dicionário português) nos lançamentos de uma
+ * empresa ou, com `companyId` null, de todas. Resultados por relevância e,
+ * no empate, do mais recente para o mais antigo.
+ */
+export async function searchCashEntries(
+  client: PrismaClient,
+  text: string,
+  companyId: number | null,
+  limit = MAX_SEARCH_RESULTS,
+) {
+  const query = buildSearchQuery(text);
+  if (!query) {
+    return [];
+  }
+
+  const companyFilter = companyId === null ? Prisma.empty : Prisma.sql`AND e."companyId" = ${companyId}`;
+  const ranked = await client.$queryRaw<{ id: number; rank: number }[]>`
+    SELECT e."id", ts_rank(e."searchVector", q) AS "rank"
+    FROM "CashEntry" e, to_tsquery('portuguese', ${query}) q
+    WHERE e."searchVector" @@ q ${companyFilter}
+    ORDER BY "rank" DESC, e."date" DESC, e."id" DESC
+    LIMIT ${limit}
+  `;
+
+  if (ranked.length === 0) {
+    return [];
+  }
+
+  const entries = await client.cashEntry.findMany({
+    where: { id: { in: ranked.map((row) => row.id) } },
+    include: { company: { select: { id: true, name: true } } },
+  });
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+
+  return ranked.flatMap((row) => {
+    const entry = byId.get(row.id);
+    if (!entry) {
+      return [];
+    }
+    const { company, ...rest } = entry;
+    return [{ ...formatEntry(rest), company }];
+  });
+}
@@ -0,0 +1,256 @@
+import { Prisma, type ActivityType, type MovementCategory, type PrismaClient } from "@prisma/client";
+import {
+  VALID_MOVEMENTS,
+  VALID_TYPES,
+  addToEntryTotals,
+  createEntryTotals,
+  formatEntry,
+  keepStoredSign,
+  type CashEntryInput,
+  type EntryTotals,
+} from "./cash-entries";
+import { normalizeCurrencyToNumber } from "./currency";
+import { compareCodes } from "./ledger-categories";
+
+export type EntrySplitPayload = {
+  categoryId?: unknown;
+  type?: unknown;
+  amount?: unknown;
+  notes?: unknown;
+};
+
+export type EntrySplitInput = {
+  categoryId: number | null;
+  type: ActivityType;
+  amount: Prisma.Decimal;
+  notes: string | null;
+};
+
+/** Sem `error`, `entry` é o lançamento gravado com as linhas do desdobramento. */
+type SplitResult = { entry: ReturnType<typeof formatEntry> | null; error: string | null; status?: 400 | 404 };
+
+type EntryLine = {
+  categoryId: number | null;
+  type: ActivityType;
+  movement: MovementCategory;
+  count: number;
+  total: number;
+};
+
+export const MAX_SPLITS = 30;
+
+function toCents(value: Prisma.Decimal | number) {
+  return Math.round(Math.abs(Number(value)) * 100);
+}
+
+function formatCents(cents: number) {
+  return (cents / 100).toFixed(2).replace(".", ",");
+}
+
+/**
+ * Mensagem de erro quando as linhas não somam o valor do lançamento; o sinal
+ * do lançamento não conta, já que as linhas guardam valores positivos.
+ */
+export function splitsMismatch(splits: { amount: Prisma.Decimal | number }[], total: Prisma.Decimal | number) {
+  const sum = splits.reduce((acc, split) => acc + toCents(split.amount), 0);
+  const expected = toCents(total);
+  return sum === expected
+    ? null
+    : `As linhas do desdobramento somam ${formatCents(sum)}, mas o lançamento é de ${formatCents(expected)}.`;
+}
+
+/**
+ * Valida o desdobramento enviado com o lançamento. Sem o campo, a edição
+ * mantém as linhas atuais; uma lista vazia desfaz o desdobramento.
+ */
+export function parseEntrySplits(
+  value: unknown,
+  total: Prisma.Decimal,
+): { data: EntrySplitInput[] | undefined; errors: null } | { data: null; errors: string[] } {
+  if (value === undefined || value === null) {
+    return { data: undefined, errors: null };
+  }
+  if (!Array.isArray(value)) {
+    return { data: null, errors: ["Desdobramento inválido."] };
+  }
+  if (value.length === 0) {
+    return { data: [], errors: null };
+  }
+  if (value.length === 1) {
+    return { data: null, errors: ["Desdobre o lançamento em pelo menos duas linhas."] };
+  }
+  if (value.length > MAX_SPLITS) {
+    return { data: null, errors: [`Desdobre o lançamento em no máximo ${MAX_SPLITS} linhas.`] };
+  }
+
+  const errors: string[] = [];
+  const data = value.map((raw, index): EntrySplitInput => {
+    const line = (raw ?? {}) as EntrySplitPayload;
+    const label = `Linha ${index + 1} do desdobramento:`;
+    const type = typeof line.type === "string" ? line.type.toUpperCase().trim() : "";
+    const amount = normalizeCurrencyToNumber(line.amount);
+    const categoryId =
+      line.categoryId === undefined || line.categoryId === null || line.categoryId === ""
+        ? null
+        : Number(line.categoryId);
+
+    if (!VALID_TYPES.has(type)) {
+      errors.push(`${label} selecione um tipo válido.`);
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      errors.push(`${label} informe um valor maior que zero.`);
+    }
+    if (categoryId !== null && (!Number.isInteger(categoryId) || categoryId <= 0)) {
+      errors.push(`${label} selecione uma categoria válida.`);
+    }
+
+    return {
+      categoryId,
+      type: type as ActivityType,
+      amount: new Prisma.Decimal(Number.isFinite(amount) ? Math.round(amount * 100) / 100 : 0),
+      notes: typeof line.notes === "string" && line.notes.trim() ? line.notes.trim() : null,
+    };
+  });
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  const mismatch = splitsMismatch(data, total);
+  if (mismatch) {
+    return { data: null, errors: [mismatch] };
+  }
+
+  return { data, errors: null };
+}
+
+/**
+ * Atualiza o lançamento e, quando `splits` é informado, substitui o
+ * desdobramento. Sem `splits`, as linhas atuais são mantidas e precisam
+ * continuar somando o valor do lançamento. O sinal gravado é preservado como
+ * em `keepStoredSign`.
+ */
+export async function updateEntryWithSplits(
+  client: PrismaClient,
+  companyId: number,
+  entryId: number,
+  data: CashEntryInput,
+  splits: EntrySplitInput[] | undefined,
+): Promise<SplitResult> {
+  return client.$transaction(async (tx) => {
+    const existing = await tx.cashEntry.findFirst({
+      where: { id: entryId, companyId },
+      select: { movement: true, amount: true, splits: { select: { amount: true } } },
+    });
+    if (!existing) {
+      return { entry: null, error: "Lançamento não encontrado.", status: 404 };
+    }
+    const next = keepStoredSign(data, existing);
+
+    if (splits === undefined && existing.splits.length > 0) {
+      const mismatch = splitsMismatch(existing.splits, next.amount);
+      if (mismatch) {
+        return { entry: null, error: `${mismatch} Ajuste o desdobramento.`, status: 400 };
+      }
+    }
+
+    const entry = await tx.cashEntry.update({
+      where: { id: entryId },
+      data: { ...next, ...(splits ? { splits: { deleteMany: {}, create: splits } } : {}) },
+      include: { splits: { orderBy: { id: "asc" } } },
+    });
+    return { entry: formatEntry(entry), error: null };
+  });
+}
+
+function addLine<K>(groups: Map<K, EntryTotals>, key: K, line: EntryLine) {
+  const totals = groups.get(key) ?? createEntryTotals();
+  totals.count += line.count;
+  addToEntryTotals(totals, line.movement, line.total);
+  groups.set(key, totals);
+}
+
+/**
+ * Totais por categoria e por tipo de atividade contando cada linha do
+ * desdobramento; lançamentos sem desdobramento entram com a própria categoria
+ * e tipo. Como em `sumEntryAmounts`, os valores são somados separados pelo
+ * sinal do lançamento.
+ */
+export async function summarizeEntryLines(client: PrismaClient, where: Prisma.CashEntryWhereInput) {
+  const signs: Prisma.CashEntryWhereInput[] = [{ amount: { gte: 0 } }, { amount: { lt: 0 } }];
+  const movements = [...VALID_MOVEMENTS] as MovementCategory[];
+
+  const [entryGroups, splitGroups] = await Promise.all([
+    Promise.all(
+      signs.map((sign) =>
+        client.cashEntry.groupBy({
+          by: ["categoryId", "type", "movement"],
+          where: { AND: [where, sign, { splits: { none: {} } }] },
+          _sum: { amount: true },
+          _count: { _all: true },
+        }),
+      ),
+    ),
+    Promise.all(
+      movements.flatMap((movement) =>
+        signs.map(async (sign, index) => {
+          const groups = await client.cashEntrySplit.groupBy({
+            by: ["categoryId", "type"],
+            where: { cashEntry: { AND: [where, sign, { movement }] } },
+            _sum: { amount: true },
+            _count: { _all: true },
+          });
+          // As linhas guardam valores positivos; o sinal vem do lançamento.
+          return groups.map(
+            (group): EntryLine => ({
+              categoryId: group.categoryId,
+              type: group.type,
+              movement,
+              count: group._count._all,
+              total: (index === 0 ? 1 : -1) * Number(group._sum.amount ?? 0),
+            }),
+          );
+        }),
+      ),
+    ),
+  ]);
+
+  const lines: EntryLine[] = [
+    ...entryGroups.flat().map((group) => ({
+      categoryId: group.categoryId,
+      type: group.type,
+      movement: group.movement,
+      count: group._count._all,
+      total: Number(group._sum.amount ?? 0),
+    })),
+    ...splitGroups.flat(),
+  ];
+
+  const byCategory = new Map<number | null, EntryTotals>();
+  const byType = new Map<ActivityType, EntryTotals>();
+  lines.forEach((line) => {
+    addLine(byCategory, line.categoryId, line);
+    addLine(byType, line.type, line);
+  });
+
+  const categoryIds = [...byCategory.keys()].filter((id): id is number => id !== null);
+  const categories =
+    categoryIds.length > 0
+      ? await client.ledgerCategory.findMany({
+          where: { id: { in: categoryIds } },
+          select: { id: true, code: true, name: true },
+        })
+      : [];
+
+  return {
+    categories: [
+      ...categories
+        .sort((a, b) => compareCodes(a.code, b.code))
+        .map((category) => ({ ...category, ...byCategory.get(category.id)! })),
+      ...(byCategory.has(null) ? [{ id: null, code: null, name: "Sem categoria", ...byCategory.get(null)! }] : []),
+    ],
+    types: ([...VALID_TYPES] as ActivityType[])
+      .filter((type) => byType.has(type))
+      .map((type) => ({ type, ...byType.get(type)! })),
+  };
+}
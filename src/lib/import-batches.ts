@@ -0,0 +1,95 @@
+import { Prisma } from "@prisma/client";
+import type { CashEntryInput } from "./cash-entries";
+
+export type ImportBatchPayload = {
+  filename?: unknown;
+  format?: unknown;
+  account?: unknown;
+};
+
+type ImportBatchAccount = {
+  bankId?: unknown;
+  branchId?: unknown;
+  accountId?: unknown;
+  type?: unknown;
+};
+
+/**
+ * Gravar, atualizar ou desfazer um lote inteiro de lançamentos (com o extrato
+ * e os desdobramentos) passa com folga dos 5s padrão das transações
+ * interativas do Prisma.
+ */
+export const BULK_TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 60_000 };
+
+export const importBatchSelect = {
+  id: true,
+  companyId: true,
+  filename: true,
+  format: true,
+  bankId: true,
+  branchId: true,
+  accountId: true,
+  accountType: true,
+  rowCount: true,
+  totalIncome: true,
+  totalExpense: true,
+  createdAt: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.ImportBatchSelect;
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Monta os dados do lote a partir do cabeçalho enviado pela pré-visualização
+ * e dos lançamentos já validados.
+ */
+export function buildImportBatchData(
+  payload: ImportBatchPayload,
+  rows: CashEntryInput[],
+  companyId: number,
+  userId: number | null,
+): Prisma.ImportBatchUncheckedCreateInput {
+  const account = (payload.account && typeof payload.account === "object" ? payload.account : {}) as ImportBatchAccount;
+
+  const totals = rows.reduce(
+    (acc, row) => {
+      const amount = Math.abs(Number(row.amount));
+      if (row.movement === "RECEITA") {
+        acc.income += amount;
+      } else if (row.movement !== "TRANSFERENCIA") {
+        acc.expense += amount;
+      }
+      return acc;
+    },
+    { income: 0, expense: 0 },
+  );
+
+  return {
+    companyId,
+    userId,
+    filename: optionalText(payload.filename) ?? "extrato",
+    format: optionalText(payload.format)?.toLowerCase() ?? "desconhecido",
+    bankId: optionalText(account.bankId),
+    branchId: optionalText(account.branchId),
+    accountId: optionalText(account.accountId),
+    accountType: optionalText(account.type),
+    rowCount: rows.length,
+    totalIncome: new Prisma.Decimal(totals.income.toFixed(2)),
+    totalExpense: new Prisma.Decimal(totals.expense.toFixed(2)),
+  };
+}
+
+export function formatImportBatch(batch: Prisma.ImportBatchGetPayload<{ select: typeof importBatchSelect }>) {
+  return {
+    ...batch,
+    totalIncome: Number(batch.totalIncome),
+    totalExpense: Number(batch.totalExpense),
+  };
+}
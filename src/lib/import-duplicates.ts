@@ -0,0 +1,173 @@
+import type { PrismaClient } from "@prisma/client";
+
+export type DuplicateMatch = "reference" | "fingerprint";
+
+type ImportCandidate = {
+  date: string;
+  amount: number;
+  reference: string;
+  counterpart: string;
+};
+
+type StatementAccount = {
+  bankId?: string;
+  branchId?: string;
+  accountId?: string;
+};
+
+function normalizeKeyText(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+export function buildSourceAccountKey(account?: StatementAccount) {
+  if (!account) {
+    return "";
+  }
+  return [account.bankId, account.branchId, account.accountId]
+    .map((part) => (part ?? "").trim())
+    .filter(Boolean)
+    .join("/");
+}
+
+/**
+ * Impressão digital usada quando o banco não fornece identificador:
+ * dia + valor absoluto + sentido + contraparte normalizada.
+ */
+export function buildFingerprint(date: string, amount: number, incoming: boolean, counterpart: string) {
+  return [date.slice(0, 10), Math.abs(amount).toFixed(2), incoming ? "E" : "S", normalizeKeyText(counterpart)].join("|");
+}
+
+/**
+ * Retorna, para cada transação do extrato, se ela já existe no livro-caixa
+ * da empresa — pelo identificador externo ou, só nas linhas sem
+ * identificador, pela impressão digital.
+ */
+export async function findDuplicateTransactions(
+  client: PrismaClient,
+  companyId: number,
+  sourceAccount: string,
+  transactions: ImportCandidate[],
+): Promise<(DuplicateMatch | null)[]> {
+  const dated = transactions.filter((transaction) => transaction.date);
+  if (dated.length === 0) {
+    return transactions.map(() => null);
+  }
+
+  const dates = dated.map((transaction) => transaction.date).sort();
+  const start = new Date(`${dates[0]}T00:00:00.000Z`);
+  const end = new Date(`${dates[dates.length - 1]}T23:59:59.999Z`);
+  const references = transactions.map((transaction) => transaction.reference).filter(Boolean);
+
+  const existing = await client.cashEntry.findMany({
+    where: {
+      companyId,
+      OR: [
+        { date: { gte: start, lte: end } },
+        ...(references.length > 0 ? [{ sourceAccount, externalReference: { in: references } }] : []),
+      ],
+    },
+    select: {
+      date: true,
+      amount: true,
+      movement: true,
+      counterpart: true,
+      externalReference: true,
+      sourceAccount: true,
+    },
+  });
+
+  const knownReferences = new Set(
+    existing
+      .filter((entry) => entry.externalReference && entry.sourceAccount === sourceAccount)
+      .map((entry) => entry.externalReference as string),
+  );
+
+  const fingerprintCounts = new Map<string, number>();
+  existing.forEach((entry) => {
+    const key = buildFingerprint(
+      entry.date.toISOString(),
+      Number(entry.amount),
+      // Transferências guardam o sentido no sinal do valor importado.
+      entry.movement === "TRANSFERENCIA" ? Number(entry.amount) >= 0 : entry.movement === "RECEITA",
+      entry.counterpart,
+    );
+    fingerprintCounts.set(key, (fingerprintCounts.get(key) ?? 0) + 1);
+  });
+
+  return transactions.map((transaction) => {
+    // Com identificador do banco, só ele decide: dois PIX iguais no mesmo dia
+    // para o mesmo fornecedor são lançamentos distintos.
+    if (transaction.reference) {
+      return knownReferences.has(transaction.reference) ? "reference" : null;
+    }
+    if (!transaction.date) {
+      return null;
+    }
+
+    const key = buildFingerprint(transaction.date, transaction.amount, transaction.amount >= 0, transaction.counterpart);
+    const remaining = fingerprintCounts.get(key) ?? 0;
+    if (remaining > 0) {
+      // Cada lançamento existente só "absorve" uma linha do extrato.
+      fingerprintCounts.set(key, remaining - 1);
+      return "fingerprint";
+    }
+    return null;
+  });
+}
+
+/**
+ * Linhas do lote que a restrição única de (conta de origem, identificador
+ * externo) recusaria: o identificador já existe na empresa para a mesma conta
+ * ou se repete no próprio lote. Devolve o motivo de cada linha pelo índice.
+ */
+export async function findReferenceConflicts(
+  client: PrismaClient,
+  companyId: number,
+  rows: { sourceAccount?: string; externalReference?: string }[],
+): Promise<{ index: number; error: string }[]> {
+  const byAccount = new Map<string, string[]>();
+  rows.forEach((row) => {
+    if (row.externalReference) {
+      const references = byAccount.get(row.sourceAccount ?? "") ?? [];
+      references.push(row.externalReference);
+      byAccount.set(row.sourceAccount ?? "", references);
+    }
+  });
+  if (byAccount.size === 0) {
+    return [];
+  }
+
+  const existing = await client.cashEntry.findMany({
+    where: {
+      companyId,
+      OR: [...byAccount].map(([sourceAccount, references]) => ({
+        sourceAccount,
+        externalReference: { in: references },
+      })),
+    },
+    select: { sourceAccount: true, externalReference: true },
+  });
+
+  const keyOf = (sourceAccount: string, reference: string) => `${sourceAccount}\u0000${reference}`;
+  const known = new Set(existing.map((entry) => keyOf(entry.sourceAccount, entry.externalReference ?? "")));
+  const seen = new Set<string>();
+  const conflicts: { index: number; error: string }[] = [];
+
+  rows.forEach((row, index) => {
+    if (!row.externalReference) {
+      return;
+    }
+    const key = keyOf(row.sourceAccount ?? "", row.externalReference);
+    if (known.has(key)) {
+      conflicts.push({ index, error: `Identificador ${row.externalReference} já importado para esta conta.` });
+    } else if (seen.has(key)) {
+      conflicts.push({ index, error: `Identificador ${row.externalReference} repetido no arquivo.` });
+    }
+    seen.add(key);
+  });
+  return conflicts;
+}
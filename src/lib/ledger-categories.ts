@@ -0,0 +1,254 @@
+import { Prisma, type LedgerCategory, type MovementCategory, type PrismaClient } from "@prisma/client";
+import { VALID_MOVEMENTS } from "./cash-entries";
+
+export type LedgerCategoryPayload = {
+  code?: unknown;
+  name?: unknown;
+  movement?: unknown;
+  active?: unknown;
+};
+
+export type LedgerCategoryInput = {
+  code: string;
+  name: string;
+  movement: MovementCategory | null;
+  active: boolean;
+};
+
+/**
+ * `companyId` null é o modelo padrão; um número, o plano da empresa.
+ */
+export type ChartScope = number | null;
+
+/** Sem `error`, `category` é a categoria gravada ou excluída. */
+type ChartResult = { category: LedgerCategory | null; error: string | null; status?: 404 | 409 };
+
+const CODE_PATTERN = /^\d+(\.\d+)*$/;
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Código da conta pai: "3.01" fica sob "3"; contas de um nível não têm pai.
+ */
+export function parentCode(code: string) {
+  const index = code.lastIndexOf(".");
+  return index === -1 ? null : code.slice(0, index);
+}
+
+/** Ordena pelos números de cada nível, para "10" vir depois de "9". */
+export function compareCodes(a: string, b: string) {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let index = 0; index < Math.min(left.length, right.length); index += 1) {
+    if (left[index] !== right[index]) {
+      return left[index] - right[index];
+    }
+  }
+  return left.length - right.length;
+}
+
+export function parseLedgerCategoryPayload(
+  payload: LedgerCategoryPayload,
+): { data: LedgerCategoryInput; errors: null } | { data: null; errors: string[] } {
+  const errors: string[] = [];
+
+  const code = optionalText(payload.code) ?? "";
+  const name = optionalText(payload.name) ?? "";
+  const movement = typeof payload.movement === "string" ? payload.movement.toUpperCase().trim() : "";
+
+  if (!CODE_PATTERN.test(code)) {
+    errors.push("Informe um código no formato 3 ou 3.01.");
+  }
+  if (name.length < 2) {
+    errors.push("Informe o nome da categoria.");
+  }
+  if (movement && !VALID_MOVEMENTS.has(movement)) {
+    errors.push("Selecione uma movimentação válida.");
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      code,
+      name,
+      movement: (movement || null) as MovementCategory | null,
+      active: payload.active !== false,
+    },
+    errors: null,
+  };
+}
+
+/**
+ * Categorias do plano (da empresa ou do modelo padrão) na ordem dos códigos.
+ */
+export async function loadLedgerCategories(client: PrismaClient, companyId: ChartScope) {
+  const categories = await client.ledgerCategory.findMany({ where: { companyId } });
+  return categories.sort((a, b) => compareCodes(a.code, b.code));
+}
+
+/**
+ * Copia o modelo padrão para a empresa que ainda não tem plano de contas.
+ * A partir daí as alterações da empresa não afetam o modelo nem as demais.
+ */
+export async function ensureCompanyChart(client: PrismaClient, companyId: number) {
+  const existing = await client.ledgerCategory.count({ where: { companyId } });
+  if (existing > 0) {
+    return;
+  }
+
+  const template = await loadLedgerCategories(client, null);
+  try {
+    await client.$transaction(async (tx) => {
+      const idsByCode = new Map<string, number>();
+      // Pais vêm antes dos filhos na ordem dos códigos.
+      for (const category of template) {
+        const parent = parentCode(category.code);
+        const created = await tx.ledgerCategory.create({
+          data: {
+            companyId,
+            parentId: parent ? (idsByCode.get(parent) ?? null) : null,
+            code: category.code,
+            name: category.name,
+            movement: category.movement,
+            active: category.active,
+          },
+        });
+        idsByCode.set(created.code, created.id);
+      }
+    });
+  } catch (error) {
+    // Outra requisição copiou o modelo ao mesmo tempo.
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) {
+      throw error;
+    }
+  }
+}
+
+async function resolveParent(tx: Prisma.TransactionClient, companyId: ChartScope, code: string) {
+  const parent = parentCode(code);
+  if (!parent) {
+    return { parentId: null };
+  }
+  const found = await tx.ledgerCategory.findFirst({ where: { companyId, code: parent }, select: { id: true } });
+  return found ? { parentId: found.id } : null;
+}
+
+/**
+ * Inclui a categoria sob a conta pai indicada pelo código, que precisa
+ * existir no mesmo plano.
+ */
+export async function createLedgerCategory(
+  client: PrismaClient,
+  companyId: ChartScope,
+  data: LedgerCategoryInput,
+): Promise<ChartResult> {
+  return client.$transaction(async (tx) => {
+    const duplicate = await tx.ledgerCategory.findFirst({ where: { companyId, code: data.code }, select: { id: true } });
+    if (duplicate) {
+      return { category: null, error: `Já existe uma categoria com o código ${data.code}.`, status: 409 };
+    }
+    const parent = await resolveParent(tx, companyId, data.code);
+    if (!parent) {
+      return { category: null, error: `Cadastre antes a categoria ${parentCode(data.code)}.`, status: 409 };
+    }
+    const category = await tx.ledgerCategory.create({ data: { companyId, ...parent, ...data } });
+    return { category, error: null };
+  });
+}
+
+/**
+ * Atualiza a categoria. O código só muda enquanto ela não tiver
+ * subcategorias, para a hierarquia continuar seguindo os códigos.
+ */
+export async function updateLedgerCategory(
+  client: PrismaClient,
+  companyId: ChartScope,
+  categoryId: number,
+  data: LedgerCategoryInput,
+): Promise<ChartResult> {
+  return client.$transaction(async (tx) => {
+    const existing = await tx.ledgerCategory.findFirst({
+      where: { id: categoryId, companyId },
+      include: { _count: { select: { children: true } } },
+    });
+    if (!existing) {
+      return { category: null, error: "Categoria não encontrada.", status: 404 };
+    }
+
+    if (existing.code === data.code) {
+      const category = await tx.ledgerCategory.update({ where: { id: categoryId }, data });
+      return { category, error: null };
+    }
+
+    if (existing._count.children > 0) {
+      return {
+        category: null,
+        error: "Não é possível alterar o código de uma categoria com subcategorias.",
+        status: 409,
+      };
+    }
+    const duplicate = await tx.ledgerCategory.findFirst({ where: { companyId, code: data.code }, select: { id: true } });
+    if (duplicate) {
+      return { category: null, error: `Já existe uma categoria com o código ${data.code}.`, status: 409 };
+    }
+    const parent = await resolveParent(tx, companyId, data.code);
+    if (!parent) {
+      return { category: null, error: `Cadastre antes a categoria ${parentCode(data.code)}.`, status: 409 };
+    }
+    const category = await tx.ledgerCategory.update({ where: { id: categoryId }, data: { ...parent, ...data } });
+    return { category, error: null };
+  });
+}
+
+/**
+ * Categorias com subcategorias, lançamentos (inclusive linhas de
+ * desdobramento) ou regras não são excluídas; nesse caso devem ser desativadas.
+ */
+export async function deleteLedgerCategory(
+  client: PrismaClient,
+  companyId: ChartScope,
+  categoryId: number,
+): Promise<ChartResult> {
+  return client.$transaction(async (tx) => {
+    const existing = await tx.ledgerCategory.findFirst({
+      where: { id: categoryId, companyId },
+      include: { _count: { select: { children: true, cashEntries: true, splits: true, rules: true } } },
+    });
+    if (!existing) {
+      return { category: null, error: "Categoria não encontrada.", status: 404 };
+    }
+
+    const { children, cashEntries, splits, rules } = existing._count;
+    if (children > 0) {
+      return { category: null, error: "A categoria possui subcategorias. Desative-a em vez de excluir.", status: 409 };
+    }
+    const entries = cashEntries + splits;
+    if (entries > 0 || rules > 0) {
+      return {
+        category: null,
+        error: `A categoria é usada em ${entries} lançamento(s) e ${rules} regra(s). Desative-a em vez de excluir.`,
+        status: 409,
+      };
+    }
+
+    const category = await tx.ledgerCategory.delete({ where: { id: categoryId } });
+    return { category, error: null };
+  });
+}
+
+/**
+ * Confere se todas as categorias informadas pertencem ao plano da empresa.
+ */
+export async function categoriesBelongToCompany(client: PrismaClient, companyId: number, ids: number[]) {
+  const unique = [...new Set(ids)];
+  if (unique.length === 0) {
+    return true;
+  }
+  const count = await client.ledgerCategory.count({ where: { companyId, id: { in: unique } } });
+  return count === unique.length;
+}
@@ -0,0 +1,312 @@
+import { Prisma, type BankAccount, type PrismaClient } from "@prisma/client";
+import { computeCarriedBalance, signedEntryAmount } from "./balances";
+import { normalizeCurrencyToNumber } from "./currency";
+import { buildFingerprint } from "./import-duplicates";
+
+export type ReconciliationStatus = "PENDENTE" | "DIVERGENTE" | "CONCILIADO";
+
+/** Extrato enviado junto com a importação em lote. */
+export type StatementPayload = {
+  bankAccountId?: unknown;
+  ledgerBalance?: unknown;
+  /** Fim do período do extrato (DTEND no OFX). */
+  endDate?: unknown;
+  transactions?: unknown;
+};
+
+export type StatementLineInput = {
+  date: Date;
+  amount: Prisma.Decimal;
+  description: string;
+  reference: string;
+};
+
+export type ParsedStatementPayload = {
+  bankAccountId: number;
+  /** `month` é o mês de referência da conciliação que recebe o saldo. */
+  ledgerBalance: { amount: Prisma.Decimal; date: Date; month: Date } | null;
+  lines: StatementLineInput[];
+};
+
+export type MonthRange = {
+  start: Date;
+  end: Date;
+};
+
+// Diferença máxima entre a data do extrato e a do lançamento para casar
+// automaticamente pelo valor (compensação de boletos, cheques e fins de semana).
+const AUTO_MATCH_DAY_TOLERANCE = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Casar um mês cheio atualiza linha a linha e pode passar dos 5s padrão. */
+export const AUTO_MATCH_TIMEOUT_MS = 60_000;
+
+function toCents(value: number) {
+  return Math.round(value * 100);
+}
+
+function parseDate(value: unknown) {
+  if (typeof value !== "string" || !value) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Mês no formato AAAA-MM, em UTC como as datas dos lançamentos. */
+export function parseMonth(value: string | null): MonthRange | null {
+  const match = value?.match(/^(\d{4})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) {
+    return null;
+  }
+  return { start: new Date(Date.UTC(year, month - 1, 1)), end: new Date(Date.UTC(year, month, 1)) };
+}
+
+export function monthOf(date: Date): MonthRange {
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Valida o extrato enviado na importação. Linhas sem data ou valor são
+ * descartadas; sem identificador do banco, a linha usa a impressão digital
+ * também usada na detecção de duplicados. Como lá, linhas iguais contam como
+ * lançamentos distintos: a segunda em diante recebe o número da ocorrência
+ * (`…#2`), e reimportar o mesmo extrato gera os mesmos identificadores.
+ *
+ * O saldo final vale para o mês da última linha do extrato. A data do saldo
+ * (DTASOF) costuma ser a da geração do arquivo, já no mês seguinte, e só é
+ * usada quando não há linhas nem fim de período.
+ */
+export function parseStatementPayload(payload: StatementPayload | undefined): ParsedStatementPayload | null {
+  const bankAccountId = Number(payload?.bankAccountId);
+  if (!payload || !Number.isInteger(bankAccountId) || bankAccountId <= 0) {
+    return null;
+  }
+
+  const lines: StatementLineInput[] = [];
+  const fingerprintCounts = new Map<string, number>();
+  const transactions = Array.isArray(payload.transactions) ? payload.transactions : [];
+  transactions.forEach((raw) => {
+    const transaction = (raw ?? {}) as Record<string, unknown>;
+    const date = parseDate(transaction.date);
+    const amount = normalizeCurrencyToNumber(transaction.amount);
+    if (!date || !Number.isFinite(amount)) {
+      return;
+    }
+    const description = typeof transaction.description === "string" ? transaction.description.trim() : "";
+    let reference = typeof transaction.reference === "string" ? transaction.reference.trim() : "";
+    if (!reference) {
+      const fingerprint = buildFingerprint(date.toISOString(), amount, amount >= 0, description);
+      const occurrence = (fingerprintCounts.get(fingerprint) ?? 0) + 1;
+      fingerprintCounts.set(fingerprint, occurrence);
+      reference = occurrence > 1 ? `${fingerprint}#${occurrence}` : fingerprint;
+    }
+    lines.push({ date, amount: new Prisma.Decimal(amount.toFixed(2)), description, reference });
+  });
+
+  const balance = (payload.ledgerBalance ?? null) as { amount?: unknown; date?: unknown } | null;
+  const balanceAmount = balance ? normalizeCurrencyToNumber(balance.amount) : NaN;
+  const balanceDate = balance ? parseDate(balance.date) : null;
+  const lastLineDate = lines.reduce<Date | null>((latest, line) => (latest && latest >= line.date ? latest : line.date), null);
+  const referenceDate = lastLineDate ?? parseDate(payload.endDate) ?? balanceDate;
+
+  return {
+    bankAccountId,
+    ledgerBalance:
+      balanceDate && Number.isFinite(balanceAmount)
+        ? {
+            amount: new Prisma.Decimal(balanceAmount.toFixed(2)),
+            date: balanceDate,
+            month: monthOf(referenceDate!).start,
+          }
+        : null,
+    lines,
+  };
+}
+
+/**
+ * Grava as linhas do extrato e o saldo final informado pelo banco. Linhas já
+ * importadas para a conta (mesmo identificador) são ignoradas.
+ */
+export async function saveStatement(
+  client: Prisma.TransactionClient,
+  statement: ParsedStatementPayload,
+  importBatchId: number | null,
+) {
+  if (statement.lines.length > 0) {
+    await client.statementLine.createMany({
+      data: statement.lines.map((line) => ({ bankAccountId: statement.bankAccountId, importBatchId, ...line })),
+      skipDuplicates: true,
+    });
+  }
+
+  if (statement.ledgerBalance) {
+    const { month } = statement.ledgerBalance;
+    await client.bankReconciliation.upsert({
+      where: { bankAccountId_month: { bankAccountId: statement.bankAccountId, month } },
+      create: {
+        bankAccountId: statement.bankAccountId,
+        month,
+        statementBalance: statement.ledgerBalance.amount,
+      },
+      update: { statementBalance: statement.ledgerBalance.amount },
+    });
+  }
+}
+
+/**
+ * Casa automaticamente as linhas do extrato ainda pendentes no período com
+ * lançamentos da mesma conta: primeiro pelo identificador (FITID) e valor,
+ * depois pelo mesmo valor na data mais próxima dentro da tolerância.
+ * Retorna quantas linhas foram casadas.
+ */
+export async function autoMatchStatementLines(
+  client: Prisma.TransactionClient,
+  bankAccountId: number,
+  range: MonthRange,
+) {
+  const lines = await client.statementLine.findMany({
+    where: { bankAccountId, cashEntryId: null, date: { gte: range.start, lt: range.end } },
+    orderBy: [{ date: "asc" }, { id: "asc" }],
+  });
+  if (lines.length === 0) {
+    return 0;
+  }
+
+  const entries = await client.cashEntry.findMany({
+    where: {
+      bankAccountId,
+      statementLine: { is: null },
+      date: {
+        gte: new Date(range.start.getTime() - AUTO_MATCH_DAY_TOLERANCE * DAY_MS),
+        lt: new Date(range.end.getTime() + AUTO_MATCH_DAY_TOLERANCE * DAY_MS),
+      },
+    },
+    select: { id: true, date: true, movement: true, amount: true, externalReference: true },
+    orderBy: { id: "asc" },
+  });
+
+  const available = entries.map((entry) => ({
+    ...entry,
+    cents: toCents(signedEntryAmount(entry.movement, Number(entry.amount))),
+  }));
+  const used = new Set<number>();
+  const pairs: { lineId: number; entryId: number }[] = [];
+  const pending: typeof lines = [];
+
+  lines.forEach((line) => {
+    const cents = toCents(Number(line.amount));
+    const byReference = available.find(
+      (entry) => !used.has(entry.id) && entry.externalReference === line.reference && entry.cents === cents,
+    );
+    if (byReference) {
+      used.add(byReference.id);
+      pairs.push({ lineId: line.id, entryId: byReference.id });
+    } else {
+      pending.push(line);
+    }
+  });
+
+  pending.forEach((line) => {
+    const cents = toCents(Number(line.amount));
+    let best: { id: number; distance: number } | null = null;
+    for (const entry of available) {
+      if (used.has(entry.id) || entry.cents !== cents) {
+        continue;
+      }
+      const distance = Math.abs(entry.date.getTime() - line.date.getTime());
+      if (distance <= AUTO_MATCH_DAY_TOLERANCE * DAY_MS && (!best || distance < best.distance)) {
+        best = { id: entry.id, distance };
+      }
+    }
+    if (best) {
+      used.add(best.id);
+      pairs.push({ lineId: line.id, entryId: best.id });
+    }
+  });
+
+  const matchedAt = new Date();
+  for (const pair of pairs) {
+    await client.statementLine.update({
+      where: { id: pair.lineId },
+      data: { cashEntryId: pair.entryId, matchSource: "AUTO", matchedAt },
+    });
+  }
+
+  return pairs.length;
+}
+
+/**
+ * Situação da conciliação da conta no mês. Só fica CONCILIADO quando o saldo
+ * final do livro-caixa é igual ao saldo informado pelo banco.
+ */
+export async function loadReconciliation(
+  client: PrismaClient,
+  account: Pick<BankAccount, "id" | "companyId">,
+  range: MonthRange,
+) {
+  const [reconciliation, lines, entries, opening, closing] = await Promise.all([
+    client.bankReconciliation.findUnique({
+      where: { bankAccountId_month: { bankAccountId: account.id, month: range.start } },
+    }),
+    client.statementLine.findMany({
+      where: { bankAccountId: account.id, date: { gte: range.start, lt: range.end } },
+      orderBy: [{ date: "asc" }, { id: "asc" }],
+    }),
+    client.cashEntry.findMany({
+      where: { bankAccountId: account.id, date: { gte: range.start, lt: range.end } },
+      include: { statementLine: { select: { id: true } } },
+      orderBy: [{ date: "asc" }, { id: "asc" }],
+    }),
+    computeCarriedBalance(client, account.companyId, account.id, range.start),
+    computeCarriedBalance(client, account.companyId, account.id, range.end),
+  ]);
+
+  const statementBalance =
+    reconciliation?.statementBalance === null || reconciliation?.statementBalance === undefined
+      ? null
+      : Number(reconciliation.statementBalance);
+  const ledgerClosing = closing?.balance ?? 0;
+  const difference = statementBalance === null ? null : (toCents(statementBalance) - toCents(ledgerClosing)) / 100;
+
+  const status: ReconciliationStatus =
+    difference === null ? "PENDENTE" : difference === 0 ? "CONCILIADO" : "DIVERGENTE";
+
+  return {
+    month: range.start.toISOString().slice(0, 7),
+    status,
+    statementBalance,
+    ledgerOpening: opening?.balance ?? 0,
+    ledgerClosing,
+    difference,
+    unmatchedLines: lines.filter((line) => line.cashEntryId === null).length,
+    unmatchedEntries: entries.filter((entry) => !entry.statementLine).length,
+    lines: lines.map((line) => ({
+      id: line.id,
+      date: line.date,
+      amount: Number(line.amount),
+      description: line.description,
+      reference: line.reference,
+      cashEntryId: line.cashEntryId,
+      matchSource: line.matchSource,
+    })),
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      date: entry.date,
+      counterpart: entry.counterpart,
+      productService: entry.productService,
+      movement: entry.movement,
+      amount: signedEntryAmount(entry.movement, Number(entry.amount)),
+      externalReference: entry.externalReference,
+      statementLineId: entry.statementLine?.id ?? null,
+    })),
+  };
+}
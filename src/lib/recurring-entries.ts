@@ -0,0 +1,490 @@
+import {
+  Prisma,
+  type ActivityType,
+  type MovementCategory,
+  type PrismaClient,
+  type RecurrenceFrequency,
+  type RecurringEntry,
+  type RecurringOccurrence,
+  type RecurringOccurrenceStatus,
+} from "@prisma/client";
+import { bankAccountsBelongToCompany } from "./bank-accounts";
+import {
+  VALID_DIRECTIONS,
+  VALID_MOVEMENTS,
+  VALID_PAYMENTS,
+  VALID_TYPES,
+  applyTransferDirection,
+  normalizePayment,
+} from "./cash-entries";
+import { costCentersBelongToCompany } from "./cost-centers";
+import { normalizeCurrencyToNumber } from "./currency";
+import { categoriesBelongToCompany } from "./ledger-categories";
+
+export type RecurringEntryPayload = {
+  counterpart?: unknown;
+  productService?: unknown;
+  movement?: unknown;
+  type?: unknown;
+  paymentMethod?: unknown;
+  amount?: unknown;
+  /** Sentido de uma transferência, como em `CashEntryPayload`. */
+  direction?: unknown;
+  notes?: unknown;
+  bankAccountId?: unknown;
+  categoryId?: unknown;
+  costCenterId?: unknown;
+  frequency?: unknown;
+  dayOfMonth?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+  active?: unknown;
+};
+
+export type RecurringEntryInput = {
+  counterpart: string;
+  productService: string;
+  movement: MovementCategory;
+  type: ActivityType;
+  paymentMethod: string;
+  amount: Prisma.Decimal;
+  notes: string | null;
+  bankAccountId: number | null;
+  categoryId: number | null;
+  costCenterId: number | null;
+  frequency: RecurrenceFrequency;
+  dayOfMonth: number;
+  startDate: Date;
+  endDate: Date | null;
+  active: boolean;
+};
+
+export type OccurrencePayload = {
+  dueDate?: unknown;
+  skipped?: unknown;
+  date?: unknown;
+  amount?: unknown;
+  notes?: unknown;
+};
+
+export type OccurrenceInput = {
+  dueDate: Date;
+  skipped: boolean;
+  date: Date | null;
+  amount: Prisma.Decimal | null;
+  notes: string | null;
+};
+
+/** Ocorrência prevista ainda sem registro segue o modelo como está. */
+export type UpcomingOccurrenceStatus = RecurringOccurrenceStatus | "PREVISTA";
+
+type OccurrenceResult = { occurrence: RecurringOccurrence | null; error: string | null; status?: 400 | 404 | 409 };
+
+type RecurrenceSchedule = Pick<RecurringEntry, "frequency" | "dayOfMonth" | "startDate" | "endDate" | "createdAt">;
+
+export const FREQUENCY_MONTHS: Record<RecurrenceFrequency, number> = {
+  MENSAL: 1,
+  BIMESTRAL: 2,
+  TRIMESTRAL: 3,
+  SEMESTRAL: 6,
+  ANUAL: 12,
+};
+
+const VALID_FREQUENCIES = new Set(Object.keys(FREQUENCY_MONTHS));
+
+/** Meses à frente exibidos na lista de próximas ocorrências. */
+export const UPCOMING_MONTHS = 3;
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function optionalId(value: unknown) {
+  return value === undefined || value === null || value === "" ? null : Number(value);
+}
+
+function parseDate(value: unknown) {
+  const raw = optionalText(value);
+  if (!raw) {
+    return null;
+  }
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/** Meia-noite UTC do dia, como as datas dos lançamentos. */
+export function startOfUtcDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function parseRecurringEntryPayload(
+  payload: RecurringEntryPayload,
+): { data: RecurringEntryInput; errors: null } | { data: null; errors: string[] } {
+  const errors: string[] = [];
+
+  const counterpart = optionalText(payload.counterpart) ?? "";
+  const productService = optionalText(payload.productService) ?? "";
+  const movement = typeof payload.movement === "string" ? payload.movement.toUpperCase().trim() : "";
+  const type = typeof payload.type === "string" ? payload.type.toUpperCase().trim() : "";
+  const paymentMethod = typeof payload.paymentMethod === "string" ? normalizePayment(payload.paymentMethod) : "";
+  const frequency = typeof payload.frequency === "string" ? payload.frequency.toUpperCase().trim() : "MENSAL";
+  const direction = typeof payload.direction === "string" ? normalizePayment(payload.direction) : undefined;
+  const amount = applyTransferDirection(movement, Math.abs(normalizeCurrencyToNumber(payload.amount)), direction);
+  const dayOfMonth = Number(payload.dayOfMonth);
+  const startDate = parseDate(payload.startDate);
+  const endDate = parseDate(payload.endDate);
+  const bankAccountId = optionalId(payload.bankAccountId);
+  const categoryId = optionalId(payload.categoryId);
+  const costCenterId = optionalId(payload.costCenterId);
+
+  if (!counterpart) {
+    errors.push("Informe a empresa ou fornecedor.");
+  }
+  if (!productService) {
+    errors.push("Informe o produto ou serviço.");
+  }
+  if (!VALID_MOVEMENTS.has(movement)) {
+    errors.push("Selecione uma movimentação válida.");
+  }
+  if (!VALID_TYPES.has(type)) {
+    errors.push("Selecione um tipo válido.");
+  }
+  if (!VALID_PAYMENTS.has(paymentMethod)) {
+    errors.push("Selecione uma forma de pagamento válida.");
+  }
+  if (direction !== undefined && !VALID_DIRECTIONS.has(direction)) {
+    errors.push("Selecione o sentido da transferência.");
+  }
+  if (!VALID_FREQUENCIES.has(frequency)) {
+    errors.push("Selecione uma frequência válida.");
+  }
+  if (!Number.isFinite(amount) || amount === 0) {
+    errors.push("Informe um valor válido diferente de zero.");
+  }
+  if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+    errors.push("Informe um dia do mês entre 1 e 31.");
+  }
+  if (!startDate) {
+    errors.push("Informe a data de início.");
+  }
+  if (endDate === undefined) {
+    errors.push("Data de término inválida.");
+  } else if (endDate && startDate && endDate < startDate) {
+    errors.push("A data de término deve ser posterior ao início.");
+  }
+  if (bankAccountId !== null && (!Number.isInteger(bankAccountId) || bankAccountId <= 0)) {
+    errors.push("Selecione uma conta válida.");
+  }
+  if (categoryId !== null && (!Number.isInteger(categoryId) || categoryId <= 0)) {
+    errors.push("Selecione uma categoria válida.");
+  }
+  if (costCenterId !== null && (!Number.isInteger(costCenterId) || costCenterId <= 0)) {
+    errors.push("Selecione um centro de custo válido.");
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      counterpart,
+      productService,
+      movement: movement as MovementCategory,
+      type: type as ActivityType,
+      paymentMethod,
+      amount: new Prisma.Decimal(amount),
+      notes: optionalText(payload.notes),
+      bankAccountId,
+      categoryId,
+      costCenterId,
+      frequency: frequency as RecurrenceFrequency,
+      dayOfMonth,
+      startDate: startOfUtcDay(startDate!),
+      endDate: endDate ? startOfUtcDay(endDate) : null,
+      active: payload.active !== false,
+    },
+    errors: null,
+  };
+}
+
+export function parseOccurrencePayload(
+  payload: OccurrencePayload,
+): { data: OccurrenceInput; errors: null } | { data: null; errors: string[] } {
+  const errors: string[] = [];
+
+  const dueDate = parseDate(payload.dueDate);
+  const date = parseDate(payload.date);
+  const rawAmount = payload.amount;
+  const amount =
+    rawAmount === undefined || rawAmount === null || rawAmount === ""
+      ? null
+      : Math.abs(normalizeCurrencyToNumber(rawAmount));
+
+  if (!dueDate) {
+    errors.push("Informe o vencimento da ocorrência.");
+  }
+  if (date === undefined) {
+    errors.push("Data inválida.");
+  }
+  if (amount !== null && (!Number.isFinite(amount) || amount === 0)) {
+    errors.push("Informe um valor válido diferente de zero.");
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      dueDate: startOfUtcDay(dueDate!),
+      skipped: payload.skipped === true,
+      date: date ? startOfUtcDay(date) : null,
+      amount: amount === null ? null : new Prisma.Decimal(amount),
+      notes: optionalText(payload.notes),
+    },
+    errors: null,
+  };
+}
+
+/**
+ * Confere se conta, categoria e centro de custo do modelo pertencem à
+ * empresa. Devolve a mensagem de erro ou null.
+ */
+export async function validateRecurringReferences(client: PrismaClient, companyId: number, data: RecurringEntryInput) {
+  if (data.bankAccountId !== null && !(await bankAccountsBelongToCompany(client, companyId, [data.bankAccountId]))) {
+    return "Conta não encontrada nesta empresa.";
+  }
+  if (data.categoryId !== null && !(await categoriesBelongToCompany(client, companyId, [data.categoryId]))) {
+    return "Categoria não encontrada no plano de contas da empresa.";
+  }
+  if (data.costCenterId !== null && !(await costCentersBelongToCompany(client, companyId, [data.costCenterId]))) {
+    return "Centro de custo não encontrado nesta empresa.";
+  }
+  return null;
+}
+
+export function formatRecurringEntry(entry: RecurringEntry) {
+  return {
+    ...entry,
+    amount: Number(entry.amount),
+  };
+}
+
+/**
+ * Vencimento no mês indicado (contado a partir de janeiro de `year`, podendo
+ * passar de 11); dias além do fim do mês caem no último dia.
+ */
+function dueDateIn(year: number, month: number, day: number) {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay)));
+}
+
+/**
+ * Vencimentos do modelo entre `from` e `to`, inclusive. A contagem dos meses
+ * parte do mês de início, então um modelo trimestral iniciado em fevereiro
+ * vence em fevereiro, maio, agosto e novembro.
+ */
+export function occurrenceDates(schedule: RecurrenceSchedule, from: Date, to: Date) {
+  const step = FREQUENCY_MONTHS[schedule.frequency];
+  const last = schedule.endDate && schedule.endDate < to ? schedule.endDate : to;
+  const year = schedule.startDate.getUTCFullYear();
+  const month = schedule.startDate.getUTCMonth();
+
+  const dates: Date[] = [];
+  for (let offset = 0; ; offset += step) {
+    const dueDate = dueDateIn(year, month + offset, schedule.dayOfMonth);
+    if (dueDate > last) {
+      break;
+    }
+    if (dueDate >= schedule.startDate && dueDate >= from) {
+      dates.push(dueDate);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Primeiro vencimento que a rotina pode gerar. Vencimentos anteriores ao
+ * cadastro do modelo não são gerados, para não duplicar lançamentos que já
+ * foram digitados à mão.
+ */
+function generationStart(schedule: RecurrenceSchedule) {
+  const created = startOfUtcDay(schedule.createdAt);
+  return created > schedule.startDate ? created : schedule.startDate;
+}
+
+/**
+ * Valor de um vencimento. O ajuste da ocorrência é guardado sem sinal, então
+ * uma transferência de saída continua saindo com o valor ajustado.
+ */
+function occurrenceAmount(template: RecurringEntry, amount: Prisma.Decimal | null | undefined) {
+  if (!amount) {
+    return template.amount;
+  }
+  return template.amount.isNegative() ? amount.abs().negated() : amount;
+}
+
+/**
+ * Gera o lançamento de um vencimento. A ocorrência é marcada como gerada
+ * antes de criar o lançamento; uma execução simultânea encontra o registro
+ * e desiste, sem lançar em dobro. Devolve se o lançamento foi criado.
+ */
+async function materializeOccurrence(client: PrismaClient, template: RecurringEntry, dueDate: Date) {
+  try {
+    return await client.$transaction(async (tx) => {
+      const key = { recurringEntryId_dueDate: { recurringEntryId: template.id, dueDate } };
+      const existing = await tx.recurringOccurrence.findUnique({ where: key });
+      if (existing) {
+        const { count } = await tx.recurringOccurrence.updateMany({
+          where: { id: existing.id, status: "PENDENTE" },
+          data: { status: "GERADA" },
+        });
+        if (count === 0) {
+          return false;
+        }
+      } else {
+        await tx.recurringOccurrence.create({ data: { recurringEntryId: template.id, dueDate, status: "GERADA" } });
+      }
+
+      const entry = await tx.cashEntry.create({
+        data: {
+          companyId: template.companyId,
+          date: existing?.date ?? dueDate,
+          counterpart: template.counterpart,
+          productService: template.productService,
+          movement: template.movement,
+          type: template.type,
+          paymentMethod: template.paymentMethod,
+          amount: occurrenceAmount(template, existing?.amount),
+          notes: existing?.notes ?? template.notes,
+          bankAccountId: template.bankAccountId,
+          categoryId: template.categoryId,
+          costCenterId: template.costCenterId,
+        },
+      });
+      await tx.recurringOccurrence.update({ where: key, data: { cashEntryId: entry.id } });
+      return true;
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Gera os lançamentos vencidos até `today` dos modelos ativos, de uma empresa
+ * ou, sem `companyId`, de todas. Ocorrências puladas ou já geradas ficam de
+ * fora, então a rotina pode rodar várias vezes no mesmo dia. Um modelo com
+ * erro não interrompe os demais.
+ */
+export async function generateRecurringEntries(client: PrismaClient, today: Date, companyId?: number) {
+  const templates = await client.recurringEntry.findMany({
+    where: { active: true, startDate: { lte: today }, ...(companyId === undefined ? {} : { companyId }) },
+    include: { occurrences: { where: { dueDate: { lte: today } }, select: { dueDate: true, status: true } } },
+  });
+
+  let generated = 0;
+  let failed = 0;
+  for (const { occurrences, ...template } of templates) {
+    const statuses = new Map(occurrences.map((occurrence) => [occurrence.dueDate.getTime(), occurrence.status]));
+    const pending = occurrenceDates(template, generationStart(template), today).filter(
+      (dueDate) => (statuses.get(dueDate.getTime()) ?? "PENDENTE") === "PENDENTE",
+    );
+    for (const dueDate of pending) {
+      try {
+        if (await materializeOccurrence(client, template, dueDate)) {
+          generated += 1;
+        }
+      } catch (error) {
+        failed += 1;
+        console.error(`[recurring-entries] modelo ${template.id}, vencimento ${dueDate.toISOString()}`, error);
+      }
+    }
+  }
+
+  return { generated, failed };
+}
+
+/**
+ * Próximas ocorrências dos modelos ativos da empresa entre `from` e `to`, já
+ * com os ajustes de cada uma, na ordem da data do lançamento.
+ */
+export async function listUpcomingOccurrences(client: PrismaClient, companyId: number, from: Date, to: Date) {
+  const templates = await client.recurringEntry.findMany({
+    where: { companyId, active: true },
+    include: { occurrences: { where: { dueDate: { gte: from, lte: to } } } },
+  });
+
+  return templates
+    .flatMap(({ occurrences, ...template }) => {
+      const byDueDate = new Map(occurrences.map((occurrence) => [occurrence.dueDate.getTime(), occurrence]));
+      const start = generationStart(template);
+      return occurrenceDates(template, start > from ? start : from, to).map((dueDate) => {
+        const occurrence = byDueDate.get(dueDate.getTime());
+        return {
+          recurringEntryId: template.id,
+          counterpart: template.counterpart,
+          productService: template.productService,
+          movement: template.movement,
+          dueDate,
+          date: occurrence?.date ?? dueDate,
+          amount: Number(occurrenceAmount(template, occurrence?.amount)),
+          notes: occurrence?.notes ?? template.notes,
+          status: (occurrence?.status ?? "PREVISTA") as UpcomingOccurrenceStatus,
+          cashEntryId: occurrence?.cashEntryId ?? null,
+        };
+      });
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.recurringEntryId - b.recurringEntryId);
+}
+
+/**
+ * Pula ou ajusta uma ocorrência antes da geração. Sem ajuste e sem pular,
+ * o registro é removido e a ocorrência volta a seguir o modelo.
+ */
+export async function updateOccurrence(
+  client: PrismaClient,
+  companyId: number,
+  recurringEntryId: number,
+  data: OccurrenceInput,
+): Promise<OccurrenceResult> {
+  return client.$transaction(async (tx) => {
+    const template = await tx.recurringEntry.findFirst({ where: { id: recurringEntryId, companyId } });
+    if (!template) {
+      return { occurrence: null, error: "Lançamento recorrente não encontrado.", status: 404 };
+    }
+    if (occurrenceDates(template, data.dueDate, data.dueDate).length === 0) {
+      return { occurrence: null, error: "O vencimento informado não pertence a esta recorrência.", status: 400 };
+    }
+
+    const key = { recurringEntryId_dueDate: { recurringEntryId, dueDate: data.dueDate } };
+    const existing = await tx.recurringOccurrence.findUnique({ where: key });
+    if (existing?.status === "GERADA") {
+      return {
+        occurrence: null,
+        error: "Esta ocorrência já foi gerada; ajuste o lançamento no livro-caixa.",
+        status: 409,
+      };
+    }
+
+    if (!data.skipped && !data.date && !data.amount && !data.notes) {
+      if (existing) {
+        await tx.recurringOccurrence.delete({ where: key });
+      }
+      return { occurrence: null, error: null };
+    }
+
+    const fields = data.skipped
+      ? { status: "PULADA" as const, date: null, amount: null, notes: null }
+      : { status: "PENDENTE" as const, date: data.date, amount: data.amount, notes: data.notes };
+    const occurrence = await tx.recurringOccurrence.upsert({
+      where: key,
+      create: { recurringEntryId, dueDate: data.dueDate, ...fields },
+      update: fields,
+    });
+    return { occurrence, error: null };
+  });
+}
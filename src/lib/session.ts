@@ -1,10 +1,11 @@
 ﻿import { cookies } from "next/headers";
 import { createHmac } from "crypto";
+import { prismaWithRetry } from "./prisma-retry";
 
 export const SESSION_COOKIE_NAME = "dbcont_session";
 export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24; // 1 day
 
-type SessionPayload = {
+export type SessionPayload = {
   userId: string;
   admin: boolean;
   companyId: number | null;
@@ -91,13 +92,35 @@ export async function clearSessionCookie() {
   jar.delete(SESSION_COOKIE_NAME);
 }
 
+/**
+ * O cookie vale por um dia, então o usuário é relido do banco a cada uso:
+ * desativar, excluir, mudar o perfil ou a empresa encerra a sessão e exige
+ * um novo login.
+ */
+export async function refreshSession(payload: SessionPayload | null): Promise<SessionPayload | null> {
+  const userId = Number(payload?.userId);
+  if (!payload || !Number.isInteger(userId)) {
+    return null;
+  }
+  const user = await prismaWithRetry((client) =>
+    client.user.findUnique({
+      where: { id: userId },
+      select: { active: true, admin: true, companyId: true },
+    }),
+  );
+  if (!user || !user.active || user.admin !== payload.admin || user.companyId !== payload.companyId) {
+    return null;
+  }
+  return payload;
+}
+
 export async function getSession() {
   const jar = await cookies();
   const token = jar.get(SESSION_COOKIE_NAME)?.value;
   if (!token) {
     return null;
   }
-  return decodeSessionToken(token);
+  return refreshSession(decodeSessionToken(token));
 }
 
 export async function requireSession() {
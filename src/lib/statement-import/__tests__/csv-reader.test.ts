@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { readCsvRecords, sniffDelimiter } from "../csv-reader";
+
+function cells(text: string, delimiter: "," | ";" = ",") {
+  return Array.from(readCsvRecords(text, delimiter), (record) => record.cells);
+}
+
+describe("readCsvRecords", () => {
+  it("keeps delimiters inside quoted fields", () => {
+    expect(cells('data,descricao,valor\n01/10/2026,"PIX RECEBIDO - FULANO, LTDA",10.00\n')).toEqual([
+      ["data", "descricao", "valor"],
+      ["01/10/2026", "PIX RECEBIDO - FULANO, LTDA", "10.00"],
+    ]);
+  });
+
+  it("unescapes doubled quotes", () => {
+    expect(cells('"Compra ""LOJA DO ZE""";1,00', ";")).toEqual([['Compra "LOJA DO ZE"', "1,00"]]);
+  });
+
+  it("keeps line breaks inside quoted fields and numbers records by their first line", () => {
+    const records = Array.from(readCsvRecords('a;b\r\n"linha 1\r\nlinha 2";x\r\nc;d\r\n', ";"));
+    expect(records.map((record) => record.cells)).toEqual([
+      ["a", "b"],
+      ["linha 1\r\nlinha 2", "x"],
+      ["c", "d"],
+    ]);
+    expect(records.map((record) => record.lineNumber)).toEqual([1, 2, 4]);
+  });
+
+  it("skips empty records and trims unquoted fields", () => {
+    expect(cells("a ; b \n\n;;\n c;d", ";")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("treats quotes in the middle of a field as literal text", () => {
+    expect(cells('12" TV;5', ";")).toEqual([['12" TV', "5"]]);
+  });
+
+  it("skips the Excel sep= hint", () => {
+    const records = Array.from(readCsvRecords("sep=;\na;b\n", ";"));
+    expect(records).toEqual([{ cells: ["a", "b"], lineNumber: 2 }]);
+  });
+
+  it("produces records lazily", () => {
+    const iterator = readCsvRecords("a,b\nc,d\n", ",");
+    expect(iterator.next().value).toEqual({ cells: ["a", "b"], lineNumber: 1 });
+    expect(iterator.next().value).toEqual({ cells: ["c", "d"], lineNumber: 2 });
+    expect(iterator.next().done).toBe(true);
+  });
+});
+
+describe("sniffDelimiter", () => {
+  it("prefers the Excel sep= hint", () => {
+    expect(sniffDelimiter("sep=|\na,b|c\n")).toBe("|");
+  });
+
+  it("picks the delimiter with a consistent column count", () => {
+    expect(sniffDelimiter("data;descricao;valor\n01/10/2026;PIX, FULANO;1,50\n")).toBe(";");
+    expect(sniffDelimiter('data,descricao,valor\n01/10/2026,"PIX; FULANO",1.50\n')).toBe(",");
+  });
+
+  it("returns null for single-column text", () => {
+    expect(sniffDelimiter("apenas uma coluna\noutra linha\n")).toBeNull();
+  });
+});
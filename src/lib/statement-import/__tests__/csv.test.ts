@@ -0,0 +1,120 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { createCsvSource, detectTableProfile, parseTable, sampleCsv } from "../csv";
+import { PRESET_PROFILES } from "../profiles";
+
+function fixture(name: string) {
+  return readFileSync(join(__dirname, "fixtures", "csv", name));
+}
+
+function preset(id: string) {
+  return PRESET_PROFILES.find((profile) => profile.id === id)!;
+}
+
+function summarize(name: string, profileId: string) {
+  const parsed = parseTable(createCsvSource(fixture(name)), name, preset(profileId), "csv");
+  return parsed.transactions.map(({ date, amount, description, reference }) => ({ date, amount, description, reference }));
+}
+
+describe("bank CSV exports", () => {
+  it.each([
+    ["nubank.csv", "preset:nubank"],
+    ["itau.csv", "preset:itau"],
+    ["bradesco.csv", "preset:bradesco"],
+    ["bb.csv", "preset:bb"],
+    ["caixa.csv", "preset:caixa"],
+    ["santander.csv", "preset:santander"],
+    ["inter.csv", "preset:inter"],
+  ])("detects the preset for %s", (name, profileId) => {
+    expect(detectTableProfile(createCsvSource(fixture(name)), PRESET_PROFILES)?.id).toBe(profileId);
+  });
+
+  it("reads Nubank (UTF-8, comma, quoted descriptions)", () => {
+    expect(summarize("nubank.csv", "preset:nubank")).toEqual([
+      {
+        date: "2026-10-01",
+        amount: 1500,
+        description:
+          "Transferência recebida pelo Pix - MARIA DA SILVA - •••.123.456-•• - NU PAGAMENTOS - IP (0260) Agência: 1 Conta: 1234567-8",
+        reference: "6720f1a2-0b3c-4d5e-8f90-1a2b3c4d5e6f",
+      },
+      {
+        date: "2026-10-02",
+        amount: -89.9,
+        description:
+          "Transferência enviada pelo Pix - PADARIA PAO QUENTE, LTDA - 12.345.678/0001-90 - ITAÚ UNIBANCO S.A. (0341) Agência: 1234 Conta: 56789-0",
+        reference: "6720f1a2-0b3c-4d5e-8f90-1a2b3c4d5e70",
+      },
+      {
+        date: "2026-10-03",
+        amount: -12.5,
+        description: 'Compra no débito - "LOJA DO ZE"',
+        reference: "6720f1a2-0b3c-4d5e-8f90-1a2b3c4d5e71",
+      },
+    ]);
+  });
+
+  it("reads Itaú (Windows-1252, semicolon, CRLF) and skips the balance line", () => {
+    expect(summarize("itau.csv", "preset:itau")).toEqual([
+      { date: "2026-10-02", amount: -250, description: "PIX TRANSF JOAO S 02/10", reference: "" },
+      { date: "2026-10-05", amount: 3450.75, description: "TED 237.1234.FORNECEDOR ABC", reference: "" },
+      { date: "2026-10-06", amount: -45.9, description: "TAR PACOTE ITAÚ", reference: "" },
+    ]);
+  });
+
+  it("reads Bradesco (title line, credit and debit columns, totals footer)", () => {
+    expect(summarize("bradesco.csv", "preset:bradesco")).toEqual([
+      { date: "2026-10-02", amount: 500, description: "PIX RECEBIDO - CLIENTE XYZ", reference: "1234567" },
+      { date: "2026-10-03", amount: -120.35, description: "PAGTO ELETRON COBRANCA; ENERGIA", reference: "7654321" },
+    ]);
+  });
+
+  it("reads Banco do Brasil (every field quoted)", () => {
+    expect(summarize("bb.csv", "preset:bb")).toEqual([
+      { date: "2026-10-02", amount: -300, description: "Pix - Enviado", reference: "100201" },
+      { date: "2026-10-04", amount: 1250, description: "Pix - Recebido", reference: "100402" },
+    ]);
+  });
+
+  it("reads Caixa (YYYYMMDD dates and a debit/credit indicator)", () => {
+    expect(summarize("caixa.csv", "preset:caixa")).toEqual([
+      { date: "2026-10-01", amount: 800, description: "CRED PIX", reference: "000001" },
+      { date: "2026-10-02", amount: -25, description: "DEB TARIFA", reference: "000002" },
+      { date: "2026-10-03", amount: -310.4, description: "PAG BOLETO", reference: "000003" },
+    ]);
+  });
+
+  it("reads Santander (header on the third line)", () => {
+    expect(summarize("santander.csv", "preset:santander")).toEqual([
+      { date: "2026-10-01", amount: 150, description: "PIX RECEBIDO MARIA", reference: "000123" },
+      { date: "2026-10-02", amount: -39.9, description: "TARIFA MENSALIDADE PACOTE", reference: "000000" },
+    ]);
+  });
+
+  it("reads Inter (UTF-8 BOM, summary block, line break inside a description)", () => {
+    const parsed = parseTable(createCsvSource(fixture("inter.csv")), "inter.csv", preset("preset:inter"), "csv");
+    expect(parsed.transactions.map(({ date, amount, description }) => ({ date, amount, description }))).toEqual([
+      { date: "2026-10-01", amount: 200, description: 'Pix recebido: "Cp :00000000-ANA PAULA"' },
+      { date: "2026-10-02", amount: -1000, description: 'Pagamento efetuado: "Boleto" segunda linha' },
+    ]);
+    expect(parsed.transactions.map((transaction) => transaction.raw.originalLineNumber)).toEqual([7, 8]);
+  });
+
+  it("falls back to the sniffed delimiter when a file was re-saved with another one", () => {
+    const resaved = Buffer.from(fixture("nubank.csv").toString("utf-8").replace(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/gm, ";"));
+    expect(detectTableProfile(createCsvSource(resaved), PRESET_PROFILES)?.id).toBe("preset:nubank");
+  });
+});
+
+describe("sampleCsv", () => {
+  it("returns the header and the first rows after it", () => {
+    expect(sampleCsv(fixture("santander.csv"), { delimiter: ";", encoding: "latin1", headerRow: 2 })).toEqual({
+      header: ["Data", "Histórico", "Documento", "Valor (R$)", "Saldo (R$)"],
+      rows: [
+        ["01/10/2026", "PIX RECEBIDO MARIA", "000123", "150,00", "1.150,00"],
+        ["02/10/2026", "TARIFA MENSALIDADE PACOTE", "000000", "-39,90", "1.110,10"],
+      ],
+    });
+  });
+});
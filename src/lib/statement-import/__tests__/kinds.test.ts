@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  BANK_FEE_PRODUCT_SERVICE,
+  INVESTMENT_PRODUCT_SERVICE,
+  TRANSFER_PRODUCT_SERVICE,
+  YIELD_PRODUCT_SERVICE,
+  classifyTransactionKinds,
+} from "../kinds";
+import { parseMemo } from "../memo";
+import { DEFAULT_PRODUCT_SERVICE } from "../text";
+import type { ParsedTransaction } from "../types";
+
+const OWNER = { name: "Padaria Pao Quente Ltda", cnpj: "12.345.678/0001-90" };
+
+function transaction(description: string, amount: number): ParsedTransaction {
+  const memo = parseMemo(description);
+  return {
+    date: "2026-10-01",
+    amount,
+    description,
+    reference: "",
+    counterpart: memo.counterpart,
+    counterpartDocument: memo.document,
+    kind: memo.kind,
+    productService: DEFAULT_PRODUCT_SERVICE,
+    paymentMethod: memo.paymentMethod,
+    movement: amount >= 0 ? "RECEITA" : "DESPESA",
+    raw: {},
+  };
+}
+
+function classify(description: string, amount: number) {
+  const item = transaction(description, amount);
+  classifyTransactionKinds([item], OWNER);
+  return { movement: item.movement, productService: item.productService };
+}
+
+describe("classifyTransactionKinds", () => {
+  it.each([
+    ["PIX ENVIADO - POUPANCA MATERIAIS LTDA", -1200],
+    ["PIX ENVIADO - APLIC CONSTRUTORA SA", -5000],
+    ["PIX TRANSF RESGATE IMOVEIS", -800],
+    ["PIX ENVIADO - MULTA COMERCIO LTDA", -90],
+  ])("keeps a supplier payment as an expense: %s", (description, amount) => {
+    expect(classify(description, amount)).toEqual({ movement: "DESPESA", productService: DEFAULT_PRODUCT_SERVICE });
+  });
+
+  it("keeps a customer receipt as revenue even with a keyword in the name", () => {
+    expect(classify("PIX RECEBIDO - DEV SISTEMAS LTDA", 350)).toEqual({
+      movement: "RECEITA",
+      productService: DEFAULT_PRODUCT_SERVICE,
+    });
+  });
+
+  it("treats investments and redemptions as transfers", () => {
+    expect(classify("APLICACAO CDB", -10000)).toEqual({
+      movement: "TRANSFERENCIA",
+      productService: INVESTMENT_PRODUCT_SERVICE,
+    });
+    expect(classify("RESGATE AUTOMATICO", 2500)).toEqual({
+      movement: "TRANSFERENCIA",
+      productService: INVESTMENT_PRODUCT_SERVICE,
+    });
+  });
+
+  it("treats transfers to the company's own accounts as transfers", () => {
+    expect(classify("TRANSF ENTRE CONTAS MESMA TITULARIDADE", -3000).movement).toBe("TRANSFERENCIA");
+    expect(classify("PIX ENVIADO - PADARIA PAO QUENTE LTDA", -3000)).toEqual({
+      movement: "TRANSFERENCIA",
+      productService: TRANSFER_PRODUCT_SERVICE,
+    });
+    expect(classify("TED RECEBIDA - OUTRA RAZAO SOCIAL - 12.345.678/0001-90", 3000).movement).toBe("TRANSFERENCIA");
+  });
+
+  it("classifies bank fees and yields", () => {
+    expect(classify("TARIFA BANCARIA CESTA", -45.9)).toEqual({
+      movement: "DESPESA",
+      productService: BANK_FEE_PRODUCT_SERVICE,
+    });
+    expect(classify("RENDIMENTO POUPANCA", 12.34)).toEqual({
+      movement: "RECEITA",
+      productService: YIELD_PRODUCT_SERVICE,
+    });
+  });
+
+  it("keeps a product or service already set by the importer", () => {
+    const item = { ...transaction("TARIFA BANCARIA CESTA", -45.9), productService: "Tarifa cobranca" };
+    classifyTransactionKinds([item], OWNER);
+    expect(item.productService).toBe("Tarifa cobranca");
+  });
+});
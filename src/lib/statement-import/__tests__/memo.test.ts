@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { parseMemo, type ParsedMemo } from "../memo";
+
+type Expected = Partial<ParsedMemo>;
+
+// Históricos reais de extratos (nomes e documentos trocados).
+const CORPUS: [string, Expected][] = [
+  ["PIX TRANSF JOAO S 12/10", { kind: "PIX", counterpart: "JOAO S", paymentMethod: "PIX" }],
+  [
+    "PIX ENVIADO - MARIA DA SILVA - ***.123.456-**",
+    { kind: "PIX", direction: "out", counterpart: "MARIA DA SILVA", document: "***.123.456-**", paymentMethod: "PIX" },
+  ],
+  [
+    "Transferência recebida pelo Pix - FULANO DE TAL - •••.123.456-•• - NU PAGAMENTOS - IP (0260) Agência: 1 Conta: 123-4",
+    { kind: "PIX", direction: "in", counterpart: "FULANO DE TAL", document: "***.123.456-**", paymentMethod: "PIX" },
+  ],
+  [
+    "Transferência enviada pelo Pix - PADARIA PAO QUENTE, LTDA - 12.345.678/0001-90 - ITAÚ UNIBANCO S.A. (0341) Agência: 1234 Conta: 56789-0",
+    {
+      kind: "PIX",
+      direction: "out",
+      counterpart: "PADARIA PAO QUENTE LTDA",
+      document: "12.345.678/0001-90",
+      paymentMethod: "PIX",
+    },
+  ],
+  ["TED 237.1234.12345-6 JOSE PEREIRA", { kind: "TED", counterpart: "JOSE PEREIRA", paymentMethod: "TRANSFERENCIA" }],
+  [
+    "TED RECEBIDA 341 1234 ACME COMERCIO LTDA 11222333000181",
+    {
+      kind: "TED",
+      direction: "in",
+      counterpart: "ACME COMERCIO LTDA",
+      document: "11.222.333/0001-81",
+      paymentMethod: "TRANSFERENCIA",
+    },
+  ],
+  [
+    "DOC ENVIADO 001 0001 JOAO DA SILVA",
+    { kind: "DOC", direction: "out", counterpart: "JOAO DA SILVA", paymentMethod: "TRANSFERENCIA" },
+  ],
+  [
+    "COMPRA CARTAO DEB MC 12/10 SUPERMERCADO X",
+    { kind: "CARTAO", counterpart: "SUPERMERCADO X", paymentMethod: "CARTAO_DEBITO" },
+  ],
+  [
+    "COMPRA CARTAO CREDITO VISA 05/10 POSTO SHELL",
+    { kind: "CARTAO", counterpart: "POSTO SHELL", paymentMethod: "CARTAO_CREDITO" },
+  ],
+  ["PAGTO ELETRON COBRANCA; ENERGIA", { kind: "BOLETO", direction: "out", paymentMethod: "BOLETO" }],
+  ["PAG BOLETO CONDOMINIO", { kind: "BOLETO", counterpart: "CONDOMINIO", paymentMethod: "BOLETO" }],
+  ["TARIFA BANCARIA CESTA", { kind: "TARIFA", paymentMethod: "OUTROS" }],
+  ["TAR PACOTE ITAÚ", { kind: "TARIFA" }],
+  ["TARIFA PIX ENVIADO", { kind: "TARIFA" }],
+  ["IOF", { kind: "IOF" }],
+  ["JUROS CHEQUE ESPECIAL", { kind: "JUROS" }],
+  ["CHEQUE ESPECIAL", { kind: "JUROS" }],
+  ["RENDIMENTO POUPANCA", { kind: "RENDIMENTO" }],
+  ["REND PAGO APLIC AUT MAIS", { kind: "RENDIMENTO" }],
+  ["APLICACAO CDB", { kind: "APLICACAO", paymentMethod: "TRANSFERENCIA" }],
+  ["RESGATE AUTOMATICO", { kind: "APLICACAO", paymentMethod: "TRANSFERENCIA" }],
+  ["TRANSFERENCIA PARA POUPANCA", { kind: "APLICACAO" }],
+  ["TRANSF ENTRE CONTAS MESMA TITULARIDADE", { kind: "TRANSFERENCIA", paymentMethod: "TRANSFERENCIA" }],
+  ["ESTORNO PIX ENVIADO - MARIA", { kind: "ESTORNO", counterpart: "MARIA", paymentMethod: "PIX" }],
+  ["PIX DEVOLVIDO - CLIENTE ABC", { kind: "ESTORNO", counterpart: "CLIENTE ABC", paymentMethod: "PIX" }],
+  ["DEVOLUCAO TED", { kind: "ESTORNO", paymentMethod: "TRANSFERENCIA" }],
+  ["SAQUE 24H 12/10", { kind: "SAQUE", paymentMethod: "DINHEIRO" }],
+  ["DEPOSITO EM DINHEIRO", { kind: "DEPOSITO", paymentMethod: "DINHEIRO" }],
+  ["CH COMPENSADO 000123", { kind: "CHEQUE", paymentMethod: "CHEQUE" }],
+  ["Pix - Enviado", { kind: "PIX", paymentMethod: "PIX" }],
+];
+
+// Nomes de contraparte com palavras-chave de outras naturezas.
+const KEYWORDS_IN_NAMES: [string, Expected][] = [
+  [
+    "PIX ENVIADO - POUPANCA MATERIAIS LTDA",
+    { kind: "PIX", direction: "out", counterpart: "POUPANCA MATERIAIS LTDA", paymentMethod: "PIX" },
+  ],
+  [
+    "PIX RECEBIDO - MULTA COMERCIO LTDA",
+    { kind: "PIX", direction: "in", counterpart: "MULTA COMERCIO LTDA", paymentMethod: "PIX" },
+  ],
+  [
+    "PIX RECEBIDO - DEV SISTEMAS LTDA",
+    { kind: "PIX", direction: "in", counterpart: "DEV SISTEMAS LTDA", paymentMethod: "PIX" },
+  ],
+  [
+    "PIX ENVIADO - APLIC CONSTRUTORA SA",
+    { kind: "PIX", direction: "out", counterpart: "APLIC CONSTRUTORA SA", paymentMethod: "PIX" },
+  ],
+  ["PIX TRANSF POUPANCA MATERIAIS", { kind: "PIX", counterpart: "POUPANCA MATERIAIS", paymentMethod: "PIX" }],
+  ["PIX QRS RESGATE IMOVEIS", { kind: "PIX", counterpart: "RESGATE IMOVEIS", paymentMethod: "PIX" }],
+  [
+    "TED RECEBIDA - TARIFA ZERO TRANSPORTES",
+    { kind: "TED", counterpart: "TARIFA ZERO TRANSPORTES", paymentMethod: "TRANSFERENCIA" },
+  ],
+];
+
+describe("parseMemo", () => {
+  it.each(CORPUS)("reads %s", (memo, expected) => {
+    expect(parseMemo(memo)).toMatchObject(expected);
+  });
+
+  it.each(KEYWORDS_IN_NAMES)("takes the kind from the operation, not the name, in %s", (memo, expected) => {
+    expect(parseMemo(memo)).toMatchObject(expected);
+  });
+
+  it("keeps the whole memo as counterpart when there is no name", () => {
+    expect(parseMemo("TARIFA BANCARIA CESTA").counterpart).toBe("TARIFA BANCARIA CESTA");
+    expect(parseMemo("").counterpart).toBe("Nao identificado");
+  });
+
+  it("only accepts bare CPF/CNPJ numbers with valid check digits", () => {
+    expect(parseMemo("PIX RECEBIDO 12345678901 FULANO").document).toBeUndefined();
+    expect(parseMemo("PIX RECEBIDO 52998224725 FULANO").document).toBe("***.982.247-**");
+  });
+});
@@ -0,0 +1,126 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { parseOfx, parseOfxDate } from "../ofx";
+
+function fixture(name: string) {
+  return readFileSync(join(__dirname, "fixtures", "ofx", name));
+}
+
+function summarize(transactions: ReturnType<typeof parseOfx>["transactions"]) {
+  return transactions.map(({ date, amount, reference, counterpart, description }) => ({
+    date,
+    amount,
+    reference,
+    counterpart,
+    description,
+  }));
+}
+
+describe("parseOfxDate", () => {
+  it("keeps the bank's day when there is no time zone", () => {
+    expect(parseOfxDate("20261003")).toBe("2026-10-03");
+    expect(parseOfxDate("20261003120000")).toBe("2026-10-03");
+  });
+
+  it("converts explicit offsets to the ledger day", () => {
+    expect(parseOfxDate("20261004020000[+0:GMT]")).toBe("2026-10-03");
+    expect(parseOfxDate("20261002100000[-3:BRT]")).toBe("2026-10-02");
+    expect(parseOfxDate("20261002233000.000[-3:BRT]")).toBe("2026-10-02");
+  });
+
+  it("reads fractional offsets as fractions of an hour", () => {
+    // 23:20 em -3h30 são 23:50 em Brasília; lido como -3h50 viraria o dia.
+    expect(parseOfxDate("20261005232000[-3.5:NST]")).toBe("2026-10-05");
+    expect(parseOfxDate("20261005042000[+5.5:IST]")).toBe("2026-10-04");
+  });
+
+  it("rejects invalid dates", () => {
+    expect(parseOfxDate("20260230")).toBe("");
+    expect(parseOfxDate("")).toBe("");
+  });
+});
+
+describe("parseOfx with OFX 1.x SGML", () => {
+  const parsed = parseOfx(fixture("sgml-v1.ofx"), "sgml-v1.ofx");
+
+  it("returns every bank and credit card statement", () => {
+    expect(parsed.statements?.map((statement) => [statement.kind, statement.account])).toEqual([
+      ["bank", { bankId: "0341", branchId: "1234", accountId: "56789-0", type: "CHECKING" }],
+      ["bank", { bankId: "0341", branchId: "1234", accountId: "99999-1", type: "SAVINGS" }],
+      ["creditcard", { bankId: undefined, branchId: undefined, accountId: "5555XXXXXXXX1234", type: "CREDITCARD" }],
+    ]);
+    expect(parsed.transactions).toBe(parsed.statements?.[0].transactions);
+  });
+
+  it("closes empty leaves instead of nesting the following tags in them", () => {
+    expect(summarize(parsed.statements![0].transactions)).toEqual([
+      {
+        date: "2026-10-02",
+        amount: 1500,
+        reference: "202610020001",
+        counterpart: "FULANO DE TAL",
+        description: "FULANO DE TAL",
+      },
+      {
+        date: "2026-10-03",
+        amount: -250.75,
+        reference: "202610030002",
+        counterpart: expect.any(String),
+        description: "PAGTO FORNECEDOR AÇÚCAR",
+      },
+      {
+        date: "2026-10-05",
+        amount: -10,
+        reference: "202610050003",
+        counterpart: expect.any(String),
+        description: "TARIFA PACOTE",
+      },
+    ]);
+    expect(summarize(parsed.statements![2].transactions)).toEqual([
+      {
+        date: "2026-10-10",
+        amount: -89.9,
+        reference: "CC0001",
+        counterpart: "MERCADO BOM PRECO",
+        description: "MERCADO BOM PRECO",
+      },
+    ]);
+  });
+
+  it("reads balances and the statement period", () => {
+    const [checking, savings, card] = parsed.statements!;
+    expect(checking.startDate).toBe("2026-10-01");
+    expect(checking.endDate).toBe("2026-10-31");
+    expect(checking.ledgerBalance).toEqual({ amount: 3249.25, date: "2026-11-01" });
+    expect(checking.availableBalance).toEqual({ amount: 3000, date: "2026-11-01" });
+    expect(savings.ledgerBalance).toBeUndefined();
+    expect(card.ledgerBalance).toEqual({ amount: -89.9, date: "2026-10-31" });
+    expect(card.transactions[0].paymentMethod).toBe("CARTAO_CREDITO");
+  });
+});
+
+describe("parseOfx with OFX 2.x XML", () => {
+  const parsed = parseOfx(fixture("xml-v2.ofx"), "xml-v2.ofx");
+
+  it("handles empty and self-closing leaves and decodes entities", () => {
+    expect(summarize(parsed.transactions)).toEqual([
+      {
+        date: "2026-10-02",
+        amount: 300,
+        reference: "a1b2c3",
+        counterpart: "CICLANO & FILHOS",
+        description: "CICLANO & FILHOS",
+      },
+      {
+        date: "2026-10-03",
+        amount: -45.6,
+        reference: "d4e5f6",
+        counterpart: "PADARIA CENTRAL",
+        description: "PADARIA CENTRAL",
+      },
+    ]);
+    expect(parsed.account).toEqual({ bankId: "0260", branchId: "0001", accountId: "1234567-8", type: "CHECKING" });
+    expect(parsed.statements?.[0].ledgerBalance).toEqual({ amount: 254.4, date: "2026-10-31" });
+  });
+});
@@ -0,0 +1,85 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { readZipEntries } from "../zip";
+
+type Input = { name: string; content: Buffer; declaredSize?: number };
+
+/** Monta um ZIP com entradas deflate, o suficiente para o leitor. */
+function buildZip(inputs: Input[]) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  inputs.forEach(({ name, content, declaredSize }) => {
+    const nameBuffer = Buffer.from(name, "utf-8");
+    const data = deflateRawSync(content);
+    const size = declaredSize ?? content.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  });
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(inputs.length, 8);
+  end.writeUInt16LE(inputs.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const MB = 1024 * 1024;
+
+describe("readZipEntries", () => {
+  it("reads deflated entries accepted by the filter", () => {
+    const zip = buildZip([
+      { name: "nota.xml", content: Buffer.from("<nfeProc/>") },
+      { name: "leia-me.txt", content: Buffer.from("ignorado") },
+    ]);
+    const entries = readZipEntries(zip, (name) => name.endsWith(".xml"));
+    expect(entries.map((entry) => [entry.name, entry.content.toString()])).toEqual([["nota.xml", "<nfeProc/>"]]);
+  });
+
+  it("rejects an entry that inflates past the per-file limit despite its declared size", () => {
+    const zip = buildZip([{ name: "bomba.xml", content: Buffer.alloc(21 * MB), declaredSize: 100 }]);
+    expect(() => readZipEntries(zip)).toThrow("excede o tamanho maximo");
+  });
+
+  it("caps the total inflated size across entries", () => {
+    const zip = buildZip(
+      Array.from({ length: 3 }, (_, index) => ({ name: `nota-${index}.xml`, content: Buffer.alloc(19 * MB) })),
+    );
+    expect(() => readZipEntries(zip)).toThrow("O conteudo do ZIP excede o tamanho maximo.");
+  });
+
+  it("caps the total even when entries lie about their size", () => {
+    const zip = buildZip(
+      Array.from({ length: 3 }, (_, index) => ({
+        name: `nota-${index}.xml`,
+        content: Buffer.alloc(19 * MB),
+        declaredSize: 10,
+      })),
+    );
+    expect(() => readZipEntries(zip)).toThrow("excede o tamanho maximo");
+  });
+});
@@ -0,0 +1,225 @@
+import type {
+  ActivityType,
+  CategorizationRule as CategorizationRuleRecord,
+  MovementCategory,
+  PrismaClient,
+} from "@prisma/client";
+import { VALID_MOVEMENTS, VALID_PAYMENTS, VALID_TYPES } from "../cash-entries";
+import { normalizeCurrencyToNumber } from "../currency";
+import type { ParsedTransaction, PaymentMethod } from "./types";
+import { normalizeText } from "./text";
+
+export type CategorizationRule = {
+  id: number;
+  name: string;
+  priority: number;
+  active: boolean;
+  /** Trecho da descrição (sem diferenciar acentos e maiúsculas) ou expressão regular. */
+  descriptionPattern: string | null;
+  descriptionIsRegex: boolean;
+  counterpartPattern: string | null;
+  /** Faixa sobre o valor com sinal: saídas são negativas. */
+  minAmount: number | null;
+  maxAmount: number | null;
+  paymentMethod: PaymentMethod | null;
+  setMovement: MovementCategory | null;
+  setType: ActivityType | null;
+  setProductService: string | null;
+  setCounterpart: string | null;
+  /** Categoria do plano de contas da empresa. */
+  setCategoryId: number | null;
+};
+
+export type CategorizationRuleInput = Omit<CategorizationRule, "id">;
+
+function readString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readAmount(value: unknown) {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  return normalizeCurrencyToNumber(value);
+}
+
+function compileRegex(pattern: string) {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+}
+
+export function parseRulePayload(
+  payload: Record<string, unknown>,
+): { rule: CategorizationRuleInput; errors: null } | { rule: null; errors: string[] } {
+  const errors: string[] = [];
+  const name = readString(payload.name);
+  const priority = payload.priority === undefined || payload.priority === "" ? 100 : Number(payload.priority);
+  const descriptionPattern = readString(payload.descriptionPattern) || null;
+  const descriptionIsRegex = payload.descriptionIsRegex === true;
+  const counterpartPattern = readString(payload.counterpartPattern) || null;
+  const minAmount = readAmount(payload.minAmount);
+  const maxAmount = readAmount(payload.maxAmount);
+  const paymentMethod = readString(payload.paymentMethod).toUpperCase() || null;
+  const setMovement = readString(payload.setMovement).toUpperCase() || null;
+  const setType = readString(payload.setType).toUpperCase() || null;
+  const setProductService = readString(payload.setProductService) || null;
+  const setCounterpart = readString(payload.setCounterpart) || null;
+  const setCategoryId =
+    payload.setCategoryId === undefined || payload.setCategoryId === null || payload.setCategoryId === ""
+      ? null
+      : Number(payload.setCategoryId);
+
+  if (name.length < 2) {
+    errors.push("Informe o nome da regra.");
+  }
+  if (!Number.isInteger(priority) || priority < 0 || priority > 9999) {
+    errors.push("Prioridade inválida.");
+  }
+  if (descriptionPattern && descriptionIsRegex && !compileRegex(descriptionPattern)) {
+    errors.push("Expressão regular da descrição inválida.");
+  }
+  if (Number.isNaN(minAmount) || Number.isNaN(maxAmount)) {
+    errors.push("Faixa de valor inválida.");
+  } else if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+    errors.push("O valor mínimo deve ser menor ou igual ao máximo.");
+  }
+  if (paymentMethod && !VALID_PAYMENTS.has(paymentMethod)) {
+    errors.push("Forma de pagamento inválida.");
+  }
+  if (setMovement && !VALID_MOVEMENTS.has(setMovement)) {
+    errors.push("Movimentação inválida.");
+  }
+  if (setType && !VALID_TYPES.has(setType)) {
+    errors.push("Tipo de atividade inválido.");
+  }
+  if (setCategoryId !== null && (!Number.isInteger(setCategoryId) || setCategoryId <= 0)) {
+    errors.push("Categoria inválida.");
+  }
+  if (!descriptionPattern && !counterpartPattern && minAmount === null && maxAmount === null && !paymentMethod) {
+    errors.push("Informe ao menos um critério.");
+  }
+  if (!setMovement && !setType && !setProductService && !setCounterpart && setCategoryId === null) {
+    errors.push("Informe ao menos um campo a preencher.");
+  }
+
+  if (errors.length > 0) {
+    return { rule: null, errors };
+  }
+
+  return {
+    rule: {
+      name,
+      priority,
+      active: payload.active !== false,
+      descriptionPattern,
+      descriptionIsRegex: Boolean(descriptionPattern) && descriptionIsRegex,
+      counterpartPattern,
+      minAmount,
+      maxAmount,
+      paymentMethod: paymentMethod as PaymentMethod | null,
+      setMovement: setMovement as MovementCategory | null,
+      setType: setType as ActivityType | null,
+      setProductService,
+      setCounterpart,
+      setCategoryId,
+    },
+    errors: null,
+  };
+}
+
+export function toCategorizationRule(row: CategorizationRuleRecord): CategorizationRule {
+  return {
+    id: row.id,
+    name: row.name,
+    priority: row.priority,
+    active: row.active,
+    descriptionPattern: row.descriptionPattern,
+    descriptionIsRegex: row.descriptionIsRegex,
+    counterpartPattern: row.counterpartPattern,
+    minAmount: row.minAmount === null ? null : row.minAmount.toNumber(),
+    maxAmount: row.maxAmount === null ? null : row.maxAmount.toNumber(),
+    paymentMethod: row.paymentMethod as PaymentMethod | null,
+    setMovement: row.setMovement,
+    setType: row.setType,
+    setProductService: row.setProductService,
+    setCounterpart: row.setCounterpart,
+    setCategoryId: row.setCategoryId,
+  };
+}
+
+/**
+ * Regras da empresa na ordem em que são avaliadas.
+ */
+export async function loadCategorizationRules(
+  client: PrismaClient,
+  companyId: number,
+  options: { activeOnly?: boolean } = {},
+): Promise<CategorizationRule[]> {
+  const rows = await client.categorizationRule.findMany({
+    where: { companyId, ...(options.activeOnly ? { active: true } : {}) },
+    orderBy: [{ priority: "asc" }, { id: "asc" }],
+  });
+  return rows.map(toCategorizationRule);
+}
+
+type CompiledRule = {
+  rule: CategorizationRule;
+  description: RegExp | string | null;
+  counterpart: string | null;
+};
+
+function matches({ rule, description, counterpart }: CompiledRule, transaction: ParsedTransaction) {
+  if (description instanceof RegExp && !description.test(transaction.description)) {
+    return false;
+  }
+  if (typeof description === "string" && !normalizeText(transaction.description).includes(description)) {
+    return false;
+  }
+  if (counterpart !== null && !normalizeText(transaction.counterpart).includes(counterpart)) {
+    return false;
+  }
+  if (rule.minAmount !== null && transaction.amount < rule.minAmount) {
+    return false;
+  }
+  if (rule.maxAmount !== null && transaction.amount > rule.maxAmount) {
+    return false;
+  }
+  return !rule.paymentMethod || rule.paymentMethod === transaction.paymentMethod;
+}
+
+/**
+ * Aplica a primeira regra ativa que casar com cada transação. Campos que a
+ * regra não define continuam com o valor inferido pelo leitor do arquivo.
+ */
+export function applyCategorizationRules(transactions: ParsedTransaction[], rules: CategorizationRule[]) {
+  const compiled: CompiledRule[] = rules
+    .filter((rule) => rule.active)
+    .map((rule) => ({
+      rule,
+      description: rule.descriptionPattern
+        ? rule.descriptionIsRegex
+          ? compileRegex(rule.descriptionPattern)
+          : normalizeText(rule.descriptionPattern)
+        : null,
+      counterpart: rule.counterpartPattern ? normalizeText(rule.counterpartPattern) : null,
+    }))
+    // Uma expressão que deixou de compilar não pode casar com tudo.
+    .filter((entry) => !entry.rule.descriptionPattern || entry.description !== null);
+
+  transactions.forEach((transaction) => {
+    const match = compiled.find((entry) => matches(entry, transaction));
+    if (!match) {
+      return;
+    }
+    const { rule } = match;
+    transaction.movement = rule.setMovement ?? transaction.movement;
+    transaction.type = rule.setType ?? transaction.type;
+    transaction.productService = rule.setProductService ?? transaction.productService;
+    transaction.counterpart = rule.setCounterpart ?? transaction.counterpart;
+    transaction.categoryId = rule.setCategoryId ?? transaction.categoryId;
+    transaction.rule = { id: rule.id, name: rule.name };
+  });
+}
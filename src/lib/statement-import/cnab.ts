@@ -0,0 +1,313 @@
+import type { ParsedExtract, ParsedTransaction, StatementAccount } from "./types";
+import { BANK_FEE_PRODUCT_SERVICE } from "./kinds";
+import { DEFAULT_PRODUCT_SERVICE, decodeText, normalizeWhitespaces } from "./text";
+
+type Range = [start: number, end: number];
+
+/**
+ * Posições (1-based, inclusivas) do registro de detalhe "1" do CNAB 400.
+ * O layout é do banco, não da FEBRABAN; bancos sem variante própria usam
+ * o padrão, que segue o Bradesco (também usado por vários outros).
+ */
+type Cnab400Layout = {
+  name: string;
+  ourNumber: Range;
+  tariff: Range;
+  payer?: Range;
+  headerBranch?: Range;
+  headerAccount?: Range;
+  liquidationCodes: string[];
+  tariffCodes: string[];
+};
+
+type TitleSettlement = {
+  occurrence: string;
+  ourNumber: string;
+  documentNumber: string;
+  dueDate: string;
+  occurrenceDate: string;
+  creditDate: string;
+  nominalAmount: number;
+  paidAmount: number;
+  interest: number;
+  discount: number;
+  rebate: number;
+  tariff: number;
+  payerName: string;
+  payerDocument: string;
+  lineNumber: number;
+};
+
+const DEFAULT_400_LAYOUT: Cnab400Layout = {
+  name: "FEBRABAN/Bradesco",
+  ourNumber: [71, 82],
+  tariff: [176, 188],
+  liquidationCodes: ["06", "15", "17"],
+  tariffCodes: ["28"],
+};
+
+const CNAB400_LAYOUTS: Record<string, Cnab400Layout> = {
+  "237": DEFAULT_400_LAYOUT,
+  "341": {
+    name: "Itaú",
+    ourNumber: [63, 70],
+    tariff: [175, 187],
+    payer: [325, 354],
+    headerBranch: [27, 30],
+    headerAccount: [33, 37],
+    liquidationCodes: ["06", "08"],
+    tariffCodes: ["28"],
+  },
+  "033": {
+    ...DEFAULT_400_LAYOUT,
+    name: "Santander",
+    ourNumber: [63, 70],
+    liquidationCodes: ["06", "07", "08"],
+  },
+};
+
+// Códigos de movimento do segmento T (FEBRABAN 240).
+const CNAB240_LIQUIDATION_CODES = ["06", "17"];
+const CNAB240_TARIFF_CODES = ["28"];
+
+function field(line: string, [start, end]: Range) {
+  return line.slice(start - 1, end).trim();
+}
+
+function money(line: string, range: Range) {
+  const digits = field(line, range).replace(/\D/g, "");
+  return digits ? Number(digits) / 100 : 0;
+}
+
+function stripZeros(value: string) {
+  return value.replace(/^0+(?=.)/, "");
+}
+
+/**
+ * Datas DDMMAAAA (240) ou DDMMAA (400); zeros indicam ausência.
+ */
+function cnabDate(raw: string) {
+  const digits = raw.replace(/\D/g, "");
+  if (!/^\d{6}(\d{2})?$/.test(digits) || /^0+$/.test(digits)) {
+    return "";
+  }
+  const day = digits.slice(0, 2);
+  const month = digits.slice(2, 4);
+  const year = digits.length === 8 ? digits.slice(4) : `20${digits.slice(4)}`;
+  const iso = `${year}-${month}-${day}`;
+  const check = new Date(`${iso}T00:00:00.000Z`);
+  return Number.isNaN(check.getTime()) || check.toISOString().slice(0, 10) !== iso ? "" : iso;
+}
+
+function readLines(buffer: Buffer) {
+  return decodeText(buffer, "latin1")
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.replace(/\r$/, ""), lineNumber: index + 1 }))
+    .filter(({ line }) => line.trim().length > 0);
+}
+
+function detectLayout(firstLine: string): 240 | 400 | null {
+  if (firstLine.startsWith("02RETORNO") || firstLine.startsWith("01REMESSA")) {
+    return 400;
+  }
+  // Header de arquivo 240: banco, lote "0000" e tipo de registro "0".
+  if (/^\d{3}00000/.test(firstLine)) {
+    return 240;
+  }
+  return null;
+}
+
+/**
+ * Reconhece arquivos de retorno CNAB pelo conteúdo, já que a extensão
+ * varia entre bancos (.ret, .txt, .crt, sem extensão).
+ */
+export function isCnabReturn(buffer: Buffer) {
+  const [first] = readLines(buffer.subarray(0, 1024));
+  if (!first) {
+    return false;
+  }
+  const layout = detectLayout(first.line);
+  if (layout === 240) {
+    return first.line.padEnd(240)[142] === "2";
+  }
+  return layout === 400 && first.line.startsWith("02RETORNO");
+}
+
+function toTransactions(
+  settlements: TitleSettlement[],
+  liquidationCodes: string[],
+  tariffCodes: string[],
+  bankName: string,
+): ParsedTransaction[] {
+  const transactions: ParsedTransaction[] = [];
+
+  settlements.forEach((settlement) => {
+    const title = settlement.documentNumber || settlement.ourNumber;
+    const date = settlement.creditDate || settlement.occurrenceDate;
+    const raw = { ...settlement };
+    const liquidated = liquidationCodes.includes(settlement.occurrence);
+
+    if (liquidated && settlement.paidAmount > 0) {
+      const payer = settlement.payerName || "Sacado nao identificado";
+      const extras = [
+        settlement.interest > 0 ? `juros/multa ${settlement.interest.toFixed(2)}` : "",
+        settlement.discount > 0 ? `desconto ${settlement.discount.toFixed(2)}` : "",
+        settlement.rebate > 0 ? `abatimento ${settlement.rebate.toFixed(2)}` : "",
+      ].filter(Boolean);
+
+      transactions.push({
+        date,
+        amount: settlement.paidAmount,
+        description: normalizeWhitespaces(
+          `Liquidacao boleto ${title} - ${payer}${extras.length > 0 ? ` (${extras.join(", ")})` : ""}`,
+        ),
+        reference: `boleto:${settlement.ourNumber}`,
+        counterpart: payer,
+        counterpartDocument: settlement.payerDocument || undefined,
+        kind: "BOLETO",
+        productService: DEFAULT_PRODUCT_SERVICE,
+        paymentMethod: "BOLETO",
+        movement: "RECEITA",
+        raw,
+      });
+    }
+
+    if ((liquidated || tariffCodes.includes(settlement.occurrence)) && settlement.tariff > 0) {
+      transactions.push({
+        date,
+        amount: -settlement.tariff,
+        description: `Tarifa de cobranca - boleto ${title}`,
+        reference: `tarifa:${settlement.ourNumber}:${settlement.occurrence}:${date}`,
+        counterpart: bankName,
+        kind: "TARIFA",
+        productService: BANK_FEE_PRODUCT_SERVICE,
+        paymentMethod: "OUTROS",
+        movement: "DESPESA",
+        raw,
+      });
+    }
+  });
+
+  return transactions;
+}
+
+function parseCnab240(lines: { line: string; lineNumber: number }[]) {
+  const header = lines[0].line.padEnd(240);
+  const bankCode = field(header, [1, 3]);
+  const bankName = field(header, [103, 132]) || `Banco ${bankCode}`;
+  const account: StatementAccount = {
+    bankId: bankCode,
+    branchId: stripZeros(field(header, [53, 57])),
+    accountId: stripZeros(field(header, [59, 70])),
+  };
+
+  const settlements: TitleSettlement[] = [];
+  let current: TitleSettlement | null = null;
+
+  lines.forEach(({ line: rawLine, lineNumber }) => {
+    const line = rawLine.padEnd(240);
+    if (line[7] !== "3") {
+      return;
+    }
+    const segment = line[13];
+
+    if (segment === "T") {
+      current = {
+        occurrence: field(line, [16, 17]),
+        ourNumber: stripZeros(field(line, [38, 57])),
+        documentNumber: field(line, [59, 73]),
+        dueDate: cnabDate(field(line, [74, 81])),
+        occurrenceDate: "",
+        creditDate: "",
+        nominalAmount: money(line, [82, 96]),
+        paidAmount: 0,
+        interest: 0,
+        discount: 0,
+        rebate: 0,
+        tariff: money(line, [199, 213]),
+        payerDocument: stripZeros(field(line, [134, 148])),
+        payerName: normalizeWhitespaces(field(line, [149, 188])),
+        lineNumber,
+      };
+      settlements.push(current);
+    } else if (segment === "U" && current) {
+      // O segmento U complementa o T imediatamente anterior.
+      const target: TitleSettlement = current;
+      target.interest = money(line, [18, 32]);
+      target.discount = money(line, [33, 47]);
+      target.rebate = money(line, [48, 62]);
+      target.paidAmount = money(line, [78, 92]);
+      target.occurrenceDate = cnabDate(field(line, [138, 145]));
+      target.creditDate = cnabDate(field(line, [146, 153]));
+      current = null;
+    }
+  });
+
+  return {
+    account,
+    transactions: toTransactions(settlements, CNAB240_LIQUIDATION_CODES, CNAB240_TARIFF_CODES, bankName),
+  };
+}
+
+function parseCnab400(lines: { line: string; lineNumber: number }[]) {
+  const header = lines[0].line.padEnd(400);
+  const bankCode = field(header, [77, 79]);
+  const bankName = field(header, [80, 94]) || `Banco ${bankCode}`;
+  const layout = CNAB400_LAYOUTS[bankCode] ?? DEFAULT_400_LAYOUT;
+  const account: StatementAccount = {
+    bankId: bankCode,
+    branchId: layout.headerBranch ? stripZeros(field(header, layout.headerBranch)) : undefined,
+    accountId: layout.headerAccount ? stripZeros(field(header, layout.headerAccount)) : undefined,
+  };
+
+  const settlements: TitleSettlement[] = lines
+    .filter(({ line }) => line.startsWith("1"))
+    .map(({ line: rawLine, lineNumber }) => {
+      const line = rawLine.padEnd(400);
+      return {
+        occurrence: field(line, [109, 110]),
+        ourNumber: stripZeros(field(line, layout.ourNumber)),
+        documentNumber: field(line, [117, 126]),
+        dueDate: cnabDate(field(line, [147, 152])),
+        occurrenceDate: cnabDate(field(line, [111, 116])),
+        creditDate: cnabDate(field(line, [296, 301])),
+        nominalAmount: money(line, [153, 165]),
+        paidAmount: money(line, [254, 266]),
+        interest: money(line, [267, 279]),
+        discount: money(line, [241, 253]),
+        rebate: money(line, [228, 240]),
+        tariff: money(line, layout.tariff),
+        payerDocument: "",
+        payerName: layout.payer ? normalizeWhitespaces(field(line, layout.payer)) : "",
+        lineNumber,
+      };
+    });
+
+  return {
+    account,
+    transactions: toTransactions(settlements, layout.liquidationCodes, layout.tariffCodes, bankName),
+  };
+}
+
+export function parseCnab(buffer: Buffer, filename: string): ParsedExtract {
+  const lines = readLines(buffer);
+  const layout = lines.length > 0 ? detectLayout(lines[0].line) : null;
+
+  if (!layout || !isCnabReturn(buffer)) {
+    throw new Error("Arquivo CNAB invalido: envie o arquivo de retorno (240 ou 400 posicoes).");
+  }
+
+  const { account, transactions } = layout === 240 ? parseCnab240(lines) : parseCnab400(lines);
+
+  if (transactions.length === 0) {
+    throw new Error("Nenhum titulo liquidado encontrado no retorno CNAB.");
+  }
+
+  return {
+    filename,
+    format: "cnab",
+    currency: "BRL",
+    account,
+    transactions,
+  };
+}
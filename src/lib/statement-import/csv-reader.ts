@@ -0,0 +1,134 @@
+import type { CsvDelimiter } from "./profiles";
+
+export type CsvRecord = {
+  cells: string[];
+  lineNumber: number;
+};
+
+const SNIFF_DELIMITERS: CsvDelimiter[] = [";", ",", "\t", "|"];
+
+/**
+ * Lê a dica "sep=;" que o Excel grava na primeira linha de alguns arquivos.
+ */
+function readSeparatorHint(text: string): { delimiter: CsvDelimiter | null; body: string } {
+  const match = /^sep=(.)\r?\n/i.exec(text);
+  if (!match) {
+    return { delimiter: null, body: text };
+  }
+  const hinted = match[1] as CsvDelimiter;
+  return {
+    delimiter: SNIFF_DELIMITERS.includes(hinted) ? hinted : null,
+    body: text.slice(match[0].length),
+  };
+}
+
+/**
+ * Escolhe o separador que produz o mesmo número de colunas (maior que um)
+ * no maior número de linhas do início do arquivo.
+ */
+export function sniffDelimiter(text: string): CsvDelimiter | null {
+  const hint = readSeparatorHint(text);
+  if (hint.delimiter) {
+    return hint.delimiter;
+  }
+
+  let best: { delimiter: CsvDelimiter; score: number } | null = null;
+  for (const delimiter of SNIFF_DELIMITERS) {
+    const counts = new Map<number, number>();
+    let records = 0;
+    for (const record of readCsvRecords(hint.body, delimiter)) {
+      if (record.cells.length > 1) {
+        counts.set(record.cells.length, (counts.get(record.cells.length) ?? 0) + 1);
+      }
+      records += 1;
+      if (records >= 30) {
+        break;
+      }
+    }
+    const score = Math.max(0, ...counts.values());
+    if (score > 0 && (!best || score > best.score)) {
+      best = { delimiter, score };
+    }
+  }
+
+  return best?.delimiter ?? null;
+}
+
+/**
+ * Tokenizador RFC 4180: campos entre aspas podem conter o separador,
+ * quebras de linha e aspas escapadas ("" vira "). Os registros são
+ * produzidos sob demanda, então quem só precisa do cabeçalho não percorre
+ * o arquivo inteiro. Registros vazios são ignorados.
+ */
+export function* readCsvRecords(text: string, delimiter: CsvDelimiter): Generator<CsvRecord> {
+  const { body } = readSeparatorHint(text);
+  const offset = body.length === text.length ? 0 : 1;
+  let cells: string[] = [];
+  let field = "";
+  let quoted = false;
+  let fieldWasQuoted = false;
+  let line = 1 + offset;
+  let recordLine = line;
+
+  const pushField = () => {
+    cells.push(fieldWasQuoted ? field : field.trim());
+    field = "";
+    fieldWasQuoted = false;
+  };
+
+  const takeRecord = (): CsvRecord | null => {
+    pushField();
+    const record = cells.some((cell) => cell.length > 0) ? { cells, lineNumber: recordLine } : null;
+    cells = [];
+    return record;
+  };
+
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index];
+
+    if (quoted) {
+      if (char === '"') {
+        if (body[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (char === "\n") {
+          line += 1;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim().length === 0) {
+      // Aspas só abrem um campo no início dele; no meio são conteúdo literal.
+      field = "";
+      quoted = true;
+      fieldWasQuoted = true;
+    } else if (char === delimiter) {
+      pushField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && body[index + 1] === "\n") {
+        index += 1;
+      }
+      const record = takeRecord();
+      if (record) {
+        yield record;
+      }
+      line += 1;
+      recordLine = line;
+    } else if (!fieldWasQuoted) {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || cells.length > 0 || fieldWasQuoted) {
+    const record = takeRecord();
+    if (record) {
+      yield record;
+    }
+  }
+}
@@ -0,0 +1,316 @@
+import type { CsvColumnMapping, CsvDateFormat, CsvDelimiter, CsvEncoding, CsvImportProfile } from "./profiles";
+import type { ParsedExtract, ParsedTransaction } from "./types";
+import { readCsvRecords, sniffDelimiter, type CsvRecord } from "./csv-reader";
+import { parseMemo } from "./memo";
+import {
+  DEFAULT_PRODUCT_SERVICE,
+  decodeText,
+  normalizeAmount,
+  normalizeText,
+  normalizeWhitespaces,
+} from "./text";
+
+type ResolvedColumns = Partial<Record<keyof CsvColumnMapping, number>>;
+
+type CsvHeader = {
+  /** Posição do cabeçalho entre os registros não vazios. */
+  index: number;
+  cells: string[];
+  lineNumber: number;
+};
+
+type ReadOptions = Pick<CsvImportProfile, "delimiter" | "encoding">;
+
+/**
+ * Origem das linhas de uma tabela. O CSV depende do separador e da
+ * codificação do perfil; planilhas já chegam divididas em células. Cada
+ * chamada de `records` lê a tabela do início.
+ */
+export type TableSource = {
+  records: (options: ReadOptions) => Iterable<CsvRecord>;
+  sniffedDelimiter: (encoding: CsvEncoding) => CsvDelimiter | null;
+};
+
+const HEADER_SCAN_LIMIT = 20;
+
+export function normalizeHeader(value: string) {
+  return normalizeText(value).replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Decodifica o arquivo uma única vez por codificação. Os registros são
+ * tokenizados sob demanda: a detecção de perfil só lê as primeiras linhas
+ * de cada combinação de separador e codificação que testa.
+ */
+export function createCsvSource(buffer: Buffer): TableSource {
+  const texts = new Map<CsvEncoding, string>();
+
+  const text = (encoding: CsvEncoding) => {
+    if (!texts.has(encoding)) {
+      texts.set(encoding, decodeText(buffer, encoding));
+    }
+    return texts.get(encoding)!;
+  };
+
+  return {
+    records: ({ delimiter, encoding }) => readCsvRecords(text(encoding), delimiter),
+    sniffedDelimiter: (encoding) => sniffDelimiter(text(encoding)),
+  };
+}
+
+export function createRecordsSource(records: CsvRecord[]): TableSource {
+  return {
+    records: () => records,
+    sniffedDelimiter: () => null,
+  };
+}
+
+function findColumn(header: string[], name: string) {
+  const target = normalizeHeader(name);
+  if (!target) {
+    return -1;
+  }
+  const exact = header.findIndex((cell) => cell === target);
+  return exact !== -1 ? exact : header.findIndex((cell) => cell.startsWith(target));
+}
+
+function resolveColumns(rawHeader: string[], profile: CsvImportProfile): ResolvedColumns | null {
+  const header = rawHeader.map(normalizeHeader);
+  const resolved: ResolvedColumns = {};
+
+  for (const [key, name] of Object.entries(profile.columns) as [keyof CsvColumnMapping, string | undefined][]) {
+    if (!name) {
+      continue;
+    }
+    const index = findColumn(header, name);
+    if (index === -1) {
+      if (key === "reference") {
+        continue;
+      }
+      return null;
+    }
+    resolved[key] = index;
+  }
+
+  return resolved;
+}
+
+function takeRecords(records: Iterable<CsvRecord>, count: number) {
+  const taken: CsvRecord[] = [];
+  for (const record of records) {
+    if (taken.length >= count) {
+      break;
+    }
+    taken.push(record);
+  }
+  return taken;
+}
+
+/** Registros depois do cabeçalho, lidos um a um. */
+function* rowsAfter(records: Iterable<CsvRecord>, header: CsvHeader) {
+  let index = 0;
+  for (const record of records) {
+    if (index > header.index) {
+      yield record;
+    }
+    index += 1;
+  }
+}
+
+/** Um cabeçalho além do fim do arquivo cai no último registro. */
+function readHeader(head: CsvRecord[], headerRow: number): CsvHeader {
+  const index = Math.min(headerRow, Math.max(head.length - 1, 0));
+  return {
+    index,
+    cells: head[index]?.cells ?? [],
+    lineNumber: head[index]?.lineNumber ?? 0,
+  };
+}
+
+/**
+ * Procura o cabeçalho do perfil a partir da linha configurada e, se não
+ * encontrar, nas primeiras linhas do arquivo (exportações costumam trazer
+ * linhas de título com nome do cliente e período). Se o separador do perfil
+ * não servir, tenta o detectado no arquivo — um CSV reaberto e salvo no
+ * Excel em pt-BR troca "," por ";".
+ */
+function locateTable(source: TableSource, profile: CsvImportProfile, allowSniffed = true) {
+  const sniffed = allowSniffed ? source.sniffedDelimiter(profile.encoding) : null;
+  const delimiters = sniffed && sniffed !== profile.delimiter ? [profile.delimiter, sniffed] : [profile.delimiter];
+  const candidates = [profile.headerRow, ...Array.from({ length: HEADER_SCAN_LIMIT }, (_, index) => index)];
+
+  for (const delimiter of delimiters) {
+    const head = takeRecords(
+      source.records({ delimiter, encoding: profile.encoding }),
+      Math.max(profile.headerRow, HEADER_SCAN_LIMIT) + 1,
+    );
+    for (const headerRow of candidates) {
+      const header = readHeader(head, headerRow);
+      const columns = resolveColumns(header.cells, profile);
+      if (columns) {
+        return { delimiter, header, columns };
+      }
+    }
+  }
+  return null;
+}
+
+export function parseDateWithFormat(raw: string, format: CsvDateFormat) {
+  const value = raw.trim().split(/\s+/)[0] ?? "";
+  let day = "";
+  let month = "";
+  let year = "";
+
+  // Células de data de planilhas já chegam em ISO, qualquer que seja o perfil.
+  const isoFormat = /^\d{4}-\d{2}-\d{2}$/.test(value) ? "YYYY-MM-DD" : format;
+
+  switch (isoFormat) {
+    case "DD/MM/YYYY":
+    case "DD/MM/YY":
+    case "DD-MM-YYYY":
+      [day, month, year] = value.split(/[/-]/);
+      break;
+    case "MM/DD/YYYY":
+      [month, day, year] = value.split("/");
+      break;
+    case "YYYY-MM-DD":
+      [year, month, day] = value.split("-");
+      break;
+    case "YYYYMMDD":
+      year = value.slice(0, 4);
+      month = value.slice(4, 6);
+      day = value.slice(6, 8);
+      break;
+    default:
+      break;
+  }
+
+  if (year && year.length === 2) {
+    year = `20${year}`;
+  }
+
+  if (!/^\d{4}$/.test(year ?? "") || !/^\d{1,2}$/.test(month ?? "") || !/^\d{1,2}$/.test(day ?? "")) {
+    return "";
+  }
+
+  const iso = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  const check = new Date(`${iso}T00:00:00.000Z`);
+  return Number.isNaN(check.getTime()) || check.toISOString().slice(0, 10) !== iso ? "" : iso;
+}
+
+function resolveAmount(cells: string[], columns: ResolvedColumns, profile: CsvImportProfile) {
+  const cell = (index?: number) => (index === undefined ? "" : cells[index] ?? "");
+
+  switch (profile.signConvention) {
+    case "split": {
+      const credit = normalizeAmount(cell(columns.credit));
+      const debit = normalizeAmount(cell(columns.debit));
+      const creditValue = Number.isFinite(credit) ? Math.abs(credit) : 0;
+      const debitValue = Number.isFinite(debit) ? Math.abs(debit) : 0;
+      return creditValue || debitValue ? creditValue - debitValue : NaN;
+    }
+    case "indicator": {
+      const amount = Math.abs(normalizeAmount(cell(columns.amount)));
+      const indicator = cell(columns.indicator).trim().toUpperCase();
+      const debits = (profile.debitIndicators ?? ["D"]).map((value) => value.toUpperCase());
+      return debits.includes(indicator) ? -amount : amount;
+    }
+    case "inverted":
+      return -normalizeAmount(cell(columns.amount));
+    case "signed":
+    default:
+      return normalizeAmount(cell(columns.amount));
+  }
+}
+
+/**
+ * Retorna o primeiro perfil cujo cabeçalho é encontrado no arquivo. Perfis
+ * que leem o arquivo com o próprio separador têm preferência: com o
+ * separador detectado, colunas genéricas como "data" e "valor" casam com
+ * exportações de outros bancos.
+ */
+export function detectTableProfile(source: TableSource, profiles: CsvImportProfile[]) {
+  return (
+    profiles.find((profile) => locateTable(source, profile, false) !== null) ??
+    profiles.find((profile) => locateTable(source, profile) !== null) ??
+    null
+  );
+}
+
+/**
+ * Lê as primeiras linhas de um arquivo de exemplo para o cadastro de perfis.
+ */
+export function sampleCsv(buffer: Buffer, options: Pick<CsvImportProfile, "delimiter" | "encoding" | "headerRow">) {
+  const head = takeRecords(createCsvSource(buffer).records(options), options.headerRow + 6);
+  const header = readHeader(head, options.headerRow);
+  return {
+    header: header.cells,
+    rows: head.slice(header.index + 1).map((row) => row.cells),
+  };
+}
+
+/**
+ * Aplica o mapeamento de colunas do perfil a uma tabela (CSV ou planilha).
+ */
+export function parseTable(
+  source: TableSource,
+  filename: string,
+  profile: CsvImportProfile,
+  format: ParsedExtract["format"],
+): ParsedExtract {
+  const located = locateTable(source, profile);
+
+  if (!located) {
+    throw new Error(`Cabecalho da tabela nao corresponde ao perfil ${profile.name}.`);
+  }
+
+  const { delimiter, header, columns } = located;
+  const transactions: ParsedTransaction[] = [];
+
+  for (const { cells, lineNumber } of rowsAfter(source.records({ delimiter, encoding: profile.encoding }), header)) {
+    const rawDate = cells[columns.date!] ?? "";
+    const date = parseDateWithFormat(rawDate, profile.dateFormat);
+    const description = normalizeWhitespaces(cells[columns.description!] ?? "");
+    const amount = resolveAmount(cells, columns, profile);
+
+    // Linhas de saldo, totais e rodapés não têm data válida ou valor.
+    if (!date || !Number.isFinite(amount) || amount === 0 || normalizeText(description).startsWith("saldo")) {
+      continue;
+    }
+
+    const reference = columns.reference !== undefined ? (cells[columns.reference] ?? "").trim() : "";
+    const memo = parseMemo(description);
+
+    transactions.push({
+      date,
+      amount,
+      description,
+      reference,
+      counterpart: memo.counterpart,
+      counterpartDocument: memo.document,
+      kind: memo.kind,
+      productService: DEFAULT_PRODUCT_SERVICE,
+      paymentMethod: memo.paymentMethod,
+      movement: amount >= 0 ? "RECEITA" : "DESPESA",
+      raw: {
+        originalLineNumber: lineNumber,
+        date: rawDate,
+        cells,
+        description,
+        reference,
+      },
+    });
+  }
+
+  if (transactions.length === 0) {
+    throw new Error("Arquivo sem conteudo suficiente.");
+  }
+
+  return {
+    filename,
+    format,
+    currency: "BRL",
+    profileId: profile.id,
+    transactions,
+  };
+}
@@ -0,0 +1,201 @@
+import type { ActivityType, MovementCategory, PrismaClient } from "@prisma/client";
+import type { CategorySuggestion, ParsedTransaction } from "./types";
+import { DEFAULT_PRODUCT_SERVICE, normalizeText } from "./text";
+
+/** Sugestões a partir deste valor podem ser aceitas em lote na pré-visualização. */
+export const HIGH_CONFIDENCE_THRESHOLD = 0.8;
+
+// Lançamentos mais recentes considerados; classificações antigas pesam menos que o hábito atual.
+const HISTORY_LIMIT = 5000;
+// Semelhança mínima (Jaccard) entre descrições para considerar o lançamento parecido.
+const MIN_DESCRIPTION_SIMILARITY = 0.6;
+
+// Palavras presentes em quase todo histórico bancário; não ajudam a distinguir lançamentos.
+const GENERIC_TOKENS = new Set([
+  "pix",
+  "ted",
+  "doc",
+  "pagamento",
+  "pagto",
+  "pgto",
+  "transferencia",
+  "transf",
+  "enviado",
+  "enviada",
+  "recebido",
+  "recebida",
+  "compra",
+  "cartao",
+  "debito",
+  "credito",
+  "conta",
+  "para",
+  "ltda",
+]);
+
+type HistoryEntry = {
+  counterpartKey: string;
+  tokens: Set<string>;
+  outflow: boolean;
+  movement: MovementCategory;
+  type: ActivityType;
+  productService: string;
+};
+
+export type ClassificationHistory = {
+  byCounterpart: Map<string, HistoryEntry[]>;
+  byToken: Map<string, HistoryEntry[]>;
+};
+
+function counterpartKey(value: string) {
+  const key = normalizeText(value).replace(/[^a-z0-9]/g, "");
+  return key.startsWith("naoidentificado") ? "" : key;
+}
+
+function tokenize(value: string) {
+  return new Set(
+    normalizeText(value)
+      .replace(/[^a-z]+/g, " ")
+      .split(" ")
+      .filter((token) => token.length >= 3 && !GENERIC_TOKENS.has(token)),
+  );
+}
+
+function isOutflow(movement: MovementCategory, amount: number) {
+  return movement === "TRANSFERENCIA" ? amount < 0 : movement !== "RECEITA";
+}
+
+/**
+ * Lê os lançamentos já classificados da empresa. Os de produto/serviço
+ * "não identificado" ficam de fora: repetir essa classificação não ajuda.
+ */
+export async function loadClassificationHistory(client: PrismaClient, companyId: number): Promise<ClassificationHistory> {
+  const rows = await client.cashEntry.findMany({
+    where: { companyId, productService: { not: DEFAULT_PRODUCT_SERVICE } },
+    orderBy: { date: "desc" },
+    take: HISTORY_LIMIT,
+    select: { counterpart: true, notes: true, movement: true, type: true, productService: true, amount: true },
+  });
+
+  const history: ClassificationHistory = { byCounterpart: new Map(), byToken: new Map() };
+
+  rows.forEach((row) => {
+    const entry: HistoryEntry = {
+      counterpartKey: counterpartKey(row.counterpart),
+      // Nos lançamentos importados, a observação guarda a descrição do extrato.
+      tokens: tokenize(row.notes ?? ""),
+      outflow: isOutflow(row.movement, Number(row.amount)),
+      movement: row.movement,
+      type: row.type,
+      productService: row.productService,
+    };
+
+    if (entry.counterpartKey) {
+      const list = history.byCounterpart.get(entry.counterpartKey) ?? [];
+      list.push(entry);
+      history.byCounterpart.set(entry.counterpartKey, list);
+    }
+    entry.tokens.forEach((token) => {
+      const list = history.byToken.get(token) ?? [];
+      list.push(entry);
+      history.byToken.set(token, list);
+    });
+  });
+
+  return history;
+}
+
+/**
+ * Escolhe a classificação mais frequente entre os lançamentos parecidos.
+ * A confiança combina a parcela da classificação vencedora com a
+ * quantidade de exemplos: um único lançamento nunca passa de 50%.
+ */
+function pickSuggestion(
+  candidates: { entry: HistoryEntry; weight: number }[],
+  source: CategorySuggestion["source"],
+): CategorySuggestion | null {
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const groups = new Map<string, { entry: HistoryEntry; weight: number; count: number }>();
+  let totalWeight = 0;
+  candidates.forEach(({ entry, weight }) => {
+    const key = `${entry.movement}|${entry.type}|${entry.productService}`;
+    const group = groups.get(key) ?? { entry, weight: 0, count: 0 };
+    group.weight += weight;
+    group.count += 1;
+    groups.set(key, group);
+    totalWeight += weight;
+  });
+
+  const best = [...groups.values()].sort((a, b) => b.weight - a.weight)[0];
+  const support = candidates.length;
+  const averageWeight = totalWeight / support;
+  const confidence = Math.round((best.weight / totalWeight) * (support / (support + 1)) * averageWeight * 100) / 100;
+
+  return {
+    movement: best.entry.movement,
+    type: best.entry.type,
+    productService: best.entry.productService,
+    confidence,
+    highConfidence: confidence >= HIGH_CONFIDENCE_THRESHOLD,
+    source,
+    matches: best.count,
+  };
+}
+
+function suggestFor(transaction: ParsedTransaction, history: ClassificationHistory) {
+  const outflow = transaction.amount < 0;
+  const key = counterpartKey(transaction.counterpart);
+  const byCounterpart = (key ? history.byCounterpart.get(key) ?? [] : []).filter((entry) => entry.outflow === outflow);
+
+  if (byCounterpart.length > 0) {
+    return pickSuggestion(
+      byCounterpart.map((entry) => ({ entry, weight: 1 })),
+      "counterpart",
+    );
+  }
+
+  const tokens = tokenize(transaction.description);
+  if (tokens.size === 0) {
+    return null;
+  }
+
+  const overlaps = new Map<HistoryEntry, number>();
+  tokens.forEach((token) => {
+    history.byToken.get(token)?.forEach((entry) => {
+      if (entry.outflow === outflow) {
+        overlaps.set(entry, (overlaps.get(entry) ?? 0) + 1);
+      }
+    });
+  });
+
+  const similar = [...overlaps.entries()]
+    .map(([entry, shared]) => ({ entry, weight: shared / (tokens.size + entry.tokens.size - shared) }))
+    .filter((candidate) => candidate.weight >= MIN_DESCRIPTION_SIMILARITY);
+
+  return pickSuggestion(similar, "description");
+}
+
+/**
+ * Sugere movimentação, tipo e produto/serviço a partir do histórico da
+ * empresa. Transações já classificadas por regra não recebem sugestão, e
+ * a sugestão só é anexada: a transação muda apenas quando aceita.
+ */
+export function suggestFromHistory(transactions: ParsedTransaction[], history: ClassificationHistory) {
+  transactions.forEach((transaction) => {
+    if (transaction.rule) {
+      return;
+    }
+    const suggestion = suggestFor(transaction, history);
+    const unchanged =
+      suggestion &&
+      suggestion.movement === transaction.movement &&
+      suggestion.type === (transaction.type ?? "SERVICO") &&
+      suggestion.productService === transaction.productService;
+    if (suggestion && !unchanged) {
+      transaction.suggestion = suggestion;
+    }
+  });
+}
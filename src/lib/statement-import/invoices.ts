@@ -0,0 +1,376 @@
+import type { ActivityType } from "@prisma/client";
+import { formatCnpj, maskCpf } from "./memo";
+import type { ParsedExtract, ParsedTransaction, PaymentMethod } from "./types";
+import { DEFAULT_PRODUCT_SERVICE, decodeEntities, decodeText, normalizeWhitespaces } from "./text";
+import { isZipArchive, readZipEntries } from "./zip";
+
+/**
+ * Conta de origem dos lançamentos vindos de notas fiscais: com a chave de
+ * acesso como identificador externo, o índice único do livro-caixa impede
+ * importar a mesma nota duas vezes.
+ */
+export const INVOICE_SOURCE_ACCOUNT = "notas-fiscais";
+
+export type InvoiceOwner = {
+  cnpj: string;
+};
+
+type XmlNode = {
+  name: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: XmlNode[];
+};
+
+type Party = {
+  name: string;
+  document: string;
+};
+
+// Autorizada (100) e autorizada fora de prazo (150).
+const AUTHORIZED_STATUS = new Set(["100", "150"]);
+const CANCELLATION_EVENT = "110111";
+const MAX_PRODUCT_SERVICE_LENGTH = 120;
+
+// Tabela "tPag" do leiaute da NF-e.
+const PAYMENT_CODES: Record<string, PaymentMethod> = {
+  "01": "DINHEIRO",
+  "02": "CHEQUE",
+  "03": "CARTAO_CREDITO",
+  "04": "CARTAO_DEBITO",
+  "15": "BOLETO",
+  "16": "TRANSFERENCIA",
+  "17": "PIX",
+  "18": "TRANSFERENCIA",
+  "20": "PIX",
+};
+
+/**
+ * Árvore de elementos de um XML de nota. Prefixos de namespace são
+ * descartados ("ns2:CompNfse" vira "CompNfse"): cada prefeitura usa os
+ * seus, mas os nomes dos elementos seguem o leiaute.
+ */
+function parseXml(text: string): XmlNode {
+  const root: XmlNode = { name: "#root", attributes: {}, text: "", children: [] };
+  const stack: XmlNode[] = [root];
+  const tokenRegex =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][^>]*>|<(\/?)(?:[\w.-]+:)?([\w.-]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenRegex.exec(text)) !== null) {
+    const [, cdata, closing, name, rawAttributes, selfClosing, rawText] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined || rawText !== undefined) {
+      current.text += cdata ?? decodeEntities(rawText);
+      continue;
+    }
+    if (name === undefined) {
+      continue;
+    }
+
+    if (closing) {
+      const index = stack.map((node) => node.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    const attributeRegex = /(?:[\w.-]+:)?([\w.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributeRegex.exec(rawAttributes ?? "")) !== null) {
+      attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3] ?? "");
+    }
+
+    const node: XmlNode = { name, attributes, text: "", children: [] };
+    current.children.push(node);
+    if (!selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function child(node: XmlNode | undefined, name: string) {
+  return node?.children.find((candidate) => candidate.name === name);
+}
+
+/** Primeiro descendente com o nome, em profundidade. */
+function find(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  if (!node) {
+    return undefined;
+  }
+  for (const candidate of node.children) {
+    if (candidate.name === name) {
+      return candidate;
+    }
+    const found = find(candidate, name);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+function findAll(node: XmlNode, name: string, found: XmlNode[] = []) {
+  node.children.forEach((candidate) => {
+    if (candidate.name === name) {
+      found.push(candidate);
+    } else {
+      findAll(candidate, name, found);
+    }
+  });
+  return found;
+}
+
+function value(node: XmlNode | undefined, ...path: string[]) {
+  const target = path.reduce<XmlNode | undefined>((current, name) => child(current, name), node);
+  return normalizeWhitespaces(target?.text ?? "");
+}
+
+function digitsOf(value: string) {
+  return value.replace(/\D/g, "");
+}
+
+function formatDocument(digits: string) {
+  if (digits.length === 14) {
+    return formatCnpj(digits);
+  }
+  return digits.length === 11 ? maskCpf(digits) : undefined;
+}
+
+function readAmount(raw: string) {
+  // O leiaute usa ponto decimal sem separador de milhar.
+  const amount = Number(raw);
+  return raw && Number.isFinite(amount) ? amount : NaN;
+}
+
+function describeItems(names: string[]) {
+  const unique = [...new Set(names.filter(Boolean))];
+  if (unique.length === 0) {
+    return DEFAULT_PRODUCT_SERVICE;
+  }
+  const label = unique.length === 1 ? unique[0] : `${unique[0]} e mais ${unique.length - 1} item(ns)`;
+  return label.slice(0, MAX_PRODUCT_SERVICE_LENGTH);
+}
+
+function party(node: XmlNode | undefined): Party {
+  return {
+    name: value(node, "xNome") || value(node, "xFant"),
+    document: digitsOf(value(node, "CNPJ") || value(node, "CPF")),
+  };
+}
+
+/**
+ * Uma NF-e/NFC-e (modelos 55 e 65). O sentido é o da empresa: nota de
+ * saída emitida por ela ou de entrada emitida para ela é receita; o
+ * contrário é compra.
+ */
+function parseNfe(infNFe: XmlNode, protocols: XmlNode[], owner: InvoiceOwner): ParsedTransaction | string {
+  const ide = child(infNFe, "ide");
+  const model = value(ide, "mod");
+  const label = model === "65" ? "NFC-e" : "NF-e";
+  const number = value(ide, "nNF");
+  const key = digitsOf(infNFe.attributes.Id ?? "");
+  const protocol =
+    protocols.find((candidate) => digitsOf(value(candidate, "chNFe")) === key) ??
+    (protocols.length === 1 ? protocols[0] : undefined);
+  const status = value(protocol, "cStat");
+
+  if (status && !AUTHORIZED_STATUS.has(status)) {
+    return `${label} ${number} nao autorizada (${value(protocol, "xMotivo") || status}).`;
+  }
+  if (key.length !== 44) {
+    return `${label} ${number} sem chave de acesso.`;
+  }
+
+  const emitter = party(child(infNFe, "emit"));
+  const recipient = party(child(infNFe, "dest"));
+  const ownerDigits = digitsOf(owner.cnpj);
+  const isEmitter = emitter.document === ownerDigits;
+  const isRecipient = recipient.document === ownerDigits;
+  const outgoing = value(ide, "tpNF") !== "0";
+  const incoming = isEmitter ? outgoing : !outgoing;
+  const amount = readAmount(value(child(infNFe, "total"), "ICMSTot", "vNF"));
+  const date = (value(ide, "dhEmi") || value(ide, "dEmi")).slice(0, 10);
+  const items = findAll(infNFe, "det").map((item) => child(item, "prod"));
+  const cfops = items.map((product) => value(product, "CFOP"));
+  // CFOP x101: venda de produção do próprio estabelecimento.
+  const type: ActivityType = incoming && cfops.some((cfop) => /^[567]101$/.test(cfop)) ? "INDUSTRIA" : "COMERCIO";
+  const paymentCode = value(find(child(infNFe, "pag"), "tPag"));
+  const counterpart = isEmitter ? recipient : emitter;
+  const issues: string[] = [];
+
+  if (!isEmitter && !isRecipient) {
+    issues.push("A empresa nao e emitente nem destinataria desta nota.");
+  }
+  if (value(ide, "finNFe") === "4") {
+    issues.push("Nota de devolucao.");
+  }
+  if (!protocol) {
+    issues.push("XML sem protocolo de autorizacao.");
+  }
+  if (Number.isNaN(amount)) {
+    return `${label} ${number} sem valor total.`;
+  }
+
+  return {
+    date: /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : "",
+    amount: incoming ? Math.abs(amount) : -Math.abs(amount),
+    description: `${label} ${number} serie ${value(ide, "serie")}`.trim(),
+    reference: key,
+    counterpart: counterpart.name || (isEmitter ? "Consumidor final" : "Nao identificado"),
+    counterpartDocument: formatDocument(counterpart.document),
+    productService: describeItems(items.map((product) => value(product, "xProd"))),
+    paymentMethod: PAYMENT_CODES[paymentCode] ?? "OUTROS",
+    movement: incoming ? "RECEITA" : "COMPRA",
+    type,
+    lowConfidence: !isEmitter && !isRecipient,
+    issues: issues.length > 0 ? issues : undefined,
+    raw: { model, number, key, status },
+  };
+}
+
+function abrasfParty(node: XmlNode | undefined): Party {
+  return {
+    name: value(node, "RazaoSocial") || value(node, "NomeFantasia"),
+    document: digitsOf(value(find(node, "Cnpj")) || value(find(node, "Cpf"))),
+  };
+}
+
+/**
+ * Uma NFS-e no leiaute ABRASF (1.0 e 2.x). Sem chave de acesso nacional,
+ * a nota é identificada pelo CNPJ do prestador e pelo número. O valor é
+ * o dos serviços, antes das retenções.
+ */
+function parseNfse(compNfse: XmlNode, owner: InvoiceOwner): ParsedTransaction | string {
+  const infNfse = find(compNfse, "InfNfse") ?? compNfse;
+  const number = value(infNfse, "Numero");
+
+  if (find(compNfse, "NfseCancelamento")) {
+    return `NFS-e ${number} cancelada.`;
+  }
+
+  const provider = abrasfParty(find(infNfse, "PrestadorServico") ?? find(infNfse, "Prestador"));
+  const taker = abrasfParty(find(infNfse, "TomadorServico") ?? find(infNfse, "Tomador"));
+  const ownerDigits = digitsOf(owner.cnpj);
+  const isProvider = provider.document === ownerDigits;
+  const service = find(infNfse, "Servico");
+  const amount = readAmount(value(child(service, "Valores"), "ValorServicos"));
+  const date = value(infNfse, "DataEmissao").slice(0, 10);
+  const counterpart = isProvider ? taker : provider;
+  const issues: string[] = [];
+
+  if (!number || !provider.document) {
+    return "NFS-e sem numero ou sem CNPJ do prestador.";
+  }
+  if (Number.isNaN(amount)) {
+    return `NFS-e ${number} sem valor dos servicos.`;
+  }
+  if (!isProvider && taker.document !== ownerDigits) {
+    issues.push("A empresa nao e prestadora nem tomadora desta nota.");
+  }
+
+  return {
+    date: /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : "",
+    amount: isProvider ? Math.abs(amount) : -Math.abs(amount),
+    description: `NFS-e ${number}`,
+    reference: `NFSe-${provider.document}-${number}`,
+    counterpart: counterpart.name || "Nao identificado",
+    counterpartDocument: formatDocument(counterpart.document),
+    productService: describeItems([value(service, "Discriminacao").split(/\s*(?:\||;|\\n)\s*/)[0]]),
+    paymentMethod: "OUTROS",
+    movement: isProvider ? "RECEITA" : "COMPRA",
+    type: "SERVICO",
+    lowConfidence: issues.length > 0,
+    issues: issues.length > 0 ? issues : undefined,
+    raw: { number, verificationCode: value(infNfse, "CodigoVerificacao") },
+  };
+}
+
+/**
+ * Lê um XML com uma ou mais notas: NF-e avulsa ou com protocolo (nfeProc),
+ * lotes de NFS-e (ListaNfse, ConsultarNfseResposta) e eventos de
+ * cancelamento, que retiram a nota correspondente da importação.
+ */
+function parseInvoiceXml(text: string, owner: InvoiceOwner) {
+  const root = parseXml(text);
+  const results: (ParsedTransaction | string)[] = [];
+
+  const protocols = findAll(root, "infProt");
+  findAll(root, "infNFe").forEach((infNFe) => {
+    results.push(parseNfe(infNFe, protocols, owner));
+  });
+
+  const nfses = findAll(root, "CompNfse");
+  (nfses.length > 0 ? nfses : findAll(root, "Nfse")).forEach((compNfse) => {
+    results.push(parseNfse(compNfse, owner));
+  });
+
+  const cancelledKeys = findAll(root, "infEvento")
+    .filter((event) => value(event, "tpEvento") === CANCELLATION_EVENT)
+    .map((event) => digitsOf(value(event, "chNFe")));
+
+  return { results, cancelledKeys };
+}
+
+/**
+ * Importa notas fiscais eletrônicas de um XML ou de um ZIP com vários XML.
+ * Arquivos e notas que não viram lançamento são descritos em `warnings`.
+ */
+export function parseInvoices(buffer: Buffer, filename: string, owner: InvoiceOwner): ParsedExtract {
+  const files = isZipArchive(buffer)
+    ? readZipEntries(buffer, (name) => name.toLowerCase().endsWith(".xml"))
+    : [{ name: filename, content: buffer }];
+
+  if (files.length === 0) {
+    throw new Error("Nenhum arquivo XML encontrado no ZIP.");
+  }
+
+  const transactions: ParsedTransaction[] = [];
+  const warnings: string[] = [];
+  const cancelled = new Set<string>();
+  const seen = new Set<string>();
+
+  files.forEach((file) => {
+    const { results, cancelledKeys } = parseInvoiceXml(decodeText(file.content, "utf-8"), owner);
+    cancelledKeys.forEach((key) => cancelled.add(key));
+
+    if (results.length === 0 && cancelledKeys.length === 0) {
+      warnings.push(`${file.name}: nenhuma NF-e ou NFS-e encontrada.`);
+    }
+    results.forEach((result) => {
+      if (typeof result === "string") {
+        warnings.push(`${file.name}: ${result}`);
+      } else if (seen.has(result.reference)) {
+        warnings.push(`${file.name}: ${result.description} repetida no arquivo.`);
+      } else {
+        seen.add(result.reference);
+        transactions.push(result);
+      }
+    });
+  });
+
+  const active = transactions.filter((transaction) => {
+    if (cancelled.has(transaction.reference)) {
+      warnings.push(`${transaction.description} cancelada.`);
+      return false;
+    }
+    return true;
+  });
+
+  if (active.length === 0) {
+    throw new Error(`Nenhuma nota fiscal importavel. ${warnings.slice(0, 5).join(" ")}`.trim());
+  }
+
+  return {
+    filename,
+    format: "xml",
+    sourceAccount: INVOICE_SOURCE_ACCOUNT,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    transactions: active.sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
@@ -0,0 +1,87 @@
+import type { ParsedTransaction } from "./types";
+import { DEFAULT_PRODUCT_SERVICE, normalizeText } from "./text";
+
+export const TRANSFER_PRODUCT_SERVICE = "Transferencia entre contas";
+export const INVESTMENT_PRODUCT_SERVICE = "Aplicacao / resgate";
+export const BANK_FEE_PRODUCT_SERVICE = "Tarifas e encargos bancarios";
+export const YIELD_PRODUCT_SERVICE = "Rendimentos financeiros";
+
+export type AccountOwner = {
+  name: string;
+  cnpj: string;
+};
+
+const OWN_ACCOUNT_PATTERN = /\b(mesma titularidade|entre contas|conta propria|contas proprias|mesmo titular)\b/;
+const COMPANY_SUFFIX_PATTERN = /\b(ltda|me|epp|eireli|s\/?a|sa|slu)\b\.?/g;
+
+function companyKey(name: string) {
+  return normalizeText(name).replace(COMPANY_SUFFIX_PATTERN, " ").replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Transferência para conta do próprio cliente: o histórico diz que é
+ * entre contas de mesma titularidade, o CNPJ da contraparte é o da
+ * empresa ou o nome da contraparte é o nome da empresa.
+ */
+function isOwnAccountTransfer(transaction: ParsedTransaction, owner?: AccountOwner) {
+  if (OWN_ACCOUNT_PATTERN.test(normalizeText(transaction.description))) {
+    return true;
+  }
+  if (!owner) {
+    return false;
+  }
+
+  const ownerDigits = owner.cnpj.replace(/\D/g, "");
+  const documentDigits = (transaction.counterpartDocument ?? "").replace(/\D/g, "");
+  if (ownerDigits.length === 14 && documentDigits === ownerDigits) {
+    return true;
+  }
+
+  const ownerKey = companyKey(owner.name);
+  return ownerKey.length >= 4 && companyKey(transaction.counterpart) === ownerKey;
+}
+
+/**
+ * Ajusta movimentação e produto/serviço pelo tipo reconhecido no histórico.
+ * Transferências entre contas próprias e aplicações/resgates viram
+ * TRANSFERENCIA e não entram nos totais de receitas e despesas; tarifas,
+ * IOF e juros são despesas bancárias e rendimentos, receitas financeiras.
+ * Roda antes das regras de categorização, que podem sobrescrever tudo.
+ */
+export function classifyTransactionKinds(transactions: ParsedTransaction[], owner?: AccountOwner) {
+  transactions.forEach((transaction) => {
+    const unclassified = transaction.productService === DEFAULT_PRODUCT_SERVICE;
+
+    switch (transaction.kind) {
+      case "TARIFA":
+      case "IOF":
+      case "JUROS":
+        if (transaction.amount < 0) {
+          transaction.movement = "DESPESA";
+          transaction.productService = unclassified ? BANK_FEE_PRODUCT_SERVICE : transaction.productService;
+        }
+        break;
+      case "RENDIMENTO":
+        if (transaction.amount > 0) {
+          transaction.movement = "RECEITA";
+          transaction.productService = unclassified ? YIELD_PRODUCT_SERVICE : transaction.productService;
+        }
+        break;
+      case "APLICACAO":
+        transaction.movement = "TRANSFERENCIA";
+        transaction.productService = unclassified ? INVESTMENT_PRODUCT_SERVICE : transaction.productService;
+        break;
+      case "PIX":
+      case "TED":
+      case "DOC":
+      case "TRANSFERENCIA":
+        if (isOwnAccountTransfer(transaction, owner)) {
+          transaction.movement = "TRANSFERENCIA";
+          transaction.productService = unclassified ? TRANSFER_PRODUCT_SERVICE : transaction.productService;
+        }
+        break;
+      default:
+        break;
+    }
+  });
+}
@@ -0,0 +1,373 @@
+import type { PaymentMethod } from "./types";
+import { normalizeText, normalizeWhitespaces, stripObfuscation } from "./text";
+
+/**
+ * Natureza do lançamento segundo o histórico do banco. Tarifas, IOF, juros
+ * e rendimentos não têm contraparte; aplicações e resgates movimentam
+ * contas do próprio cliente.
+ */
+export type MemoKind =
+  | "PIX"
+  | "TED"
+  | "DOC"
+  | "TRANSFERENCIA"
+  | "BOLETO"
+  | "CARTAO"
+  | "SAQUE"
+  | "DEPOSITO"
+  | "CHEQUE"
+  | "TARIFA"
+  | "IOF"
+  | "JUROS"
+  | "RENDIMENTO"
+  | "APLICACAO"
+  | "ESTORNO"
+  | "OUTRO";
+
+export type ParsedMemo = {
+  kind: MemoKind;
+  /** Sentido informado no próprio histórico ("PIX ENVIADO", "TED RECEBIDA"). */
+  direction?: "in" | "out";
+  counterpart: string;
+  /** CPF mascarado (***.456.789-**) ou CNPJ formatado. */
+  document?: string;
+  paymentMethod: PaymentMethod;
+};
+
+// Ordem importa: "ESTORNO PIX" é estorno, "PIX TARIFA" é tarifa, "TED" antes de "transferência".
+const KIND_PATTERNS: [MemoKind, RegExp][] = [
+  ["ESTORNO", /\b(estorno|estornad[oa]|devolucao|devolvid[oa]|dev|reembolso|cancelamento)\b/],
+  ["IOF", /\biof\b/],
+  ["TARIFA", /\b(tarifa|tar|taxa|cesta|pacote de servicos|anuidade|manutencao de conta|mensalidade pacote)\b/],
+  ["JUROS", /\b(juros|encargos|mora|multa|cheque especial|adiantamento a depositante)\b/],
+  ["RENDIMENTO", /\b(rendimento|rendimentos|rend|rende facil|remuneracao|juros sobre saldo|dividendos?)\b/],
+  ["APLICACAO", /\b(aplicacao|aplic|resgate|resg|invest|investimento|cdb|lci|lca|poupanca|poup)\b/],
+  ["PIX", /\bpix\b/],
+  ["TED", /\bted\b/],
+  ["DOC", /\bdoc\b/],
+  ["TRANSFERENCIA", /\b(transferencia|transf|tef|trf)\b/],
+  ["BOLETO", /\b(boleto|bloqueto|cobranca|titulo|tit|sispag|convenio|fatura)\b/],
+  ["SAQUE", /\b(saque|saq)\b/],
+  ["CHEQUE", /\b(cheque|chq|cheq|ch compensado)\b/],
+  ["DEPOSITO", /\b(deposito|dep)\b/],
+  ["CARTAO", /\b(compra|cartao|visa|mastercard|master|elo|maestro|electron)\b/],
+];
+
+// Palavras do tipo de operação que antecedem o nome nos históricos.
+const LEADING_WORDS = new Set([
+  "pix",
+  "ted",
+  "doc",
+  "tef",
+  "trf",
+  "transf",
+  "transferencia",
+  "transfer",
+  "enviado",
+  "enviada",
+  "env",
+  "recebido",
+  "recebida",
+  "receb",
+  "rec",
+  "recebimento",
+  "pelo",
+  "pela",
+  "via",
+  "pagamento",
+  "pagto",
+  "pgto",
+  "pag",
+  "eletron",
+  "eletronico",
+  "eletronica",
+  "efetuado",
+  "efetuada",
+  "realizado",
+  "realizada",
+  "de",
+  "da",
+  "do",
+  "para",
+  "qrs",
+  "qr",
+  "code",
+  "chave",
+  "cred",
+  "deb",
+  "credito",
+  "debito",
+  "remetente",
+  "favorecido",
+  "destinatario",
+  "origem",
+  "sispag",
+  "compra",
+  "cartao",
+  "com",
+  "no",
+  "na",
+  "em",
+  "mc",
+  "visa",
+  "elo",
+  "master",
+  "maestro",
+  "electron",
+  "int",
+  "internet",
+  "mobile",
+  "app",
+  "boleto",
+  "titulo",
+  "tit",
+  "cobranca",
+  "estorno",
+  "estornado",
+  "estornada",
+  "dev",
+  "devolucao",
+  "devolvido",
+  "devolvida",
+  "entre",
+  "contas",
+  "mesma",
+  "titularidade",
+  "outra",
+  "outro",
+  "banco",
+  "bco",
+]);
+
+// Depois de PIX, TED ou DOC o histórico já passa ao nome ("PIX TRANSF
+// POUPANCA MATERIAIS"); só estas naturezas ainda qualificam a operação.
+const TRANSFER_KINDS: MemoKind[] = ["PIX", "TED", "DOC"];
+const TRANSFER_QUALIFIERS: MemoKind[] = ["ESTORNO", "TARIFA", "IOF"];
+
+const SEGMENT_SEPARATOR = /\s+-\s+|\s*\|\s*/;
+
+// Identificam o banco/agência/conta da contraparte, não o nome.
+const ACCOUNT_WORDS = new Set(["ag", "agencia", "cc", "c/c", "conta", "cta", "ip", "op"]);
+
+const MASK = "[\\d•*xX]";
+const CNPJ_PATTERN = new RegExp(`${MASK}{2}\\.${MASK}{3}\\.${MASK}{3}/${MASK}{4}-${MASK}{2}`);
+const CPF_PATTERN = new RegExp(`${MASK}{3}\\.${MASK}{3}\\.${MASK}{3}-${MASK}{2}`);
+const RAW_DOCUMENT_PATTERN = /(?<!\d)(\d{14}|\d{11})(?!\d)/;
+
+function checkDigit(digits: string, weights: number[]) {
+  const sum = weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+function isValidCpf(digits: string) {
+  if (!/^\d{11}$/.test(digits) || /^(\d)\1+$/.test(digits)) {
+    return false;
+  }
+  return (
+    checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]) === Number(digits[9]) &&
+    checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]) === Number(digits[10])
+  );
+}
+
+function isValidCnpj(digits: string) {
+  if (!/^\d{14}$/.test(digits) || /^(\d)\1+$/.test(digits)) {
+    return false;
+  }
+  return (
+    checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) === Number(digits[12]) &&
+    checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) === Number(digits[13])
+  );
+}
+
+export function formatCnpj(digits: string) {
+  return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, "$1.$2.$3/$4-$5");
+}
+
+/**
+ * CPF completo nunca é exibido: mantém só os dígitos do meio, como no
+ * padrão de mascaramento do PIX.
+ */
+export function maskCpf(value: string) {
+  const digits = value.replace(/[^\dxX*•]/g, "");
+  return `***.${digits.slice(3, 6)}.${digits.slice(6, 9)}-**`.replace(/[xX•]/g, "*");
+}
+
+function extractDocument(text: string): { document?: string; rest: string } {
+  const cnpj = CNPJ_PATTERN.exec(text);
+  if (cnpj) {
+    return { document: cnpj[0].replace(/[xX•]/g, "*"), rest: text.replace(cnpj[0], " ") };
+  }
+  const cpf = CPF_PATTERN.exec(text);
+  if (cpf) {
+    return { document: maskCpf(cpf[0]), rest: text.replace(cpf[0], " ") };
+  }
+  // Só aceita números soltos quando o dígito verificador confere: contas e
+  // protocolos também têm 11 ou 14 dígitos.
+  const raw = RAW_DOCUMENT_PATTERN.exec(text);
+  if (raw && isValidCnpj(raw[1])) {
+    return { document: formatCnpj(raw[1]), rest: text.replace(raw[1], " ") };
+  }
+  if (raw && isValidCpf(raw[1])) {
+    return { document: maskCpf(raw[1]), rest: text.replace(raw[1], " ") };
+  }
+  return { rest: text };
+}
+
+function leadingWord(token: string) {
+  return token.replace(/[^a-z/]/g, "");
+}
+
+/**
+ * Trecho inicial do histórico que descreve a operação, antes do nome da
+ * contraparte: as palavras do primeiro segmento até a primeira que não é
+ * do tipo de operação nem palavra-chave de natureza. Assim um fornecedor
+ * chamado "POUPANCA MATERIAIS" ou "MULTA COMERCIO" não muda a natureza.
+ */
+function operationHead(normalized: string) {
+  const [segment] = normalized.split(SEGMENT_SEPARATOR);
+  const spans = KIND_PATTERNS.flatMap(([kind, pattern]) =>
+    Array.from(segment.matchAll(new RegExp(pattern.source, "g")), (match) => ({
+      kind,
+      start: match.index,
+      end: match.index + match[0].length,
+    })),
+  );
+
+  let end = 0;
+  let afterTransfer = false;
+  for (const token of segment.matchAll(/\S+/g)) {
+    const tokenStart = token.index;
+    const tokenEnd = tokenStart + token[0].length;
+    const word = leadingWord(token[0]);
+    // Spans seguem a ordem de KIND_PATTERNS, então vale a natureza prioritária.
+    const span = spans.find((candidate) => candidate.start < tokenEnd && candidate.end > tokenStart);
+
+    if (/\d/.test(token[0])) {
+      break;
+    }
+    if (span) {
+      if (afterTransfer && !TRANSFER_QUALIFIERS.includes(span.kind) && !LEADING_WORDS.has(word)) {
+        break;
+      }
+      afterTransfer ||= TRANSFER_KINDS.includes(span.kind);
+    } else if (!LEADING_WORDS.has(word)) {
+      break;
+    }
+    end = tokenEnd;
+  }
+
+  return segment.slice(0, end);
+}
+
+function detectKind(head: string): MemoKind {
+  return KIND_PATTERNS.find(([, pattern]) => pattern.test(head))?.[0] ?? "OUTRO";
+}
+
+function detectDirection(normalized: string): ParsedMemo["direction"] {
+  // Só o início do histórico descreve a operação; o resto costuma ser o nome.
+  const head = normalized.split(" - ")[0];
+  if (/\b(recebid[oa]|receb|recebimento)\b/.test(head)) {
+    return "in";
+  }
+  if (/\b(enviad[oa]|env|emitid[oa]|pagamento|pagto|pgto)\b/.test(head)) {
+    return "out";
+  }
+  return undefined;
+}
+
+function resolvePaymentMethod(kind: MemoKind, head: string): PaymentMethod {
+  switch (kind) {
+    case "PIX":
+      return "PIX";
+    case "TED":
+    case "DOC":
+    case "TRANSFERENCIA":
+    case "APLICACAO":
+      return "TRANSFERENCIA";
+    case "BOLETO":
+      return "BOLETO";
+    case "SAQUE":
+      return "DINHEIRO";
+    case "CHEQUE":
+      return "CHEQUE";
+    case "DEPOSITO":
+      return /\b(cheque|chq)\b/.test(head) ? "CHEQUE" : "DINHEIRO";
+    case "CARTAO":
+      return /\b(credito|cred)\b/.test(head) && !/\b(debito|deb)\b/.test(head)
+        ? "CARTAO_CREDITO"
+        : "CARTAO_DEBITO";
+    case "ESTORNO": {
+      // Estorno volta pelo mesmo meio da operação original.
+      const original = detectKind(head.replace(KIND_PATTERNS[0][1], " "));
+      return original === "ESTORNO" ? "OUTROS" : resolvePaymentMethod(original, head);
+    }
+    default:
+      return /\bdinheiro\b/.test(head) ? "DINHEIRO" : "OUTROS";
+  }
+}
+
+/**
+ * Reduz um trecho do histórico ao nome: descarta tokens com dígitos
+ * (datas, horários, agência/conta, documentos) e rótulos de conta. No
+ * primeiro segmento as palavras do tipo de operação no início são
+ * descartadas; nos seguintes o nome fica inteiro ("DEV SISTEMAS LTDA"),
+ * a menos que o segmento só tenha palavras de operação ("Pix - Enviado").
+ */
+function cleanName(segment: string, first: boolean) {
+  const tokens = stripObfuscation(segment)
+    .split(" ")
+    .map((token) => token.replace(/^[^\p{L}\d]+|[^\p{L}\d.]+$/gu, ""))
+    .filter((token) => token && !/\d/.test(token) && !ACCOUNT_WORDS.has(normalizeText(token).replace(/:$/, "")));
+  const isLeading = (token: string) => LEADING_WORDS.has(normalizeText(token));
+
+  if (first) {
+    while (tokens.length > 0 && isLeading(tokens[0])) {
+      tokens.shift();
+    }
+  } else if (tokens.every(isLeading)) {
+    return "";
+  }
+
+  return tokens
+    .join(" ")
+    .replace(/[^\p{L}\s'.&-]/gu, "")
+    .trim();
+}
+
+const NO_COUNTERPART: MemoKind[] = ["TARIFA", "IOF", "JUROS", "RENDIMENTO", "APLICACAO", "SAQUE"];
+
+/**
+ * Interpreta o histórico do extrato (PIX, TED, DOC, boletos, cartões,
+ * tarifas, IOF, rendimentos, estornos) e extrai tipo, sentido, nome e
+ * CPF/CNPJ da contraparte. Tipo e meio de pagamento vêm só do trecho que
+ * descreve a operação, nunca do nome. Os históricos reconhecidos estão em
+ * __tests__/memo.test.ts.
+ */
+export function parseMemo(description: string): ParsedMemo {
+  const cleaned = normalizeWhitespaces(description);
+  const { document, rest } = extractDocument(cleaned);
+  const normalized = normalizeText(cleaned);
+  const head = operationHead(normalized);
+  const kind = detectKind(head);
+
+  let counterpart = "";
+  if (!NO_COUNTERPART.includes(kind)) {
+    const segments = rest.split(SEGMENT_SEPARATOR);
+    for (const [index, segment] of segments.entries()) {
+      counterpart = cleanName(segment, index === 0);
+      if (/\p{L}{2,}/u.test(counterpart)) {
+        break;
+      }
+      counterpart = "";
+    }
+  }
+
+  return {
+    kind,
+    direction: detectDirection(normalized),
+    counterpart: (counterpart || stripObfuscation(cleaned)).slice(0, 80) || "Nao identificado",
+    document,
+    paymentMethod: resolvePaymentMethod(kind, head),
+  };
+}
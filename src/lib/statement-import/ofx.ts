@@ -0,0 +1,306 @@
+import type { ParsedExtract, ParsedStatement, ParsedTransaction, PaymentMethod, StatementBalance } from "./types";
+import { parseMemo, type ParsedMemo } from "./memo";
+import {
+  DEFAULT_PRODUCT_SERVICE,
+  decodeEntities,
+  decodeText,
+  normalizeAmount,
+  normalizeWhitespaces,
+  type TextEncoding,
+} from "./text";
+
+type OfxNode = {
+  name: string;
+  value?: string;
+  children: OfxNode[];
+};
+
+const LEDGER_TIME_ZONE = "America/Sao_Paulo";
+
+// Elementos folha lidos pelo importador e os mais comuns do cabeçalho. No
+// SGML uma folha vazia (<MEMO> sem valor) não tem como ser encerrada pelo
+// texto, então é fechada pela próxima tag de abertura.
+const LEAF_ELEMENTS = new Set([
+  "ACCTID",
+  "ACCTTYPE",
+  "BALAMT",
+  "BANKID",
+  "BRANCHID",
+  "CHECKNUM",
+  "CODE",
+  "CURDEF",
+  "DTASOF",
+  "DTEND",
+  "DTPOSTED",
+  "DTSERVER",
+  "DTSTART",
+  "DTUSER",
+  "FID",
+  "FITID",
+  "LANGUAGE",
+  "MEMO",
+  "MESSAGE",
+  "NAME",
+  "ORG",
+  "PAYEEID",
+  "REFNUM",
+  "SEVERITY",
+  "SIC",
+  "SRVRTID",
+  "TRNAMT",
+  "TRNTYPE",
+  "TRNUID",
+]);
+
+/**
+ * OFX 1.x declara a codificação no cabeçalho SGML (CHARSET:1252) e o 2.x na
+ * declaração XML. A declaração só é usada quando o conteúdo não é UTF-8
+ * válido — vários bancos declaram 1252 e enviam UTF-8.
+ */
+function declaredEncoding(buffer: Buffer): TextEncoding {
+  const head = buffer.subarray(0, 512).toString("latin1");
+  if (/CHARSET:\s*(1252|8859)/i.test(head) || /encoding="(windows-1252|iso-8859-1)"/i.test(head)) {
+    return "latin1";
+  }
+  return "utf-8";
+}
+
+/**
+ * Monta a árvore de elementos a partir do corpo OFX. Funciona tanto para
+ * XML (2.x) quanto para SGML (1.x), em que os elementos folha não têm tag
+ * de fechamento: uma folha conhecida ou um elemento com valor é encerrado
+ * implicitamente pela próxima tag, e uma tag de fechamento encerra tudo o
+ * que estiver aberto até o elemento correspondente.
+ */
+function parseOfxTree(text: string): OfxNode {
+  const start = text.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error("Arquivo OFX invalido: elemento <OFX> nao encontrado.");
+  }
+
+  const root: OfxNode = { name: "#root", children: [] };
+  const stack: OfxNode[] = [root];
+  const tokenRegex = /<(\/?)([A-Za-z0-9_.]+)[^>]*>|([^<]+)/g;
+  const body = text.slice(start).replace(/<!--[\s\S]*?-->/g, "");
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenRegex.exec(body)) !== null) {
+    const [, closing, rawName, rawText] = match;
+    const current = stack[stack.length - 1];
+
+    if (rawText !== undefined) {
+      const value = rawText.trim();
+      if (value && current !== root) {
+        current.value = decodeEntities(value);
+      }
+      continue;
+    }
+
+    const name = rawName.toUpperCase();
+
+    if (closing) {
+      const index = stack.map((node) => node.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    if (current !== root && (current.value !== undefined || LEAF_ELEMENTS.has(current.name))) {
+      stack.pop();
+    }
+
+    const node: OfxNode = { name, children: [] };
+    stack[stack.length - 1].children.push(node);
+    // <MEMO/> no XML já vem fechado.
+    if (!match[0].endsWith("/>")) {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function child(node: OfxNode | undefined, name: string) {
+  return node?.children.find((candidate) => candidate.name === name);
+}
+
+function value(node: OfxNode | undefined, name: string) {
+  const found = child(node, name);
+  return found?.value?.trim() || undefined;
+}
+
+function findAll(node: OfxNode, names: Set<string>, found: OfxNode[] = []) {
+  node.children.forEach((candidate) => {
+    if (names.has(candidate.name)) {
+      found.push(candidate);
+    } else {
+      findAll(candidate, names, found);
+    }
+  });
+  return found;
+}
+
+const ledgerDateFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: LEDGER_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/**
+ * Converte datas OFX (AAAAMMDD[HHMMSS[.XXX]][[-3:BRT]]) para o dia do
+ * livro-caixa. Com fuso explícito, o instante é convertido para o horário
+ * de Brasília; sem fuso, vale o dia informado pelo banco.
+ */
+export function parseOfxDate(raw: string | undefined) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?(?:\.\d+)?)?\s*(?:\[\s*([+-]?\d+(?:\.\d+)?)\s*(?::[^\]]*)?\])?/.exec(
+    (raw ?? "").trim(),
+  );
+  if (!match) {
+    return "";
+  }
+
+  const [, year, month, day, hour, minute, second, offset] = match;
+  const localDate = `${year}-${month}-${day}`;
+  const check = new Date(`${localDate}T00:00:00.000Z`);
+  if (Number.isNaN(check.getTime()) || check.toISOString().slice(0, 10) !== localDate) {
+    return "";
+  }
+
+  if (offset === undefined || hour === undefined) {
+    return localDate;
+  }
+
+  // O deslocamento é em horas e pode ser fracionário: [-3.5:NST] são 3h30.
+  const offsetMinutes = Math.round(Number(offset) * 60);
+  const utc =
+    Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second ?? "0")) -
+    offsetMinutes * 60_000;
+
+  return ledgerDateFormatter.format(new Date(utc));
+}
+
+function parseBalance(node: OfxNode | undefined): StatementBalance | undefined {
+  const amount = normalizeAmount(value(node, "BALAMT") ?? "");
+  if (!node || !Number.isFinite(amount)) {
+    return undefined;
+  }
+  return { amount, date: parseOfxDate(value(node, "DTASOF")) };
+}
+
+function resolvePaymentMethod(trnType: string, checkNumber: string, memo: ParsedMemo, creditCard: boolean): PaymentMethod {
+  if (creditCard) {
+    return "CARTAO_CREDITO";
+  }
+  if (checkNumber || trnType === "CHECK") {
+    return "CHEQUE";
+  }
+  if (trnType === "CASH" || trnType === "ATM") {
+    return "DINHEIRO";
+  }
+  if (trnType === "POS") {
+    return "CARTAO_DEBITO";
+  }
+  if (trnType === "XFER" && memo.paymentMethod === "OUTROS") {
+    return "TRANSFERENCIA";
+  }
+  return memo.paymentMethod;
+}
+
+function parseTransaction(node: OfxNode, creditCard: boolean): ParsedTransaction {
+  const trnType = (value(node, "TRNTYPE") ?? "").toUpperCase();
+  const posted = value(node, "DTPOSTED") ?? "";
+  const amountRaw = value(node, "TRNAMT") ?? "0";
+  const fitid = value(node, "FITID") ?? "";
+  const checkNumber = value(node, "CHECKNUM") ?? "";
+  const payeeId = value(node, "PAYEEID") ?? "";
+  const name = normalizeWhitespaces(value(node, "NAME") ?? value(child(node, "PAYEE"), "NAME") ?? "");
+  const memo = normalizeWhitespaces(value(node, "MEMO") ?? "");
+
+  // Alguns bancos repetem o nome no memo; outros só preenchem um dos dois.
+  const description =
+    name && memo && !memo.toUpperCase().includes(name.toUpperCase()) ? `${memo} - ${name}` : memo || name;
+  const amount = normalizeAmount(amountRaw);
+  const parsedMemo = parseMemo(description);
+
+  return {
+    date: parseOfxDate(posted),
+    amount,
+    description,
+    reference: fitid,
+    counterpart: name || parsedMemo.counterpart,
+    counterpartDocument: parsedMemo.document,
+    kind: parsedMemo.kind,
+    productService: DEFAULT_PRODUCT_SERVICE,
+    paymentMethod: resolvePaymentMethod(trnType, checkNumber, parsedMemo, creditCard),
+    movement: amount >= 0 ? "RECEITA" : "DESPESA",
+    raw: {
+      posted,
+      amountRaw,
+      memo,
+      name,
+      fitid,
+      checkNumber,
+      payeeId,
+      refNumber: value(node, "REFNUM"),
+      userDate: value(node, "DTUSER"),
+      type: trnType,
+    },
+  };
+}
+
+function parseStatement(node: OfxNode, defaultCurrency: string): ParsedStatement {
+  const creditCard = node.name === "CCSTMTRS";
+  const accountNode = child(node, creditCard ? "CCACCTFROM" : "BANKACCTFROM");
+  const transactionList = child(node, "BANKTRANLIST");
+
+  return {
+    kind: creditCard ? "creditcard" : "bank",
+    currency: value(node, "CURDEF") ?? defaultCurrency,
+    account: accountNode
+      ? {
+          bankId: value(accountNode, "BANKID"),
+          branchId: value(accountNode, "BRANCHID"),
+          accountId: value(accountNode, "ACCTID"),
+          type: creditCard ? "CREDITCARD" : value(accountNode, "ACCTTYPE"),
+        }
+      : undefined,
+    startDate: parseOfxDate(value(transactionList, "DTSTART")) || undefined,
+    endDate: parseOfxDate(value(transactionList, "DTEND")) || undefined,
+    ledgerBalance: parseBalance(child(node, "LEDGERBAL")),
+    availableBalance: parseBalance(child(node, "AVAILBAL")),
+    transactions: (transactionList?.children ?? [])
+      .filter((candidate) => candidate.name === "STMTTRN")
+      .map((candidate) => parseTransaction(candidate, creditCard)),
+  };
+}
+
+export function parseOfx(buffer: Buffer, filename: string): ParsedExtract {
+  const text = decodeText(buffer, declaredEncoding(buffer));
+  const tree = parseOfxTree(text);
+  const statementNodes = findAll(tree, new Set(["STMTRS", "CCSTMTRS"]));
+
+  if (statementNodes.length === 0) {
+    throw new Error("Arquivo OFX invalido: transacoes nao encontradas.");
+  }
+
+  const statements = statementNodes
+    .map((node) => parseStatement(node, "BRL"))
+    .filter((statement) => statement.transactions.length > 0);
+
+  if (statements.length === 0) {
+    throw new Error("Nenhuma transacao encontrada no arquivo OFX.");
+  }
+
+  const [first] = statements;
+
+  return {
+    filename,
+    format: "ofx",
+    currency: first.currency,
+    account: first.account,
+    statements,
+    transactions: first.transactions,
+  };
+}
@@ -0,0 +1,140 @@
+export type PdfColumn = "date" | "description" | "document" | "amount" | "credit" | "debit" | "balance";
+
+/**
+ * Layout de extrato em PDF. As posições das colunas não são fixas: são
+ * lidas do cabeçalho da tabela em cada página, a partir dos rótulos
+ * abaixo, porque variam com o tamanho da página e a versão do internet
+ * banking.
+ */
+export type PdfLayoutTemplate = {
+  id: string;
+  name: string;
+  bank?: string;
+  /** Texto da primeira página que identifica o banco. */
+  detect: RegExp;
+  headers: Partial<Record<PdfColumn, string[]>>;
+  /** Data no início da linha: DD/MM, DD/MM/AA ou DD/MM/AAAA. */
+  datePattern: RegExp;
+  /** Quando o sinal vem em sufixo ("150,00 D") ou em colunas separadas. */
+  signConvention: "signed" | "suffix" | "split";
+  /** Linhas ignoradas (saldos, totais, cabeçalhos repetidos). */
+  skip: RegExp;
+};
+
+const DEFAULT_SKIP = /^(saldo|total|s\s*a\s*l\s*d\s*o|lancamentos futuros|data\b)/;
+const SLASH_DATE = /^(\d{2})\/(\d{2})(?:\/(\d{2}|\d{4}))?$/;
+
+export const AMOUNT_PATTERN = /^[-(]?\s*(?:R\$\s*)?-?\d{1,3}(?:\.?\d{3})*,\d{2}\s*\)?\s*[-+]?\s*[CD]?$/i;
+
+export const PDF_LAYOUT_TEMPLATES: PdfLayoutTemplate[] = [
+  {
+    id: "pdf:itau",
+    name: "Itaú",
+    bank: "341",
+    detect: /ita[uú]\s+unibanco|banco\s+ita[uú]/i,
+    headers: { date: ["data"], description: ["lancamento", "lancamentos"], amount: ["valor"], balance: ["saldo"] },
+    datePattern: SLASH_DATE,
+    signConvention: "signed",
+    skip: DEFAULT_SKIP,
+  },
+  {
+    id: "pdf:bradesco",
+    name: "Bradesco",
+    bank: "237",
+    detect: /bradesco/i,
+    headers: {
+      date: ["data"],
+      description: ["historico", "lancamento"],
+      document: ["docto", "documento"],
+      credit: ["credito"],
+      debit: ["debito"],
+      balance: ["saldo"],
+    },
+    datePattern: SLASH_DATE,
+    signConvention: "split",
+    skip: DEFAULT_SKIP,
+  },
+  {
+    id: "pdf:bb",
+    name: "Banco do Brasil",
+    bank: "001",
+    detect: /banco\s+do\s+brasil|bb\.com\.br/i,
+    headers: {
+      date: ["dia", "data"],
+      description: ["historico"],
+      document: ["documento"],
+      amount: ["valor"],
+      balance: ["saldo"],
+    },
+    datePattern: SLASH_DATE,
+    signConvention: "suffix",
+    skip: DEFAULT_SKIP,
+  },
+  {
+    id: "pdf:caixa",
+    name: "Caixa",
+    bank: "104",
+    detect: /caixa\s+econ[oô]mica|caixa\.gov\.br/i,
+    headers: {
+      date: ["data"],
+      description: ["historico"],
+      document: ["nrdoc", "documento"],
+      amount: ["valor"],
+      balance: ["saldo"],
+    },
+    datePattern: SLASH_DATE,
+    signConvention: "suffix",
+    skip: DEFAULT_SKIP,
+  },
+  {
+    id: "pdf:santander",
+    name: "Santander",
+    bank: "033",
+    detect: /santander/i,
+    headers: {
+      date: ["data"],
+      description: ["descricao", "historico"],
+      document: ["documento", "docto"],
+      credit: ["credito"],
+      debit: ["debito"],
+      balance: ["saldo"],
+    },
+    datePattern: SLASH_DATE,
+    signConvention: "split",
+    skip: DEFAULT_SKIP,
+  },
+  {
+    id: "pdf:nubank",
+    name: "Nubank",
+    bank: "260",
+    detect: /nu\s+pagamentos|nubank/i,
+    headers: { date: ["data"], description: ["descricao", "movimentacoes"], amount: ["valor"] },
+    datePattern: SLASH_DATE,
+    signConvention: "signed",
+    skip: DEFAULT_SKIP,
+  },
+  {
+    id: "pdf:inter",
+    name: "Inter",
+    bank: "077",
+    detect: /banco\s+inter|bancointer/i,
+    headers: { date: ["data"], description: ["descricao", "historico"], amount: ["valor"], balance: ["saldo"] },
+    datePattern: SLASH_DATE,
+    signConvention: "signed",
+    skip: DEFAULT_SKIP,
+  },
+];
+
+/**
+ * Usado quando nenhum banco é reconhecido ou o cabeçalho não é encontrado:
+ * cada linha é lida como "data ... descrição ... valor [saldo]".
+ */
+export const GENERIC_PDF_TEMPLATE: PdfLayoutTemplate = {
+  id: "pdf:generic",
+  name: "Genérico",
+  detect: /.*/,
+  headers: {},
+  datePattern: SLASH_DATE,
+  signConvention: "signed",
+  skip: DEFAULT_SKIP,
+};
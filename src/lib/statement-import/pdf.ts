@@ -0,0 +1,361 @@
+import { extractTextItems } from "unpdf";
+import type { ParsedExtract, ParsedTransaction } from "./types";
+import { parseMemo } from "./memo";
+import {
+  AMOUNT_PATTERN,
+  GENERIC_PDF_TEMPLATE,
+  PDF_LAYOUT_TEMPLATES,
+  type PdfColumn,
+  type PdfLayoutTemplate,
+} from "./pdf-templates";
+import {
+  DEFAULT_PRODUCT_SERVICE,
+  normalizeAmount,
+  normalizeText,
+  normalizeWhitespaces,
+} from "./text";
+
+type TextItem = {
+  text: string;
+  x: number;
+  right: number;
+};
+
+type TextLine = {
+  page: number;
+  y: number;
+  items: TextItem[];
+};
+
+type ColumnRange = {
+  column: PdfColumn;
+  start: number;
+  end: number;
+};
+
+type RowDraft = {
+  date: string;
+  description: string[];
+  document: string;
+  amountText: string;
+  issues: string[];
+  page: number;
+};
+
+// Itens com diferença vertical menor que isso pertencem à mesma linha.
+const LINE_TOLERANCE = 2.5;
+
+async function readLines(buffer: Buffer) {
+  const { items } = await extractTextItems(new Uint8Array(buffer));
+  const lines: TextLine[] = [];
+
+  items.forEach((pageItems, pageIndex) => {
+    const pageLines: TextLine[] = [];
+    pageItems
+      .filter((item) => item.str.trim().length > 0)
+      .forEach((item) => {
+        const existing = pageLines.find((line) => Math.abs(line.y - item.y) <= LINE_TOLERANCE);
+        const textItem = { text: item.str.trim(), x: item.x, right: item.x + item.width };
+        if (existing) {
+          existing.items.push(textItem);
+        } else {
+          pageLines.push({ page: pageIndex + 1, y: item.y, items: [textItem] });
+        }
+      });
+
+    // Origem do PDF é o canto inferior esquerdo: y maior vem primeiro.
+    pageLines.sort((a, b) => b.y - a.y);
+    pageLines.forEach((line) => line.items.sort((a, b) => a.x - b.x));
+    lines.push(...pageLines);
+  });
+
+  return lines;
+}
+
+function lineText(line: TextLine) {
+  return normalizeWhitespaces(line.items.map((item) => item.text).join(" "));
+}
+
+/**
+ * Procura, na linha, os rótulos das colunas do modelo e devolve as faixas
+ * horizontais de cada coluna (da metade do espaço até o rótulo anterior à
+ * metade do espaço até o próximo).
+ */
+function readHeader(line: TextLine, template: PdfLayoutTemplate): ColumnRange[] | null {
+  const found: { column: PdfColumn; start: number; end: number }[] = [];
+
+  (Object.entries(template.headers) as [PdfColumn, string[]][]).forEach(([column, labels]) => {
+    const item = line.items.find((candidate) =>
+      labels.some((label) => normalizeText(candidate.text).replace(/[^a-z]/g, "").startsWith(label)),
+    );
+    if (item) {
+      found.push({ column, start: item.x, end: item.right });
+    }
+  });
+
+  const columns = new Set(found.map((range) => range.column));
+  const hasAmount = columns.has("amount") || (columns.has("credit") && columns.has("debit"));
+  if (!columns.has("date") || !columns.has("description") || !hasAmount) {
+    return null;
+  }
+
+  found.sort((a, b) => a.start - b.start);
+  return found.map((range, index) => ({
+    column: range.column,
+    start: index === 0 ? -Infinity : (found[index - 1].end + range.start) / 2,
+    end: index === found.length - 1 ? Infinity : (range.end + found[index + 1].start) / 2,
+  }));
+}
+
+function splitByColumns(line: TextLine, ranges: ColumnRange[]) {
+  const cells: Partial<Record<PdfColumn, string>> = {};
+  line.items.forEach((item) => {
+    const center = (item.x + item.right) / 2;
+    const range = ranges.find((candidate) => center >= candidate.start && center < candidate.end);
+    if (range) {
+      cells[range.column] = normalizeWhitespaces(`${cells[range.column] ?? ""} ${item.text}`);
+    }
+  });
+  return cells;
+}
+
+function inferYear(lines: TextLine[]) {
+  for (const line of lines.slice(0, 60)) {
+    const match = /\b\d{2}\/\d{2}\/(\d{4})\b/.exec(lineText(line));
+    if (match) {
+      return match[1];
+    }
+  }
+  return String(new Date().getFullYear());
+}
+
+function parseDate(raw: string, template: PdfLayoutTemplate, fallbackYear: string) {
+  const match = template.datePattern.exec(raw.trim());
+  if (!match) {
+    return "";
+  }
+  const [, day, month, rawYear] = match;
+  const year = rawYear ? (rawYear.length === 2 ? `20${rawYear}` : rawYear) : fallbackYear;
+  const iso = `${year}-${month}-${day}`;
+  const check = new Date(`${iso}T00:00:00.000Z`);
+  return Number.isNaN(check.getTime()) || check.toISOString().slice(0, 10) !== iso ? "" : iso;
+}
+
+function parseAmount(raw: string, template: PdfLayoutTemplate) {
+  const value = raw.trim();
+  if (!value || !AMOUNT_PATTERN.test(value)) {
+    return NaN;
+  }
+  const amount = normalizeAmount(value.replace(/\s*[CD]$/i, ""));
+  if (template.signConvention === "suffix" && /D$/i.test(value)) {
+    return -Math.abs(amount);
+  }
+  return amount;
+}
+
+/**
+ * Valores encostados em outra coluna (documento, saldo) acabam na mesma
+ * célula; usa o último trecho que tenha formato de valor.
+ */
+function pickAmount(cell: string | undefined) {
+  const tokens = (cell ?? "").split(" ").filter(Boolean);
+  for (let index = tokens.length - 1; index >= 0; index -= 1) {
+    const withSuffix = tokens.slice(index).join(" ");
+    if (AMOUNT_PATTERN.test(withSuffix)) {
+      return withSuffix;
+    }
+  }
+  return "";
+}
+
+function toTransaction(draft: RowDraft, amount: number, index: number): ParsedTransaction {
+  const description = normalizeWhitespaces(draft.description.join(" "));
+  const issues = [...draft.issues];
+  if (!description) {
+    issues.push("Descrição não encontrada.");
+  }
+  const memo = parseMemo(description);
+
+  return {
+    date: draft.date,
+    amount,
+    description,
+    reference: "",
+    counterpart: memo.counterpart,
+    counterpartDocument: memo.document,
+    kind: memo.kind,
+    productService: DEFAULT_PRODUCT_SERVICE,
+    paymentMethod: memo.paymentMethod,
+    movement: amount >= 0 ? "RECEITA" : "DESPESA",
+    lowConfidence: issues.length > 0,
+    issues: issues.length > 0 ? issues : undefined,
+    raw: {
+      page: draft.page,
+      index,
+      document: draft.document,
+      amount: draft.amountText,
+    },
+  };
+}
+
+/**
+ * Lê uma linha com colunas conhecidas (cabeçalho encontrado).
+ */
+function readColumnRow(
+  cells: Partial<Record<PdfColumn, string>>,
+  template: PdfLayoutTemplate,
+): { amount: number; amountText: string; issues: string[] } {
+  const issues: string[] = [];
+
+  if (template.signConvention === "split") {
+    const creditText = pickAmount(cells.credit);
+    const debitText = pickAmount(cells.debit);
+    const credit = parseAmount(creditText, template);
+    const debit = parseAmount(debitText, template);
+    const creditValue = Number.isFinite(credit) ? Math.abs(credit) : 0;
+    const debitValue = Number.isFinite(debit) ? Math.abs(debit) : 0;
+    if (creditValue && debitValue) {
+      issues.push("Valor encontrado nas colunas de crédito e débito.");
+    }
+    return {
+      amount: creditValue || debitValue ? creditValue - debitValue : NaN,
+      amountText: creditText || debitText,
+      issues,
+    };
+  }
+
+  const amountText = pickAmount(cells.amount);
+  return { amount: parseAmount(amountText, template), amountText, issues };
+}
+
+/**
+ * Sem cabeçalho: a linha precisa terminar com um ou dois valores (o
+ * segundo costuma ser o saldo).
+ */
+function readLooseRow(text: string, template: PdfLayoutTemplate) {
+  const tokens = text.split(" ");
+  const amounts: string[] = [];
+  while (tokens.length > 1) {
+    const last = tokens[tokens.length - 1];
+    // "150,00 D" chega como dois itens.
+    const candidate = /^[CD]$/i.test(last) && tokens.length > 2 ? `${tokens[tokens.length - 2]} ${last}` : last;
+    if (!AMOUNT_PATTERN.test(candidate)) {
+      break;
+    }
+    amounts.unshift(candidate);
+    tokens.splice(tokens.length - candidate.split(" ").length);
+  }
+
+  const issues: string[] = [];
+  if (amounts.length > 2) {
+    issues.push("Mais de dois valores na linha; considerado o primeiro.");
+  }
+  const amountText = amounts[0] ?? "";
+
+  return {
+    rest: tokens.join(" "),
+    amountText,
+    amount: parseAmount(amountText, template),
+    issues,
+  };
+}
+
+function detectTemplate(lines: TextLine[]) {
+  const firstPage = lines
+    .filter((line) => line.page === 1)
+    .map(lineText)
+    .join("\n");
+  return PDF_LAYOUT_TEMPLATES.find((template) => template.detect.test(firstPage)) ?? GENERIC_PDF_TEMPLATE;
+}
+
+export async function parsePdf(buffer: Buffer, filename: string): Promise<ParsedExtract> {
+  const lines = await readLines(buffer);
+
+  if (lines.length === 0) {
+    throw new Error("PDF sem camada de texto. Extratos digitalizados precisam passar por OCR antes da importacao.");
+  }
+
+  const template = detectTemplate(lines);
+  const fallbackYear = inferYear(lines);
+  const transactions: ParsedTransaction[] = [];
+  let ranges: ColumnRange[] | null = null;
+  let lastDate = "";
+  let pending: (RowDraft & { amount: number }) | null = null;
+
+  const flush = () => {
+    if (pending && Number.isFinite(pending.amount) && pending.amount !== 0) {
+      transactions.push(toTransaction(pending, pending.amount, transactions.length));
+    }
+    pending = null;
+  };
+
+  for (const line of lines) {
+    const header = readHeader(line, template);
+    if (header) {
+      flush();
+      // Cada página costuma repetir o cabeçalho; até lá vale o da anterior.
+      ranges = header;
+      continue;
+    }
+
+    const text = lineText(line);
+    const cells = ranges ? splitByColumns(line, ranges) : null;
+    const rawDate = cells ? (cells.date ?? "").split(" ")[0] : text.split(" ")[0];
+    const date = parseDate(rawDate, template, fallbackYear);
+    const loose = cells ? null : readLooseRow(date ? text.slice(rawDate.length).trim() : text, template);
+    const row = cells ? readColumnRow(cells, template) : loose!;
+    const description = cells ? cells.description ?? "" : loose!.rest;
+
+    if (template.skip.test(normalizeText(description))) {
+      flush();
+      continue;
+    }
+
+    if (Number.isFinite(row.amount)) {
+      flush();
+      const issues = [...row.issues];
+      if (!date) {
+        if (!lastDate) {
+          continue;
+        }
+        issues.push("Data não informada na linha; usada a data do lançamento anterior.");
+      }
+      lastDate = date || lastDate;
+      pending = {
+        date: lastDate,
+        description: description ? [description] : [],
+        document: cells?.document ?? "",
+        amountText: row.amountText,
+        amount: row.amount,
+        issues,
+        page: line.page,
+      };
+      continue;
+    }
+
+    if (pending && description && !date) {
+      // Históricos longos quebram em várias linhas sem data nem valor.
+      pending.description.push(description);
+      continue;
+    }
+
+    flush();
+    if (date) {
+      lastDate = date;
+    }
+  }
+  flush();
+
+  if (transactions.length === 0) {
+    throw new Error("Nenhuma transacao encontrada no PDF.");
+  }
+
+  return {
+    filename,
+    format: "pdf",
+    currency: "BRL",
+    account: template.bank ? { bankId: template.bank } : undefined,
+    templateId: template.id,
+    transactions,
+  };
+}
@@ -0,0 +1,247 @@
+import type { ImportProfile, PrismaClient } from "@prisma/client";
+import type { TextEncoding } from "./text";
+
+export type CsvDelimiter = "," | ";" | "\t" | "|";
+export type CsvEncoding = TextEncoding;
+export type CsvDateFormat = "DD/MM/YYYY" | "DD/MM/YY" | "YYYY-MM-DD" | "MM/DD/YYYY" | "DD-MM-YYYY" | "YYYYMMDD";
+
+/**
+ * - signed: a coluna de valor já traz o sinal (negativo = saída);
+ * - inverted: sinal invertido (faturas de cartão, em que compras são positivas);
+ * - split: créditos e débitos em colunas separadas;
+ * - indicator: valor absoluto e uma coluna com "C"/"D".
+ */
+export type SignConvention = "signed" | "inverted" | "split" | "indicator";
+
+export type CsvColumnMapping = {
+  date: string;
+  description: string;
+  amount?: string;
+  credit?: string;
+  debit?: string;
+  indicator?: string;
+  reference?: string;
+};
+
+export type CsvImportProfile = {
+  id: string;
+  name: string;
+  bank?: string | null;
+  builtIn: boolean;
+  delimiter: CsvDelimiter;
+  /** Usada apenas quando o arquivo não tem BOM e não é UTF-8 válido. */
+  encoding: CsvEncoding;
+  dateFormat: CsvDateFormat;
+  headerRow: number;
+  signConvention: SignConvention;
+  debitIndicators?: string[];
+  columns: CsvColumnMapping;
+};
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [",", ";", "\t", "|"];
+export const CSV_ENCODINGS: CsvEncoding[] = ["utf-8", "latin1"];
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ["DD/MM/YYYY", "DD/MM/YY", "YYYY-MM-DD", "MM/DD/YYYY", "DD-MM-YYYY", "YYYYMMDD"];
+export const SIGN_CONVENTIONS: SignConvention[] = ["signed", "inverted", "split", "indicator"];
+
+export const PRESET_PROFILES: CsvImportProfile[] = [
+  {
+    id: "preset:nubank",
+    name: "Nubank",
+    bank: "260",
+    builtIn: true,
+    delimiter: ",",
+    encoding: "utf-8",
+    dateFormat: "DD/MM/YYYY",
+    headerRow: 0,
+    signConvention: "signed",
+    columns: { date: "data", amount: "valor", reference: "identificador", description: "descricao" },
+  },
+  {
+    id: "preset:itau",
+    name: "Itaú",
+    bank: "341",
+    builtIn: true,
+    delimiter: ";",
+    encoding: "latin1",
+    dateFormat: "DD/MM/YYYY",
+    headerRow: 0,
+    signConvention: "signed",
+    columns: { date: "data", description: "lancamento", amount: "valor" },
+  },
+  {
+    id: "preset:bradesco",
+    name: "Bradesco",
+    bank: "237",
+    builtIn: true,
+    delimiter: ";",
+    encoding: "latin1",
+    dateFormat: "DD/MM/YY",
+    headerRow: 1,
+    signConvention: "split",
+    columns: { date: "data", description: "historico", reference: "docto", credit: "credito", debit: "debito" },
+  },
+  {
+    id: "preset:bb",
+    name: "Banco do Brasil",
+    bank: "001",
+    builtIn: true,
+    delimiter: ",",
+    encoding: "latin1",
+    dateFormat: "DD/MM/YYYY",
+    headerRow: 0,
+    signConvention: "signed",
+    columns: { date: "data", description: "lancamento", reference: "ndocumento", amount: "valor" },
+  },
+  {
+    id: "preset:caixa",
+    name: "Caixa Econômica Federal",
+    bank: "104",
+    builtIn: true,
+    delimiter: ";",
+    encoding: "latin1",
+    dateFormat: "YYYYMMDD",
+    headerRow: 0,
+    signConvention: "indicator",
+    debitIndicators: ["D"],
+    columns: { date: "datamov", description: "historico", reference: "nrdoc", amount: "valor", indicator: "debcred" },
+  },
+  {
+    id: "preset:santander",
+    name: "Santander",
+    bank: "033",
+    builtIn: true,
+    delimiter: ";",
+    encoding: "latin1",
+    dateFormat: "DD/MM/YYYY",
+    headerRow: 2,
+    signConvention: "signed",
+    columns: { date: "data", description: "historico", reference: "documento", amount: "valor" },
+  },
+  {
+    id: "preset:inter",
+    name: "Inter",
+    bank: "077",
+    builtIn: true,
+    delimiter: ";",
+    encoding: "utf-8",
+    dateFormat: "DD/MM/YYYY",
+    headerRow: 4,
+    signConvention: "signed",
+    columns: { date: "datalancamento", description: "descricao", amount: "valor" },
+  },
+];
+
+function readString(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Valida um perfil recebido do formulário de administração.
+ * Retorna a lista de erros ou o perfil normalizado (sem id).
+ */
+export function parseProfilePayload(
+  payload: Record<string, unknown>,
+): { profile: Omit<CsvImportProfile, "id" | "builtIn">; errors: null } | { profile: null; errors: string[] } {
+  const errors: string[] = [];
+  const name = readString(payload.name);
+  const bank = readString(payload.bank) || null;
+  const delimiter = (payload.delimiter === "\\t" ? "\t" : payload.delimiter) as CsvDelimiter;
+  const encoding = payload.encoding as CsvEncoding;
+  const dateFormat = payload.dateFormat as CsvDateFormat;
+  const signConvention = payload.signConvention as SignConvention;
+  const headerRow = Number(payload.headerRow ?? 0);
+  const rawColumns = (payload.columns && typeof payload.columns === "object" ? payload.columns : {}) as Record<
+    string,
+    unknown
+  >;
+  const columns: CsvColumnMapping = {
+    date: readString(rawColumns.date),
+    description: readString(rawColumns.description),
+  };
+  (["amount", "credit", "debit", "indicator", "reference"] as const).forEach((key) => {
+    const value = readString(rawColumns[key]);
+    if (value) {
+      columns[key] = value;
+    }
+  });
+  const debitIndicators = Array.isArray(payload.debitIndicators)
+    ? payload.debitIndicators.map(readString).filter(Boolean)
+    : readString(payload.debitIndicators)
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean);
+
+  if (name.length < 2) {
+    errors.push("Informe o nome do perfil.");
+  }
+  if (!CSV_DELIMITERS.includes(delimiter)) {
+    errors.push("Separador inválido.");
+  }
+  if (!CSV_ENCODINGS.includes(encoding)) {
+    errors.push("Codificação inválida.");
+  }
+  if (!CSV_DATE_FORMATS.includes(dateFormat)) {
+    errors.push("Formato de data inválido.");
+  }
+  if (!SIGN_CONVENTIONS.includes(signConvention)) {
+    errors.push("Convenção de sinal inválida.");
+  }
+  if (!Number.isInteger(headerRow) || headerRow < 0 || headerRow > 50) {
+    errors.push("Linha do cabeçalho inválida.");
+  }
+  if (!columns.date || !columns.description) {
+    errors.push("Informe as colunas de data e descrição.");
+  }
+  if (signConvention === "split" && (!columns.credit || !columns.debit)) {
+    errors.push("Informe as colunas de crédito e débito.");
+  }
+  if (signConvention !== "split" && !columns.amount) {
+    errors.push("Informe a coluna de valor.");
+  }
+  if (signConvention === "indicator" && (!columns.indicator || debitIndicators.length === 0)) {
+    errors.push("Informe a coluna de indicador e os valores que representam débito.");
+  }
+
+  if (errors.length > 0) {
+    return { profile: null, errors };
+  }
+
+  return {
+    profile: {
+      name,
+      bank,
+      delimiter,
+      encoding,
+      dateFormat,
+      headerRow,
+      signConvention,
+      debitIndicators: signConvention === "indicator" ? debitIndicators : undefined,
+      columns,
+    },
+    errors: null,
+  };
+}
+
+export function toCsvImportProfile(row: ImportProfile): CsvImportProfile {
+  return {
+    id: `db:${row.id}`,
+    name: row.name,
+    bank: row.bank,
+    builtIn: false,
+    delimiter: row.delimiter as CsvDelimiter,
+    encoding: row.encoding as CsvEncoding,
+    dateFormat: row.dateFormat as CsvDateFormat,
+    headerRow: row.headerRow,
+    signConvention: row.signConvention as SignConvention,
+    debitIndicators: row.debitIndicators,
+    columns: row.columns as CsvColumnMapping,
+  };
+}
+
+/**
+ * Perfis disponíveis para importação: pré-definidos seguidos dos cadastrados.
+ */
+export async function loadImportProfiles(client: PrismaClient): Promise<CsvImportProfile[]> {
+  const saved = await client.importProfile.findMany({ orderBy: { name: "asc" } });
+  return [...PRESET_PROFILES, ...saved.map(toCsvImportProfile)];
+}
@@ -0,0 +1,72 @@
+import * as XLSX from "xlsx";
+import type { CsvRecord } from "./csv-reader";
+import type { SpreadsheetFormat } from "./types";
+
+export type SpreadsheetSheet = {
+  name: string;
+  records: CsvRecord[];
+};
+
+export const SPREADSHEET_EXTENSIONS: Record<string, SpreadsheetFormat> = {
+  ".xlsx": "xlsx",
+  ".xlsm": "xlsx",
+  ".xls": "xls",
+  ".ods": "ods",
+};
+
+function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Converte a célula para o texto que o mapeamento de colunas espera:
+ * datas em ISO (AAAA-MM-DD) e números sem formatação de milhar.
+ */
+function cellText(cell: XLSX.CellObject | undefined) {
+  if (!cell || cell.v === undefined || cell.v === null) {
+    return "";
+  }
+
+  if (cell.t === "n" && typeof cell.v === "number") {
+    if (cell.z && XLSX.SSF.is_date(cell.z)) {
+      const parsed = XLSX.SSF.parse_date_code(cell.v);
+      return parsed ? `${parsed.y}-${pad(parsed.m)}-${pad(parsed.d)}` : "";
+    }
+    return String(cell.v);
+  }
+
+  if (cell.t === "d" && cell.v instanceof Date) {
+    return `${cell.v.getFullYear()}-${pad(cell.v.getMonth() + 1)}-${pad(cell.v.getDate())}`;
+  }
+
+  return String(cell.w ?? cell.v).trim();
+}
+
+/**
+ * Lê todas as abas da planilha como registros, no mesmo formato produzido
+ * pelo leitor de CSV. Linhas vazias são descartadas, mas a numeração
+ * segue a da planilha.
+ */
+export function readSpreadsheet(buffer: Buffer): SpreadsheetSheet[] {
+  const workbook = XLSX.read(buffer, { type: "buffer", cellNF: true, cellDates: false });
+
+  return workbook.SheetNames.map((name) => {
+    const sheet = workbook.Sheets[name];
+    const records: CsvRecord[] = [];
+
+    if (sheet?.["!ref"]) {
+      const range = XLSX.utils.decode_range(sheet["!ref"]);
+      for (let row = range.s.r; row <= range.e.r; row += 1) {
+        const cells: string[] = [];
+        for (let column = range.s.c; column <= range.e.c; column += 1) {
+          cells.push(cellText(sheet[XLSX.utils.encode_cell({ r: row, c: column })] as XLSX.CellObject | undefined));
+        }
+        if (cells.some((cell) => cell.length > 0)) {
+          records.push({ cells, lineNumber: row + 1 });
+        }
+      }
+    }
+
+    return { name, records };
+  });
+}
@@ -0,0 +1,102 @@
+export const DEFAULT_PRODUCT_SERVICE = "Nao identificado (NI)";
+
+export type TextEncoding = "utf-8" | "latin1";
+
+export type DetectedEncoding = TextEncoding | "utf-16le" | "utf-16be";
+
+/**
+ * Descobre a codificação pelo BOM; sem BOM, usa UTF-8 quando os bytes são
+ * UTF-8 válido e, caso contrário, a codificação informada (exportações
+ * do Excel em pt-BR e OFX 1.x com CHARSET:1252 costumam vir em Windows-1252).
+ */
+export function detectEncoding(buffer: Buffer, fallback: TextEncoding): DetectedEncoding {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return "utf-16be";
+  }
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return "utf-8";
+  } catch {
+    return fallback === "utf-8" ? "latin1" : fallback;
+  }
+}
+
+export function decodeText(buffer: Buffer, fallback: TextEncoding) {
+  const encoding = detectEncoding(buffer, fallback);
+  // O TextDecoder "latin1" do WHATWG é, na prática, windows-1252.
+  const text = new TextDecoder(encoding).decode(buffer);
+  return text.replace(/^\uFEFF/, "");
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/** Entidades XML/HTML usadas em OFX e nos XML de notas fiscais. */
+export function decodeEntities(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(Number(entity.slice(1)));
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function normalizeWhitespaces(value: string) {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+export function stripObfuscation(value: string) {
+  return value.replace(/[•*]/g, "").trim();
+}
+
+export function normalizeAmount(value: string) {
+  const compact = value.replace(/\s/g, "");
+  // Alguns bancos usam o sinal no final ("150,00-") ou parênteses para débitos.
+  const negative = compact.startsWith("-") || compact.endsWith("-") || /^\(.*\)$/.test(compact);
+  const trimmed = compact.replace(/[^\d.,]/g, "");
+  const hasComma = trimmed.includes(",");
+  const hasDot = trimmed.includes(".");
+  let sanitized = trimmed;
+
+  if (hasComma && hasDot) {
+    if (trimmed.lastIndexOf(",") > trimmed.lastIndexOf(".")) {
+      sanitized = trimmed.replace(/\./g, "").replace(",", ".");
+    } else {
+      sanitized = trimmed.replace(/,/g, "");
+    }
+  } else if (hasComma) {
+    sanitized = trimmed.replace(/\./g, "").replace(",", ".");
+  } else {
+    sanitized = trimmed.replace(/,/g, "");
+  }
+
+  if (!sanitized) {
+    return NaN;
+  }
+
+  const parsed = Number(sanitized);
+  return negative ? -parsed : parsed;
+}
+
+export function normalizeText(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
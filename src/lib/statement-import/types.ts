@@ -0,0 +1,106 @@
+import type { ActivityType, MovementCategory } from "@prisma/client";
+import type { DuplicateMatch } from "../import-duplicates";
+import type { MemoKind } from "./memo";
+
+export type SpreadsheetFormat = "xlsx" | "xls" | "ods";
+
+export type PaymentMethod =
+  | "PIX"
+  | "DINHEIRO"
+  | "BOLETO"
+  | "CARTAO_CREDITO"
+  | "CARTAO_DEBITO"
+  | "CHEQUE"
+  | "TRANSFERENCIA"
+  | "OUTROS";
+
+/**
+ * Classificação sugerida a partir de lançamentos anteriores da empresa.
+ * `confidence` vai de 0 a 1.
+ */
+export type CategorySuggestion = {
+  movement: MovementCategory;
+  type: ActivityType;
+  productService: string;
+  confidence: number;
+  highConfidence: boolean;
+  source: "counterpart" | "description";
+  matches: number;
+};
+
+export type ParsedTransaction = {
+  date: string;
+  amount: number;
+  description: string;
+  reference: string;
+  counterpart: string;
+  /** CPF (mascarado) ou CNPJ encontrado no histórico. */
+  counterpartDocument?: string;
+  kind?: MemoKind;
+  productService: string;
+  paymentMethod: PaymentMethod;
+  movement: MovementCategory;
+  /** Preenchido por regra de categorização; sem regra, o lançamento é SERVICO. */
+  type?: ActivityType;
+  /** Categoria do plano de contas definida por regra de categorização. */
+  categoryId?: number | null;
+  rule?: { id: number; name: string };
+  suggestion?: CategorySuggestion;
+  duplicate?: DuplicateMatch | null;
+  /** Linhas que o leitor de PDF não conseguiu ler por completo. */
+  lowConfidence?: boolean;
+  issues?: string[];
+  raw: Record<string, unknown>;
+};
+
+export type StatementAccount = {
+  bankId?: string;
+  branchId?: string;
+  accountId?: string;
+  type?: string;
+};
+
+export type StatementBalance = {
+  amount: number;
+  date: string;
+};
+
+/**
+ * Um extrato de uma única conta. Arquivos OFX podem trazer vários (contas
+ * corrente, poupança e cartões do mesmo cliente).
+ */
+export type ParsedStatement = {
+  kind: "bank" | "creditcard";
+  currency?: string;
+  account?: StatementAccount;
+  sourceAccount?: string;
+  /** Conta cadastrada da empresa com o mesmo número (ACCTID). */
+  bankAccountId?: number | null;
+  startDate?: string;
+  endDate?: string;
+  ledgerBalance?: StatementBalance;
+  availableBalance?: StatementBalance;
+  transactions: ParsedTransaction[];
+};
+
+/**
+ * `account`, `sourceAccount` e `transactions` descrevem o extrato exibido
+ * na pré-visualização; em arquivos com várias contas ele é o primeiro de
+ * `statements`.
+ */
+export type ParsedExtract = {
+  filename: string;
+  format: "csv" | "ofx" | "pdf" | "cnab" | "xml" | SpreadsheetFormat;
+  currency?: string;
+  account?: StatementAccount;
+  sourceAccount?: string;
+  bankAccountId?: number | null;
+  profileId?: string;
+  templateId?: string;
+  sheets?: string[];
+  sheetName?: string;
+  statements?: ParsedStatement[];
+  /** Arquivos ou notas ignorados na importação de notas fiscais. */
+  warnings?: string[];
+  transactions: ParsedTransaction[];
+};
@@ -0,0 +1,116 @@
+import { inflateRawSync } from "zlib";
+
+export type ZipEntry = {
+  name: string;
+  content: Buffer;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Limites contra arquivos compactados maliciosos (zip bomb).
+const MAX_ENTRIES = 5000;
+const MAX_ENTRY_SIZE = 20 * 1024 * 1024;
+const MAX_TOTAL_SIZE = 50 * 1024 * 1024;
+
+export function isZipArchive(buffer: Buffer) {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer) {
+  // O registro tem 22 bytes mais um comentário de até 64 KB.
+  const lowerBound = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= lowerBound; offset -= 1) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("Arquivo ZIP invalido: diretorio central nao encontrado.");
+}
+
+/**
+ * Lê as entradas de um ZIP pelo diretório central. Só os métodos usados
+ * na prática (armazenado e deflate) são suportados; ZIP64 e arquivos
+ * criptografados são recusados. `accept` filtra pelo nome antes de
+ * descompactar. O total descompactado é limitado, não só cada arquivo.
+ */
+export function readZipEntries(buffer: Buffer, accept: (name: string) => boolean = () => true): ZipEntry[] {
+  const end = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("Arquivo ZIP64 nao suportado.");
+  }
+  if (count > MAX_ENTRIES) {
+    throw new Error(`O ZIP tem mais de ${MAX_ENTRIES} arquivos.`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+
+  for (let index = 0; index < count; index += 1) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Arquivo ZIP invalido: diretorio central corrompido.");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    // Bit 11: nome em UTF-8; sem ele, os compactadores do Windows usam CP437.
+    const name = buffer.subarray(offset + 46, offset + 46 + nameLength).toString(flags & 0x800 ? "utf-8" : "latin1");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || name.startsWith("__MACOSX/") || !accept(name)) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Arquivo ${name} do ZIP esta protegido por senha.`);
+    }
+    if (size > MAX_ENTRY_SIZE) {
+      throw new Error(`Arquivo ${name} do ZIP excede o tamanho maximo.`);
+    }
+    // O tamanho declarado pode ser falso; o limite da descompactação vale
+    // pelo que resta do total.
+    const remaining = MAX_TOTAL_SIZE - totalSize;
+    if (size > remaining) {
+      throw new Error("O conteudo do ZIP excede o tamanho maximo.");
+    }
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error("Arquivo ZIP invalido: cabecalho local nao encontrado.");
+    }
+
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = Buffer.from(data);
+    } else if (method === 8) {
+      try {
+        content = inflateRawSync(data, { maxOutputLength: Math.min(MAX_ENTRY_SIZE, remaining) });
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw new Error(`Arquivo ${name} do ZIP excede o tamanho maximo.`);
+        }
+        throw error;
+      }
+    } else {
+      throw new Error(`Arquivo ${name} do ZIP usa compactacao nao suportada.`);
+    }
+
+    totalSize += content.length;
+    if (totalSize > MAX_TOTAL_SIZE) {
+      throw new Error("O conteudo do ZIP excede o tamanho maximo.");
+    }
+    entries.push({ name, content });
+  }
+
+  return entries;
+}